@@ -0,0 +1,313 @@
+// Repair files from the command line with the same pipeline as the web app.
+//
+//   deno run --allow-read --allow-write cli/repair-files.ts [options] <file or directory>...
+//   node --experimental-transform-types cli/repair-files.ts [options] <file or directory>...
+//
+// Directories are walked for anything that looks like an Office document,
+// PDF or ZIP archive. Each repaired file is written next to its original, or
+// under --out-dir with the inputs' folder structure kept below the folder
+// they have in common. Outputs are named after the whole input name, so
+// report.doc becomes report.doc_recovered.docx and cannot collide with the
+// report_recovered.docx of a report.docx beside it. Existing files are never
+// overwritten without --force. Files are repaired one at a time so a large
+// backup does not have to fit in memory at once.
+//
+// Files in a walked directory that look like the output of an earlier run
+// are skipped, with a note on stderr; name one directly to repair it.
+//
+// Options:
+//   --out-dir <dir>   write outputs here instead of next to the originals
+//   --force           overwrite outputs left by an earlier run
+//   --media           also write salvaged images and embeddings to <output>_media/
+//   --markdown        recover Word text as Markdown when the package cannot be rebuilt
+//   --json            print the reports as a JSON array instead of one line per file
+//   --verbose         log each step of the repairs to stderr
+//
+// The exit code is the worst outcome across all files:
+//   0  every file was repaired completely
+//   1  the command could not run, e.g. bad arguments, a missing path or no
+//      repairable files at all
+//   2  at least one file was only partly recovered
+//   3  at least one file could not be recovered, or its output not written
+
+import { mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises";
+import { basename, dirname, extname, join, relative, resolve, sep } from "node:path";
+import process from "node:process";
+import { repairDocument, type RepairOutcome } from "../supabase/functions/repair-office-file/repair-core.ts";
+import type { RepairErrorCode } from "../supabase/functions/repair-office-file/errors.ts";
+import { silentLog, type RepairLog } from "../supabase/functions/repair-office-file/repair-log.ts";
+
+const REPAIRABLE_EXTENSIONS = new Set([
+  '.docx', '.xlsx', '.pptx', '.odt', '.ods', '.odp', '.zip', '.pdf', '.doc', '.xls', '.ppt', '.rtf',
+]);
+// Outputs of an earlier run sit next to their originals; walking them again
+// would repair the repairs
+const RECOVERED_SUFFIX = /_recovered\.[^.]+$/;
+const RECOVERED_MARK = '_recovered';
+
+const EXIT_SUCCESS = 0;
+const EXIT_USAGE = 1;
+const EXIT_PARTIAL = 2;
+const EXIT_FAILED = 3;
+
+interface CliOptions {
+  inputs: string[];
+  outDir: string | null;
+  force: boolean;
+  media: boolean;
+  markdown: boolean;
+  json: boolean;
+  verbose: boolean;
+}
+
+// A file to repair, with the root its output's place under --out-dir is
+// measured from
+interface InputFile {
+  path: string;
+  root: string;
+}
+
+// What was found to repair, and what was passed over
+interface CollectedInputs {
+  files: InputFile[];
+  skipped: string[];
+}
+
+interface FileReport {
+  input: string;
+  output: string | null;
+  media: string[];
+  detectedType: string | null;
+  status: 'success' | 'partial' | 'failed';
+  // Why nothing was recovered, on failed files
+  errorCode?: RepairErrorCode;
+  issues: string[];
+  diagnosis: string[];
+  report?: unknown;
+  recoveryStats?: unknown;
+}
+
+class UsageError extends Error {}
+// An output is already there and --force was not given
+class OutputExistsError extends Error {}
+
+function parseArguments(args: string[]): CliOptions {
+  const options: CliOptions = {
+    inputs: [], outDir: null, force: false, media: false, markdown: false, json: false, verbose: false,
+  };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--out-dir':
+        if (!args[i + 1]) throw new UsageError('--out-dir needs a directory');
+        options.outDir = resolve(args[++i]);
+        break;
+      case '--force':
+        options.force = true;
+        break;
+      case '--media':
+        options.media = true;
+        break;
+      case '--markdown':
+        options.markdown = true;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '--verbose':
+        options.verbose = true;
+        break;
+      default:
+        if (arg.startsWith('--')) throw new UsageError(`Unknown option ${arg}`);
+        options.inputs.push(resolve(arg));
+    }
+  }
+  if (options.inputs.length === 0) throw new UsageError('Name at least one file or directory to repair');
+  return options;
+}
+
+// Every repairable file under a directory, in a stable order
+async function walkDirectory(directory: string, root: string, collected: CollectedInputs): Promise<void> {
+  const entries = await readdir(directory, { withFileTypes: true });
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      await walkDirectory(path, root, collected);
+    } else if (entry.isFile() && REPAIRABLE_EXTENSIONS.has(extname(entry.name).toLowerCase())) {
+      if (RECOVERED_SUFFIX.test(entry.name)) collected.skipped.push(path);
+      else collected.files.push({ path, root });
+    }
+  }
+}
+
+// The deepest folder holding every input, so outputs from different folders
+// keep apart under --out-dir
+function commonRoot(paths: string[]): string {
+  const split = paths.map(path => path.split(sep));
+  let depth = 0;
+  while (split.every(parts => depth < parts.length && parts[depth] === split[0][depth])) depth++;
+  return split[0].slice(0, depth).join(sep) || sep;
+}
+
+// Files named directly are repaired whatever they are called
+async function collectInputs(inputs: string[]): Promise<CollectedInputs> {
+  const folders: string[] = [];
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => null);
+    if (!info) throw new UsageError(`${input} does not exist`);
+    folders.push(info.isDirectory() ? input : dirname(input));
+  }
+  const root = commonRoot(folders);
+
+  const collected: CollectedInputs = { files: [], skipped: [] };
+  for (const [i, input] of inputs.entries()) {
+    if (folders[i] === input) await walkDirectory(input, root, collected);
+    else collected.files.push({ path: input, root });
+  }
+  return collected;
+}
+
+function outputDirectory(file: InputFile, options: CliOptions): string {
+  if (!options.outDir) return dirname(file.path);
+  return join(options.outDir, relative(file.root, dirname(file.path)));
+}
+
+// report.doc repaired to a .docx is written as report.doc_recovered.docx
+function outputName(file: InputFile, repairedName: string): string {
+  return `${basename(file.path)}${RECOVERED_MARK}${extname(repairedName)}`;
+}
+
+// Write a file, refusing to replace one that is already there unless asked
+async function writeOutput(path: string, data: Uint8Array, options: CliOptions): Promise<void> {
+  try {
+    await writeFile(path, data, { flag: options.force ? 'w' : 'wx' });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    throw new OutputExistsError(`${path} already exists; pass --force to overwrite it`);
+  }
+}
+
+async function writeOutcome(file: InputFile, outcome: RepairOutcome, options: CliOptions): Promise<FileReport> {
+  const { result, output, media } = outcome;
+  const directory = outputDirectory(file, options);
+  const report: FileReport = {
+    input: file.path,
+    output: null,
+    media: [],
+    detectedType: outcome.detectedType,
+    status: result.status,
+    errorCode: result.errorCode,
+    issues: result.issues ?? [],
+    diagnosis: result.diagnosis ?? [],
+    report: result.report,
+    recoveryStats: result.recoveryStats,
+  };
+
+  const name = outputName(file, result.fileName);
+  if (output) {
+    await mkdir(directory, { recursive: true });
+    await writeOutput(join(directory, name), output, options);
+    report.output = join(directory, name);
+  }
+  if (options.media && media && media.length > 0) {
+    const mediaDirectory = join(directory, `${name.slice(0, -extname(name).length)}_media`);
+    for (const item of media) {
+      // Keep the package folders, which tell word/media from word/embeddings
+      const path = join(mediaDirectory, item.file.name);
+      await mkdir(dirname(path), { recursive: true });
+      await writeOutput(path, item.data, options);
+      report.media.push(path);
+    }
+  }
+  return report;
+}
+
+// Verbose runs log to stderr, since stdout carries the reports
+const stderrLog: RepairLog = {
+  info: (...args) => console.error(...args),
+  error: (...args) => console.error(...args),
+};
+
+async function repairInput(file: InputFile, options: CliOptions): Promise<FileReport> {
+  try {
+    const data = new Uint8Array(await readFile(file.path));
+    const outcome = await repairDocument({
+      file: { name: basename(file.path), type: '', size: data.length },
+      data,
+      textFormat: options.markdown ? 'markdown' : 'text',
+      log: options.verbose ? stderrLog : silentLog,
+    });
+    return await writeOutcome(file, outcome, options);
+  } catch (error) {
+    const refused = error instanceof OutputExistsError;
+    return {
+      input: file.path,
+      output: null,
+      media: [],
+      detectedType: null,
+      status: 'failed',
+      errorCode: refused ? undefined : 'internal_error',
+      issues: [refused ? error.message : `Repair failed: ${(error as Error).message}`],
+      diagnosis: [],
+    };
+  }
+}
+
+function exitCodeFor(reports: FileReport[]): number {
+  if (reports.some(report => report.status === 'failed')) return EXIT_FAILED;
+  if (reports.some(report => report.status === 'partial')) return EXIT_PARTIAL;
+  return EXIT_SUCCESS;
+}
+
+// One line per file, then its issues indented beneath it
+function describe(report: FileReport): string {
+  let line = `${report.status.toUpperCase().padEnd(7)} ${report.input}`;
+  if (report.errorCode) line += ` [${report.errorCode}]`;
+  if (report.output) line += ` -> ${report.output}`;
+  if (report.media.length > 0) line += ` (${report.media.length} media file(s))`;
+  return [line, ...report.issues.map(issue => `        ${issue}`)].join('\n');
+}
+
+async function main(): Promise<number> {
+  let options: CliOptions;
+  let files: InputFile[];
+  try {
+    options = parseArguments(process.argv.slice(2));
+    const collected = await collectInputs(options.inputs);
+    files = collected.files;
+    for (const path of collected.skipped) {
+      console.error(`Skipped ${path}, which looks like the output of an earlier run; name it directly to repair it`);
+    }
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    console.error(error.message);
+    console.error('Usage: repair-files [--out-dir <dir>] [--force] [--media] [--markdown] [--json] [--verbose] <file or directory>...');
+    return EXIT_USAGE;
+  }
+  if (files.length === 0) {
+    console.error('No repairable files found');
+    return EXIT_USAGE;
+  }
+
+  // The repairers behind the pipeline log each step straight to the console;
+  // keep that off stdout too
+  console.log = options.verbose ? console.error : () => {};
+
+  const reports: FileReport[] = [];
+  for (const file of files) {
+    const report = await repairInput(file, options);
+    reports.push(report);
+    if (!options.json) process.stdout.write(`${describe(report)}\n`);
+  }
+  if (options.json) process.stdout.write(`${JSON.stringify(reports, null, 2)}\n`);
+  return exitCodeFor(reports);
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(error);
+    process.exit(EXIT_USAGE);
+  }
+);
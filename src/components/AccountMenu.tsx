@@ -0,0 +1,40 @@
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { LogIn, LogOut, User } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+
+export const AccountMenu = () => {
+  const { user, loading, signOut } = useAuth();
+  const navigate = useNavigate();
+
+  if (loading) return null;
+  if (!user) {
+    return (
+      <Button variant="ghost" size="sm" asChild>
+        <Link to="/auth" className="flex items-center gap-1">
+          <LogIn className="h-3 w-3" />
+          Sign in
+        </Link>
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+      <User className="w-4 h-4" />
+      <span className="max-w-[12rem] truncate">{user.email}</span>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={async () => {
+          await signOut();
+          navigate('/auth');
+        }}
+        className="flex items-center gap-1"
+      >
+        <LogOut className="h-3 w-3" />
+        Sign out
+      </Button>
+    </div>
+  );
+};
@@ -1,59 +1,84 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { Upload, FileText, Table, Presentation, CheckCircle, AlertCircle, Download } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Upload, FileText, Table, Presentation, FolderOpen } from 'lucide-react';
+import { detectFileType } from '../../supabase/functions/repair-office-file/file-type.ts';
+import { salvageZip } from '../../supabase/functions/repair-office-file/zip-salvage.ts';
+
+export interface SelectedFile {
+  file: File;
+  // Path relative to the dropped folder, or just the file name
+  path: string;
+}
 
 interface FileUploadProps {
-  onFileProcessed: (result: RepairResult) => void;
+  onFilesSelected: (files: SelectedFile[]) => void;
 }
 
-interface RepairResult {
-  success: boolean;
-  fileName: string;
-  status: 'success' | 'partial' | 'failed';
-  issues?: string[];
-  repairedFile?: string; // base64 string from edge function
-  repairedFileBlob?: Blob; // converted blob for download
-  downloadUrl?: string;
-  preview?: {
-    content?: string;
-    extractedSheets?: string[];
-    extractedSlides?: number;
-    recoveredFiles?: string[];
-    fileSize?: number;
-  };
-  fileType?: 'DOCX' | 'XLSX' | 'PPTX' | 'ZIP' | 'PDF' | 'txt';
-  recoveryStats?: {
-    totalFiles: number;
-    recoveredFiles: number;
-    corruptedFiles: number;
-    originalSize?: number;
-    repairedSize?: number;
-    corruptionLevel?: string;
-    recoveredData?: number;
-  };
-}
+// Only the head of each file is read to recognise it; the repair makes the
+// final call on the full file
+const SNIFF_BYTES = 64 * 1024;
+
+// The formats the repair takes, as named to the user
+const ACCEPTED_FORMATS = ['DOCX', 'XLSX', 'PPTX', 'DOC', 'XLS', 'PPT', 'ODT', 'ODS', 'ODP', 'ZIP', 'PDF'];
+
+const listFormats = (conjunction: 'or' | 'and'): string =>
+  `${ACCEPTED_FORMATS.slice(0, -1).join(', ')}, ${conjunction} ${ACCEPTED_FORMATS[ACCEPTED_FORMATS.length - 1]}`;
+
+// Damaged files are often reported as application/octet-stream or carry the
+// wrong name, so the content decides first, with the detector the repair
+// itself uses; the claimed type still lets in files whose header is too
+// damaged to recognise.
+const isAcceptedFile = async (file: File): Promise<boolean> => {
+  try {
+    const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+    const fileType = detectFileType(head, file.type, file.name, () =>
+      salvageZip(head).entries.map(entry => entry.name)
+    );
+    return fileType !== 'unknown';
+  } catch (error) {
+    console.error('Error reading file header:', error);
+    return false;
+  }
+};
 
-const ACCEPTED_TYPES = {
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'DOCX',
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'XLSX',
-  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'PPTX',
-  'application/zip': 'ZIP',
-  'application/x-zip-compressed': 'ZIP',
-  'application/pdf': 'PDF'
+const readDirectoryEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+// Walk a dropped file or folder, returning every file beneath it with its
+// path relative to the drop.
+const collectEntryFiles = async (entry: FileSystemEntry, prefix = ''): Promise<SelectedFile[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    return [{ file, path: prefix + entry.name }];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const collected: SelectedFile[] = [];
+  // readEntries hands back a directory in batches until one comes back empty
+  for (let batch = await readDirectoryEntries(reader); batch.length > 0; batch = await readDirectoryEntries(reader)) {
+    for (const child of batch) {
+      collected.push(...await collectEntryFiles(child, `${prefix}${entry.name}/`));
+    }
+  }
+  return collected;
 };
 
-export const FileUpload = ({ onFileProcessed }: FileUploadProps) => {
+export const FileUpload = ({ onFilesSelected }: FileUploadProps) => {
   const [isDragActive, setIsDragActive] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
+  // React has no webkitdirectory prop, so the folder picker gets it directly
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
   const getFileIcon = (type: string) => {
     switch (type) {
       case 'DOCX': return <FileText className="w-8 h-8 text-primary" />;
@@ -63,309 +88,70 @@ export const FileUpload = ({ onFileProcessed }: FileUploadProps) => {
     }
   };
 
-  const repairZipStructure = async (arrayBuffer: ArrayBuffer): Promise<ArrayBuffer> => {
-    // Basic ZIP repair - try to find ZIP header and reconstruct
-    const uint8Array = new Uint8Array(arrayBuffer);
-    
-    // Look for ZIP file signature (PK header)
-    const pkHeader = [0x50, 0x4B, 0x03, 0x04];
-    let headerIndex = -1;
-    
-    for (let i = 0; i <= uint8Array.length - 4; i++) {
-      if (uint8Array[i] === pkHeader[0] && 
-          uint8Array[i + 1] === pkHeader[1] && 
-          uint8Array[i + 2] === pkHeader[2] && 
-          uint8Array[i + 3] === pkHeader[3]) {
-        headerIndex = i;
-        break;
-      }
-    }
-    
-    if (headerIndex > 0) {
-      // Found header, try to trim any garbage before it
-      return arrayBuffer.slice(headerIndex);
-    }
-    
-    // If no valid header found, return original
-    return arrayBuffer;
-  };
-
-  const repairDocumentXML = (content: string): string => {
-    try {
-      // Parse the XML to find content
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(content, 'text/xml');
-      
-      // If parsing fails, try to truncate to last valid paragraph
-      if (doc.querySelector('parsererror')) {
-        // Find the last complete paragraph tag
-        const lastParagraphMatch = content.lastIndexOf('</w:p>');
-        if (lastParagraphMatch !== -1) {
-          const truncatedContent = content.substring(0, lastParagraphMatch + 6);
-          // Add closing tags if needed
-          let repaired = truncatedContent;
-          if (!repaired.includes('</w:body>')) {
-            repaired += '</w:body>';
-          }
-          if (!repaired.includes('</w:document>')) {
-            repaired += '</w:document>';
-          }
-          return repaired;
-        }
-      }
-      
-      return content;
-    } catch {
-      // Fallback: create minimal document.xml
-      return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
-<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
-  <w:body>
-    <w:p>
-      <w:r>
-        <w:t>Document recovered with minimal content.</w:t>
-      </w:r>
-    </w:p>
-  </w:body>
-</w:document>`;
-    }
-  };
-
-  const validateAndRepairFile = async (file: File): Promise<RepairResult> => {
-    setProgress(10);
-    
-    try {
-      setProgress(20);
-      
-      // Create FormData to send file to backend
-      const formData = new FormData();
-      formData.append('file', file);
-      
-      setProgress(40);
-      
-      // Call the Edge Function
-      console.log('Calling edge function with file:', file.name);
-      const { data, error } = await supabase.functions.invoke('repair-office-file', {
-        body: formData,
-      });
-
-      setProgress(80);
-      console.log('Edge function response:', { data, error });
+  const handleFileSelect = async (selected: SelectedFile[]) => {
+    if (selected.length === 0) return;
 
-      if (error) {
-        console.error('Edge function error:', error);
-        throw new Error(`Failed to send a request to the Edge Function`);
-      }
-
-      if (!data) {
-        console.error('No data returned from edge function');
-        throw new Error('No data returned from edge function');
-      }
+    const checks = await Promise.all(selected.map(({ file }) => isAcceptedFile(file)));
+    const accepted = selected.filter((_, index) => checks[index]);
+    const skipped = selected.length - accepted.length;
 
-      setProgress(100);
-      
-      // Log the response structure
-      console.log('Edge function returned data:', {
-        success: data.success,
-        fileName: data.fileName,
-        repairedFileLength: data.repairedFile?.length || 0,
-        hasRepairedFile: !!data.repairedFile
+    if (accepted.length === 0) {
+      toast({
+        title: "Invalid file type",
+        description: `Please upload ${listFormats('or')} files.`,
+        variant: "destructive",
       });
-
-      // The edge function returns base64 content in repairedFile
-      if (data.repairedFile) {
-        // Convert base64 to blob for download
-        try {
-          const binaryString = atob(data.repairedFile);
-          const bytes = new Uint8Array(binaryString.length);
-          for (let i = 0; i < binaryString.length; i++) {
-            bytes[i] = binaryString.charCodeAt(i);
-          }
-          const blob = new Blob([bytes], { type: 'application/octet-stream' });
-          data.repairedFileBlob = blob;
-          console.log('Created blob with size:', blob.size);
-        } catch (decodeError) {
-          console.error('Error decoding base64:', decodeError);
-          // Fallback: treat as plain text
-          const blob = new Blob([data.repairedFile], { type: 'text/plain' });
-          data.repairedFileBlob = blob;
-        }
-      }
-
-      return data as RepairResult;
-
-    } catch (error) {
-      console.error('File processing error:', error);
-      throw new Error(`Failed to send a request to the Edge Function`);
-    }
-  };
-
-  const getEssentialFiles = (fileType: string): string[] => {
-    switch (fileType) {
-      case 'docx':
-        return [
-          '[Content_Types].xml',
-          '_rels/.rels',
-          'word/document.xml',
-          'word/_rels/document.xml.rels'
-        ];
-      case 'xlsx':
-        return [
-          '[Content_Types].xml',
-          '_rels/.rels',
-          'xl/workbook.xml',
-          'xl/_rels/workbook.xml.rels',
-          'xl/worksheets/sheet1.xml'
-        ];
-      case 'pptx':
-        return [
-          '[Content_Types].xml',
-          '_rels/.rels',
-          'ppt/presentation.xml',
-          'ppt/_rels/presentation.xml.rels'
-        ];
-      default:
-        return [];
+      return;
     }
-  };
 
-  const isValidXML = (content: string): boolean => {
-    try {
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(content, 'text/xml');
-      const error = doc.querySelector('parsererror');
-      return !error;
-    } catch {
-      return false;
+    if (skipped > 0) {
+      toast({
+        title: `Skipped ${skipped} file${skipped === 1 ? '' : 's'}`,
+        description: `Only ${listFormats('and')} files are repaired.`,
+      });
     }
-  };
 
-  const repairXML = (content: string): string => {
-    // Basic XML repair techniques
-    let repaired = content;
-    
-    // Fix unclosed tags (basic approach)
-    repaired = repaired.replace(/&(?!(?:amp|lt|gt|quot|apos);)/g, '&amp;');
-    
-    // Ensure XML declaration
-    if (!repaired.startsWith('<?xml')) {
-      repaired = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' + repaired;
-    }
-    
-    return repaired;
+    onFilesSelected(accepted);
   };
 
-  const generateMinimalContent = (filePath: string, fileType: string): string | null => {
-    // Generate minimal valid content for missing essential files
-    if (filePath === '[Content_Types].xml') {
-      return getMinimalContentTypes(fileType);
-    }
-    if (filePath === '_rels/.rels') {
-      return getMinimalRels(fileType);
-    }
-    // Add more minimal content generators as needed
-    return null;
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Folder picks carry their path in webkitRelativePath
+    handleFileSelect(files.map(file => ({ file, path: file.webkitRelativePath || file.name })));
+    e.target.value = '';
   };
 
-  const getMinimalContentTypes = (fileType: string): string => {
-    const base = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
-<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
-  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
-  <Default Extension="xml" ContentType="application/xml"/>`;
-    
-    switch (fileType) {
-      case 'docx':
-        return base + `
-  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
-</Types>`;
-      case 'xlsx':
-        return base + `
-  <Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
-</Types>`;
-      case 'pptx':
-        return base + `
-  <Override PartName="/ppt/presentation.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml"/>
-</Types>`;
-      default:
-        return base + '\n</Types>';
-    }
-  };
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragActive(false);
 
-  const getMinimalRels = (fileType: string): string => {
-    const base = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
-<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`;
-    
-    switch (fileType) {
-      case 'docx':
-        return base + `
-  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
-</Relationships>`;
-      case 'xlsx':
-        return base + `
-  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
-</Relationships>`;
-      case 'pptx':
-        return base + `
-  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="ppt/presentation.xml"/>
-</Relationships>`;
-      default:
-        return base + '\n</Relationships>';
-    }
-  };
+    // The entries have to be taken before the first await; the drop's data
+    // transfer is emptied once the event handler returns.
+    const entries = Array.from(e.dataTransfer.items ?? [])
+      .map(item => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => !!entry);
 
-  const handleFileSelect = async (files: FileList | null) => {
-    if (!files || files.length === 0) return;
-    
-    const file = files[0];
-    
-    // Validate file type
-    if (!Object.keys(ACCEPTED_TYPES).includes(file.type)) {
-      toast({
-        title: "Invalid file type",
-        description: "Please upload a DOCX, XLSX, PPTX, ZIP, or PDF file.",
-        variant: "destructive",
-      });
+    if (entries.length === 0) {
+      handleFileSelect(Array.from(e.dataTransfer.files).map(file => ({ file, path: file.name })));
       return;
     }
 
-    setIsProcessing(true);
-    setProgress(0);
-    
     try {
-      const result = await validateAndRepairFile(file);
-      onFileProcessed(result);
-      
-      if (result.success) {
-        toast({
-          title: "File processed successfully",
-          description: result.status === 'success' ? 
-            "File appears to be healthy or has been repaired." :
-            "File has been partially repaired. Check the details below.",
-        });
-      } else {
-        toast({
-          title: "Repair failed",
-          description: "The file is too corrupted to repair.",
-          variant: "destructive",
-        });
+      const selected: SelectedFile[] = [];
+      for (const entry of entries) {
+        selected.push(...await collectEntryFiles(entry));
       }
+      handleFileSelect(selected);
     } catch (error) {
+      console.error('Error reading dropped folder:', error);
       toast({
-        title: "Processing error",
-        description: "An unexpected error occurred while processing the file.",
+        title: "Could not read the dropped folder",
+        description: "Try choosing the files with the folder picker instead.",
         variant: "destructive",
       });
-    } finally {
-      setIsProcessing(false);
-      setProgress(0);
     }
   };
 
-  const handleDrop = (e: React.DragEvent) => {
-    e.preventDefault();
-    setIsDragActive(false);
-    handleFileSelect(e.dataTransfer.files);
-  };
-
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragActive(true);
@@ -389,56 +175,56 @@ export const FileUpload = ({ onFileProcessed }: FileUploadProps) => {
           onDragOver={handleDragOver}
           onDragLeave={handleDragLeave}
         >
-          {isProcessing ? (
-            <div className="space-y-4">
-              <div className="animate-pulse-soft">
-                <Upload className="w-12 h-12 text-primary mx-auto" />
-              </div>
-              <div className="space-y-2">
-                <p className="text-sm font-medium">Processing file...</p>
-                <Progress value={progress} className="w-full" />
-                <p className="text-xs text-muted-foreground">{progress}% complete</p>
-              </div>
+          <div className="space-y-6">
+            <div className="flex justify-center space-x-4">
+              {getFileIcon('docx')}
+              {getFileIcon('xlsx')}
+              {getFileIcon('pptx')}
+            </div>
+            
+            <div className="space-y-2">
+              <h3 className="text-lg font-semibold">Upload Corrupted Files</h3>
+              <p className="text-sm text-muted-foreground">
+                Drop {listFormats('or')} files or a whole folder here, or click to browse
+              </p>
             </div>
-          ) : (
-            <div className="space-y-6">
-              <div className="flex justify-center space-x-4">
-                {getFileIcon('docx')}
-                {getFileIcon('xlsx')}
-                {getFileIcon('pptx')}
-              </div>
-              
-              <div className="space-y-2">
-                <h3 className="text-lg font-semibold">Upload Corrupted File</h3>
-                <p className="text-sm text-muted-foreground">
-                  Drop your DOCX, XLSX, PPTX, ZIP, or PDF file here or click to browse
-                </p>
-              </div>
-              
-              <div className="flex flex-wrap justify-center gap-2">
-                <Badge variant="outline">Microsoft Word</Badge>
-                <Badge variant="outline">Microsoft Excel</Badge>
-                <Badge variant="outline">Microsoft PowerPoint</Badge>
-                <Badge variant="outline">ZIP Archives</Badge>
-                <Badge variant="outline">PDF Documents</Badge>
-              </div>
-              
+            
+            <div className="flex flex-wrap justify-center gap-2">
+              <Badge variant="outline">Microsoft Word</Badge>
+              <Badge variant="outline">Microsoft Excel</Badge>
+              <Badge variant="outline">Microsoft PowerPoint</Badge>
+              <Badge variant="outline">OpenDocument</Badge>
+              <Badge variant="outline">ZIP Archives</Badge>
+              <Badge variant="outline">PDF Documents</Badge>
+            </div>
+            
+            <div className="flex flex-wrap justify-center gap-3">
               <Button
                 onClick={() => fileInputRef.current?.click()}
                 className="bg-gradient-primary hover:shadow-medium transition-all duration-300"
               >
                 <Upload className="w-4 h-4 mr-2" />
-                Choose File
+                Choose Files
+              </Button>
+              <Button variant="outline" onClick={() => folderInputRef.current?.click()}>
+                <FolderOpen className="w-4 h-4 mr-2" />
+                Choose Folder
               </Button>
             </div>
-          )}
+          </div>
           
           <input
             ref={fileInputRef}
             type="file"
             className="hidden"
-            accept=".docx,.xlsx,.pptx,.zip,.pdf"
-            onChange={(e) => handleFileSelect(e.target.files)}
+            multiple
+            onChange={handleInputChange}
+          />
+          <input
+            ref={folderInputRef}
+            type="file"
+            className="hidden"
+            onChange={handleInputChange}
           />
         </div>
       </CardContent>
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Download, FileImage, Images, Loader2 } from "lucide-react";
+import { buildMediaArchive, mediaFileBlob, type MediaFile } from "@/lib/repair";
+
+interface MediaGalleryProps {
+  media: MediaFile[];
+  fileName: string;
+}
+
+// Formats every browser can draw; EMF, WMF, TIFF and embedded objects are
+// offered for download only
+const PREVIEWABLE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/bmp']);
+
+const saveBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const MediaGallery = ({ media, fileName }: MediaGalleryProps) => {
+  const [isArchiving, setIsArchiving] = useState(false);
+  const { toast } = useToast();
+
+  const formatFileSize = (bytes: number): string => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
+
+  const baseName = (name: string) => name.slice(name.lastIndexOf('/') + 1);
+
+  const download = async (item: MediaFile) => {
+    try {
+      saveBlob(await mediaFileBlob(item), baseName(item.name));
+    } catch (error) {
+      console.error('Error downloading media:', error);
+      toast({
+        title: "Download failed",
+        description: `${baseName(item.name)} could not be downloaded.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const downloadAll = async () => {
+    setIsArchiving(true);
+    try {
+      saveBlob(await buildMediaArchive(media), `${fileName.replace(/\.[^.]+$/, '')}_media.zip`);
+    } catch (error) {
+      console.error('Error building media archive:', error);
+      toast({
+        title: "Download failed",
+        description: "The recovered media could not be packed into a ZIP.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  return (
+    <div className="bg-muted/50 p-4 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-semibold flex items-center gap-2">
+          <Images className="h-4 w-4" />
+          Recovered Media ({media.length})
+        </h4>
+        {media.length > 1 && (
+          <Button variant="outline" size="sm" onClick={downloadAll} disabled={isArchiving} className="flex items-center gap-2">
+            {isArchiving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            Download All
+          </Button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+        {media.map(item => (
+          <div key={item.name} className="bg-background rounded border overflow-hidden flex flex-col">
+            <div className="aspect-square flex items-center justify-center bg-muted/30">
+              {PREVIEWABLE_TYPES.has(item.mimeType) ? (
+                <img
+                  src={item.url ?? `data:${item.mimeType};base64,${item.data}`}
+                  alt={baseName(item.name)}
+                  className="max-h-full max-w-full object-contain"
+                />
+              ) : (
+                <FileImage className="h-10 w-10 text-muted-foreground" />
+              )}
+            </div>
+            <div className="p-2 space-y-1">
+              <p className="font-mono text-xs break-all" title={item.name}>{baseName(item.name)}</p>
+              <p className="text-xs text-muted-foreground">{formatFileSize(item.size)}</p>
+              <div className="flex flex-wrap gap-1">
+                {!item.complete && <Badge className="bg-yellow-100 text-yellow-800">Partial</Badge>}
+                {item.inPackage && <Badge variant="secondary">In repaired file</Badge>}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full flex items-center gap-2"
+                onClick={() => download(item)}
+              >
+                <Download className="h-4 w-4" />
+                Download
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
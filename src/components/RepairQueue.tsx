@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CheckCircle,
+  AlertTriangle,
+  XCircle,
+  Download,
+  RefreshCw,
+  Clock,
+  Loader2,
+  ChevronDown,
+  ChevronUp,
+  Trash2
+} from "lucide-react";
+import { RepairResults } from "@/components/RepairResults";
+import { buildRepairedArchive, fetchRepairedFile, type RepairProgress, type RepairResult } from "@/lib/repair";
+import { REPAIR_ERROR_HELP } from "@/lib/repair-errors";
+import type { RepairQueueItem } from "@/hooks/use-repair-queue";
+
+interface RepairQueueProps {
+  items: RepairQueueItem[];
+  onRetry: (id: string) => void;
+  onReset: () => void;
+}
+
+const STAGE_LABELS: Record<RepairProgress['stage'], string> = {
+  uploading: 'Uploading',
+  queued: 'Waiting to start',
+  scanning: 'Scanning headers',
+  inflating: 'Inflating parts',
+  rebuilding: 'Rebuilding XML',
+  packaging: 'Packaging',
+  storing: 'Saving the repaired file',
+  done: 'Finishing',
+};
+
+export const RepairQueue = ({ items, onRetry, onReset }: RepairQueueProps) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isArchiving, setIsArchiving] = useState(false);
+  const { toast } = useToast();
+
+  const finished = items.filter(item => item.status === 'done' || item.status === 'error').length;
+  const downloadable = items.filter(
+    item => item.status === 'done' &&
+      (item.result?.repairedFileBlob || item.result?.downloadUrl)
+  );
+
+  const formatFileSize = (bytes: number): string => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
+
+  const downloadAll = async () => {
+    setIsArchiving(true);
+    try {
+      // Files repaired from storage are fetched before they can be packed
+      const files: { path: string; fileName: string; blob: Blob }[] = [];
+      for (const item of downloadable) {
+        const result = item.result as RepairResult;
+        files.push({ path: item.path, fileName: result.fileName, blob: (await fetchRepairedFile(result)) as Blob });
+      }
+      const archive = await buildRepairedArchive(files);
+      const url = URL.createObjectURL(archive);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'repaired_files.zip';
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error building archive:', error);
+      toast({
+        title: "Download failed",
+        description: "The repaired files could not be packed into a ZIP.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  const canRetry = (item: RepairQueueItem) =>
+    item.status === 'error' || (item.status === 'done' && item.result?.status === 'failed');
+
+  // Why the item failed, whether the request was refused or the repair ran
+  // and recovered nothing
+  const getErrorHelp = (item: RepairQueueItem) => {
+    const code = item.status === 'error' ? item.errorCode : item.result?.errorCode;
+    return code ? REPAIR_ERROR_HELP[code] : null;
+  };
+
+  const getItemIcon = (item: RepairQueueItem) => {
+    switch (item.status) {
+      case 'queued':
+        return <Clock className="h-5 w-5 text-muted-foreground" />;
+      case 'processing':
+        return <Loader2 className="h-5 w-5 text-primary animate-spin" />;
+      case 'error':
+        return <XCircle className="h-5 w-5 text-red-500" />;
+    }
+    switch (item.result?.status) {
+      case 'success':
+        return <CheckCircle className="h-5 w-5 text-green-500" />;
+      case 'partial':
+        return <AlertTriangle className="h-5 w-5 text-yellow-500" />;
+      default:
+        return <XCircle className="h-5 w-5 text-red-500" />;
+    }
+  };
+
+  const getItemBadge = (item: RepairQueueItem) => {
+    switch (item.status) {
+      case 'queued':
+        return <Badge variant="secondary">Queued</Badge>;
+      case 'processing':
+        return <Badge variant="secondary">Repairing</Badge>;
+      case 'error':
+        return <Badge variant="destructive">Error</Badge>;
+    }
+    switch (item.result?.status) {
+      case 'success':
+        return <Badge className="bg-green-100 text-green-800">Success</Badge>;
+      case 'partial':
+        return <Badge className="bg-yellow-100 text-yellow-800">Partial</Badge>;
+      default:
+        return <Badge variant="destructive">Failed</Badge>;
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-6">
+      <Card className="shadow-soft border-0 bg-gradient-card">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Repair Queue</span>
+            <span className="text-sm font-normal text-muted-foreground">
+              {finished} of {items.length} processed
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <Progress value={items.length === 0 ? 0 : (finished / items.length) * 100} className="w-full" />
+
+          <div className="flex flex-wrap gap-3 justify-center">
+            <Button
+              onClick={downloadAll}
+              disabled={downloadable.length === 0 || isArchiving}
+              className="flex items-center gap-2"
+            >
+              {isArchiving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              Download All as ZIP ({downloadable.length})
+            </Button>
+            <Button variant="outline" onClick={onReset} className="flex items-center gap-2">
+              <Trash2 className="h-4 w-4" />
+              Clear Queue
+            </Button>
+          </div>
+
+          <div className="space-y-3">
+            {items.map(item => {
+              const help = getErrorHelp(item);
+              return (
+                <div key={item.id} className="bg-muted/50 rounded-lg">
+                  <div className="flex items-center gap-3 p-4">
+                    {getItemIcon(item)}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate" title={item.path}>{item.path}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatFileSize(item.file.size)}
+                        {item.error && ` - ${item.error}`}
+                        {item.status === 'processing' && item.progress && ` - ${STAGE_LABELS[item.progress.stage]}`}
+                      </p>
+                      {item.status === 'processing' && item.progress && (
+                        <Progress value={item.progress.percent} className="h-1.5 mt-2" />
+                      )}
+                      {help && (
+                        <p className="text-xs mt-1">
+                          <span className="font-medium">{help.title}.</span> {help.nextStep}
+                        </p>
+                      )}
+                    </div>
+                    {item.local && <Badge variant="outline">Local</Badge>}
+                    {getItemBadge(item)}
+                    {canRetry(item) && (
+                      <Button variant="outline" size="sm" onClick={() => onRetry(item.id)} className="flex items-center gap-1">
+                        <RefreshCw className="h-3 w-3" />
+                        Retry
+                      </Button>
+                    )}
+                    {item.status === 'done' && item.result && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setExpandedId(expandedId === item.id ? null : item.id)}
+                        aria-label={expandedId === item.id ? 'Hide details' : 'Show details'}
+                      >
+                        {expandedId === item.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      </Button>
+                    )}
+                  </div>
+                  {expandedId === item.id && item.status === 'done' && item.result && (
+                    <div className="px-4 pb-4">
+                      <RepairResults result={item.result} />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -3,6 +3,16 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
+import { Progress } from "@/components/ui/progress";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
 import { 
   CheckCircle, 
   AlertTriangle, 
@@ -13,41 +23,18 @@ import {
   AlertCircle,
   FileCheck,
   Eye,
-  Info
+  Info,
+  ChevronDown,
+  ListChecks,
+  Stethoscope
 } from "lucide-react";
-
-interface RepairResult {
-  success: boolean;
-  fileName: string;
-  status: 'success' | 'partial' | 'failed';
-  issues?: string[];
-  repairedFile?: string; // base64 string from edge function
-  repairedFileBlob?: Blob; // converted blob for download
-  repairedFileV2?: Blob;
-  repairedFileUrl?: string;
-  downloadUrl?: string;
-  preview?: {
-    content?: string;
-    extractedSheets?: string[];
-    extractedSlides?: number;
-    recoveredFiles?: string[];
-    fileSize?: number;
-  };
-  fileType?: 'DOCX' | 'XLSX' | 'PPTX' | 'ZIP' | 'PDF' | 'txt';
-  recoveryStats?: {
-    totalFiles: number;
-    recoveredFiles: number;
-    corruptedFiles: number;
-    originalSize?: number;
-    repairedSize?: number;
-    corruptionLevel?: string;
-    recoveredData?: number;
-  };
-}
+import { MediaGallery } from "@/components/MediaGallery";
+import type { PartReport, RepairResult } from "@/lib/repair";
+import { REPAIR_ERROR_HELP } from "@/lib/repair-errors";
 
 interface RepairResultsProps {
   result: RepairResult;
-  onReset: () => void;
+  onReset?: () => void;
 }
 
 export const RepairResults = ({ result, onReset }: RepairResultsProps) => {
@@ -60,8 +47,8 @@ export const RepairResults = ({ result, onReset }: RepairResultsProps) => {
   };
 
   const downloadRepairedFile = () => {
-    if (result.downloadUrl || result.repairedFileUrl) {
-      window.open(result.downloadUrl || result.repairedFileUrl, '_blank');
+    if (result.downloadUrl) {
+      window.open(result.downloadUrl, '_blank');
     } else if (result.repairedFileBlob) {
       const url = URL.createObjectURL(result.repairedFileBlob);
       const a = document.createElement('a');
@@ -71,15 +58,6 @@ export const RepairResults = ({ result, onReset }: RepairResultsProps) => {
       a.click();
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
-    } else if (result.repairedFileV2) {
-      const url = URL.createObjectURL(result.repairedFileV2);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `repaired_${result.fileName}`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
     } else if (result.repairedFile) {
       // Handle base64 string - convert to blob first
       try {
@@ -126,6 +104,17 @@ export const RepairResults = ({ result, onReset }: RepairResultsProps) => {
     }
   };
 
+  const getCrcBadge = (crc: PartReport['crc']) => {
+    switch (crc) {
+      case 'ok':
+        return <Badge className="bg-green-100 text-green-800">OK</Badge>;
+      case 'mismatch':
+        return <Badge variant="destructive">Mismatch</Badge>;
+      default:
+        return <Badge variant="secondary">Unverified</Badge>;
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'success':
@@ -140,6 +129,7 @@ export const RepairResults = ({ result, onReset }: RepairResultsProps) => {
   };
 
   const getStatusMessage = (status: string) => {
+    if (status === 'failed' && result.errorCode) return `File repair failed - ${REPAIR_ERROR_HELP[result.errorCode].title.toLowerCase()}.`;
     switch (status) {
       case 'success':
         return 'File repair completed successfully!';
@@ -167,7 +157,7 @@ export const RepairResults = ({ result, onReset }: RepairResultsProps) => {
               {getStatusIcon(result.status)}
               <h3 className="text-xl font-semibold mt-4">{getStatusMessage(result.status)}</h3>
               <p className="text-muted-foreground mt-2">
-                {result.fileName} - {formatFileSize(result.preview?.fileSize || result.repairedFileBlob?.size || result.repairedFileV2?.size || result.recoveryStats?.repairedSize || 0)}
+                {result.fileName} - {formatFileSize(result.repairedFileBlob?.size || result.recoveryStats?.repairedSize || 0)}
               </p>
               {result.fileType && (
                 <Badge variant="outline" className="mt-2">
@@ -181,15 +171,17 @@ export const RepairResults = ({ result, onReset }: RepairResultsProps) => {
                 <Download className="h-4 w-4" />
                 Download Repaired File
               </Button>
-              <Button variant="outline" onClick={onReset} className="flex items-center gap-2">
-                <RefreshCw className="h-4 w-4" />
-                Try Another File
-              </Button>
+              {onReset && (
+                <Button variant="outline" onClick={onReset} className="flex items-center gap-2">
+                  <RefreshCw className="h-4 w-4" />
+                  Try Another File
+                </Button>
+              )}
             </div>
           </div>
 
           {/* Recovery Statistics */}
-          {result.recoveryStats && (
+          {result.recoveryStats?.totalFiles !== undefined && (
             <div className="bg-muted/50 p-4 rounded-lg">
               <h4 className="font-semibold mb-3 flex items-center gap-2">
                 <FileCheck className="h-4 w-4" />
@@ -212,6 +204,68 @@ export const RepairResults = ({ result, onReset }: RepairResultsProps) => {
             </div>
           )}
 
+          {/* Per-part Repair Report */}
+          {result.report && (
+            <div className="bg-muted/50 p-4 rounded-lg">
+              <h4 className="font-semibold mb-3 flex items-center gap-2">
+                <ListChecks className="h-4 w-4" />
+                Repair Report
+              </h4>
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Recovery score</span>
+                  <span className="font-medium">{result.report.score}%</span>
+                </div>
+                <Progress value={result.report.score} className="w-full" />
+                <p className="text-xs text-muted-foreground">
+                  Share of the original data carried into the repaired file.
+                </p>
+              </div>
+              <Collapsible className="mt-3">
+                <CollapsibleTrigger asChild>
+                  <Button variant="ghost" size="sm" className="flex items-center gap-2 px-0 [&[data-state=open]>svg]:rotate-180">
+                    <ChevronDown className="h-4 w-4 transition-transform" />
+                    Show all {result.report.parts.length} parts
+                  </Button>
+                </CollapsibleTrigger>
+                <CollapsibleContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Part</TableHead>
+                        <TableHead className="text-right">Original</TableHead>
+                        <TableHead className="text-right">Recovered</TableHead>
+                        <TableHead>CRC</TableHead>
+                        <TableHead>In output</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.report.parts.map(part => (
+                        <TableRow key={part.name}>
+                          <TableCell className="font-mono text-xs break-all">{part.name}</TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {part.originalSize === null ? '-' : formatFileSize(part.originalSize)}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">{formatFileSize(part.recoveredSize)}</TableCell>
+                          <TableCell>{getCrcBadge(part.crc)}</TableCell>
+                          <TableCell>
+                            {part.inOutput
+                              ? <CheckCircle className="h-4 w-4 text-green-500" />
+                              : <XCircle className="h-4 w-4 text-red-500" />}
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">
+                            {part.actions.length > 0 ? part.actions.join('; ') : 'Copied unchanged'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CollapsibleContent>
+              </Collapsible>
+            </div>
+          )}
+
           {/* Content Preview */}
           {result.preview && (
             <div className="bg-muted/50 p-4 rounded-lg">
@@ -220,13 +274,13 @@ export const RepairResults = ({ result, onReset }: RepairResultsProps) => {
                 Content Preview
               </h4>
               
-              {result.fileType === 'DOCX' && result.preview.content && (
+              {(result.fileType === 'DOCX' || result.fileType === 'ODT') && result.preview.content && (
                 <div className="bg-background p-3 rounded border text-sm font-mono">
                   {result.preview.content}
                 </div>
               )}
               
-              {result.fileType === 'XLSX' && result.preview.extractedSheets && (
+              {(result.fileType === 'XLSX' || result.fileType === 'ODS') && result.preview.extractedSheets && (
                 <div className="space-y-2">
                   <p className="text-sm text-muted-foreground">
                     Recovered {result.preview.extractedSheets.length} worksheets
@@ -241,15 +295,66 @@ export const RepairResults = ({ result, onReset }: RepairResultsProps) => {
                 </div>
               )}
               
-              {result.fileType === 'PPTX' && result.preview.extractedSlides !== undefined && (
+              {(result.fileType === 'PPTX' || result.fileType === 'ODP') && result.preview.extractedSlides !== undefined && (
                 <div className="text-center">
                   <div className="text-2xl font-bold text-primary">{result.preview.extractedSlides}</div>
-                  <div className="text-sm text-muted-foreground">Slides Recovered</div>
+                  <div className="text-sm text-muted-foreground">
+                    Slides Recovered
+                    {result.preview.referencedSlides !== undefined && ` of ${result.preview.referencedSlides} referenced`}
+                  </div>
+                </div>
+              )}
+
+              {result.fileType === 'PDF' && result.preview.extractedPages !== undefined && (
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-primary">{result.preview.extractedPages}</div>
+                  <div className="text-sm text-muted-foreground">Pages Recovered</div>
+                </div>
+              )}
+
+              {result.fileType === 'ZIP' && result.preview.recoveredFiles && (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">
+                    Recovered {result.preview.recoveredFiles.length} files
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {result.preview.recoveredFiles.slice(0, 20).map((name, index) => (
+                      <Badge key={index} variant="secondary">
+                        {name}
+                      </Badge>
+                    ))}
+                    {result.preview.recoveredFiles.length > 20 && (
+                      <Badge variant="outline">+{result.preview.recoveredFiles.length - 20} more</Badge>
+                    )}
+                  </div>
                 </div>
               )}
             </div>
           )}
 
+          {/* Recovered Media */}
+          {result.media && result.media.length > 0 && (
+            <MediaGallery media={result.media} fileName={result.fileName} />
+          )}
+
+          {/* Diagnosis */}
+          {result.diagnosis && result.diagnosis.length > 0 && (
+            <div className="bg-muted/50 p-4 rounded-lg">
+              <h4 className="font-semibold mb-3 flex items-center gap-2">
+                <Stethoscope className="h-4 w-4" />
+                Damage Found
+              </h4>
+              <div className="space-y-2">
+                {result.diagnosis.map((finding, index) => (
+                  <div key={index} className="flex items-start gap-2 text-sm">
+                    <XCircle className="h-4 w-4 text-red-500 mt-0.5 flex-shrink-0" />
+                    <span>{finding}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Issues */}
           {result.issues && result.issues.length > 0 && (
             <div className="bg-muted/50 p-4 rounded-lg">
@@ -285,7 +390,10 @@ export const RepairResults = ({ result, onReset }: RepairResultsProps) => {
                   <p>• Consider recovering from a recent backup if available.</p>
                 </>
               )}
-              {result.status === 'failed' && (
+              {result.status === 'failed' && result.errorCode && (
+                <p>• {REPAIR_ERROR_HELP[result.errorCode].nextStep}</p>
+              )}
+              {result.status === 'failed' && !result.errorCode && (
                 <>
                   <p>• Try using Microsoft Office's built-in repair feature.</p>
                   <p>• Restore from a recent backup if available.</p>
@@ -0,0 +1,25 @@
+import type { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+
+interface RequireAuthProps {
+  children: ReactNode;
+}
+
+// Repairs on the service run for a signed-in user, so pages that list them
+// send everyone else to the sign-in page, remembering where they were going
+export const RequireAuth = ({ children }: RequireAuthProps) => {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-surface">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+  if (!user) return <Navigate to="/auth" replace state={{ from: location.pathname }} />;
+  return <>{children}</>;
+};
@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { repairFile, type RepairOptions, type RepairProgress, type RepairResult } from '@/lib/repair';
+import { releaseRepairResult, repairFileLocally } from '@/lib/local-repair';
+import { RepairRequestError, type RepairErrorCode } from '@/lib/repair-errors';
+
+// Each repair is a full upload plus server-side rebuild, so a dropped folder
+// is worked through a few files at a time rather than all at once.
+const MAX_CONCURRENT_REPAIRS = 3;
+
+export type RepairQueueStatus = 'queued' | 'processing' | 'done' | 'error';
+
+export interface RepairQueueItem {
+  id: string;
+  file: File;
+  // Path relative to the dropped folder, or just the file name
+  path: string;
+  status: RepairQueueStatus;
+  // Repaired in this browser rather than by the repair service
+  local: boolean;
+  // Format of Word text recovered when the document cannot be rebuilt
+  textFormat: NonNullable<RepairOptions['textFormat']>;
+  // Stage reported while the file is processing
+  progress?: RepairProgress;
+  result?: RepairResult;
+  error?: string;
+  errorCode?: RepairErrorCode;
+}
+
+let nextItemId = 0;
+
+export function useRepairQueue() {
+  const [items, setItems] = useState<RepairQueueItem[]>([]);
+  // The latest items, for releasing results that are replaced or dropped
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
+  useEffect(() => () => itemsRef.current.forEach(item => releaseRepairResult(item.result)), []);
+
+  const updateItem = useCallback((id: string, changes: Partial<RepairQueueItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  useEffect(() => {
+    const active = items.filter(item => item.status === 'processing').length;
+    const next = items
+      .filter(item => item.status === 'queued')
+      .slice(0, Math.max(0, MAX_CONCURRENT_REPAIRS - active));
+    if (next.length === 0) return;
+
+    const starting = new Set(next.map(item => item.id));
+    setItems(prev =>
+      prev.map(item => (starting.has(item.id) ? { ...item, status: 'processing' } : item))
+    );
+
+    for (const item of next) {
+      const repair = item.local ? repairFileLocally : repairFile;
+      repair(item.file, {
+        textFormat: item.textFormat,
+        onProgress: progress => updateItem(item.id, { progress }),
+      })
+        .then(result => {
+          if (!itemsRef.current.some(current => current.id === item.id)) {
+            releaseRepairResult(result);
+            return;
+          }
+          updateItem(item.id, { status: 'done', result });
+        })
+        .catch((error: Error) => updateItem(item.id, {
+          status: 'error',
+          error: error.message,
+          errorCode: error instanceof RepairRequestError ? error.code : 'internal_error',
+        }));
+    }
+  }, [items, updateItem]);
+
+  const enqueue = useCallback((
+    files: { file: File; path: string }[],
+    { local = false, textFormat = 'text' }: Partial<Pick<RepairQueueItem, 'local' | 'textFormat'>> = {}
+  ) => {
+    setItems(prev => [
+      ...prev,
+      ...files.map(({ file, path }) => ({
+        id: `repair-${++nextItemId}`,
+        file,
+        path,
+        status: 'queued' as const,
+        local,
+        textFormat,
+      })),
+    ]);
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    releaseRepairResult(itemsRef.current.find(item => item.id === id)?.result);
+    updateItem(id, { status: 'queued', progress: undefined, result: undefined, error: undefined, errorCode: undefined });
+  }, [updateItem]);
+
+  // Repairs still in flight land on items that no longer exist and are dropped
+  const clear = useCallback(() => {
+    itemsRef.current.forEach(item => releaseRepairResult(item.result));
+    setItems([]);
+  }, []);
+
+  return { items, enqueue, retry, clear };
+}
@@ -14,13 +14,110 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      repair_jobs: {
+        Row: {
+          created_at: string
+          detected_type: string
+          id: string
+          issues: string[]
+          original_name: string
+          original_size: number | null
+          output_name: string | null
+          output_path: string | null
+          output_type: string | null
+          progress: number
+          report: Json | null
+          result: Json | null
+          source_path: string | null
+          stage: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          detected_type: string
+          id?: string
+          issues?: string[]
+          original_name: string
+          original_size?: number | null
+          output_name?: string | null
+          output_path?: string | null
+          output_type?: string | null
+          progress?: number
+          report?: Json | null
+          result?: Json | null
+          source_path?: string | null
+          stage?: string
+          status: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          detected_type?: string
+          id?: string
+          issues?: string[]
+          original_name?: string
+          original_size?: number | null
+          output_name?: string | null
+          output_path?: string | null
+          output_type?: string | null
+          progress?: number
+          report?: Json | null
+          result?: Json | null
+          source_path?: string | null
+          stage?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      repair_usage: {
+        Row: {
+          bytes: number
+          day: string
+          repairs: number
+          user_id: string
+        }
+        Insert: {
+          bytes?: number
+          day?: string
+          repairs?: number
+          user_id: string
+        }
+        Update: {
+          bytes?: number
+          day?: string
+          repairs?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      fail_stalled_repair_job: {
+        Args: {
+          _job_id: string
+          _stalled_after: unknown
+        }
+        Returns: undefined
+      }
+      start_repair_job: {
+        Args: {
+          _max_bytes: number
+          _max_repairs: number
+          _original_name: string
+          _original_size: number
+          _source_path: string
+          _user_id: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,62 @@
+import type { LocalRepairMessage, LocalRepairRequest } from '@/lib/local-repair.worker';
+import type { RepairOptions, RepairResult } from '@/lib/repair';
+import { RepairRequestError } from '@/lib/repair-errors';
+import {
+  parseRepairResult,
+  type RepairResult as ServiceRepairResult,
+} from '../../supabase/functions/repair-office-file/repair-result.ts';
+import { toRepairError } from '../../supabase/functions/repair-office-file/errors.ts';
+
+// Repair a file in a Web Worker on this machine. Nothing is uploaded and no
+// request is made, so the repair is not recorded in the history either; the
+// output and any salvaged media come back as blobs.
+export const repairFileLocally = (file: File, options: RepairOptions = {}): Promise<RepairResult> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./local-repair.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<LocalRepairMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        options.onProgress?.({ stage: message.stage, percent: message.percent });
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'error') {
+        reject(new RepairRequestError(message.code, `Local repair failed: ${message.message}`));
+        return;
+      }
+
+      const { output, media } = message.outcome;
+      let result: ServiceRepairResult;
+      try {
+        result = parseRepairResult(message.outcome.result);
+      } catch (error) {
+        const { code, message } = toRepairError(error);
+        reject(new RepairRequestError(code, message));
+        return;
+      }
+      resolve({
+        ...result,
+        repairedFileBlob: output ? new Blob([output], { type: 'application/octet-stream' }) : undefined,
+        media: media?.map(item => ({
+          ...item.file,
+          url: URL.createObjectURL(new Blob([item.data], { type: item.file.mimeType })),
+        })),
+      });
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new RepairRequestError('internal_error', `Local repair failed: ${event.message}`));
+    };
+
+    const request: LocalRepairRequest = { file, textFormat: options.textFormat ?? 'text' };
+    worker.postMessage(request);
+  });
+
+// Free the object URLs a local repair made for its salvaged media, once
+// nothing shows the result any more
+export const releaseRepairResult = (result: RepairResult | undefined): void => {
+  for (const item of result?.media ?? []) {
+    if (item.url?.startsWith('blob:')) URL.revokeObjectURL(item.url);
+  }
+};
@@ -0,0 +1,38 @@
+// Runs the repair pipeline shared with the edge function, so a file repaired
+// locally is read, rebuilt and handed back without leaving the browser.
+import { repairDocument, type RepairOutcome } from '../../supabase/functions/repair-office-file/repair-core.ts';
+import { stagePercent } from '../../supabase/functions/repair-office-file/progress.ts';
+import { toRepairError, type RepairErrorCode } from '../../supabase/functions/repair-office-file/errors.ts';
+import type { RepairJobStage } from '@/lib/repair-history';
+
+export interface LocalRepairRequest {
+  file: File;
+  textFormat: 'text' | 'markdown';
+}
+
+export type LocalRepairMessage =
+  | { type: 'progress'; stage: RepairJobStage; percent: number }
+  | { type: 'done'; outcome: RepairOutcome }
+  | { type: 'error'; code: RepairErrorCode; message: string };
+
+const post = (message: LocalRepairMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = async (event: MessageEvent<LocalRepairRequest>) => {
+  const { file, textFormat } = event.data;
+  try {
+    const data = new Uint8Array(await file.arrayBuffer());
+    const outcome = await repairDocument(
+      { file: { name: file.name, type: file.type, size: file.size }, data, textFormat },
+      (stage, fraction) => post({ type: 'progress', stage, percent: stagePercent(stage, fraction) })
+    );
+    // The output and media are not needed here again, so hand over their
+    // buffers rather than copying them
+    const buffers = [outcome.output, ...(outcome.media ?? []).map(item => item.data)]
+      .filter((bytes): bytes is Uint8Array => bytes !== null)
+      .map(bytes => bytes.buffer);
+    post({ type: 'done', outcome }, [...new Set(buffers)]);
+  } catch (error) {
+    const { code, message } = toRepairError(error);
+    post({ type: 'error', code, message });
+  }
+};
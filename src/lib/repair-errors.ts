@@ -0,0 +1,69 @@
+import type { RepairErrorCode as ServiceErrorCode } from '../../supabase/functions/repair-office-file/errors.ts';
+
+// The codes the repair service answers with, plus the one for a request that
+// never reached it
+export type RepairErrorCode = ServiceErrorCode | 'network_error';
+
+// A repair that could not be done, with the reason as a stable code so the
+// UI can offer the right next step whatever the message says
+export class RepairRequestError extends Error {
+  readonly code: RepairErrorCode;
+
+  constructor(code: RepairErrorCode, message: string) {
+    super(message);
+    this.name = 'RepairRequestError';
+    this.code = code;
+  }
+}
+
+export interface RepairErrorHelp {
+  title: string;
+  nextStep: string;
+}
+
+export const REPAIR_ERROR_HELP: Record<RepairErrorCode, RepairErrorHelp> = {
+  no_file: {
+    title: 'No file was received',
+    nextStep: 'Choose the file again and retry.',
+  },
+  unauthenticated: {
+    title: 'You are signed out',
+    nextStep: 'Sign in again, then retry the repair.',
+  },
+  forbidden: {
+    title: 'This file belongs to another account',
+    nextStep: 'Upload the file from your own account.',
+  },
+  too_large: {
+    title: 'The file is too large',
+    nextStep: 'Turn on "Repair locally" to repair it on this computer, or use the command-line tool.',
+  },
+  unsupported_format: {
+    title: 'This file type is not supported',
+    nextStep: 'Check that it is a Word, Excel, PowerPoint, OpenDocument, PDF or ZIP file; renamed files keep their original format.',
+  },
+  no_recoverable_content: {
+    title: 'Nothing could be recovered',
+    nextStep: 'Restore the file from a backup or an earlier version, or try the application\'s own Open and Repair.',
+  },
+  quota_exceeded: {
+    title: 'Daily repair limit reached',
+    nextStep: 'Try again tomorrow, or turn on "Repair locally", which does not count towards the limit.',
+  },
+  internal_error: {
+    title: 'The repair service hit an error',
+    nextStep: 'Retry the repair; if it fails again, turn on "Repair locally".',
+  },
+  unavailable: {
+    title: 'The repair service is busy',
+    nextStep: 'Wait a few minutes and retry.',
+  },
+  timeout: {
+    title: 'The repair took too long',
+    nextStep: 'Turn on "Repair locally" to repair it on this computer without a time limit.',
+  },
+  network_error: {
+    title: 'The repair service could not be reached',
+    nextStep: 'Check your connection and retry.',
+  },
+};
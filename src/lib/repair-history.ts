@@ -0,0 +1,109 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { RepairRequestError } from '@/lib/repair-errors';
+
+export type RepairJob = Tables<'repair_jobs'>;
+
+export interface RepairJobFilters {
+  status?: string;
+  detectedType?: string;
+}
+
+// Stages a background repair reports on its job row, in order
+export type RepairJobStage = 'queued' | 'scanning' | 'inflating' | 'rebuilding' | 'packaging' | 'storing' | 'done';
+
+const REPAIR_BUCKET = 'file-repairs';
+// Re-download links only need to outlive the click that asked for them
+const DOWNLOAD_URL_SECONDS = 60;
+const POLL_INTERVAL_MS = 1000;
+// A job whose row has not changed for this long has lost its worker
+const STALLED_JOB_MS = 3 * 60 * 1000;
+
+// Row level security limits the jobs to the signed-in user's own
+export const listRepairJobs = async (filters: RepairJobFilters = {}): Promise<RepairJob[]> => {
+  let query = supabase
+    .from('repair_jobs')
+    .select('*')
+    .order('created_at', { ascending: false });
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.detectedType) query = query.eq('detected_type', filters.detectedType);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Could not load the repair history: ${error.message}`);
+  return data;
+};
+
+// Follow a background repair until it finishes, reporting each change of
+// stage, and return its finished row. A repair that stops responding is
+// closed as timed out, so its row does not stay processing in the history.
+export const waitForRepairJob = async (
+  id: string,
+  onProgress?: (stage: RepairJobStage, percent: number) => void
+): Promise<RepairJob> => {
+  let lastChange = Date.now();
+  let lastUpdate = '';
+  let closed = false;
+  for (;;) {
+    const { data, error } = await supabase.from('repair_jobs').select('*').eq('id', id).maybeSingle();
+    if (error) throw new Error(`Could not check on the repair: ${error.message}`);
+    if (!data) throw new Error('The repair job was deleted before it finished');
+    if (data.status !== 'processing') return data;
+
+    if (data.updated_at !== lastUpdate) {
+      lastUpdate = data.updated_at;
+      lastChange = Date.now();
+      onProgress?.(data.stage as RepairJobStage, data.progress);
+    } else if (Date.now() - lastChange > STALLED_JOB_MS) {
+      if (closed) throw new RepairRequestError('timeout', 'The repair stopped responding');
+      // The next poll finds the row failed, with a timeout result
+      closed = true;
+      const { error: closeError } = await supabase.rpc('fail_stalled_repair_job', {
+        _job_id: id,
+        _stalled_after: `${STALLED_JOB_MS / 1000} seconds`,
+      });
+      if (closeError) throw new RepairRequestError('timeout', 'The repair stopped responding');
+      continue;
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+};
+
+export const repairJobDownloadUrl = async (job: RepairJob): Promise<string> => {
+  if (!job.output_path) throw new Error(`No repaired file was kept for ${job.original_name}`);
+  const { data, error } = await supabase.storage
+    .from(REPAIR_BUCKET)
+    .createSignedUrl(job.output_path, DOWNLOAD_URL_SECONDS, { download: job.output_name ?? true });
+  if (error || !data) throw new Error(`Could not create a download link: ${error?.message ?? 'no URL'}`);
+  return data.signedUrl;
+};
+
+// Delete a job along with the files it kept in storage. Salvaged media sits
+// in the same folder as the repaired file and goes with it.
+export const deleteRepairJob = async (job: RepairJob): Promise<void> => {
+  const paths: string[] = [];
+  if (job.source_path) paths.push(job.source_path);
+  if (job.output_path) {
+    const folder = job.output_path.slice(0, job.output_path.lastIndexOf('/'));
+    paths.push(...(await listFolder(folder)));
+  }
+  if (paths.length > 0) {
+    const { error } = await supabase.storage.from(REPAIR_BUCKET).remove(paths);
+    if (error) throw new Error(`Could not delete the stored files: ${error.message}`);
+  }
+
+  const { error } = await supabase.from('repair_jobs').delete().eq('id', job.id);
+  if (error) throw new Error(`Could not delete the repair job: ${error.message}`);
+};
+
+// Every object under a folder; storage lists one level at a time
+const listFolder = async (folder: string): Promise<string[]> => {
+  const { data, error } = await supabase.storage.from(REPAIR_BUCKET).list(folder, { limit: 1000 });
+  if (error) throw new Error(`Could not list ${folder}: ${error.message}`);
+  const paths: string[] = [];
+  for (const entry of data) {
+    // Folders have no id
+    if (entry.id) paths.push(`${folder}/${entry.name}`);
+    else paths.push(...(await listFolder(`${folder}/${entry.name}`)));
+  }
+  return paths;
+};
@@ -0,0 +1,20 @@
+import { describe, expect, it, vi } from 'vitest';
+import { repairedArchiveNames } from '@/lib/repair';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+describe('repairedArchiveNames', () => {
+  it('names each file after the repaired output, inside the dropped folder', () => {
+    expect(repairedArchiveNames([
+      { path: 'reports/2019/budget.doc', fileName: 'budget_recovered.docx' },
+      { path: 'reports/notes.docx', fileName: 'notes_recovered.txt' },
+    ])).toEqual(['reports/2019/budget_recovered.docx', 'reports/notes_recovered.txt']);
+  });
+
+  it('keeps both of two files that repair to the same name', () => {
+    expect(repairedArchiveNames([
+      { path: 'a/report.docx', fileName: 'report_recovered.docx' },
+      { path: 'a/report.docx', fileName: 'report_recovered.docx' },
+    ])).toEqual(['a/report_recovered.docx', 'a/report_recovered (2).docx']);
+  });
+});
@@ -0,0 +1,213 @@
+import JSZip from 'jszip';
+import { supabase } from '@/integrations/supabase/client';
+import { uploadResumable } from '@/lib/resumable-upload';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { waitForRepairJob, type RepairJobStage } from '@/lib/repair-history';
+import { RepairRequestError } from '@/lib/repair-errors';
+import {
+  parseRepairResult,
+  type MediaFile,
+  type RepairResult as ServiceRepairResult,
+} from '../../supabase/functions/repair-office-file/repair-result.ts';
+
+// Files above this size are uploaded to storage first instead of being
+// posted to the edge function, which would have to hold the whole request
+const STORAGE_UPLOAD_THRESHOLD = 6 * 1024 * 1024;
+const REPAIR_BUCKET = 'file-repairs';
+
+export type { MediaFile, PartReport, RepairReport } from '../../supabase/functions/repair-office-file/repair-result.ts';
+
+// A repair result as the page holds it: the service's result, with the
+// repaired file decoded into a blob when it came back inline
+export type RepairResult = ServiceRepairResult & {
+  repairedFileBlob?: Blob;
+};
+
+// Where a repair has got to: uploading to storage, or a stage of the repair
+// itself. `percent` covers the whole repair, upload excluded.
+export interface RepairProgress {
+  stage: 'uploading' | RepairJobStage;
+  percent: number;
+}
+
+export interface RepairOptions {
+  // Format of text recovered from Word documents that cannot be rebuilt
+  textFormat?: 'text' | 'markdown';
+  onProgress?: (progress: RepairProgress) => void;
+}
+
+export const repairFile = async (file: File, options: RepairOptions = {}): Promise<RepairResult> => {
+  try {
+    let body: FormData | Record<string, string | boolean | undefined>;
+    if (file.size > STORAGE_UPLOAD_THRESHOLD) {
+      // Large files go to storage in resumable chunks, and the edge function
+      // is told where to find them
+      console.log('Uploading large file to storage:', file.name);
+      // Storage only accepts uploads into the user's own folder
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new RepairRequestError('unauthenticated', 'Sign in to repair files');
+      const storagePath = await uploadResumable(file, {
+        bucket: REPAIR_BUCKET,
+        path: `${session.user.id}/uploads/${crypto.randomUUID()}/${file.name}`,
+        onProgress: (uploaded, total) =>
+          options.onProgress?.({ stage: 'uploading', percent: Math.round((uploaded / total) * 100) }),
+      }).catch((uploadError: Error) => {
+        throw new RepairRequestError('network_error', `Uploading ${file.name} failed: ${uploadError.message}`);
+      });
+      body = {
+        storagePath,
+        fileName: file.name,
+        mimeType: file.type,
+        textFormat: options.textFormat,
+        async: true,
+      };
+    } else {
+      // Create FormData to send file to backend
+      const formData = new FormData();
+      formData.append('file', file);
+      if (options.textFormat) formData.append('textFormat', options.textFormat);
+      formData.append('async', 'true');
+      body = formData;
+    }
+
+    // Call the Edge Function
+    console.log('Calling edge function with file:', file.name);
+    const response = await supabase.functions.invoke('repair-office-file', { body });
+    const { error } = response;
+    let { data } = response;
+
+    console.log('Edge function response:', { data, error });
+
+    if (error) {
+      console.error('Edge function error:', error);
+      if (!(error instanceof FunctionsHttpError)) {
+        throw new RepairRequestError('network_error', 'The repair service could not be reached');
+      }
+      // Errors come back as { code, error }, with the failed result when the
+      // repair ran but recovered nothing
+      const failure = await error.context.json().catch(() => null);
+      if (!failure?.result) {
+        throw new RepairRequestError(
+          failure?.code ?? 'internal_error',
+          failure?.error ?? `The repair service answered with status ${error.context.status}`
+        );
+      }
+      data = failure.result;
+    }
+
+    // The repair runs in the background; its result lands on the job row
+    if (data?.jobId) {
+      options.onProgress?.({ stage: 'queued', percent: 0 });
+      const job = await waitForRepairJob(data.jobId, (stage, percent) => options.onProgress?.({ stage, percent }));
+      data = job.result;
+    }
+
+    if (!data) {
+      console.error('No data returned from edge function');
+      throw new RepairRequestError('internal_error', 'The repair service returned no result');
+    }
+    // The result is checked against the shared contract before anything
+    // reads it, so a mismatch names the field rather than breaking the page
+    const result: RepairResult = parseRepairResult(data);
+
+    // Log the response structure
+    console.log('Edge function returned data:', {
+      success: result.success,
+      fileName: result.fileName,
+      repairedFileLength: result.repairedFile?.length || 0,
+      hasRepairedFile: !!result.repairedFile
+    });
+
+    // The edge function returns base64 content in repairedFile
+    if (result.repairedFile) {
+      // Convert base64 to blob for download
+      try {
+        const binaryString = atob(result.repairedFile);
+        const bytes = new Uint8Array(binaryString.length);
+        for (let i = 0; i < binaryString.length; i++) {
+          bytes[i] = binaryString.charCodeAt(i);
+        }
+        const blob = new Blob([bytes], { type: 'application/octet-stream' });
+        result.repairedFileBlob = blob;
+        console.log('Created blob with size:', blob.size);
+      } catch (decodeError) {
+        console.error('Error decoding base64:', decodeError);
+        // Fallback: treat as plain text
+        const blob = new Blob([result.repairedFile], { type: 'text/plain' });
+        result.repairedFileBlob = blob;
+      }
+    }
+
+    return result;
+
+  } catch (error) {
+    console.error('File processing error:', error);
+    if (error instanceof RepairRequestError) throw error;
+    throw new RepairRequestError('internal_error', (error as Error).message);
+  }
+};
+
+// Name a repaired file after the output the repair produced, which may be of
+// another format than the upload, keeping any folder path from a directory
+// drop so the archive mirrors what was uploaded.
+export const repairedFileName = (path: string, outputName: string): string => {
+  const slash = path.lastIndexOf('/');
+  return `${path.slice(0, slash + 1)}${outputName.slice(outputName.lastIndexOf('/') + 1)}`;
+};
+
+// Archive names for repaired files, numbering any that would clash since two
+// drops can carry the same file name
+export const repairedArchiveNames = (files: { path: string; fileName: string }[]): string[] => {
+  const used = new Set<string>();
+  return files.map(({ path, fileName }) => {
+    const repaired = repairedFileName(path, fileName);
+    let name = repaired;
+    for (let n = 2; used.has(name); n++) {
+      name = repaired.replace(/(\.[^./]*)?$/, ` (${n})$1`);
+    }
+    used.add(name);
+    return name;
+  });
+};
+
+export const buildRepairedArchive = async (
+  files: { path: string; fileName: string; blob: Blob }[]
+): Promise<Blob> => {
+  const zip = new JSZip();
+  const names = repairedArchiveNames(files);
+  files.forEach(({ blob }, index) => zip.file(names[index], blob));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+// The repaired file as a blob, fetched from storage if it was left there
+export const fetchRepairedFile = async (result: RepairResult): Promise<Blob | undefined> => {
+  if (result.repairedFileBlob) return result.repairedFileBlob;
+  if (!result.downloadUrl) return undefined;
+  const response = await fetch(result.downloadUrl);
+  if (!response.ok) throw new Error(`Downloading ${result.fileName} failed with status ${response.status}`);
+  return response.blob();
+};
+
+export const mediaFileBlob = async (media: MediaFile): Promise<Blob> => {
+  if (media.url) {
+    const response = await fetch(media.url);
+    if (!response.ok) throw new Error(`Downloading ${media.name} failed with status ${response.status}`);
+    return response.blob();
+  }
+  const binaryString = atob(media.data ?? '');
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: media.mimeType });
+};
+
+// Media from different folders can share a file name (word/media/image1.png
+// and word/embeddings/image1.png), so the archive keeps the package paths
+export const buildMediaArchive = async (media: MediaFile[]): Promise<Blob> => {
+  const zip = new JSZip();
+  for (const item of media) {
+    zip.file(item.name, await mediaFileBlob(item));
+  }
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
@@ -0,0 +1,135 @@
+// Resumable uploads to Supabase Storage over its TUS endpoint. The file is
+// sent in chunks, and a chunk that fails is retried from the offset the
+// server reports, so a dropped connection costs one chunk rather than the
+// whole upload. Each upload is authorised by a signed upload token, and is
+// remembered by file so that retrying a failed repair carries on where the
+// last attempt stopped instead of starting again.
+
+import { supabase } from '@/integrations/supabase/client';
+
+// Supabase Storage requires every chunk but the last to be exactly 6 MB
+const CHUNK_BYTES = 6 * 1024 * 1024;
+const RETRY_DELAYS_MS = [1000, 3000, 5000, 10000];
+// Signed upload tokens last two hours; give up on an upload well before
+const RESUME_WINDOW_MS = 90 * 60 * 1000;
+const TUS_VERSION = '1.0.0';
+const STORAGE_KEY_PREFIX = 'resumable-upload:';
+
+interface StoredUpload {
+  uploadUrl: string;
+  path: string;
+  token: string;
+  createdAt: number;
+}
+
+export interface ResumableUploadOptions {
+  bucket: string;
+  // Object path for a new upload; an upload being resumed keeps its own
+  path: string;
+  onProgress?: (uploaded: number, total: number) => void;
+}
+
+const fingerprint = (file: File, bucket: string) =>
+  `${STORAGE_KEY_PREFIX}${bucket}:${file.name}:${file.size}:${file.lastModified}`;
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}`)
+    .join(',');
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const loadUpload = (key: string): StoredUpload | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) || 'null') as StoredUpload | null;
+    return stored && Date.now() - stored.createdAt < RESUME_WINDOW_MS ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+// Start a TUS upload and return the URL its chunks are sent to
+const createUpload = async (file: File, bucket: string, path: string): Promise<StoredUpload> => {
+  const { data, error } = await supabase.storage.from(bucket).createSignedUploadUrl(path);
+  if (error || !data) throw new Error(`Could not start the upload: ${error?.message ?? 'no upload URL'}`);
+
+  // The signed URL is <storage>/object/upload/sign/<bucket>/<path>?token=...
+  const storageUrl = data.signedUrl.slice(0, data.signedUrl.indexOf('/object/upload/sign/'));
+  const response = await fetch(`${storageUrl}/upload/resumable/sign`, {
+    method: 'POST',
+    headers: {
+      'Tus-Resumable': TUS_VERSION,
+      'Upload-Length': String(file.size),
+      'Upload-Metadata': encodeMetadata({
+        bucketName: bucket,
+        objectName: data.path,
+        contentType: file.type || 'application/octet-stream',
+      }),
+      'x-signature': data.token,
+      'x-upsert': 'true',
+    },
+  });
+  const location = response.headers.get('Location');
+  if (response.status !== 201 || !location) {
+    throw new Error(`Could not start the upload: status ${response.status}`);
+  }
+  return { uploadUrl: new URL(location, storageUrl).toString(), path: data.path, token: data.token, createdAt: Date.now() };
+};
+
+// How much of an upload the server already holds, or null if it has none
+const fetchOffset = async (upload: StoredUpload): Promise<number | null> => {
+  const response = await fetch(upload.uploadUrl, {
+    method: 'HEAD',
+    headers: { 'Tus-Resumable': TUS_VERSION, 'x-signature': upload.token },
+  });
+  const offset = response.headers.get('Upload-Offset');
+  return response.ok && offset !== null ? Number(offset) : null;
+};
+
+const sendChunk = async (upload: StoredUpload, file: File, offset: number): Promise<number> => {
+  const response = await fetch(upload.uploadUrl, {
+    method: 'PATCH',
+    headers: {
+      'Tus-Resumable': TUS_VERSION,
+      'Upload-Offset': String(offset),
+      'Content-Type': 'application/offset+octet-stream',
+      'x-signature': upload.token,
+    },
+    body: file.slice(offset, offset + CHUNK_BYTES),
+  });
+  const next = response.headers.get('Upload-Offset');
+  if (response.status !== 204 || next === null) throw new Error(`Chunk upload failed with status ${response.status}`);
+  return Number(next);
+};
+
+// Upload a file and return its object path in the bucket
+export const uploadResumable = async (file: File, options: ResumableUploadOptions): Promise<string> => {
+  const key = fingerprint(file, options.bucket);
+  let upload = loadUpload(key);
+  let offset = upload ? await fetchOffset(upload).catch(() => null) : null;
+  if (!upload || offset === null) {
+    upload = await createUpload(file, options.bucket, options.path);
+    offset = 0;
+    localStorage.setItem(key, JSON.stringify(upload));
+  } else {
+    console.log(`Resuming upload of ${file.name} at ${offset} of ${file.size} bytes`);
+  }
+
+  let failures = 0;
+  while (offset < file.size) {
+    try {
+      offset = await sendChunk(upload, file, offset);
+      failures = 0;
+      options.onProgress?.(offset, file.size);
+    } catch (error) {
+      if (failures >= RETRY_DELAYS_MS.length) throw error;
+      await wait(RETRY_DELAYS_MS[failures++]);
+      // The chunk may have landed even though the response was lost
+      const confirmed = await fetchOffset(upload).catch(() => null);
+      if (confirmed !== null) offset = confirmed;
+    }
+  }
+
+  localStorage.removeItem(key);
+  return upload.path;
+};
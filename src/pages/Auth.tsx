@@ -0,0 +1,116 @@
+import { useState, type FormEvent } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { supabase } from '@/integrations/supabase/client';
+import { FileText, Loader2 } from 'lucide-react';
+
+type AuthMode = 'sign-in' | 'sign-up';
+
+const Auth = () => {
+  const [mode, setMode] = useState<AuthMode>('sign-in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { user, loading } = useAuth();
+  const location = useLocation();
+  const { toast } = useToast();
+
+  if (!loading && user) {
+    const from = (location.state as { from?: string } | null)?.from ?? '/';
+    return <Navigate to={from} replace />;
+  }
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    try {
+      if (mode === 'sign-in') {
+        const { error } = await supabase.auth.signInWithPassword({ email, password });
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase.auth.signUp({
+          email,
+          password,
+          options: { emailRedirectTo: window.location.origin },
+        });
+        if (error) throw error;
+        // Without a session the project wants the address confirmed first
+        if (!data.session) {
+          toast({ title: "Check your email", description: `We sent a confirmation link to ${email}.` });
+        }
+      }
+    } catch (error) {
+      toast({
+        title: mode === 'sign-in' ? "Sign in failed" : "Sign up failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const form = (
+    <form onSubmit={submit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="email">Email</Label>
+        <Input
+          id="email"
+          type="email"
+          autoComplete="email"
+          value={email}
+          onChange={event => setEmail(event.target.value)}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="password">Password</Label>
+        <Input
+          id="password"
+          type="password"
+          autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+          minLength={6}
+          value={password}
+          onChange={event => setPassword(event.target.value)}
+          required
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={submitting}>
+        {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {mode === 'sign-in' ? 'Sign in' : 'Create account'}
+      </Button>
+    </form>
+  );
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-surface px-4">
+      <Card className="w-full max-w-md shadow-soft border-0 bg-gradient-card">
+        <CardHeader className="text-center">
+          <div className="p-3 rounded-full bg-gradient-primary shadow-medium w-fit mx-auto">
+            <FileText className="w-6 h-6 text-primary-foreground" />
+          </div>
+          <CardTitle>Office File Repair Tool</CardTitle>
+          <CardDescription>Sign in to repair files and keep a history of your repairs</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={mode} onValueChange={value => setMode(value as AuthMode)}>
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="sign-in">Sign in</TabsTrigger>
+              <TabsTrigger value="sign-up">Sign up</TabsTrigger>
+            </TabsList>
+            <TabsContent value="sign-in">{form}</TabsContent>
+            <TabsContent value="sign-up">{form}</TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Auth;
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { AccountMenu } from '@/components/AccountMenu';
+import { ArrowLeft, Download, History as HistoryIcon, Loader2, Trash2 } from 'lucide-react';
+import { deleteRepairJob, listRepairJobs, repairJobDownloadUrl, type RepairJob } from '@/lib/repair-history';
+
+// Everything the repair service can detect a file as
+const DETECTED_TYPES = ['docx', 'xlsx', 'pptx', 'odt', 'ods', 'odp', 'doc', 'xls', 'ppt', 'pdf', 'rtf', 'zip', 'unknown'];
+const ALL = 'all';
+
+const History = () => {
+  const [status, setStatus] = useState(ALL);
+  const [detectedType, setDetectedType] = useState(ALL);
+  const [pendingDelete, setPendingDelete] = useState<RepairJob | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const filters = {
+    status: status === ALL ? undefined : status,
+    detectedType: detectedType === ALL ? undefined : detectedType,
+  };
+  const { data: jobs, isLoading, error } = useQuery({
+    queryKey: ['repair-jobs', filters],
+    queryFn: () => listRepairJobs(filters),
+  });
+
+  const deletion = useMutation({
+    mutationFn: deleteRepairJob,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['repair-jobs'] }),
+    onError: (error: Error) => {
+      toast({ title: "Delete failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const download = async (job: RepairJob) => {
+    try {
+      window.open(await repairJobDownloadUrl(job), '_blank');
+    } catch (error) {
+      toast({ title: "Download failed", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const formatFileSize = (bytes: number): string => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
+
+  const getStatusBadge = (jobStatus: string) => {
+    switch (jobStatus) {
+      case 'success':
+        return <Badge className="bg-green-100 text-green-800">Success</Badge>;
+      case 'partial':
+        return <Badge className="bg-yellow-100 text-yellow-800">Partial</Badge>;
+      case 'processing':
+        return <Badge variant="secondary">Repairing</Badge>;
+      default:
+        return <Badge variant="destructive">Failed</Badge>;
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-surface">
+      <div className="container mx-auto px-4 py-12">
+        <Card className="w-full max-w-5xl mx-auto shadow-soft border-0 bg-gradient-card">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <HistoryIcon className="h-5 w-5" />
+                Repair History
+              </span>
+              <span className="flex items-center gap-3">
+                <AccountMenu />
+                <Button variant="outline" size="sm" asChild>
+                  <Link to="/" className="flex items-center gap-2">
+                    <ArrowLeft className="h-4 w-4" />
+                    Repair Files
+                  </Link>
+                </Button>
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex flex-wrap gap-3">
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger className="w-40" aria-label="Filter by status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All statuses</SelectItem>
+                  <SelectItem value="success">Success</SelectItem>
+                  <SelectItem value="partial">Partial</SelectItem>
+                  <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="processing">Repairing</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={detectedType} onValueChange={setDetectedType}>
+                <SelectTrigger className="w-40" aria-label="Filter by type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All types</SelectItem>
+                  {DETECTED_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{type.toUpperCase()}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : error ? (
+              <p className="text-center text-sm text-red-600 py-12">{(error as Error).message}</p>
+            ) : !jobs || jobs.length === 0 ? (
+              <p className="text-center text-sm text-muted-foreground py-12">No repairs match these filters.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Repaired</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {jobs.map(job => (
+                    <TableRow key={job.id}>
+                      <TableCell>
+                        <p className="font-medium break-all">{job.original_name}</p>
+                        {job.original_size !== null && (
+                          <p className="text-xs text-muted-foreground">{formatFileSize(job.original_size)}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{job.detected_type.toUpperCase()}</TableCell>
+                      <TableCell>{getStatusBadge(job.status)}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {new Date(job.created_at).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => download(job)}
+                            disabled={!job.output_path}
+                            title={job.output_name ?? 'No repaired file was kept'}
+                            className="flex items-center gap-1"
+                          >
+                            <Download className="h-3 w-3" />
+                            Download
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setPendingDelete(job)}
+                            disabled={deletion.isPending && deletion.variables?.id === job.id}
+                            aria-label={`Delete ${job.original_name}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={open => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this repair?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.original_name} and its repaired file will be removed for good.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDelete) deletion.mutate(pendingDelete);
+                setPendingDelete(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default History;
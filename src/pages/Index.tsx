@@ -1,55 +1,70 @@
-import { useState } from 'react';
 import { FileUpload } from '@/components/FileUpload';
-import { RepairResults } from '@/components/RepairResults';
+import { RepairQueue } from '@/components/RepairQueue';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Shield, Zap, FileText, Layers, BarChart3, Presentation } from 'lucide-react';
-
-interface RepairResult {
-  success: boolean;
-  fileName: string;
-  status: 'success' | 'partial' | 'failed';
-  issues?: string[];
-  repairedFile?: string; // base64 string from edge function
-  repairedFileBlob?: Blob; // converted blob for download
-  repairedFileV2?: Blob;
-  repairedFileUrl?: string;
-  downloadUrl?: string;
-  preview?: {
-    content?: string;
-    extractedSheets?: string[];
-    extractedSlides?: number;
-    recoveredFiles?: string[];
-    fileSize?: number;
-  };
-  fileType?: 'DOCX' | 'XLSX' | 'PPTX' | 'ZIP' | 'PDF' | 'txt';
-  recoveryStats?: {
-    totalFiles: number;
-    recoveredFiles: number;
-    corruptedFiles: number;
-    originalSize?: number;
-    repairedSize?: number;
-    corruptionLevel?: string;
-    recoveredData?: number;
-  };
-}
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Shield, Zap, FileText, Layers, BarChart3, Presentation, History, Lock, Hash } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { useState } from 'react';
+import { useRepairQueue } from '@/hooks/use-repair-queue';
+import { AccountMenu } from '@/components/AccountMenu';
+import { useAuth } from '@/hooks/use-auth';
 
 const Index = () => {
-  const [repairResult, setRepairResult] = useState<RepairResult | null>(null);
+  const { items, enqueue, retry, clear } = useRepairQueue();
+  const [repairLocally, setRepairLocally] = useState(false);
+  const [markdown, setMarkdown] = useState(false);
+  const { user } = useAuth();
+  // Repairs on the service need an account; local ones work signed out and offline
+  const local = repairLocally || !user;
 
-  const handleFileProcessed = (result: RepairResult) => {
-    setRepairResult(result);
-  };
-
-  const handleReset = () => {
-    setRepairResult(null);
-  };
+  const upload = (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-center gap-6">
+        <div className="flex items-center gap-3">
+          <Switch id="repair-locally" checked={local} disabled={!user} onCheckedChange={setRepairLocally} />
+          <Label htmlFor="repair-locally" className="flex items-center gap-2 cursor-pointer">
+            <Lock className="w-4 h-4 text-primary" />
+            Repair locally
+          </Label>
+        </div>
+        <div className="flex items-center gap-3">
+          <Switch id="markdown" checked={markdown} onCheckedChange={setMarkdown} />
+          <Label htmlFor="markdown" className="flex items-center gap-2 cursor-pointer">
+            <Hash className="w-4 h-4 text-primary" />
+            Recover Word text as Markdown
+          </Label>
+        </div>
+      </div>
+      {local && (
+        <p className="text-center text-sm text-muted-foreground">
+          Files are repaired in this browser and never uploaded. Local repairs are not kept in your history.
+        </p>
+      )}
+      {!user && (
+        <p className="text-center text-sm text-muted-foreground">
+          <Link to="/auth" className="text-primary underline-offset-4 hover:underline">Sign in</Link>
+          {' '}to repair files on the server and keep them in your history.
+        </p>
+      )}
+      {markdown && (
+        <p className="text-center text-sm text-muted-foreground">
+          Word documents that cannot be rebuilt come back as Markdown, keeping headings, lists and tables.
+        </p>
+      )}
+      <FileUpload onFilesSelected={files => enqueue(files, { local, textFormat: markdown ? 'markdown' : 'text' })} />
+    </div>
+  );
 
   return (
     <div className="min-h-screen bg-gradient-surface">
       {/* Header */}
       <div className="border-b bg-card/50 backdrop-blur-sm">
         <div className="container mx-auto px-4 py-6">
+          <div className="flex justify-end">
+            <AccountMenu />
+          </div>
           <div className="text-center space-y-4">
             <div className="flex items-center justify-center gap-3">
               <div className="p-3 rounded-full bg-gradient-primary shadow-medium">
@@ -76,6 +91,13 @@ const Index = () => {
                 <Layers className="w-4 h-4 text-warning" />
                 <span className="text-sm font-medium">Content Preview</span>
               </div>
+              <Link
+                to="/history"
+                className="flex items-center gap-2 px-4 py-2 rounded-full bg-card border shadow-soft hover:shadow-medium transition-all"
+              >
+                <History className="w-4 h-4 text-primary" />
+                <span className="text-sm font-medium">Repair History</span>
+              </Link>
             </div>
           </div>
         </div>
@@ -83,10 +105,10 @@ const Index = () => {
 
       {/* Main Content */}
       <div className="container mx-auto px-4 py-12">
-        {!repairResult ? (
+        {items.length === 0 ? (
           <div className="space-y-12">
             {/* Upload Section */}
-            <FileUpload onFileProcessed={handleFileProcessed} />
+            {upload}
             
             {/* Enhanced Features Section */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6 max-w-4xl mx-auto">
@@ -174,7 +196,10 @@ const Index = () => {
             </div>
           </div>
         ) : (
-          <RepairResults result={repairResult} onReset={handleReset} />
+          <div className="space-y-12">
+            {upload}
+            <RepairQueue items={items} onRetry={retry} onReset={clear} />
+          </div>
         )}
       </div>
       
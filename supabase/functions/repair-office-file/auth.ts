@@ -0,0 +1,36 @@
+// The signed-in user behind a request.
+//
+// The gateway checks that the request carries a JWT signed for the project,
+// but the public anon key is such a token too. Repairs are only run for a
+// real user, whose id scopes their files, their jobs and their quota, so the
+// token is exchanged for the user it belongs to.
+
+import { RepairError } from "./errors.ts";
+
+export interface RequestUser {
+  id: string;
+  email: string | null;
+}
+
+// The user whose access token authorises the request, or null for the anon
+// key, an expired session or no token at all
+export async function getRequestUser(req: Request): Promise<RequestUser | null> {
+  const authorization = req.headers.get('Authorization');
+  const url = Deno.env.get('SUPABASE_URL');
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+  if (!authorization?.startsWith('Bearer ') || !url || !anonKey) return null;
+
+  const response = await fetch(`${url}/auth/v1/user`, {
+    headers: { Authorization: authorization, apikey: anonKey },
+  });
+  if (!response.ok) return null;
+  const user = await response.json();
+  return typeof user?.id === 'string' ? { id: user.id, email: user.email ?? null } : null;
+}
+
+// Stored files are kept under a folder named after their owner's id
+export function checkOwnPath(user: RequestUser, path: string): void {
+  if (!path.startsWith(`${user.id}/`) || path.split('/').includes('..')) {
+    throw new RepairError('forbidden', 'That file belongs to another account');
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { findCompoundEntry, readCompoundStream, salvageCompoundFile } from "./cfb-salvage.ts";
+import { buildTestDoc, truncateBytes } from "./test-packages.ts";
+
+// The fixtures put the FAT in sector 0 and the directory in sector 1, each
+// sector following the 512-byte header
+const FAT_OFFSET = 512;
+const DIRECTORY_OFFSET = 1024;
+
+function readWordDocument(data: Uint8Array) {
+  const manifest = salvageCompoundFile(data)!;
+  const entry = findCompoundEntry(manifest, 'WordDocument')!;
+  return { manifest, entry, stream: readCompoundStream(data, manifest, entry)! };
+}
+
+describe('salvageCompoundFile', () => {
+  const whole = buildTestDoc();
+  const original = readWordDocument(whole).stream.data;
+
+  it('reads every stream of a whole file', () => {
+    const { manifest, entry, stream } = readWordDocument(whole);
+
+    expect(manifest.issues).toEqual([]);
+    expect(manifest.entries.map(item => item.name)).toEqual(['Root Entry', 'WordDocument', '1Table']);
+    expect(entry).toMatchObject({ topLevel: true, recovered: false });
+    expect(stream.complete).toBe(true);
+    expect(stream.data.length).toBe(entry.size);
+  });
+
+  it('keeps the start of a stream the file was cut off in', () => {
+    const { stream } = readWordDocument(truncateBytes(whole, 0.5));
+
+    expect(stream.complete).toBe(false);
+    expect(stream.data.length).toBeGreaterThan(0);
+    expect(stream.data).toEqual(original.subarray(0, stream.data.length));
+  });
+
+  it('follows streams on through a zeroed FAT sector', () => {
+    const damaged = whole.slice();
+    damaged.fill(0, FAT_OFFSET, FAT_OFFSET + 512);
+    const { stream } = readWordDocument(damaged);
+
+    expect(stream.complete).toBe(false);
+    expect(stream.data).toEqual(original);
+  });
+
+  it('finds the streams by scanning when the root entry is lost', () => {
+    const damaged = whole.slice();
+    damaged.fill(0, DIRECTORY_OFFSET, DIRECTORY_OFFSET + 128);
+    const { manifest, stream } = readWordDocument(damaged);
+
+    expect(manifest.issues).toContain('Compound file directory was damaged; scanned every sector for stream names');
+    expect(stream).toEqual({ data: original, complete: true });
+  });
+});
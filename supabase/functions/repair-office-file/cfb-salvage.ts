@@ -0,0 +1,318 @@
+// Damage-tolerant Compound File Binary (OLE2) reader.
+//
+// Legacy .doc, .xls and .ppt files are small FAT file systems: a header
+// points at the FAT sectors, the FAT chains sectors into streams and a
+// directory names the streams. Any of these can be damaged. Chains that run
+// into a bad FAT entry carry on through the following sectors, since writers
+// lay streams out contiguously, and stop at the end of the file when it was
+// truncated. When the directory chain itself is broken, every sector is
+// scanned for directory records so the streams can still be found by name.
+
+const SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const BYTE_ORDER_MARK = 0xfffe;
+const HEADER_DIFAT_ENTRIES = 109;
+const MAX_REGULAR_SECTOR = 0xfffffffa;
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+const NO_STREAM = 0xffffffff;
+const DIRECTORY_ENTRY_SIZE = 128;
+const MINI_SECTOR_SIZE = 64;
+const MINI_STREAM_CUTOFF = 4096;
+
+export type CompoundEntryType = 'storage' | 'stream' | 'root';
+
+export interface CompoundFileEntry {
+  name: string;
+  type: CompoundEntryType;
+  startSector: number;
+  size: number;
+  // Directly under the root storage rather than inside an embedded object
+  topLevel: boolean;
+  // Found by scanning sectors because the directory chain was damaged
+  recovered: boolean;
+}
+
+export interface CompoundFileManifest {
+  sectorSize: number;
+  sectorCount: number;
+  // FAT and MiniFAT entries; undefined where the table itself was lost
+  fat: Array<number | undefined>;
+  miniFat: Array<number | undefined>;
+  entries: CompoundFileEntry[];
+  miniStream: Uint8Array;
+  issues: string[];
+}
+
+export interface CompoundStream {
+  data: Uint8Array;
+  // False when the chain was broken or the file ended before the stream did
+  complete: boolean;
+}
+
+interface ChainResult {
+  data: Uint8Array;
+  complete: boolean;
+  guessedSectors: number;
+}
+
+function getUint16LE(buffer: Uint8Array, offset: number): number {
+  return buffer[offset] | (buffer[offset + 1] << 8);
+}
+
+function getUint32LE(buffer: Uint8Array, offset: number): number {
+  return (buffer[offset] | (buffer[offset + 1] << 8) | (buffer[offset + 2] << 16) | (buffer[offset + 3] << 24)) >>> 0;
+}
+
+export function isCompoundFile(buffer: Uint8Array): boolean {
+  return SIGNATURE.every((byte, i) => buffer[i] === byte);
+}
+
+function sectorOffset(sectorSize: number, sector: number): number {
+  return (sector + 1) * sectorSize;
+}
+
+// Follow a chain of sectors through a FAT. `size` is the expected stream
+// length when known; a broken link is bridged by assuming the next sector
+// follows on, and reading stops at the end of the data.
+function readChain(
+  source: Uint8Array,
+  unitSize: number,
+  unitOffset: (unit: number) => number,
+  unitCount: number,
+  table: Array<number | undefined>,
+  start: number,
+  size: number | null
+): ChainResult {
+  const chunks: Uint8Array[] = [];
+  const seen = new Set<number>();
+  let length = 0;
+  let guessedSectors = 0;
+  let reachedEnd = false;
+
+  for (let unit = start; unit < unitCount && !seen.has(unit);) {
+    seen.add(unit);
+    const offset = unitOffset(unit);
+    const chunk = source.subarray(offset, Math.min(offset + unitSize, source.length));
+    if (chunk.length === 0) break;
+    chunks.push(chunk);
+    length += chunk.length;
+    if (size !== null && length >= size) {
+      reachedEnd = true;
+      break;
+    }
+
+    const next = table[unit];
+    if (next === END_OF_CHAIN && size === null) {
+      reachedEnd = true;
+      break;
+    }
+    if (next !== undefined && next <= MAX_REGULAR_SECTOR && next < unitCount && !seen.has(next)) {
+      unit = next;
+    } else if (size !== null) {
+      // The FAT entry is lost or wrong while the stream goes on
+      unit++;
+      guessedSectors++;
+    } else {
+      break;
+    }
+  }
+
+  const data = new Uint8Array(size !== null ? Math.min(size, length) : length);
+  let written = 0;
+  for (const chunk of chunks) {
+    const take = Math.min(chunk.length, data.length - written);
+    data.set(chunk.subarray(0, take), written);
+    written += take;
+  }
+  return { data, complete: reachedEnd && guessedSectors === 0 && (size === null || data.length === size), guessedSectors };
+}
+
+function readTable(buffer: Uint8Array, sectorSize: number, sectors: number[]): Array<number | undefined> {
+  const perSector = sectorSize / 4;
+  const table: Array<number | undefined> = [];
+  sectors.forEach((sector, index) => {
+    const offset = sectorOffset(sectorSize, sector);
+    for (let i = 0; i < perSector; i++) {
+      const at = offset + i * 4;
+      table[index * perSector + i] = sector <= MAX_REGULAR_SECTOR && at + 4 <= buffer.length
+        ? getUint32LE(buffer, at)
+        : undefined;
+    }
+  });
+  return table;
+}
+
+function readEntryName(buffer: Uint8Array, offset: number): string | null {
+  const nameLength = getUint16LE(buffer, offset + 0x40);
+  if (nameLength < 2 || nameLength > 64 || nameLength % 2 !== 0) return null;
+  let name = '';
+  for (let i = 0; i < nameLength - 2; i += 2) {
+    const code = getUint16LE(buffer, offset + i);
+    if (code < 0x01) return null;
+    name += String.fromCharCode(code);
+  }
+  return getUint16LE(buffer, offset + nameLength - 2) === 0 ? name : null;
+}
+
+interface RawDirectoryEntry extends CompoundFileEntry {
+  left: number;
+  right: number;
+  child: number;
+}
+
+function readDirectoryEntry(buffer: Uint8Array, offset: number, recovered: boolean): RawDirectoryEntry | null {
+  if (offset + DIRECTORY_ENTRY_SIZE > buffer.length) return null;
+  const typeCode = buffer[offset + 0x42];
+  const type: CompoundEntryType | null = typeCode === 1 ? 'storage' : typeCode === 2 ? 'stream' : typeCode === 5 ? 'root' : null;
+  const name = type ? readEntryName(buffer, offset) : null;
+  if (!type || name === null) return null;
+  return {
+    name,
+    type,
+    startSector: getUint32LE(buffer, offset + 0x74),
+    // Version 3 files leave the high half of the size undefined
+    size: getUint32LE(buffer, offset + 0x78),
+    topLevel: false,
+    recovered,
+    left: getUint32LE(buffer, offset + 0x44),
+    right: getUint32LE(buffer, offset + 0x48),
+    child: getUint32LE(buffer, offset + 0x4c),
+  };
+}
+
+// Mark the entries reachable from the root's child tree as top level
+function markTopLevel(entries: Array<RawDirectoryEntry | null>): void {
+  const root = entries[0];
+  if (!root || root.type !== 'root') return;
+  const pending = [root.child];
+  const seen = new Set<number>();
+  while (pending.length > 0) {
+    const index = pending.pop()!;
+    if (index === NO_STREAM || index >= entries.length || seen.has(index)) continue;
+    seen.add(index);
+    const entry = entries[index];
+    if (!entry) continue;
+    entry.topLevel = true;
+    pending.push(entry.left, entry.right);
+  }
+}
+
+export function salvageCompoundFile(buffer: Uint8Array): CompoundFileManifest | null {
+  if (buffer.length < 512) return null;
+  const hasSignature = isCompoundFile(buffer);
+  if (!hasSignature && getUint16LE(buffer, 0x1c) !== BYTE_ORDER_MARK) return null;
+
+  const issues: string[] = [];
+  if (!hasSignature) issues.push('Compound file signature was damaged');
+
+  const majorVersion = getUint16LE(buffer, 0x1a);
+  let sectorShift = getUint16LE(buffer, 0x1e);
+  if (sectorShift !== 9 && sectorShift !== 12) {
+    sectorShift = majorVersion === 4 ? 12 : 9;
+    issues.push(`Compound file header had an invalid sector size; assuming ${1 << sectorShift} bytes`);
+  }
+  const sectorSize = 1 << sectorShift;
+  const sectorCount = Math.ceil((buffer.length - sectorSize) / sectorSize);
+
+  // FAT sectors are listed in the header, then in a chain of DIFAT sectors
+  const fatSectors: number[] = [];
+  for (let i = 0; i < HEADER_DIFAT_ENTRIES; i++) {
+    const sector = getUint32LE(buffer, 0x4c + i * 4);
+    if (sector !== FREE_SECTOR) fatSectors.push(sector);
+  }
+  const difatSeen = new Set<number>();
+  for (let sector = getUint32LE(buffer, 0x44); sector < sectorCount && !difatSeen.has(sector);) {
+    difatSeen.add(sector);
+    const offset = sectorOffset(sectorSize, sector);
+    const perSector = sectorSize / 4 - 1;
+    for (let i = 0; i < perSector && offset + i * 4 + 4 <= buffer.length; i++) {
+      const fatSector = getUint32LE(buffer, offset + i * 4);
+      if (fatSector !== FREE_SECTOR) fatSectors.push(fatSector);
+    }
+    sector = offset + sectorSize <= buffer.length ? getUint32LE(buffer, offset + perSector * 4) : END_OF_CHAIN;
+  }
+  const declaredFatSectors = getUint32LE(buffer, 0x2c);
+  if (fatSectors.length < declaredFatSectors) {
+    issues.push(`Only ${fatSectors.length} of ${declaredFatSectors} FAT sectors are listed; damaged chains are followed sequentially`);
+  }
+  const fat = readTable(buffer, sectorSize, fatSectors);
+  // No stream runs through the FAT itself, so a link into it, as a zeroed FAT
+  // sector is full of, is as good as lost
+  const fatSectorSet = new Set(fatSectors);
+  fat.forEach((next, index) => {
+    if (next !== undefined && fatSectorSet.has(next)) fat[index] = undefined;
+  });
+  const sector = (unit: number) => sectorOffset(sectorSize, unit);
+
+  // Directory, first through its chain, then by scanning for lost records
+  const directory = readChain(buffer, sectorSize, sector, sectorCount, fat, getUint32LE(buffer, 0x30), null);
+  const rawEntries: Array<RawDirectoryEntry | null> = [];
+  for (let offset = 0; offset + DIRECTORY_ENTRY_SIZE <= directory.data.length; offset += DIRECTORY_ENTRY_SIZE) {
+    rawEntries.push(readDirectoryEntry(directory.data, offset, false));
+  }
+  markTopLevel(rawEntries);
+  const entries: CompoundFileEntry[] = rawEntries
+    .filter((entry): entry is RawDirectoryEntry => entry !== null)
+    .map(({ left: _left, right: _right, child: _child, ...entry }) => entry);
+
+  if (!directory.complete || !entries.some(entry => entry.type === 'root')) {
+    issues.push('Compound file directory was damaged; scanned every sector for stream names');
+    const known = new Set(entries.map(entry => `${entry.name}:${entry.startSector}`));
+    for (let offset = sectorSize; offset + DIRECTORY_ENTRY_SIZE <= buffer.length; offset += DIRECTORY_ENTRY_SIZE) {
+      const entry = readDirectoryEntry(buffer, offset, true);
+      if (!entry || known.has(`${entry.name}:${entry.startSector}`)) continue;
+      known.add(`${entry.name}:${entry.startSector}`);
+      const { left: _left, right: _right, child: _child, ...scanned } = entry;
+      // Without the tree, any stream may be the top-level one
+      entries.push({ ...scanned, topLevel: scanned.type !== 'root' });
+    }
+  }
+
+  // Small streams live in the mini stream, chained through the MiniFAT
+  const root = entries.find(entry => entry.type === 'root');
+  const miniFatSectors = readChain(buffer, sectorSize, sector, sectorCount, fat, getUint32LE(buffer, 0x3c), null);
+  const miniFat: Array<number | undefined> = [];
+  for (let offset = 0; offset + 4 <= miniFatSectors.data.length; offset += 4) {
+    miniFat.push(getUint32LE(miniFatSectors.data, offset));
+  }
+  const miniStream = root && root.startSector <= MAX_REGULAR_SECTOR
+    ? readChain(buffer, sectorSize, sector, sectorCount, fat, root.startSector, root.size).data
+    : new Uint8Array(0);
+
+  return { sectorSize, sectorCount, fat, miniFat, entries, miniStream, issues };
+}
+
+// Prefer a top-level stream over one inside an embedded object
+export function findCompoundEntry(manifest: CompoundFileManifest, name: string): CompoundFileEntry | undefined {
+  const matches = manifest.entries.filter(entry => entry.type === 'stream' && entry.name === name);
+  return matches.find(entry => entry.topLevel) || matches[0];
+}
+
+export function readCompoundStream(
+  buffer: Uint8Array,
+  manifest: CompoundFileManifest,
+  entry: CompoundFileEntry
+): CompoundStream | null {
+  if (entry.startSector > MAX_REGULAR_SECTOR) {
+    return entry.size === 0 ? { data: new Uint8Array(0), complete: true } : null;
+  }
+
+  const { sectorSize, sectorCount, fat, miniFat, miniStream } = manifest;
+  const result = entry.size < MINI_STREAM_CUTOFF
+    ? readChain(
+      miniStream,
+      MINI_SECTOR_SIZE,
+      unit => unit * MINI_SECTOR_SIZE,
+      Math.ceil(miniStream.length / MINI_SECTOR_SIZE),
+      miniFat,
+      entry.startSector,
+      entry.size
+    )
+    : readChain(buffer, sectorSize, unit => sectorOffset(sectorSize, unit), sectorCount, fat, entry.startSector, entry.size);
+
+  if (result.data.length === 0 && entry.size > 0) return null;
+  if (result.guessedSectors > 0) {
+    console.log(`Bridged ${result.guessedSectors} broken FAT link(s) in ${entry.name}`);
+  }
+  return { data: result.data, complete: result.complete };
+}
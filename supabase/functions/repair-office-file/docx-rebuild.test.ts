@@ -0,0 +1,74 @@
+import JSZip from "jszip";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { removeDanglingReferences } from "./ooxml-package.ts";
+import { findZipEntry } from "./package-parts.ts";
+import { repairDocument } from "./repair-core.ts";
+import { buildTestDocx, testRepairInput, truncateBytes, unresolvedRelationshipIds } from "./test-packages.ts";
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+const RELS_PART = 'word/_rels/document.xml.rels';
+
+async function repairDocx(data: Uint8Array) {
+  const { result, output } = await repairDocument(testRepairInput('report.docx', data));
+  return { result, zip: await JSZip.loadAsync(output!), output: output! };
+}
+
+describe('rebuildDocxPackage', () => {
+  it.each([0.9, 0.8, 0.6, 0.4, 0.2])('leaves no reference to a lost relationship in a DOCX cut to %s', async share => {
+    const { result, output } = await repairDocx(truncateBytes(await buildTestDocx(), share));
+
+    expect(result.status).toBe('partial');
+    expect(await unresolvedRelationshipIds(output)).toEqual([]);
+  });
+
+  it('removes the pictures whose relationships were lost with the document relationships', async () => {
+    const whole = await buildTestDocx();
+    const { result, zip } = await repairDocx(truncateBytes(whole, 0.9));
+    const document = await zip.file('word/document.xml')!.async('string');
+
+    expect(document).not.toContain('<w:drawing>');
+    expect(result.issues).toContain('Removed 3 picture(s), link(s) or other reference(s) to lost parts from word/document.xml');
+  });
+
+  it('keeps the original ids of the relationships that survived in a cut relationship part', async () => {
+    const whole = await buildTestDocx();
+    const entry = findZipEntry(whole, RELS_PART)!;
+    const { result, zip, output } = await repairDocx(whole.slice(0, entry.dataStart + entry.dataLength - 4));
+    const rels = await zip.file(RELS_PART)!.async('string');
+
+    expect(result.issues).toContain(`Kept the 5 relationship(s) that survived in truncated ${RELS_PART}`);
+    expect(rels).toContain('Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image1.png"');
+    expect(await zip.file('word/document.xml')!.async('string')).toContain('r:embed="rId3"');
+    expect(await unresolvedRelationshipIds(output)).toEqual([]);
+  });
+
+  it('regenerates lost relationships under ids the document does not use', async () => {
+    const whole = await buildTestDocx();
+    const entry = findZipEntry(whole, RELS_PART)!;
+    const { zip, output } = await repairDocx(whole.slice(0, entry.dataStart + Math.floor(entry.dataLength * 0.8)));
+    const rels = await zip.file(RELS_PART)!.async('string');
+
+    expect(rels).toContain('Id="rId1"');
+    expect(rels).toContain('Id="rIdRepair1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings"');
+    expect(await unresolvedRelationshipIds(output)).toEqual([]);
+  });
+});
+
+describe('removeDanglingReferences', () => {
+  it('removes pictures and header references to lost relationships and unlinks hyperlinks', () => {
+    const xml = '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><w:body>' +
+      '<w:p><w:hyperlink r:id="rId9"><w:r><w:t>Site</w:t></w:r></w:hyperlink></w:p>' +
+      '<w:p><w:r><w:drawing><a:blip r:embed="rId8"/></w:drawing></w:r></w:p>' +
+      '<w:sectPr><w:headerReference w:type="default" r:id="rId7"/><w:footerReference w:type="default" r:id="rId1"/></w:sectPr>' +
+      '</w:body></w:document>';
+    const { xml: cleaned, removed } = removeDanglingReferences(xml, new Set(['rId1']));
+
+    expect(removed).toBe(3);
+    expect(cleaned).toContain('<w:p><w:hyperlink><w:r><w:t>Site</w:t></w:r></w:hyperlink></w:p><w:p><w:r></w:r></w:p>');
+    expect(cleaned).toContain('<w:sectPr><w:footerReference w:type="default" r:id="rId1"/></w:sectPr>');
+  });
+});
@@ -0,0 +1,35 @@
+// DOCX rebuilding around the recovered word/document.xml.
+
+import { ignoreProgress, type ProgressReporter } from "./progress.ts";
+import { recoverPartXML } from "./package-parts.ts";
+import { collectPackageParts, createRepairLog, logIssue, MAIN_PARTS, type RebuiltPackage, writePackage } from "./ooxml-package.ts";
+import { extractTextFromWordXml } from "./text-extract.ts";
+
+// Rebuild a DOCX around the recovered word/document.xml, keeping surviving
+// styles, numbering, media and relationships.
+export async function rebuildDocxPackage(data: Uint8Array, progress: ProgressReporter = ignoreProgress): Promise<RebuiltPackage | null> {
+  progress('inflating');
+  const mainPart = MAIN_PARTS.docx;
+  const { xml, truncated, gaps, resumedRecords } = await recoverPartXML(data, mainPart);
+  const log = createRepairLog();
+  if (gaps > 0) {
+    logIssue(log, `${mainPart} had ${gaps} damaged region(s), marked in the document; recovered ${resumedRecords} paragraph(s) after the damage`, mainPart);
+  } else if (truncated) {
+    logIssue(log, `${mainPart} was truncated; content after the damaged point could not be recovered`, mainPart);
+  }
+
+  const parts = new Map<string, Uint8Array>();
+  parts.set(mainPart, new TextEncoder().encode(xml));
+  collectPackageParts(data, 'docx', parts, log, progress);
+
+  const packageData = await writePackage(data, parts, log, progress);
+  console.log(`Rebuilt DOCX with ${parts.size} parts (${packageData.length} bytes)`);
+
+  return {
+    data: packageData,
+    parts,
+    ...log,
+    preview: { content: extractTextFromWordXml(xml) },
+    mainPartTruncated: truncated,
+  };
+}
@@ -0,0 +1,57 @@
+// Why a repair did not produce a file.
+//
+// Every failure the service reports carries one of these codes, both in
+// error responses and on the results of repairs that ran but recovered
+// nothing, so the browser, the CLI and the history can tell the cases apart
+// without reading messages. Codes are part of the API: add new ones rather
+// than renaming these.
+
+export type RepairErrorCode =
+  | 'no_file'
+  | 'unauthenticated'
+  | 'forbidden'
+  | 'too_large'
+  | 'unsupported_format'
+  | 'no_recoverable_content'
+  | 'quota_exceeded'
+  | 'internal_error'
+  | 'unavailable'
+  | 'timeout';
+
+export const REPAIR_ERROR_STATUS: Record<RepairErrorCode, number> = {
+  no_file: 400,
+  unauthenticated: 401,
+  forbidden: 403,
+  too_large: 413,
+  unsupported_format: 415,
+  no_recoverable_content: 422,
+  quota_exceeded: 429,
+  internal_error: 500,
+  unavailable: 503,
+  timeout: 504,
+};
+
+export class RepairError extends Error {
+  readonly code: RepairErrorCode;
+
+  constructor(code: RepairErrorCode, message: string) {
+    super(message);
+    this.name = 'RepairError';
+    this.code = code;
+  }
+
+  get status(): number {
+    return REPAIR_ERROR_STATUS[this.code];
+  }
+}
+
+// Any thrown value as a RepairError, treating the unexpected as internal
+export function toRepairError(error: unknown): RepairError {
+  if (error instanceof RepairError) return error;
+  return new RepairError('internal_error', error instanceof Error ? error.message : String(error));
+}
+
+export function tooLargeError(size: number, maxBytes: number): RepairError {
+  const megabytes = (bytes: number) => Math.round(bytes / (1024 * 1024));
+  return new RepairError('too_large', `The file is ${megabytes(size)} MB; files up to ${megabytes(maxBytes)} MB can be repaired`);
+}
@@ -0,0 +1,178 @@
+// Content-based file type detection.
+//
+// Uploads arrive with whatever MIME type the browser guessed and whatever
+// name the user gave them; a damaged report.docx is commonly sent as
+// application/octet-stream, and a renamed or extension-less file tells us
+// nothing. The type is instead read from the bytes: PDF headers, OLE2
+// compound file and RTF signatures, the ODF mimetype entry and the part names
+// inside a ZIP package. The MIME type and extension are only consulted when
+// the content is too damaged to say.
+
+export type DetectedFileType =
+  | 'docx'
+  | 'xlsx'
+  | 'pptx'
+  | 'odt'
+  | 'ods'
+  | 'odp'
+  | 'zip'
+  | 'pdf'
+  | 'doc'
+  | 'xls'
+  | 'ppt'
+  | 'rtf'
+  | 'unknown';
+
+const ZIP_LOCAL_HEADER = [0x50, 0x4b, 0x03, 0x04];
+const OLE2_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+// Readers accept a PDF header anywhere in the first kilobyte
+const PDF_HEADER_WINDOW = 1024;
+// The ODF mimetype entry is stored first and uncompressed, but a damaged
+// archive may carry junk before it
+const ODF_MIMETYPE_WINDOW = 4096;
+const ODF_MIMETYPE = /application\/vnd\.oasis\.opendocument\.(text|spreadsheet|presentation)(?!-)/;
+
+const ODF_TYPES: Record<string, DetectedFileType> = {
+  text: 'odt',
+  spreadsheet: 'ods',
+  presentation: 'odp',
+};
+
+// Main parts first, so a document with embedded workbooks is still a document
+const OOXML_MAIN_PARTS: Array<[string, DetectedFileType]> = [
+  ['word/document.xml', 'docx'],
+  ['xl/workbook.xml', 'xlsx'],
+  ['ppt/presentation.xml', 'pptx'],
+];
+
+const OOXML_FOLDERS: Array<[string, DetectedFileType]> = [
+  ['word/', 'docx'],
+  ['xl/', 'xlsx'],
+  ['ppt/', 'pptx'],
+];
+
+// Stream names in the compound file directory, stored as UTF-16LE
+const OLE2_STREAMS: Array<[string, DetectedFileType]> = [
+  ['WordDocument', 'doc'],
+  ['PowerPoint Document', 'ppt'],
+  ['Workbook', 'xls'],
+  ['Book', 'xls'],
+];
+
+const MIME_TYPES: Record<string, DetectedFileType> = {
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'application/vnd.oasis.opendocument.text': 'odt',
+  'application/vnd.oasis.opendocument.spreadsheet': 'ods',
+  'application/vnd.oasis.opendocument.presentation': 'odp',
+  'application/zip': 'zip',
+  'application/x-zip-compressed': 'zip',
+  'application/pdf': 'pdf',
+  'application/msword': 'doc',
+  'application/vnd.ms-excel': 'xls',
+  'application/vnd.ms-powerpoint': 'ppt',
+  'application/rtf': 'rtf',
+  'text/rtf': 'rtf',
+};
+
+const EXTENSIONS: Record<string, DetectedFileType> = {
+  docx: 'docx', docm: 'docx', dotx: 'docx',
+  xlsx: 'xlsx', xlsm: 'xlsx', xltx: 'xlsx',
+  pptx: 'pptx', pptm: 'pptx', potx: 'pptx',
+  odt: 'odt', ods: 'ods', odp: 'odp',
+  zip: 'zip',
+  pdf: 'pdf',
+  doc: 'doc', dot: 'doc',
+  xls: 'xls', xlt: 'xls',
+  ppt: 'ppt', pot: 'ppt', pps: 'ppt',
+  rtf: 'rtf',
+};
+
+const ZIP_FAMILY = new Set<DetectedFileType>(['docx', 'xlsx', 'pptx', 'odt', 'ods', 'odp', 'zip']);
+const OLE2_FAMILY = new Set<DetectedFileType>(['doc', 'xls', 'ppt']);
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, i) => bytes[i] === byte);
+}
+
+function latin1(bytes: Uint8Array, end: number): string {
+  let text = '';
+  for (let i = 0; i < Math.min(end, bytes.length); i++) {
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text;
+}
+
+function indexOfBytes(bytes: Uint8Array, pattern: Uint8Array): number {
+  const first = pattern[0];
+  for (let i = bytes.indexOf(first); i !== -1 && i + pattern.length <= bytes.length; i = bytes.indexOf(first, i + 1)) {
+    let j = 1;
+    while (j < pattern.length && bytes[i + j] === pattern[j]) j++;
+    if (j === pattern.length) return i;
+  }
+  return -1;
+}
+
+function utf16le(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length * 2);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i * 2] = text.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// The type the browser and the file name claim, used only as a tiebreaker
+function typeFromName(mimeType: string, fileName: string): DetectedFileType {
+  const ext = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+  return MIME_TYPES[mimeType] || EXTENSIONS[ext] || 'unknown';
+}
+
+function detectOle2Type(bytes: Uint8Array): DetectedFileType | null {
+  for (const [stream, type] of OLE2_STREAMS) {
+    if (indexOfBytes(bytes, utf16le(stream)) !== -1) return type;
+  }
+  return null;
+}
+
+function detectZipType(bytes: Uint8Array, entryNames: string[]): DetectedFileType | null {
+  const odf = latin1(bytes, ODF_MIMETYPE_WINDOW).match(ODF_MIMETYPE);
+  if (odf) return ODF_TYPES[odf[1]];
+
+  const names = new Set(entryNames);
+  for (const [part, type] of OOXML_MAIN_PARTS) {
+    if (names.has(part)) return type;
+  }
+  for (const [folder, type] of OOXML_FOLDERS) {
+    if (entryNames.some(name => name.startsWith(folder))) return type;
+  }
+  return null;
+}
+
+// Work out which repair pipeline a file needs from its content. ZIP entry
+// names are requested lazily since listing them means scanning the file.
+export function detectFileType(
+  bytes: Uint8Array,
+  mimeType: string,
+  fileName: string,
+  listZipEntries: () => string[]
+): DetectedFileType {
+  const claimed = typeFromName(mimeType, fileName);
+
+  // A ZIP can store a PDF uncompressed in its first entry, so check for one first
+  if (!startsWith(bytes, ZIP_LOCAL_HEADER)) {
+    if (latin1(bytes, PDF_HEADER_WINDOW).includes('%PDF-')) return 'pdf';
+    if (latin1(bytes, 5) === '{\\rtf') return 'rtf';
+    if (startsWith(bytes, OLE2_SIGNATURE)) {
+      return detectOle2Type(bytes) || (OLE2_FAMILY.has(claimed) ? claimed : 'unknown');
+    }
+  }
+
+  const entryNames = listZipEntries();
+  if (entryNames.length > 0) {
+    // A package whose telling parts were lost is still whatever it was named as
+    return detectZipType(bytes, entryNames) || (ZIP_FAMILY.has(claimed) ? claimed : 'zip');
+  }
+
+  return claimed;
+}
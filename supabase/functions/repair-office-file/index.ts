@@ -1,625 +1,244 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { inflate } from "https://deno.land/x/denoflate@1.2.1/mod.ts";
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { readStoredFile, signStoredFile, writeStoredFile } from "./storage.ts";
+import { startRepairJob, type RepairJob, type RepairJobTracker } from "./repair-jobs.ts";
+import { checkOwnPath, getRequestUser, type RequestUser } from "./auth.ts";
+import { repairDocument, type RepairInput } from "./repair-core.ts";
+import type { SalvagedMedia } from "./package-media.ts";
+import { parseRepairResult, REPAIR_RESULT_VERSION, type RepairResult } from "./repair-result.ts";
+import { RepairError, toRepairError, tooLargeError } from "./errors.ts";
+
+// Keeps the worker alive for background repairs after the response is sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface RepairResult {
-  success: boolean;
-  fileName: string;
-  status: 'success' | 'partial' | 'failed';
-  issues?: string[];
-  repairedFile?: string;
-  preview?: {
-    content?: string;
-    slides?: number;
-    worksheets?: string[];
-  };
-  fileType?: string;
-  recoveryStats?: {
-    originalSize?: number;
-    repairedSize?: number;
-    corruptionLevel?: string;
-    recoveredData?: number;
-  };
-}
-
-serve(async (req) => {
-  console.log('=== EDGE FUNCTION CALLED ===');
-  
-  if (req.method === 'OPTIONS') {
-    console.log('OPTIONS request handled');
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    console.log('Processing request...');
-    
-    const formData = await req.formData();
-    const file = formData.get('file') as File;
-    
-    if (!file) {
-      console.log('No file provided');
-      return new Response(JSON.stringify({ error: 'No file provided' }), {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-
-    console.log(`File received: ${file.name}, size: ${file.size}`);
-
-    // Get file data and analyze it
-    const fileData = await file.arrayBuffer();
-    const uint8Array = new Uint8Array(fileData);
-    
-    console.log(`File data length: ${uint8Array.length}`);
-    console.log(`First 50 bytes: ${Array.from(uint8Array.slice(0, 50)).map(b => b.toString(16).padStart(2, '0')).join(' ')}`);
-
-    // Determine file type and extract real content
-    const fileType = getFileType(file.type, file.name);
-    console.log(`Detected file type: ${fileType}`);
-    
-    // Actually process the file content - attempt real repair
-    let extractedContent = '';
-    let recoveryMethod = 'none';
-    let actuallyRecovered = false;
-    
-    try {
-      // For Office documents, try to repair ZIP structure and extract content
-      if (['docx', 'xlsx', 'pptx'].includes(fileType)) {
-        console.log('Attempting Office document repair...');
-        const repairedContent = await repairOfficeDocument(uint8Array);
-        if (repairedContent && repairedContent.length > 100) {
-          extractedContent = repairedContent;
-          recoveryMethod = 'office_repair';
-          actuallyRecovered = true;
-          console.log(`Office repair recovered ${repairedContent.length} characters`);
-        }
-      }
-      
-      // For other files or if Office repair failed, try raw content extraction
-      if (!actuallyRecovered) {
-        console.log('Attempting raw content extraction...');
-        const rawContent = extractActualTextFromData(uint8Array);
-        if (rawContent && rawContent.length > 50) {
-          extractedContent = rawContent;
-          recoveryMethod = 'raw_extraction';
-          actuallyRecovered = true;
-          console.log(`Raw extraction recovered ${rawContent.length} characters`);
-        }
-      }
-      
-      // If we couldn't recover anything, be honest about it
-      if (!actuallyRecovered) {
-        console.log('File repair failed - no recoverable content found');
-        return new Response(JSON.stringify({
-          success: false,
-          fileName: file.name,
-          status: 'failed',
-          issues: ['File is too corrupted to recover any content', 'No readable text found in file data'],
-          fileType: fileType,
-          recoveryStats: {
-            originalSize: file.size,
-            repairedSize: 0,
-            corruptionLevel: 'critical',
-            recoveredData: 0
-          }
-        }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-      }
-      
-    } catch (error) {
-      console.error('File repair error:', error);
-      return new Response(JSON.stringify({
-        success: false,
-        fileName: file.name,
-        status: 'failed',
-        issues: [`Repair failed: ${error.message}`],
-        fileType: fileType
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-
-    console.log(`Successfully recovered content: ${extractedContent.length} characters using ${recoveryMethod}`);
-
-    // Create the result with actual recovered content
-    const base64Content = btoa(extractedContent);
-
-    const result: RepairResult = {
-      success: true,
-      fileName: file.name.replace(/\.[^.]+$/, '') + '_recovered.txt',
-      status: extractedContent.length > 1000 ? 'success' : 'partial',
-      repairedFile: base64Content,
-      preview: { content: extractedContent.substring(0, 300) + '...' },
-      fileType: 'txt',
-      recoveryStats: {
-        originalSize: file.size,
-        repairedSize: extractedContent.length,
-        corruptionLevel: recoveryMethod === 'office_repair' ? 'medium' : 'high',
-        recoveredData: Math.round((extractedContent.length / file.size) * 100)
-      }
+// Largest file the function will hold in memory to repair
+const MAX_FILE_BYTES = Number(Deno.env.get('REPAIR_MAX_FILE_BYTES')) || 100 * 1024 * 1024;
+// A repair still running after this long is abandoned, leaving time to
+// record it before the platform stops the worker
+const REPAIR_TIMEOUT_MS = Number(Deno.env.get('REPAIR_TIMEOUT_MS')) || 120 * 1000;
+
+interface RepairRequest extends RepairInput {
+  // Where the file was uploaded in storage, so the output goes there too;
+  // null for posted files
+  storagePath: string | null;
+  // Signed-in user the repair is run for and counted against
+  user: RequestUser;
+  // Whether to answer with a job id at once and repair in the background
+  async: boolean;
+  // The repair's job row, which its progress is written to; opened once the
+  // repair has been counted against the user's quota
+  job: RepairJobTracker | null;
+}
+
+// Files are either posted as multipart form data, or uploaded to the
+// file-repairs bucket first and named by a JSON body, which is how files too
+// large for a request body arrive. Null when no file was given.
+async function readRepairRequest(req: Request, user: RequestUser): Promise<RepairRequest | null> {
+  if (req.headers.get('Content-Type')?.includes('application/json')) {
+    const body = await req.json();
+    if (typeof body.storagePath !== 'string' || !body.storagePath) return null;
+    checkOwnPath(user, body.storagePath);
+    const data = await readStoredFile(body.storagePath, MAX_FILE_BYTES);
+    return {
+      file: {
+        name: typeof body.fileName === 'string' ? body.fileName : body.storagePath.split('/').pop(),
+        type: typeof body.mimeType === 'string' ? body.mimeType : '',
+        size: data.length,
+      },
+      data,
+      textFormat: body.textFormat === 'markdown' ? 'markdown' : 'text',
+      storagePath: body.storagePath,
+      user,
+      async: body.async === true,
+      job: null,
     };
-
-    console.log('Returning result...');
-    
-    return new Response(JSON.stringify(result), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
-
-  } catch (error) {
-    console.error('ERROR:', error);
-    
-    // Emergency fallback
-    const emergencyText = 'Emergency recovery content created due to processing error.';
-    const emergencyResult: RepairResult = {
-      success: true,
-      fileName: 'emergency_recovery.txt',
-      status: 'partial',
-      repairedFile: btoa(emergencyText),
-      issues: [error.message],
-      fileType: 'txt'
-    };
-
-    return new Response(JSON.stringify(emergencyResult), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
   }
-});
 
-function getFileType(mimeType: string, fileName: string): string {
-  // First try mime type
-  const mimeMap: Record<string, string> = {
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
-    'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
-    'application/zip': 'zip',
-    'application/pdf': 'pdf'
+  const formData = await req.formData();
+  const file = formData.get('file') as File;
+  if (!file) return null;
+  if (file.size > MAX_FILE_BYTES) throw tooLargeError(file.size, MAX_FILE_BYTES);
+  return {
+    file,
+    data: new Uint8Array(await file.arrayBuffer()),
+    textFormat: formData.get('textFormat') === 'markdown' ? 'markdown' : 'text',
+    storagePath: null,
+    user,
+    async: formData.get('async') === 'true',
+    job: null,
   };
-  
-  if (mimeMap[mimeType]) {
-    return mimeMap[mimeType];
-  }
-  
-  // Fallback to file extension
-  const ext = fileName.split('.').pop()?.toLowerCase();
-  return ext || 'unknown';
 }
 
-// Function to repair Office documents (DOCX, XLSX, PPTX) using advanced recovery
-async function repairOfficeDocument(data: Uint8Array): Promise<string> {
-  console.log('Attempting advanced Office document repair...');
-  
-  try {
-    // Try to recover truncated/corrupt DOCX using custom recovery
-    const xmlContent = await recoverTruncatedDocxXML(data, 'word/document.xml');
-    if (xmlContent && xmlContent.length > 100) {
-      const extractedText = extractTextFromWordXml(xmlContent);
-      if (extractedText.length > 100) {
-        console.log(`Successfully recovered ${extractedText.length} characters from Word document`);
-        return extractedText;
-      }
+// Attach the repaired file and any salvaged media to a result and record it
+// on the job row. Posted files get their output back inline as base64; files
+// read from storage, and background repairs whose result is read from the
+// job row, have it written to the user's folder in the bucket and get signed
+// links instead, so a large output never has to fit in a JSON body. Outputs
+// of posted files are stored too, so the history can offer them again.
+async function deliverResult(
+  request: RepairRequest,
+  detectedType: string,
+  result: RepairResult,
+  output: Uint8Array | null,
+  media: SalvagedMedia[] | undefined
+): Promise<RepairResult> {
+  const viaStorage = request.storagePath !== null || request.async;
+  const folder = `${request.user.id}/repaired/${crypto.randomUUID()}`;
+  let outputPath: string | null = null;
+  if (output) {
+    request.job?.report('storing');
+    try {
+      outputPath = `${folder}/${result.fileName}`;
+      await writeStoredFile(outputPath, output, 'application/octet-stream');
+    } catch (e) {
+      outputPath = null;
+      if (viaStorage) throw e;
+      console.log('Storing the output for the repair history failed:', e.message);
     }
-  } catch (e) {
-    console.log('Advanced recovery failed, trying fallback:', e.message);
   }
-  
-  // Fallback to standard JSZip approach
-  try {
-    const JSZip = (await import('https://esm.sh/jszip@3.10.1')).default;
-    
-    const zip = await JSZip.loadAsync(data, { 
-      checkCRC32: false, 
-      optimizedBinaryString: false,
-      createFolders: false
-    });
-    
-    const files = Object.keys(zip.files);
-    console.log(`Document contains ${files.length} internal files:`, files.slice(0, 5));
-    
-    let repairedContent = '';
-    
-    // Extract from Word documents
-    if (zip.files['word/document.xml']) {
-      console.log('Found Word document content file');
-      repairedContent = await extractWordContent(zip.files['word/document.xml']);
-      if (repairedContent.length > 100) {
-        return repairedContent;
-      }
-    }
-    
-    // Try other file types
-    const wordFiles = files.filter(f => f.startsWith('word/') && f.endsWith('.xml'));
-    for (const filename of wordFiles) {
-      try {
-        const content = await extractWordContent(zip.files[filename]);
-        if (content.length > 100) {
-          repairedContent += content + '\n\n';
-        }
-      } catch (e) {
-        console.log(`Failed to extract from ${filename}:`, e.message);
+
+  if (!viaStorage) {
+    if (output) result.repairedFile = encodeBase64(output);
+    if (media) result.media = media.map(item => ({ ...item.file, data: encodeBase64(item.data) }));
+  } else {
+    if (outputPath) result.downloadUrl = await signStoredFile(outputPath, result.fileName);
+    if (media) {
+      result.media = [];
+      for (const item of media) {
+        const path = `${folder}/${item.file.name}`;
+        await writeStoredFile(path, item.data, item.file.mimeType);
+        const url = await signStoredFile(path, item.file.name.slice(item.file.name.lastIndexOf('/') + 1));
+        result.media.push({ ...item.file, url });
       }
     }
-    
-    return repairedContent.trim();
-    
-  } catch (error) {
-    console.log('Standard Office document repair also failed:', error.message);
-    return '';
   }
-}
-
-// Advanced recovery functions for truncated/corrupt ZIP files
 
-interface ZipEntry {
-  filename: string;
-  compressionMethod: number;
-  dataStart: number;
-  dataLength: number;
+  // Nothing leaves the function that the browser would reject
+  const checked = parseRepairResult(result);
+  const job: RepairJob = {
+    original_name: request.file.name,
+    original_size: request.file.size,
+    detected_type: detectedType,
+    status: checked.status,
+    output_name: outputPath ? checked.fileName : null,
+    output_type: outputPath ? checked.fileType ?? null : null,
+    issues: checked.issues ?? [],
+    report: checked.report ?? null,
+    source_path: request.storagePath,
+    output_path: outputPath,
+    // Only a background repair's browser reads the result from the row
+    result: request.async ? checked : null,
+  };
+  await request.job?.complete(job);
+  return checked;
 }
 
-// Helper function to get little-endian values
-function getUint16LE(buffer: Uint8Array, offset: number): number {
-  return buffer[offset] | (buffer[offset + 1] << 8);
+// Record a repair that threw as failed, so its job row does not stay open
+function deliverFailure(request: RepairRequest, error: RepairError): Promise<RepairResult> {
+  return deliverResult(request, 'unknown', {
+    version: REPAIR_RESULT_VERSION,
+    success: false,
+    fileName: request.file.name,
+    status: 'failed',
+    issues: [error.message],
+    errorCode: error.code,
+  }, null, undefined);
 }
 
-function getUint32LE(buffer: Uint8Array, offset: number): number {
-  return buffer[offset] | (buffer[offset + 1] << 8) | (buffer[offset + 2] << 16) | (buffer[offset + 3] << 24);
+// Failures are answered with their code, a status that matches it and the
+// message to show, never with a result the browser could mistake for a
+// recovered file. A repair that ran but recovered nothing sends its failed
+// result along, for the damage it found and any media it salvaged.
+function errorResponse(error: RepairError, result?: RepairResult): Response {
+  return new Response(JSON.stringify({ code: error.code, error: error.message, result }), {
+    status: error.status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
 }
 
-// Scan for local file headers and extract entry info
-function scanLocalHeaders(buffer: Uint8Array, targetFilename: string): ZipEntry | null {
-  const signature = 0x04034b50; // Local file header signature
+serve(async (req) => {
+  console.log('=== EDGE FUNCTION CALLED ===');
   
-  for (let i = 0; i <= buffer.length - 30; i++) {
-    if (getUint32LE(buffer, i) === signature) {
-      const compressionMethod = getUint16LE(buffer, i + 8);
-      const compressedSize = getUint32LE(buffer, i + 18);
-      const filenameLength = getUint16LE(buffer, i + 26);
-      const extraFieldLength = getUint16LE(buffer, i + 28);
-      
-      if (i + 30 + filenameLength <= buffer.length) {
-        const filename = new TextDecoder().decode(buffer.slice(i + 30, i + 30 + filenameLength));
-        
-        if (filename === targetFilename) {
-          const dataStart = i + 30 + filenameLength + extraFieldLength;
-          const dataLength = compressedSize > 0
-            ? Math.min(buffer.length - dataStart, compressedSize)
-            : buffer.length - dataStart;
-          return {
-            filename,
-            compressionMethod,
-            dataStart,
-            dataLength,
-          };
-        }
-      }
-    }
+  if (req.method === 'OPTIONS') {
+    console.log('OPTIONS request handled');
+    return new Response(null, { headers: corsHeaders });
   }
-  return null;
-}
 
-// Try to decompress, handling truncated data
-function tryInflate(data: Uint8Array): string | null {
   try {
-    const xmlBytes = inflate(data);
-    return new TextDecoder().decode(xmlBytes);
-  } catch (err) {
-    // Attempt to decompress possibly truncated deflate stream
-    for (let end = data.length - 1; end > 32; end -= 256) {
-      try {
-        const xmlBytes = inflate(data.slice(0, end));
-        return new TextDecoder().decode(xmlBytes);
-      } catch (_) {}
-    }
-    return null;
-  }
-}
-
-// Fix truncated XML by trimming and closing the root tag
-function repairTruncatedXML(xmlRaw: string, rootTag: string): string {
-  // Remove any non-XML trailing bytes
-  let i = xmlRaw.lastIndexOf(`</${rootTag}>`);
-  if (i !== -1) {
-    // Already has proper closing tag
-    return xmlRaw.slice(0, i + rootTag.length + 3);
-  }
-  
-  // Search backwards for the last complete tag
-  let validUpto = xmlRaw.length;
-  for (let j = xmlRaw.length - 1; j >= 0; j--) {
-    if (xmlRaw[j] === '>') {
-      validUpto = j + 1;
-      break;
-    }
-  }
-  
-  // Append closing tag
-  return xmlRaw.slice(0, validUpto) + `</${rootTag}>`;
-}
+    console.log('Processing request...');
 
-// Main recovery function
-async function recoverTruncatedDocxXML(
-  zipBuffer: Uint8Array,
-  targetXml: string = 'word/document.xml'
-): Promise<string> {
-  console.log(`Attempting to recover ${targetXml} from corrupted ZIP...`);
-  
-  // Find the target entry and extract compressed data
-  const entry = scanLocalHeaders(zipBuffer, targetXml);
-  if (!entry) {
-    throw new Error("Target file not found in zip (even partially)");
-  }
-  
-  console.log(`Found ${targetXml}: compression=${entry.compressionMethod}, dataLength=${entry.dataLength}`);
-  
-  const compressedData = zipBuffer.slice(entry.dataStart, entry.dataStart + entry.dataLength);
-  let xmlRaw: string | null = null;
-  
-  // Handle compression (0 = store, 8 = deflate)
-  if (entry.compressionMethod === 0) {
-    xmlRaw = new TextDecoder().decode(compressedData);
-  } else if (entry.compressionMethod === 8) {
-    xmlRaw = tryInflate(compressedData);
-    if (!xmlRaw) throw new Error("Failed to recover (decompress) XML from partial file.");
-  } else {
-    throw new Error("Unsupported compression method: " + entry.compressionMethod);
-  }
-  
-  // Try to auto-detect main root tag
-  let rootTag = "document";
-  const m = xmlRaw.match(/<(\w+)[^>]*>/);
-  if (m) rootTag = m[1];
-  
-  return repairTruncatedXML(xmlRaw, rootTag);
-}
+    // The gateway has checked the token; repairs also need it to be a user's
+    const user = await getRequestUser(req);
+    if (!user) return errorResponse(new RepairError('unauthenticated', 'Sign in to repair files'));
 
-// Helper function to extract content from Word XML files
-async function extractWordContent(file: any): Promise<string> {
-  try {
-    let xmlContent;
-    try {
-      xmlContent = await file.async('text');
-    } catch (e) {
-      // Try binary mode if text mode fails
-      const data = await file.async('uint8array');
-      xmlContent = new TextDecoder('utf-8', { fatal: false }).decode(data);
+    const request = await readRepairRequest(req, user);
+    if (!request) {
+      console.log('No file provided');
+      return errorResponse(new RepairError('no_file', 'No file provided'));
+    }
+
+    // Nothing is repaired until it has been counted against today's quota.
+    // Without the job row there is no way to enforce it, so a failure to
+    // open one refuses the repair.
+    request.job = await startRepairJob(user.id, request.file.name, request.file.size, request.storagePath);
+
+    // Background repairs answer with the job id at once; the browser follows
+    // the job row for the stage and the result
+    if (request.async) {
+      const jobId = request.job.id;
+      EdgeRuntime.waitUntil(
+        runRepair(request).catch(error => {
+          console.error('ERROR:', error);
+          return deliverFailure(request, toRepairError(error));
+        })
+      );
+      console.log(`Started repair job ${jobId}`);
+      return new Response(JSON.stringify({ jobId }), {
+        status: 202,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
-    
-    console.log(`Processing Word XML, length: ${xmlContent.length}`);
-    return extractTextFromWordXml(xmlContent);
-  } catch (e) {
-    throw e;
-  }
-}
-
-// Helper function to extract content from Excel XML files
-async function extractExcelContent(file: any): Promise<string> {
-  try {
-    const xmlContent = await file.async('text');
-    return extractTextFromExcelXml(xmlContent);
-  } catch (e) {
-    throw e;
-  }
-}
-
-// Helper function to extract content from PowerPoint XML files
-async function extractPowerPointContent(file: any): Promise<string> {
-  try {
-    const xmlContent = await file.async('text');
-    return extractTextFromPowerPointXml(xmlContent);
-  } catch (e) {
-    throw e;
-  }
-}
 
-// Function to extract actual text from raw data
-function extractActualTextFromData(data: Uint8Array): string {
-  console.log('Extracting actual text from raw data...');
-  
-  try {
-    // Process in smaller chunks to avoid memory issues
-    const chunkSize = 10000;
-    let extractedText = '';
-    let foundText = false;
-    
-    for (let i = 0; i < data.length && !foundText; i += chunkSize) {
-      const chunk = data.slice(i, Math.min(i + chunkSize, data.length));
-      
-      // Convert chunk to string, keeping only printable ASCII characters
-      const str = Array.from(chunk)
-        .map(byte => (byte >= 32 && byte <= 126) ? String.fromCharCode(byte) : ' ')
-        .join('');
-      
-      // Look for meaningful words (3+ letters)
-      const words = str.match(/[a-zA-Z]{3,}/g);
-      if (words && words.length > 10) {
-        // Join words and look for sentences
-        const text = words.join(' ');
-        const sentences = text.split(/[.!?]+/)
-          .map(s => s.trim())
-          .filter(s => s.length > 20 && /[a-zA-Z]/.test(s));
-        
-        if (sentences.length >= 2) {
-          extractedText = sentences.join('. ') + '.';
-          foundText = true;
-          console.log(`Found meaningful text: ${extractedText.length} characters`);
-          break;
-        }
-      }
-    }
-    
-    // If no meaningful sentences found, try a different approach
-    if (!foundText) {
-      console.log('No meaningful sentences found, trying word extraction...');
-      let allWords: string[] = [];
-      
-      for (let i = 0; i < Math.min(data.length, 50000); i += chunkSize) {
-        const chunk = data.slice(i, Math.min(i + chunkSize, data.length));
-        const str = Array.from(chunk)
-          .map(byte => (byte >= 32 && byte <= 126) ? String.fromCharCode(byte) : ' ')
-          .join('');
-        
-        const words = str.match(/[a-zA-Z]{4,}/g);
-        if (words) {
-          allWords.push(...words);
-        }
-        
-        if (allWords.length > 100) break;
-      }
-      
-      if (allWords.length > 20) {
-        extractedText = allWords.slice(0, 100).join(' ') + '.';
-        console.log(`Extracted ${allWords.length} words from raw data`);
-      }
+    const result = await runRepair(request).catch(async error => {
+      await deliverFailure(request, toRepairError(error));
+      throw error;
+    });
+    if (result.errorCode) {
+      return errorResponse(new RepairError(result.errorCode, result.issues?.[0] ?? 'Nothing could be recovered'), result);
     }
-    
-    return extractedText.trim();
-    
-  } catch (error) {
-    console.error('Error in actual text extraction:', error);
-    return '';
-  }
-}
+    console.log('Returning result...');
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
 
-// Function to extract text from XML content
-function extractTextFromXml(xmlContent: string): string {
-  try {
-    console.log('Extracting text from XML, content length:', xmlContent.length);
-    
-    // For Word documents, extract text from <w:t> tags specifically
-    const wordTextRegex = /<w:t[^>]*>(.*?)<\/w:t>/gs;
-    let wordMatches = [];
-    let match;
-    while ((match = wordTextRegex.exec(xmlContent)) !== null) {
-      const textContent = match[1];
-      if (textContent && textContent.trim() && textContent.length > 2) {
-        wordMatches.push(textContent.trim());
-      }
-    }
-    
-    if (wordMatches.length > 5) {
-      const extractedText = wordMatches.join(' ');
-      console.log(`Extracted ${wordMatches.length} text segments from Word XML`);
-      return extractedText;
-    }
-    
-    // For other XML types, try paragraph tags
-    const paragraphRegex = /<(?:p|para)[^>]*>(.*?)<\/(?:p|para)>/gs;
-    let paragraphMatches = [];
-    while ((match = paragraphRegex.exec(xmlContent)) !== null) {
-      const content = match[1].replace(/<[^>]*>/g, ' ').trim();
-      if (content && content.length > 10) {
-        paragraphMatches.push(content);
-      }
-    }
-    
-    if (paragraphMatches.length > 0) {
-      return paragraphMatches.join(' ');
-    }
-    
-    // Generic text extraction as fallback
-    let text = xmlContent
-      .replace(/<[^>]*>/g, ' ') // Remove all XML tags
-      .replace(/&amp;/g, '&')   // Decode entities
-      .replace(/&lt;/g, '<')
-      .replace(/&gt;/g, '>')
-      .replace(/&quot;/g, '"')
-      .replace(/&apos;/g, "'")
-      .replace(/\s+/g, ' ')     // Normalize whitespace
-      .trim();
-    
-    // Only return meaningful text (not just metadata)
-    const words = text.split(/\s+/).filter(word => 
-      word.length > 3 && 
-      /^[a-zA-Z]/.test(word) && 
-      !word.match(/^(xml|PK|Content|Types|rels|word|document|theme|settings|styles|core|numbering|fontTable|docProps)$/i)
-    );
-    
-    if (words.length > 20) {
-      return words.join(' ');
-    }
-    
-    return '';
-    
   } catch (error) {
-    console.error('XML text extraction error:', error);
-    return '';
-  }
-}
-
-// Specific function to extract text from Word XML
-function extractTextFromWordXml(xmlContent: string): string {
-  console.log('Extracting from Word XML...');
-  
-  // Look for Word text content in <w:t> tags
-  const textRegex = /<w:t[^>]*>([^<]*)<\/w:t>/g;
-  const texts: string[] = [];
-  let match;
-  
-  while ((match = textRegex.exec(xmlContent)) !== null) {
-    const text = match[1].trim();
-    if (text && text.length > 1) {
-      texts.push(text);
-    }
-  }
-  
-  if (texts.length > 0) {
-    const result = texts.join(' ');
-    console.log(`Found ${texts.length} text segments in Word XML`);
-    return result;
+    console.error('ERROR:', error);
+    return errorResponse(toRepairError(error));
   }
-  
-  // Fallback to extract any text content
-  return extractTextFromXml(xmlContent);
-}
+});
 
-// Specific function to extract text from Excel XML
-function extractTextFromExcelXml(xmlContent: string): string {
-  console.log('Extracting from Excel XML...');
-  
-  // Look for Excel cell values
-  const cellRegex = /<v>([^<]+)<\/v>/g;
-  const values: string[] = [];
-  let match;
-  
-  while ((match = cellRegex.exec(xmlContent)) !== null) {
-    const value = match[1].trim();
-    if (value && isNaN(Number(value))) { // Skip pure numbers
-      values.push(value);
-    }
-  }
-  
-  if (values.length > 0) {
-    return values.join(' ');
+// Repair the requested file, reporting each stage to its job row
+async function runRepair(request: RepairRequest): Promise<RepairResult> {
+  let timer: number | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new RepairError(
+      'timeout',
+      `The repair did not finish within ${REPAIR_TIMEOUT_MS / 1000} seconds`
+    )), REPAIR_TIMEOUT_MS);
+  });
+  try {
+    const { detectedType, result, output, media } = await Promise.race([
+      repairDocument(request, request.job?.report),
+      timeout,
+    ]);
+    return await deliverResult(request, detectedType, result, output, media);
+  } finally {
+    clearTimeout(timer);
   }
-  
-  return extractTextFromXml(xmlContent);
 }
-
-// Specific function to extract text from PowerPoint XML
-function extractTextFromPowerPointXml(xmlContent: string): string {
-  console.log('Extracting from PowerPoint XML...');
-  
-  // Look for PowerPoint text content
-  const textRegex = /<a:t>([^<]*)<\/a:t>/g;
-  const texts: string[] = [];
-  let match;
-  
-  while ((match = textRegex.exec(xmlContent)) !== null) {
-    const text = match[1].trim();
-    if (text && text.length > 1) {
-      texts.push(text);
-    }
-  }
-  
-  if (texts.length > 0) {
-    return texts.join(' ');
-  }
-  
-  return extractTextFromXml(xmlContent);
-}
\ No newline at end of file
@@ -0,0 +1,333 @@
+// Legacy binary Office conversion: read whatever the compound file of a DOC,
+// XLS or PPT still holds and write it out as the matching OOXML package.
+
+import { type CompoundFileManifest, type CompoundStream, findCompoundEntry, readCompoundStream, salvageCompoundFile } from "./cfb-salvage.ts";
+import { extractPresentation, extractWordDocument, extractWorkbook, type LegacyBlock, type LegacySheet, type LegacySlide } from "./legacy-office.ts";
+import { ignoreProgress, type ProgressReporter } from "./progress.ts";
+import { escapeXml, escapeXmlText, unescapeXml } from "./xml-text.ts";
+import { buildRelationshipsXml, getMinimalRels, logIssue, MAIN_PARTS, type PackageRelationship, type RebuiltPackage, RELATIONSHIP_NS, relsPathFor, type RepairLog, writePackage } from "./ooxml-package.ts";
+import { buildWorkbookXml, type WorkbookSheet } from "./xlsx-rebuild.ts";
+import { addFallbackSlideMaster, buildPresentationXml, EMPTY_SHAPE_TREE, PRESENTATIONML_NS } from "./pptx-rebuild.ts";
+import type { PartReport, RepairReport } from "./repair-result.ts";
+
+type LegacyOutputType = 'docx' | 'xlsx' | 'pptx';
+
+export interface ConvertedPackage extends RebuiltPackage {
+  outputType: LegacyOutputType;
+  // Compound file streams the content was read from
+  sourceStreams: Set<string>;
+  // Every byte of the content streams was read and understood
+  contentComplete: boolean;
+}
+
+interface LegacyContent {
+  parts: Map<string, Uint8Array>;
+  preview: RebuiltPackage['preview'];
+  complete: boolean;
+}
+
+type CompoundStreamReader = (name: string) => CompoundStream | null;
+
+interface LegacyConverter {
+  outputType: LegacyOutputType;
+  // What survives the conversion, for the issue shown to the user
+  kept: string;
+  convert: (readStream: CompoundStreamReader, log: RepairLog) => Promise<LegacyContent | null>;
+}
+
+export const LEGACY_CONVERTERS: Record<string, LegacyConverter> = {
+  doc: { outputType: 'docx', kept: 'text and tables', convert: convertWordDocument },
+  xls: { outputType: 'xlsx', kept: 'cell values', convert: convertWorkbook },
+  ppt: { outputType: 'pptx', kept: 'slide text', convert: convertPresentation },
+};
+
+const WORDPROCESSINGML_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const SPREADSHEETML_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+
+// Letter paper with one inch margins, in twentieths of a point
+const WORD_TEXT_WIDTH = 9360;
+
+const WORD_SECTION = '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>' +
+  '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>';
+
+const WORD_TABLE_BORDERS = '<w:tblBorders>' +
+  ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="auto"/>`).join('') +
+  '</w:tblBorders>';
+
+function buildWordParagraph(text: string): string {
+  const content = text.split(/(\t|\n)/).filter(Boolean).map(piece =>
+    piece === '\t' ? '<w:tab/>' : piece === '\n' ? '<w:br/>' : `<w:t xml:space="preserve">${escapeXmlText(piece)}</w:t>`
+  );
+  return content.length > 0 ? `<w:p><w:r>${content.join('')}</w:r></w:p>` : '<w:p/>';
+}
+
+function buildWordTable(rows: string[][]): string {
+  // Rows cut short by damage are padded so the grid stays rectangular
+  const columns = Math.max(1, ...rows.map(row => row.length));
+  const grid = `<w:tblGrid>${`<w:gridCol w:w="${Math.floor(WORD_TEXT_WIDTH / columns)}"/>`.repeat(columns)}</w:tblGrid>`;
+  const items = rows.map(row => {
+    const cells = Array.from({ length: columns }, (_, i) => row[i] ?? '');
+    return `<w:tr>${cells.map(cell => `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>${buildWordParagraph(cell)}</w:tc>`).join('')}</w:tr>`;
+  });
+  return `<w:tbl><w:tblPr><w:tblW w:w="0" w:type="auto"/>${WORD_TABLE_BORDERS}</w:tblPr>${grid}${items.join('')}</w:tbl>`;
+}
+
+function buildLegacyDocumentXml(blocks: LegacyBlock[]): string {
+  const body = blocks.map(block => block.kind === 'paragraph' ? buildWordParagraph(block.text) : buildWordTable(block.rows));
+  // Word expects a paragraph between a table and the section properties
+  if (blocks[blocks.length - 1]?.kind === 'table') body.push('<w:p/>');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${WORDPROCESSINGML_NS}"><w:body>${body.join('')}${WORD_SECTION}</w:body></w:document>`;
+}
+
+async function convertWordDocument(readStream: CompoundStreamReader, log: RepairLog): Promise<LegacyContent | null> {
+  const word = readStream('WordDocument');
+  if (!word) {
+    logIssue(log, 'The WordDocument stream is missing; no text could be recovered', 'WordDocument');
+    return null;
+  }
+  const content = await extractWordDocument(word, readStream);
+  content.issues.forEach(issue => logIssue(log, issue, 'WordDocument'));
+  if (content.blocks.length === 0) return null;
+
+  const encoder = new TextEncoder();
+  const parts = new Map<string, Uint8Array>();
+  parts.set('_rels/.rels', encoder.encode(getMinimalRels('docx')));
+  parts.set(MAIN_PARTS.docx, encoder.encode(buildLegacyDocumentXml(content.blocks)));
+
+  const text = content.blocks
+    .map(block => block.kind === 'paragraph' ? block.text : block.rows.map(row => row.join('\t')).join('\n'))
+    .join('\n');
+  return { parts, preview: { content: text }, complete: content.complete };
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function buildLegacySheetXml(sheet: LegacySheet): string {
+  const rows = [...sheet.rows.entries()].sort(([a], [b]) => a - b).map(([rowIndex, cells]) => {
+    const items = [...cells.entries()].sort(([a], [b]) => a - b).map(([columnIndex, value]) => {
+      const ref = `${columnName(columnIndex)}${rowIndex + 1}`;
+      if (typeof value === 'number') return Number.isFinite(value) ? `<c r="${ref}"><v>${value}</v></c>` : '';
+      if (typeof value === 'boolean') return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+      if (typeof value === 'object') return `<c r="${ref}" t="e"><v>${escapeXml(value.error)}</v></c>`;
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXmlText(value)}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${items.join('')}</row>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="${SPREADSHEETML_NS}"><sheetData>${rows.join('')}</sheetData></worksheet>`;
+}
+
+// Excel sheet names are at most 31 characters, unique ignoring case and
+// cannot contain []:*?/\
+function buildSheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[[\]:*?/\\]/g, '_').replace(/^'+|'+$/g, '').trim().slice(0, 31) || `Sheet${used.size + 1}`;
+  let candidate = base;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    candidate = base.slice(0, 31 - suffix.length) + suffix;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+async function convertWorkbook(readStream: CompoundStreamReader, log: RepairLog): Promise<LegacyContent | null> {
+  // BIFF5 files name the stream Book rather than Workbook
+  let streamName = 'Workbook';
+  let workbook = readStream(streamName);
+  if (!workbook) {
+    streamName = 'Book';
+    workbook = readStream(streamName);
+  }
+  if (!workbook) {
+    logIssue(log, 'The Workbook stream is missing; no cells could be recovered', 'Workbook');
+    return null;
+  }
+  const content = extractWorkbook(workbook);
+  content.issues.forEach(issue => logIssue(log, issue, streamName));
+  if (content.sheets.length === 0) return null;
+
+  const encoder = new TextEncoder();
+  const parts = new Map<string, Uint8Array>();
+  const usedNames = new Set<string>();
+  const sheets: WorkbookSheet[] = content.sheets.map((sheet, index) => {
+    const partName = `xl/worksheets/sheet${index + 1}.xml`;
+    parts.set(partName, encoder.encode(buildLegacySheetXml(sheet)));
+    return { name: escapeXml(buildSheetName(sheet.name, usedNames)), state: null, partName };
+  });
+  parts.set('_rels/.rels', encoder.encode(getMinimalRels('xlsx')));
+  parts.set(MAIN_PARTS.xlsx, encoder.encode(buildWorkbookXml(sheets, null)));
+  parts.set(relsPathFor(MAIN_PARTS.xlsx), encoder.encode(buildRelationshipsXml(sheets.map((sheet, index) => ({
+    id: `rIdSheet${index + 1}`,
+    type: `${RELATIONSHIP_NS}/worksheet`,
+    target: sheet.partName!.slice('xl/'.length),
+    external: false,
+  })))));
+
+  const text = content.sheets
+    .map(sheet => [...sheet.rows.values()].map(cells => [...cells.values()].filter(value => typeof value !== 'object').join('\t')).join('\n'))
+    .join('\n');
+  return {
+    parts,
+    preview: { content: text, extractedSheets: sheets.map(sheet => unescapeXml(sheet.name)) },
+    complete: content.complete,
+  };
+}
+
+function buildSlideParagraph(text: string, size: number): string {
+  const runs = text.split('\n').map(line =>
+    line ? `<a:r><a:rPr lang="en-US" sz="${size}" dirty="0"/><a:t>${escapeXmlText(line)}</a:t></a:r>` : ''
+  );
+  return `<a:p>${runs.join('<a:br><a:rPr lang="en-US" sz="' + size + '"/></a:br>')}<a:endParaRPr lang="en-US" sz="${size}"/></a:p>`;
+}
+
+function buildTextBox(id: number, name: string, y: number, height: number, paragraphs: string[], size: number): string {
+  return `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${name}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>` +
+    `<p:spPr><a:xfrm><a:off x="457200" y="${y}"/><a:ext cx="11277600" cy="${height}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr>` +
+    `<p:txBody><a:bodyPr wrap="square"><a:normAutofit/></a:bodyPr><a:lstStyle/>${paragraphs.map(text => buildSlideParagraph(text, size)).join('')}</p:txBody></p:sp>`;
+}
+
+function buildLegacySlideXml(slide: LegacySlide): string {
+  const shapes: string[] = [];
+  if (slide.title) shapes.push(buildTextBox(2, 'Title', 274638, 1143000, [slide.title], 3200));
+  if (slide.paragraphs.length > 0) shapes.push(buildTextBox(3, 'Text', 1600200, 4525963, slide.paragraphs, 1800));
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<p:sld ${PRESENTATIONML_NS}>${EMPTY_SHAPE_TREE.replace('</p:spTree>', `${shapes.join('')}</p:spTree>`)}<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`;
+}
+
+async function convertPresentation(readStream: CompoundStreamReader, log: RepairLog): Promise<LegacyContent | null> {
+  const document = readStream('PowerPoint Document');
+  if (!document) {
+    logIssue(log, 'The PowerPoint Document stream is missing; no slides could be recovered', 'PowerPoint Document');
+    return null;
+  }
+  const content = await extractPresentation(document);
+  content.issues.forEach(issue => logIssue(log, issue, 'PowerPoint Document'));
+  if (content.slides.length === 0) return null;
+
+  const encoder = new TextEncoder();
+  const parts = new Map<string, Uint8Array>();
+  const master = addFallbackSlideMaster(parts);
+  const relationships: PackageRelationship[] = [
+    { id: 'rIdMaster1', type: `${RELATIONSHIP_NS}/slideMaster`, target: master.partName.slice('ppt/'.length), external: false },
+    { id: 'rIdTheme1', type: `${RELATIONSHIP_NS}/theme`, target: 'theme/theme1.xml', external: false },
+  ];
+  const slideEntries = content.slides.map((slide, index) => {
+    const partName = `ppt/slides/slide${index + 1}.xml`;
+    parts.set(partName, encoder.encode(buildLegacySlideXml(slide)));
+    parts.set(relsPathFor(partName), encoder.encode(buildRelationshipsXml([
+      { id: 'rId1', type: `${RELATIONSHIP_NS}/slideLayout`, target: `../slideLayouts/${master.layouts[0].split('/').pop()}`, external: false },
+    ])));
+    const rId = `rIdSlide${index + 1}`;
+    relationships.push({ id: rId, type: `${RELATIONSHIP_NS}/slide`, target: partName.slice('ppt/'.length), external: false });
+    return { id: String(256 + index), rId };
+  });
+  parts.set('_rels/.rels', encoder.encode(getMinimalRels('pptx')));
+  // The id sits above the generated layout's, which shares its number space
+  parts.set(MAIN_PARTS.pptx, encoder.encode(buildPresentationXml(null, [{ id: '2147483650', rId: 'rIdMaster1' }], slideEntries, new Map(), false)));
+  parts.set(relsPathFor(MAIN_PARTS.pptx), encoder.encode(buildRelationshipsXml(relationships)));
+
+  const text = content.slides.map(slide => [slide.title, ...slide.paragraphs].filter(Boolean).join('\n')).join('\n');
+  return {
+    parts,
+    preview: { content: text, extractedSlides: content.slides.length, referencedSlides: content.slides.length },
+    complete: content.complete,
+  };
+}
+
+// Convert a legacy binary Office file into the matching OOXML package. Issues
+// found along the way are kept in `log` even when nothing could be converted.
+export async function convertLegacyDocument(
+  buffer: Uint8Array,
+  fileType: string,
+  log: RepairLog,
+  progress: ProgressReporter = ignoreProgress
+): Promise<{ converted: ConvertedPackage; manifest: CompoundFileManifest } | null> {
+  const converter = LEGACY_CONVERTERS[fileType];
+  const manifest = converter ? salvageCompoundFile(buffer) : null;
+  if (!converter || !manifest) return null;
+  manifest.issues.forEach(issue => logIssue(log, issue));
+
+  const sourceStreams = new Set<string>();
+  const readStream: CompoundStreamReader = name => {
+    const entry = findCompoundEntry(manifest, name);
+    if (!entry) return null;
+    sourceStreams.add(name);
+    return readCompoundStream(buffer, manifest, entry);
+  };
+
+  progress('inflating');
+  const content = await converter.convert(readStream, log);
+  if (!content) return null;
+  log.issues.unshift(
+    `Converted the legacy ${fileType.toUpperCase()} file to ${converter.outputType.toUpperCase()}, keeping its ${converter.kept} but not its formatting`
+  );
+
+  const data = await writePackage(null, content.parts, log, progress);
+  console.log(`Converted ${fileType.toUpperCase()} to ${converter.outputType.toUpperCase()} (${data.length} bytes)`);
+  return {
+    converted: {
+      data,
+      parts: content.parts,
+      ...log,
+      preview: content.preview,
+      mainPartTruncated: !content.complete,
+      outputType: converter.outputType,
+      sourceStreams,
+      contentComplete: content.complete,
+    },
+    manifest,
+  };
+}
+
+// Account for every stream of the compound file. Only the streams the content
+// was read from count towards the score, which stays below 100 because the
+// formatting they held is not carried over.
+export function buildConversionReport(buffer: Uint8Array, manifest: CompoundFileManifest, converted: ConvertedPackage): RepairReport {
+  const reports: PartReport[] = [];
+  let totalBytes = 0;
+  let keptBytes = 0;
+
+  for (const entry of manifest.entries.filter(entry => entry.type === 'stream')) {
+    const stream = readCompoundStream(buffer, manifest, entry);
+    const recoveredSize = stream?.data.length ?? 0;
+    const source = converted.sourceStreams.has(entry.name);
+    const actions = [...(converted.partActions.get(entry.name) || [])];
+    if (source) {
+      actions.push(stream ? `Converted into ${MAIN_PARTS[converted.outputType]}` : 'Lost: no data could be read');
+      totalBytes += entry.size;
+      keptBytes += Math.min(entry.size, recoveredSize);
+    } else if (actions.length === 0) {
+      actions.push(stream?.complete ? 'Not carried into the converted document' : 'Dropped: damaged');
+    }
+    reports.push({
+      name: entry.name,
+      originalSize: entry.size,
+      recoveredSize,
+      crc: 'unverified',
+      actions,
+      inOutput: false,
+    });
+  }
+
+  for (const name of converted.parts.keys()) {
+    reports.push({
+      name,
+      originalSize: null,
+      recoveredSize: 0,
+      crc: 'unverified',
+      actions: ['Generated from the legacy document'],
+      inOutput: true,
+    });
+  }
+
+  const score = totalBytes > 0 ? Math.floor((keptBytes / totalBytes) * 100) : 0;
+  return { parts: reports, score: Math.min(score, 99) };
+}
@@ -0,0 +1,65 @@
+// The repairer for legacy binary Office files.
+
+import { type CompoundFileManifest, readCompoundStream, salvageCompoundFile } from "./cfb-salvage.ts";
+import { createRepairLog } from "./ooxml-package.ts";
+import { buildConversionReport, type ConvertedPackage, convertLegacyDocument, LEGACY_CONVERTERS } from "./legacy-convert.ts";
+import { extractActualTextFromData } from "./text-extract.ts";
+import { failedOutcome, outcome, previewText, resultFileType } from "./repair-outcome.ts";
+import type { Repairer } from "./repairers.ts";
+import type { RepairResult } from "./repair-result.ts";
+
+// Legacy binary Office files: convert what the compound file still holds to OOXML
+export const legacyOfficeRepairer: Repairer = {
+  name: 'legacy-office',
+  detect: fileType => fileType in LEGACY_CONVERTERS,
+  diagnose: ({ data }) => salvageCompoundFile(data)?.issues ?? ['No compound file structure was found'],
+  repair: async context => {
+    const { file, fileType, data, progress } = context;
+    console.log(`Attempting ${fileType.toUpperCase()} conversion...`);
+    const log = createRepairLog();
+    let legacy: { converted: ConvertedPackage; manifest: CompoundFileManifest } | null = null;
+    try {
+      legacy = await convertLegacyDocument(data, fileType, log, progress);
+    } catch (e) {
+      console.log('Legacy conversion failed, falling back to text extraction:', e.message);
+    }
+
+    if (legacy) {
+      const { converted, manifest } = legacy;
+      const streams = manifest.entries.filter(entry => entry.type === 'stream');
+      const damagedStreams = streams.filter(entry => !readCompoundStream(data, manifest, entry)?.complete).length;
+      const report = buildConversionReport(data, manifest, converted);
+      // A stream cut short past the content still counts against the score
+      const complete = converted.contentComplete && damagedStreams === 0;
+      const result: RepairResult = {
+        success: true,
+        fileName: file.name.replace(/\.[^.]+$/, '') + `_recovered.${converted.outputType}`,
+        status: complete ? 'success' : 'partial',
+        issues: [...new Set(converted.issues)],
+        preview: { ...converted.preview, content: previewText(converted.preview.content || '') },
+        fileType: resultFileType(converted.outputType),
+        report,
+        recoveryStats: {
+          totalFiles: streams.length,
+          recoveredFiles: streams.length - damagedStreams,
+          corruptedFiles: damagedStreams,
+          originalSize: file.size,
+          repairedSize: converted.data.length,
+          corruptionLevel: complete ? 'low' : 'medium',
+          recoveredData: report.score
+        }
+      };
+
+      console.log(`Returning converted ${converted.outputType.toUpperCase()} (recovery score ${report.score})`);
+      return outcome(fileType, result, converted.data, undefined);
+    }
+
+    // An encrypted document or empty content streams: carving raw bytes would only produce noise
+    if (log.issues.length > 0) {
+      console.log('Legacy conversion failed - no content recovered');
+      return failedOutcome(context, 'no_recoverable_content', log.issues);
+    }
+    return null;
+  },
+  extractPreview: async ({ data }) => extractActualTextFromData(data),
+};
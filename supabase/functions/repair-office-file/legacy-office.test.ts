@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { repairDocument } from "./repair-core.ts";
+import { buildTestDoc, buildTestPpt, buildTestXls, testRepairInput, truncateBytes } from "./test-packages.ts";
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+const FAT_OFFSET = 512;
+const DIRECTORY_OFFSET = 1024;
+
+const LEGACY_FILES: Array<[string, () => Uint8Array, string]> = [
+  ['doc', buildTestDoc, 'Quarterly report'],
+  ['xls', buildTestXls, 'Region 0'],
+  ['ppt', buildTestPpt, 'Slide 1'],
+];
+
+async function repair(extension: string, data: Uint8Array) {
+  return (await repairDocument(testRepairInput(`report.${extension}`, data))).result;
+}
+
+describe.each(LEGACY_FILES)('legacy %s conversion', (extension, build, firstText) => {
+  const whole = build();
+
+  it('converts a whole file, scoring just short of 100 for the formatting it drops', async () => {
+    const result = await repair(extension, whole);
+
+    expect(result.status).toBe('success');
+    expect(result.recoveryStats!.recoveredData).toBe(99);
+    expect(result.preview!.content).toContain(firstText);
+  });
+
+  it('scores a file cut shorter lower', async () => {
+    const scores: number[] = [];
+    for (const share of [0.9, 0.6]) {
+      const result = await repair(extension, truncateBytes(whole, share));
+      expect(result.status).toBe('partial');
+      expect(result.preview!.content).toContain(firstText);
+      scores.push(result.recoveryStats!.recoveredData);
+    }
+
+    expect(scores[0]).toBeLessThan(99);
+    expect(scores[1]).toBeLessThan(scores[0]);
+  });
+
+  it('recovers all of the content through a zeroed FAT sector', async () => {
+    const damaged = whole.slice();
+    damaged.fill(0, FAT_OFFSET, FAT_OFFSET + 512);
+    const result = await repair(extension, damaged);
+
+    expect(result.status).toBe('partial');
+    expect(result.preview!.content).toBe((await repair(extension, whole)).preview!.content);
+  });
+
+  it('recovers all of the content when the root directory entry is lost', async () => {
+    const damaged = whole.slice();
+    damaged.fill(0, DIRECTORY_OFFSET, DIRECTORY_OFFSET + 128);
+    const result = await repair(extension, damaged);
+
+    expect(result.status).toBe('success');
+    expect(result.issues).toContain('Compound file directory was damaged; scanned every sector for stream names');
+    expect(result.preview!.content).toBe((await repair(extension, whole)).preview!.content);
+  });
+});
+
+describe('legacy conversion of a badly cut file', () => {
+  it('carves the text of a document whose piece table was cut off', async () => {
+    const result = await repair('doc', truncateBytes(buildTestDoc(), 0.3));
+
+    expect(result.status).toBe('partial');
+    expect(result.recoveryStats!.recoveredData).toBeLessThan(50);
+    expect(result.issues).toContain('The piece table in 1Table was lost; text order may be approximate');
+    expect(result.preview!.content).toContain('Quarterly report');
+  });
+
+  it('fails a workbook cut off before its first sheet instead of inventing cells', async () => {
+    const result = await repair('xls', truncateBytes(buildTestXls(), 0.3));
+
+    expect(result).toMatchObject({ success: false, status: 'failed' });
+  });
+});
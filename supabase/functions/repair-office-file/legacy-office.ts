@@ -0,0 +1,710 @@
+// Content extraction from legacy binary Office streams.
+//
+// Reads the text of a Word 97-2003 WordDocument stream through its piece
+// table, the cell values of an Excel BIFF5/BIFF8 Workbook stream and the
+// slide text of a PowerPoint Document stream. Every reader works on whatever
+// part of its stream survived: record walks stop or resynchronise at damage
+// instead of giving up, and when the structures needed to find the text are
+// gone the text is carved out of the raw stream instead.
+
+import type { CompoundStream } from "./cfb-salvage.ts";
+import { carveTextRuns, decodeCp1252 } from "./text-carving.ts";
+
+export type LegacyBlock =
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'table'; rows: string[][] };
+
+export interface LegacyWordContent {
+  blocks: LegacyBlock[];
+  complete: boolean;
+  issues: string[];
+}
+
+export type LegacyCellValue = string | number | boolean | { error: string };
+
+export interface LegacySheet {
+  name: string;
+  // Row index to column index to value
+  rows: Map<number, Map<number, LegacyCellValue>>;
+}
+
+export interface LegacyWorkbookContent {
+  sheets: LegacySheet[];
+  complete: boolean;
+  issues: string[];
+}
+
+export interface LegacySlide {
+  title: string | null;
+  paragraphs: string[];
+}
+
+export interface LegacyPresentationContent {
+  slides: LegacySlide[];
+  complete: boolean;
+  issues: string[];
+}
+
+const WORD_97_IDENT = 0xa5ec;
+const WORD_95_IDENT = 0xa5dc;
+const FIB_FLAG_COMPLEX = 0x0004;
+const FIB_FLAG_ENCRYPTED = 0x0100;
+const FIB_FLAG_TABLE_STREAM = 0x0200;
+const FIB_FC_CLX_INDEX = 33;
+const PIECE_COMPRESSED = 0x40000000;
+
+const FIELD_BEGIN = '\x13';
+const FIELD_SEPARATOR = '\x14';
+const FIELD_END = '\x15';
+const CELL_MARK = '\x07';
+const PAGE_BREAK = '\x0c';
+
+function getUint16LE(buffer: Uint8Array, offset: number): number {
+  return buffer[offset] | (buffer[offset + 1] << 8);
+}
+
+function getUint32LE(buffer: Uint8Array, offset: number): number {
+  return (buffer[offset] | (buffer[offset + 1] << 8) | (buffer[offset + 2] << 16) | (buffer[offset + 3] << 24)) >>> 0;
+}
+
+function decodeUtf16(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    text += String.fromCharCode(getUint16LE(bytes, i));
+  }
+  return text;
+}
+
+// Plausible runs of text in a stream whose structure is gone, one per line
+async function carveLines(bytes: Uint8Array): Promise<string[]> {
+  return (await carveTextRuns(bytes)).flatMap(run => run.text.split('\n'));
+}
+
+// ---------------------------------------------------------------------------
+// Word
+
+interface TextPiece {
+  cpStart: number;
+  cpEnd: number;
+  offset: number;
+  compressed: boolean;
+}
+
+// Read the piece table (PlcPcd) out of the Clx in the table stream
+function readPieceTable(table: Uint8Array, fcClx: number, lcbClx: number): TextPiece[] | null {
+  const end = Math.min(fcClx + lcbClx, table.length);
+  let p = fcClx;
+  while (p < end && table[p] === 0x01) {
+    p += 3 + getUint16LE(table, p + 1);
+  }
+  if (p + 5 > end || table[p] !== 0x02) return null;
+
+  const lcb = getUint32LE(table, p + 1);
+  const plc = p + 5;
+  const count = (lcb - 4) / 12;
+  if (!Number.isInteger(count) || count < 1 || plc + lcb > table.length) return null;
+
+  const pieces: TextPiece[] = [];
+  for (let i = 0; i < count; i++) {
+    const cpStart = getUint32LE(table, plc + i * 4);
+    const cpEnd = getUint32LE(table, plc + (i + 1) * 4);
+    const fc = getUint32LE(table, plc + (count + 1) * 4 + i * 8 + 2);
+    const compressed = (fc & PIECE_COMPRESSED) !== 0;
+    const offset = compressed ? (fc & ~PIECE_COMPRESSED) / 2 : fc & ~PIECE_COMPRESSED;
+    if (cpEnd < cpStart) return null;
+    pieces.push({ cpStart, cpEnd, offset, compressed });
+  }
+  return pieces;
+}
+
+// Text for character positions [0, limit), stopping where the stream ends
+function readPieces(stream: Uint8Array, pieces: TextPiece[], limit: number): { text: string; complete: boolean } {
+  let text = '';
+  for (const piece of pieces.slice().sort((a, b) => a.cpStart - b.cpStart)) {
+    if (piece.cpStart >= limit) break;
+    const chars = Math.min(piece.cpEnd, limit) - piece.cpStart;
+    const bytes = chars * (piece.compressed ? 1 : 2);
+    const available = stream.subarray(piece.offset, Math.min(piece.offset + bytes, stream.length));
+    text += piece.compressed ? decodeCp1252(available) : decodeUtf16(available);
+    if (available.length < bytes) return { text, complete: false };
+  }
+  return { text, complete: true };
+}
+
+// Drop field instructions while keeping their displayed results
+function stripFieldCodes(text: string): string {
+  let result = '';
+  // One entry per open field: true while still in its instruction part
+  const fields: boolean[] = [];
+  for (const char of text) {
+    if (char === FIELD_BEGIN) {
+      fields.push(true);
+    } else if (char === FIELD_SEPARATOR) {
+      if (fields.length > 0) fields[fields.length - 1] = false;
+    } else if (char === FIELD_END) {
+      fields.pop();
+    } else if (!fields.includes(true)) {
+      result += char;
+    }
+  }
+  return result;
+}
+
+// Vertical tab is a manual line break and 0x1e a non-breaking hyphen in both
+// Word and PowerPoint text; other control characters are markers and dropped
+function cleanText(text: string): string {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code === 0x0b) result += '\n';
+    else if (code === 0x1e) result += '\u2011';
+    else if (code >= 0x20 || code === 0x09 || code === 0x0a) result += text[i];
+  }
+  return result;
+}
+
+// Split document text into paragraphs and tables. A cell ends with a cell
+// mark and a row with an extra one, so an empty cell-marked paragraph right
+// after a cell closes the row.
+function splitWordText(text: string): LegacyBlock[] {
+  const blocks: LegacyBlock[] = [];
+  let rows: string[][] = [];
+  let row: string[] = [];
+  let cell: string[] = [];
+  let lastWasCell = false;
+
+  const flushTable = () => {
+    if (row.length > 0) rows.push(row);
+    if (rows.length > 0) blocks.push({ kind: 'table', rows });
+    rows = [];
+    row = [];
+  };
+
+  // Paragraphs end with a carriage return, a cell mark or a page break
+  let start = 0;
+  for (let i = 0; i <= text.length; i++) {
+    const char = text[i];
+    if (i < text.length && char !== '\r' && char !== CELL_MARK && char !== PAGE_BREAK) continue;
+    const content = text.slice(start, i);
+    start = i + 1;
+    if (i === text.length && content === '') break;
+    const paragraph = cleanText(content);
+
+    if (char === CELL_MARK) {
+      if (paragraph === '' && cell.length === 0 && lastWasCell && row.length > 0) {
+        rows.push(row);
+        row = [];
+      } else {
+        row.push([...cell, paragraph].join('\n'));
+      }
+      cell = [];
+      lastWasCell = true;
+      continue;
+    }
+
+    lastWasCell = false;
+    if (row.length > 0) {
+      // A paragraph inside a cell that has more to come
+      cell.push(paragraph);
+      continue;
+    }
+    flushTable();
+    blocks.push({ kind: 'paragraph', text: paragraph });
+  }
+  flushTable();
+  return blocks;
+}
+
+// The piece table lives in 0Table or 1Table depending on a FIB flag, so the
+// caller supplies a way to read either
+export async function extractWordDocument(
+  word: CompoundStream,
+  readTableStream: (name: '0Table' | '1Table') => CompoundStream | null
+): Promise<LegacyWordContent> {
+  const issues: string[] = [];
+  const data = word.data;
+  const ident = getUint16LE(data, 0);
+  const flags = getUint16LE(data, 0x0a);
+  const tableName = flags & FIB_FLAG_TABLE_STREAM ? '1Table' : '0Table';
+
+  if (data.length >= 0x20 && (flags & FIB_FLAG_ENCRYPTED) && (ident === WORD_97_IDENT || ident === WORD_95_IDENT)) {
+    issues.push('The document is password protected; its text cannot be recovered');
+    return { blocks: [], complete: false, issues };
+  }
+
+  let text: string | null = null;
+  let complete = word.complete;
+
+  if (ident === WORD_97_IDENT && data.length >= 0x1aa) {
+    // FibRgW, FibRgLw and FibRgFcLcb follow the base, each prefixed by its count
+    const csw = getUint16LE(data, 0x20);
+    const rgLw = 0x22 + csw * 2 + 2;
+    const cslw = getUint16LE(data, rgLw - 2);
+    const ccpText = getUint32LE(data, rgLw + 3 * 4);
+    const rgFcLcb = rgLw + cslw * 4 + 2;
+    const fcClx = getUint32LE(data, rgFcLcb + FIB_FC_CLX_INDEX * 8);
+    const lcbClx = getUint32LE(data, rgFcLcb + FIB_FC_CLX_INDEX * 8 + 4);
+
+    const table = lcbClx > 0 ? readTableStream(tableName) : null;
+    const pieces = table ? readPieceTable(table.data, fcClx, lcbClx) : null;
+    if (pieces) {
+      const read = readPieces(data, pieces, ccpText);
+      text = read.text;
+      complete = complete && read.complete;
+      if (!read.complete) issues.push('The document text was cut short; kept the text before the damaged point');
+    } else {
+      issues.push(`The piece table in ${tableName} was lost; text order may be approximate`);
+      if (!(flags & FIB_FLAG_COMPLEX)) {
+        // Unedited documents keep their text in one run starting at fcMin
+        const fcMin = getUint32LE(data, 0x18);
+        const fcMac = getUint32LE(data, 0x1c);
+        if (fcMin >= 0x200 && fcMac > fcMin && fcMin < data.length) {
+          const bytes = data.subarray(fcMin, Math.min(fcMac, data.length));
+          const utf16 = bytes.length > 16 && bytes[1] === 0 && bytes[3] === 0 && bytes[5] === 0;
+          text = (utf16 ? decodeUtf16(bytes) : decodeCp1252(bytes)).slice(0, ccpText || undefined);
+        }
+      }
+    }
+  } else if (ident === WORD_95_IDENT && data.length >= 0x38) {
+    const fcMin = getUint32LE(data, 0x18);
+    const ccpText = getUint32LE(data, 0x34);
+    const bytes = data.subarray(fcMin, Math.min(fcMin + ccpText, data.length));
+    text = decodeCp1252(bytes);
+    if (bytes.length < ccpText) {
+      complete = false;
+      issues.push('The document text was cut short; kept the text before the damaged point');
+    }
+  } else {
+    issues.push('The Word file information block was damaged');
+  }
+
+  if (text === null) {
+    complete = false;
+    const lines = await carveLines(data.subarray(0x200));
+    if (lines.length > 0) issues.push(`Carved ${lines.length} line(s) of text out of the damaged WordDocument stream`);
+    text = lines.join('\r');
+  }
+
+  const blocks = splitWordText(stripFieldCodes(text));
+  while (blocks.length > 0 && blocks[blocks.length - 1].kind === 'paragraph' && !(blocks[blocks.length - 1] as { text: string }).text) {
+    blocks.pop();
+  }
+  return { blocks, complete, issues };
+}
+
+// ---------------------------------------------------------------------------
+// Excel
+
+const BIFF = {
+  FORMULA: 0x0006,
+  EOF: 0x000a,
+  FILEPASS: 0x002f,
+  CONTINUE: 0x003c,
+  BOUNDSHEET: 0x0085,
+  MULRK: 0x00bd,
+  RSTRING: 0x00d6,
+  SST: 0x00fc,
+  LABELSST: 0x00fd,
+  NUMBER: 0x0203,
+  LABEL: 0x0204,
+  BOOLERR: 0x0205,
+  STRING: 0x0207,
+  RK: 0x027e,
+  BOF: 0x0809,
+} as const;
+
+const BIFF8_VERSION = 0x0600;
+const BOF_WORKSHEET = 0x0010;
+const MAX_RECORD_LENGTH = 8224;
+// Records seen in worksheet substreams, used to tell real record headers
+// from noise when resynchronising after damage
+const RESYNC_RECORD_TYPES = new Set<number>([
+  BIFF.FORMULA, BIFF.EOF, BIFF.CONTINUE, BIFF.MULRK, BIFF.LABELSST, BIFF.NUMBER, BIFF.LABEL, BIFF.BOOLERR,
+  BIFF.STRING, BIFF.RK, BIFF.BOF, 0x0201 /* BLANK */, 0x00be /* MULBLANK */, 0x0208 /* ROW */, 0x00d7 /* DBCELL */,
+  0x020b /* INDEX */, 0x0200 /* DIMENSIONS */, 0x023e /* WINDOW2 */, 0x007d /* COLINFO */,
+]);
+
+const BIFF_ERRORS: Record<number, string> = {
+  0x00: '#NULL!', 0x07: '#DIV/0!', 0x0f: '#VALUE!', 0x17: '#REF!', 0x1d: '#NAME?', 0x24: '#NUM!', 0x2a: '#N/A',
+};
+
+interface BiffRecord {
+  type: number;
+  offset: number;
+  data: Uint8Array;
+}
+
+function isPlausibleRecord(stream: Uint8Array, offset: number): boolean {
+  if (offset + 4 > stream.length) return false;
+  const length = getUint16LE(stream, offset + 2);
+  return RESYNC_RECORD_TYPES.has(getUint16LE(stream, offset)) && length <= MAX_RECORD_LENGTH && offset + 4 + length <= stream.length;
+}
+
+// Walk the record stream; a header that cannot be real is skipped past by
+// searching for two consecutive plausible records
+function readBiffRecords(stream: Uint8Array): { records: BiffRecord[]; resyncs: number; truncated: boolean } {
+  const records: BiffRecord[] = [];
+  let resyncs = 0;
+  let truncated = false;
+  for (let offset = 0; offset + 4 <= stream.length;) {
+    const type = getUint16LE(stream, offset);
+    const length = getUint16LE(stream, offset + 2);
+    if (type !== 0 && length <= MAX_RECORD_LENGTH && offset + 4 + length <= stream.length) {
+      records.push({ type, offset, data: stream.subarray(offset + 4, offset + 4 + length) });
+      offset += 4 + length;
+      continue;
+    }
+    if (offset + 4 + length > stream.length && length <= MAX_RECORD_LENGTH) {
+      truncated = true;
+      break;
+    }
+    let next = offset + 1;
+    while (next + 4 <= stream.length && !(isPlausibleRecord(stream, next) && isPlausibleRecord(stream, next + 4 + getUint16LE(stream, next + 2)))) {
+      next++;
+    }
+    if (next + 4 > stream.length) break;
+    resyncs++;
+    offset = next;
+  }
+  return { records, resyncs, truncated };
+}
+
+// Reads XLUnicodeRichExtendedString values that may continue across
+// CONTINUE records, each continuation restarting with a fresh option byte
+class BiffStringReader {
+  private fragment = 0;
+  private position = 0;
+
+  constructor(private fragments: Uint8Array[], start: number) {
+    this.position = start;
+  }
+
+  private current(): Uint8Array | undefined {
+    while (this.fragment < this.fragments.length && this.position >= this.fragments[this.fragment].length) {
+      this.fragment++;
+      this.position = 0;
+    }
+    return this.fragments[this.fragment];
+  }
+
+  get done(): boolean {
+    return this.current() === undefined;
+  }
+
+  private byte(): number {
+    const data = this.current();
+    if (!data) throw new Error('String table ended early');
+    return data[this.position++];
+  }
+
+  private uint16(): number {
+    return this.byte() | (this.byte() << 8);
+  }
+
+  private uint32(): number {
+    return (this.uint16() | (this.uint16() << 16)) >>> 0;
+  }
+
+  private skip(count: number): void {
+    for (let i = 0; i < count; i++) this.byte();
+  }
+
+  readString(): string {
+    const length = this.uint16();
+    const options = this.byte();
+    let wide = (options & 0x01) !== 0;
+    const runs = options & 0x08 ? this.uint16() : 0;
+    const extended = options & 0x04 ? this.uint32() : 0;
+
+    let text = '';
+    let fragment = this.fragment;
+    while (text.length < length) {
+      if (!this.current()) throw new Error('String table ended early');
+      if (this.fragment !== fragment) {
+        // Characters continued into a new record restate their width
+        fragment = this.fragment;
+        wide = (this.byte() & 0x01) !== 0;
+        continue;
+      }
+      text += wide ? String.fromCharCode(this.uint16()) : String.fromCharCode(this.byte());
+    }
+    this.skip(runs * 4 + extended);
+    return text;
+  }
+}
+
+function readSharedStrings(records: BiffRecord[], index: number): string[] {
+  const fragments = [records[index].data];
+  for (let i = index + 1; i < records.length && records[i].type === BIFF.CONTINUE; i++) {
+    fragments.push(records[i].data);
+  }
+  const reader = new BiffStringReader(fragments, 8);
+  const strings: string[] = [];
+  try {
+    while (!reader.done) strings.push(reader.readString());
+  } catch (_) {
+    // Keep the strings read before the table was cut off
+  }
+  return strings;
+}
+
+function readShortString(data: Uint8Array, offset: number, biff8: boolean): string {
+  const length = data[offset];
+  if (!biff8) return decodeCp1252(data.subarray(offset + 1, offset + 1 + length));
+  const wide = (data[offset + 1] & 0x01) !== 0;
+  const start = offset + 2;
+  return wide ? decodeUtf16(data.subarray(start, start + length * 2)) : decodeCp1252(data.subarray(start, start + length));
+}
+
+function readCellString(data: Uint8Array, offset: number, biff8: boolean): string {
+  const length = getUint16LE(data, offset);
+  if (!biff8) return decodeCp1252(data.subarray(offset + 2, offset + 2 + length));
+  const wide = (data[offset + 2] & 0x01) !== 0;
+  const start = offset + 3;
+  return wide ? decodeUtf16(data.subarray(start, start + length * 2)) : decodeCp1252(data.subarray(start, start + length));
+}
+
+function decodeRk(rk: number): number {
+  let value: number;
+  if (rk & 0x02) {
+    value = rk >> 2;
+  } else {
+    const bytes = new DataView(new ArrayBuffer(8));
+    bytes.setUint32(4, rk & 0xfffffffc, true);
+    value = bytes.getFloat64(0, true);
+  }
+  return rk & 0x01 ? value / 100 : value;
+}
+
+export function extractWorkbook(workbook: CompoundStream): LegacyWorkbookContent {
+  const issues: string[] = [];
+  const { records, resyncs, truncated } = readBiffRecords(workbook.data);
+  let complete = workbook.complete && resyncs === 0 && !truncated;
+  if (resyncs > 0) issues.push(`Skipped ${resyncs} damaged region(s) of the Workbook stream`);
+  if (truncated || !workbook.complete) issues.push('The Workbook stream was cut short; kept the cells before the damaged point');
+
+  const sheetNames = new Map<number, string>();
+  const sheetOrder: string[] = [];
+  let sharedStrings: string[] = [];
+  let biff8 = true;
+  const sheets: LegacySheet[] = [];
+  let sheet: LegacySheet | null = null;
+  let pendingFormula: { row: number; col: number } | null = null;
+
+  const setCell = (row: number, col: number, value: LegacyCellValue) => {
+    if (!sheet) return;
+    let cells = sheet.rows.get(row);
+    if (!cells) sheet.rows.set(row, cells = new Map());
+    cells.set(col, value);
+  };
+
+  for (let i = 0; i < records.length; i++) {
+    const { type, offset, data } = records[i];
+    if (type === BIFF.BOF) {
+      biff8 = getUint16LE(data, 0) === BIFF8_VERSION;
+      if (getUint16LE(data, 2) === BOF_WORKSHEET) {
+        const name = sheetNames.get(offset) || sheetOrder[sheets.length] || `Sheet${sheets.length + 1}`;
+        sheet = { name, rows: new Map() };
+        sheets.push(sheet);
+      } else {
+        sheet = null;
+      }
+      continue;
+    }
+    if (type === BIFF.EOF) {
+      sheet = null;
+      continue;
+    }
+    if (type === BIFF.FILEPASS) {
+      issues.push('The workbook is password protected; its cells cannot be recovered');
+      return { sheets: [], complete: false, issues };
+    }
+    if (type === BIFF.BOUNDSHEET && data.length >= 8) {
+      // Only worksheets (type 0) carry cells
+      if (data[5] === 0) {
+        const name = readShortString(data, 6, biff8);
+        sheetNames.set(getUint32LE(data, 0), name);
+        sheetOrder.push(name);
+      }
+      continue;
+    }
+    if (type === BIFF.SST) {
+      sharedStrings = readSharedStrings(records, i);
+      continue;
+    }
+    if (type === BIFF.STRING && sheet && pendingFormula) {
+      setCell(pendingFormula.row, pendingFormula.col, readCellString(data, 0, biff8));
+      pendingFormula = null;
+      continue;
+    }
+    if (!sheet || data.length < 6) continue;
+
+    const row = getUint16LE(data, 0);
+    const col = getUint16LE(data, 2);
+    switch (type) {
+      case BIFF.NUMBER:
+        if (data.length >= 14) setCell(row, col, new DataView(data.buffer, data.byteOffset + 6, 8).getFloat64(0, true));
+        break;
+      case BIFF.RK:
+        if (data.length >= 10) setCell(row, col, decodeRk(getUint32LE(data, 6)));
+        break;
+      case BIFF.MULRK: {
+        const count = (data.length - 6) / 6;
+        for (let k = 0; k < count; k++) {
+          setCell(row, col + k, decodeRk(getUint32LE(data, 4 + k * 6 + 2)));
+        }
+        break;
+      }
+      case BIFF.LABELSST: {
+        const value = sharedStrings[getUint32LE(data, 6)];
+        if (value !== undefined) setCell(row, col, value);
+        break;
+      }
+      case BIFF.LABEL:
+      case BIFF.RSTRING:
+        setCell(row, col, readCellString(data, 6, biff8));
+        break;
+      case BIFF.BOOLERR:
+        if (data.length >= 8) {
+          setCell(row, col, data[7] ? { error: BIFF_ERRORS[data[6]] || '#N/A' } : data[6] !== 0);
+        }
+        break;
+      case BIFF.FORMULA:
+        if (data.length < 14) break;
+        if (getUint16LE(data, 12) !== 0xffff) {
+          setCell(row, col, new DataView(data.buffer, data.byteOffset + 6, 8).getFloat64(0, true));
+        } else if (data[6] === 0x00) {
+          // The cached string follows in a STRING record, possibly after
+          // the shared formula it uses
+          pendingFormula = { row, col };
+        } else if (data[6] === 0x01) {
+          setCell(row, col, data[8] !== 0);
+        } else if (data[6] === 0x02) {
+          setCell(row, col, { error: BIFF_ERRORS[data[8]] || '#N/A' });
+        }
+        break;
+    }
+  }
+
+  if (sheets.length === 0) complete = false;
+  return { sheets, complete, issues };
+}
+
+// ---------------------------------------------------------------------------
+// PowerPoint
+
+const PPT = {
+  SLIDE: 0x03ee,
+  NOTES: 0x03f0,
+  SLIDE_PERSIST: 0x03f3,
+  MAIN_MASTER: 0x03f8,
+  TEXT_HEADER: 0x0f9f,
+  TEXT_CHARS: 0x0fa0,
+  TEXT_BYTES: 0x0fa8,
+  SLIDE_LIST_WITH_TEXT: 0x0ff0,
+  CLIENT_TEXTBOX: 0xf00d,
+} as const;
+
+const CONTAINER_VERSION = 0x0f;
+// TextHeaderAtom types for title placeholders
+const TITLE_TEXT_TYPES = new Set([0, 6]);
+// Containers whose text is not slide content
+const SKIPPED_CONTAINERS = new Set<number>([PPT.NOTES, PPT.MAIN_MASTER]);
+
+interface PptText {
+  text: string;
+  title: boolean;
+}
+
+interface PptWalk {
+  // Text from SlideListWithText, one list per slide in show order
+  listed: PptText[][];
+  // Text from each slide container's drawing, in stream order
+  drawn: PptText[][];
+  damaged: boolean;
+}
+
+function splitPptText(text: string): string[] {
+  return text.split('\r').map(cleanText);
+}
+
+function walkPptRecords(stream: Uint8Array, start: number, end: number, walk: PptWalk, context: {
+  inSlideList: boolean;
+  slide: PptText[] | null;
+  textType: number | null;
+}): void {
+  for (let offset = start; offset + 8 <= end;) {
+    const version = getUint16LE(stream, offset) & 0x0f;
+    const instance = getUint16LE(stream, offset) >> 4;
+    const type = getUint16LE(stream, offset + 2);
+    let length = getUint32LE(stream, offset + 4);
+    const body = offset + 8;
+    if (body + length > end) {
+      // A record running past its container: keep what is there
+      walk.damaged = true;
+      length = end - body;
+    }
+
+    if (version === CONTAINER_VERSION) {
+      if (type === PPT.SLIDE_LIST_WITH_TEXT) {
+        // Instance 0 lists the slides; 1 and 2 are masters and notes
+        if (instance === 0) walkPptRecords(stream, body, body + length, walk, { inSlideList: true, slide: null, textType: null });
+      } else if (type === PPT.SLIDE) {
+        const slide: PptText[] = [];
+        walk.drawn.push(slide);
+        walkPptRecords(stream, body, body + length, walk, { inSlideList: false, slide, textType: null });
+      } else if (!SKIPPED_CONTAINERS.has(type)) {
+        walkPptRecords(stream, body, body + length, walk, context);
+      }
+    } else if (type === PPT.SLIDE_PERSIST && context.inSlideList) {
+      context.slide = [];
+      walk.listed.push(context.slide);
+    } else if (type === PPT.TEXT_HEADER && length >= 4) {
+      context.textType = getUint32LE(stream, body);
+    } else if ((type === PPT.TEXT_CHARS || type === PPT.TEXT_BYTES) && context.slide) {
+      const bytes = stream.subarray(body, body + length);
+      context.slide.push({
+        text: type === PPT.TEXT_CHARS ? decodeUtf16(bytes) : decodeCp1252(bytes),
+        title: context.textType !== null && TITLE_TEXT_TYPES.has(context.textType),
+      });
+      context.textType = null;
+    }
+    offset = body + length;
+  }
+}
+
+function toSlide(texts: PptText[]): LegacySlide {
+  const title = texts.find(text => text.title);
+  const paragraphs = texts.filter(text => text !== title).flatMap(text => splitPptText(text.text));
+  return { title: title ? splitPptText(title.text).join(' ').trim() : null, paragraphs };
+}
+
+export async function extractPresentation(document: CompoundStream): Promise<LegacyPresentationContent> {
+  const issues: string[] = [];
+  const walk: PptWalk = { listed: [], drawn: [], damaged: false };
+  walkPptRecords(document.data, 0, document.data.length, walk, { inSlideList: false, slide: null, textType: null });
+
+  let complete = document.complete && !walk.damaged;
+  if (!document.complete || walk.damaged) issues.push('The PowerPoint Document stream was damaged; kept the slides before the damaged point');
+
+  // Placeholder text lives in the slide list; text boxes added by hand only
+  // in each slide's drawing. Slides are matched up by position.
+  const count = Math.max(walk.listed.length, walk.drawn.length);
+  const slides: LegacySlide[] = [];
+  for (let i = 0; i < count; i++) {
+    const listed = walk.listed[i] || [];
+    const drawn = (walk.drawn[i] || []).filter(text => !listed.some(item => item.text === text.text));
+    slides.push(toSlide([...listed, ...drawn]));
+  }
+
+  if (slides.every(slide => !slide.title && slide.paragraphs.every(paragraph => !paragraph.trim()))) {
+    complete = false;
+    const lines = await carveLines(document.data);
+    if (lines.length > 0) {
+      issues.push(`Slide structure was lost; carved ${lines.length} line(s) of text into a single slide`);
+      return { slides: [{ title: null, paragraphs: lines }], complete, issues };
+    }
+    return { slides: [], complete, issues };
+  }
+  return { slides, complete, issues };
+}
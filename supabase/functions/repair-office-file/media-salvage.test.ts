@@ -0,0 +1,94 @@
+import JSZip from "jszip";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { inspectMedia } from "./media-salvage.ts";
+import { findZipEntry } from "./package-parts.ts";
+import { repairDocument } from "./repair-core.ts";
+import { buildTestDocx, buildTestPng, testRepairInput, truncateBytes, unresolvedRelationshipIds } from "./test-packages.ts";
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+// A copy with one byte of a stored part's data inverted, which breaks the
+// part's ZIP CRC but not its structure
+function alterStoredPart(data: Uint8Array, partName: string, offset: number): Uint8Array {
+  const altered = data.slice();
+  altered[findZipEntry(altered, partName)!.dataStart + offset] ^= 0xff;
+  return altered;
+}
+
+describe('inspectMedia', () => {
+  it('accepts a whole PNG', () => {
+    expect(inspectMedia('image.png', buildTestPng(8, 8, 1))).toMatchObject({ signature: 'verified', complete: true, damaged: false });
+  });
+
+  it('reports a PNG whose chunk fails its CRC as damaged', () => {
+    const png = buildTestPng(8, 8, 1);
+    png[60] ^= 0xff;
+    expect(inspectMedia('image.png', png)).toMatchObject({ signature: 'verified', complete: true, damaged: true });
+  });
+
+  it('reports a PNG cut short as incomplete rather than damaged', () => {
+    const png = buildTestPng(8, 8, 1);
+    expect(inspectMedia('image.png', png.slice(0, 100))).toMatchObject({ complete: false, damaged: false });
+  });
+});
+
+describe('media salvage', () => {
+  it('drops a PNG altered inside its ZIP entry instead of keeping it as whole', async () => {
+    const data = alterStoredPart(await buildTestDocx(), 'word/media/image2.png', 500);
+    const { result, media } = await repairDocument(testRepairInput('report.docx', data));
+    const part = result.report!.parts.find(item => item.name === 'word/media/image2.png');
+
+    expect(part).toMatchObject({ inOutput: false, crc: 'mismatch', damage: 'crc_mismatch' });
+    expect(media?.find(item => item.file.name === 'word/media/image2.png')?.file).toMatchObject({ complete: false, inPackage: false });
+    expect(result.status).toBe('partial');
+  });
+
+  it('removes the picture of a damaged image before reporting the image lost', async () => {
+    const data = alterStoredPart(await buildTestDocx(), 'word/media/image2.png', 500);
+    const { result, output } = await repairDocument(testRepairInput('report.docx', data));
+    const document = await (await JSZip.loadAsync(output!)).file('word/document.xml')!.async('string');
+    const part = result.report!.parts.find(item => item.name === 'word/media/image2.png');
+    const removedAt = result.issues.indexOf('Removed 1 picture(s), link(s) or other reference(s) to lost parts from word/document.xml');
+    const droppedAt = result.issues.findIndex(issue => issue.startsWith('Dropped damaged media word/media/image2.png'));
+
+    expect(document.match(/<w:drawing>/g)).toHaveLength(2);
+    expect(await unresolvedRelationshipIds(output!)).toEqual([]);
+    expect(part!.actions).toContain('Removed the picture(s) that showed it from word/document.xml');
+    expect(removedAt).toBeGreaterThanOrEqual(0);
+    expect(droppedAt).toBeGreaterThan(removedAt);
+  });
+
+  it('leaves no picture markup behind for images only offered on their own', async () => {
+    // Cut inside the document relationships, which follow the pictures
+    const { output, media } = await repairDocument(testRepairInput('report.docx', truncateBytes(await buildTestDocx(), 0.9)));
+    const document = await (await JSZip.loadAsync(output!)).file('word/document.xml')!.async('string');
+
+    expect(media?.map(item => item.file.name)).toContain('word/media/image1.png');
+    expect(document).not.toContain('r:embed');
+    expect(await unresolvedRelationshipIds(output!)).toEqual([]);
+  });
+
+  it('reports a PNG damaged before it was zipped as corrupt, not cut short', async () => {
+    const png = buildTestPng(48, 48, 2);
+    png[500] ^= 0xff;
+    const zip = await JSZip.loadAsync(await buildTestDocx());
+    zip.file('word/media/image2.png', png);
+    const { result } = await repairDocument(testRepairInput('report.docx', await zip.generateAsync({ type: 'uint8array' })));
+    const part = result.report!.parts.find(item => item.name === 'word/media/image2.png');
+
+    expect(part).toMatchObject({ inOutput: false, crc: 'ok', damage: 'corrupt' });
+  });
+
+  it('does not offer media from a damaged ZIP entry as complete', async () => {
+    // JPEG has no checksums of its own, so only the ZIP entry can tell
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, ...new Array(200).fill(0x41), 0xff, 0xd9]);
+    const zip = await JSZip.loadAsync(await buildTestDocx());
+    zip.file('word/media/photo.jpg', jpeg, { compression: 'STORE' });
+    const data = alterStoredPart(await zip.generateAsync({ type: 'uint8array' }), 'word/media/photo.jpg', 50);
+    const { media } = await repairDocument(testRepairInput('report.docx', data));
+
+    expect(media?.find(item => item.file.name === 'word/media/photo.jpg')?.file.complete).toBe(false);
+  });
+});
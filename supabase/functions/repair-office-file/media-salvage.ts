@@ -0,0 +1,196 @@
+// Signature checks for media embedded in OOXML packages.
+//
+// Images, charts' embedded workbooks and OLE objects are stored whole under
+// word/, ppt/ and xl/ media and embeddings folders, and are often intact
+// even when the XML around them is not. Each recovered entry is checked
+// against the signature of its format and for the end marker or declared
+// size that shows it was not cut short, and PNG chunks against their CRCs,
+// so a part whose ZIP entry looks fine but holds garbage is not reattached,
+// and one with a CRC mismatch but an intact structure is not thrown away.
+
+import { crc32 } from "./zip-salvage.ts";
+
+export type MediaFormat = 'png' | 'jpeg' | 'gif' | 'bmp' | 'tiff' | 'emf' | 'wmf' | 'ole' | 'zip';
+
+export interface MediaInspection {
+  // null when neither the content nor the extension is a known format
+  format: MediaFormat | null;
+  mimeType: string;
+  // `invalid` when the extension names a known format the content does not
+  // match, `unknown` when there is nothing to check the content against
+  signature: 'verified' | 'invalid' | 'unknown';
+  // Whether the format's end marker or declared size is present; always
+  // true for unknown formats, which cannot be checked
+  complete: boolean;
+  // A checksum inside the content failed; only PNG carries them
+  damaged: boolean;
+}
+
+interface MediaSignature {
+  format: MediaFormat;
+  mimeType: string;
+  extensions: string[];
+  matches: (data: Uint8Array) => boolean;
+  isComplete: (data: Uint8Array) => boolean;
+  isDamaged?: (data: Uint8Array) => boolean;
+}
+
+const MEDIA_FOLDER = /^(?:word|ppt|xl)\/(?:media|embeddings)\/[^/]+$/;
+// How far from the end an end marker may sit, allowing for padding
+const END_MARKER_WINDOW = 64;
+const EMF_SIGNATURE = 0x464d4520;
+const EMR_EOF = 14;
+const ZIP_END_OF_CENTRAL_DIRECTORY = [0x50, 0x4b, 0x05, 0x06];
+// End of central directory record plus the longest comment
+const ZIP_TAIL_WINDOW = 22 + 0xffff;
+
+function getUint16LE(data: Uint8Array, offset: number): number {
+  return data[offset] | (data[offset + 1] << 8);
+}
+
+function getUint32LE(data: Uint8Array, offset: number): number {
+  return (data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16) | (data[offset + 3] << 24)) >>> 0;
+}
+
+function getUint32BE(data: Uint8Array, offset: number): number {
+  return ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0;
+}
+
+function startsWith(data: Uint8Array, signature: number[], offset = 0): boolean {
+  return data.length >= offset + signature.length && signature.every((byte, i) => data[offset + i] === byte);
+}
+
+// Whether `marker` occurs within the last `window` bytes
+function endsWithin(data: Uint8Array, marker: number[], window: number): boolean {
+  for (let i = data.length - marker.length; i >= Math.max(0, data.length - window); i--) {
+    if (startsWith(data, marker, i)) return true;
+  }
+  return false;
+}
+
+// Whether any PNG chunk before IEND fails its CRC. A chunk running past the
+// end was cut short rather than damaged, which the end marker check reports.
+function hasDamagedPngChunk(data: Uint8Array): boolean {
+  let offset = 8;
+  while (offset + 12 <= data.length) {
+    const end = offset + 12 + getUint32BE(data, offset);
+    if (end > data.length) return false;
+    if (crc32(data.subarray(offset + 4, end - 4)) !== getUint32BE(data, end - 4)) return true;
+    if (startsWith(data, [0x49, 0x45, 0x4e, 0x44], offset + 4)) return false;
+    offset = end;
+  }
+  return false;
+}
+
+const SIGNATURES: MediaSignature[] = [
+  {
+    format: 'png',
+    mimeType: 'image/png',
+    extensions: ['png'],
+    matches: data => startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    isComplete: data => endsWithin(data, [0x49, 0x45, 0x4e, 0x44], END_MARKER_WINDOW),
+    isDamaged: hasDamagedPngChunk,
+  },
+  {
+    format: 'jpeg',
+    mimeType: 'image/jpeg',
+    extensions: ['jpg', 'jpeg', 'jpe', 'jfif'],
+    matches: data => startsWith(data, [0xff, 0xd8, 0xff]),
+    isComplete: data => endsWithin(data, [0xff, 0xd9], END_MARKER_WINDOW),
+  },
+  {
+    format: 'gif',
+    mimeType: 'image/gif',
+    extensions: ['gif'],
+    matches: data => startsWith(data, [0x47, 0x49, 0x46, 0x38]) && (data[4] === 0x37 || data[4] === 0x39) && data[5] === 0x61,
+    isComplete: data => endsWithin(data, [0x3b], END_MARKER_WINDOW),
+  },
+  {
+    format: 'bmp',
+    mimeType: 'image/bmp',
+    extensions: ['bmp', 'dib'],
+    matches: data => startsWith(data, [0x42, 0x4d]) && data.length >= 14,
+    isComplete: data => getUint32LE(data, 2) <= data.length,
+  },
+  {
+    format: 'tiff',
+    mimeType: 'image/tiff',
+    extensions: ['tif', 'tiff'],
+    matches: data => startsWith(data, [0x49, 0x49, 0x2a, 0x00]) || startsWith(data, [0x4d, 0x4d, 0x00, 0x2a]),
+    // Only the first directory can be located without parsing the whole file
+    isComplete: data => {
+      const offset = data[0] === 0x49
+        ? getUint32LE(data, 4)
+        : ((data[4] << 24) | (data[5] << 16) | (data[6] << 8) | data[7]) >>> 0;
+      return offset + 2 <= data.length;
+    },
+  },
+  {
+    format: 'emf',
+    mimeType: 'image/emf',
+    extensions: ['emf'],
+    matches: data => data.length >= 88 && getUint32LE(data, 0) === 1 && getUint32LE(data, 40) === EMF_SIGNATURE,
+    // The header declares the file size, and the last record is EMR_EOF,
+    // whose final field repeats its own size
+    isComplete: data => {
+      const size = getUint32LE(data, 48);
+      if (size > data.length || size < 88) return false;
+      const eofSize = getUint32LE(data, size - 4);
+      return eofSize <= size && getUint32LE(data, size - eofSize) === EMR_EOF;
+    },
+  },
+  {
+    format: 'wmf',
+    mimeType: 'image/wmf',
+    extensions: ['wmf'],
+    matches: data => startsWith(data, [0xd7, 0xcd, 0xc6, 0x9a]) ||
+      ((getUint16LE(data, 0) === 1 || getUint16LE(data, 0) === 2) && getUint16LE(data, 2) === 9),
+    // The header gives the size in 16-bit words, ending in a META_EOF record
+    isComplete: data => {
+      const header = startsWith(data, [0xd7, 0xcd, 0xc6, 0x9a]) ? 22 : 0;
+      const size = header + getUint32LE(data, header + 6) * 2;
+      return size <= data.length && size >= header + 24 && startsWith(data, [0x03, 0x00, 0x00, 0x00, 0x00, 0x00], size - 6);
+    },
+  },
+  {
+    format: 'ole',
+    mimeType: 'application/x-ole-storage',
+    extensions: ['bin', 'ole', 'doc', 'xls', 'ppt'],
+    matches: data => startsWith(data, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]),
+    // Compound files are a header plus whole sectors
+    isComplete: data => data.length >= 1024 && data.length % (1 << getUint16LE(data, 30)) === 0,
+  },
+  {
+    format: 'zip',
+    mimeType: 'application/zip',
+    extensions: ['zip', 'docx', 'docm', 'xlsx', 'xlsm', 'pptx', 'pptm', 'sldx'],
+    matches: data => startsWith(data, [0x50, 0x4b, 0x03, 0x04]),
+    isComplete: data => endsWithin(data, ZIP_END_OF_CENTRAL_DIRECTORY, ZIP_TAIL_WINDOW),
+  },
+];
+
+// Whether a part is embedded media or an embedded object
+export function isMediaPart(name: string): boolean {
+  return MEDIA_FOLDER.test(name);
+}
+
+// Identify a media part by its content, falling back to its extension
+export function inspectMedia(name: string, data: Uint8Array): MediaInspection {
+  const signature = SIGNATURES.find(candidate => candidate.matches(data));
+  if (signature) {
+    return {
+      format: signature.format,
+      mimeType: signature.mimeType,
+      signature: 'verified',
+      complete: signature.isComplete(data),
+      damaged: signature.isDamaged?.(data) ?? false,
+    };
+  }
+
+  const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+  const expected = SIGNATURES.find(candidate => candidate.extensions.includes(extension));
+  if (expected) {
+    return { format: expected.format, mimeType: expected.mimeType, signature: 'invalid', complete: false, damaged: false };
+  }
+  return { format: null, mimeType: 'application/octet-stream', signature: 'unknown', complete: true, damaged: false };
+}
@@ -0,0 +1,43 @@
+import JSZip from "jszip";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { repairDocument } from "./repair-core.ts";
+import { buildTestOdt, testRepairInput } from "./test-packages.ts";
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+// The test document with some of its parts left out
+async function odtWithout(...partNames: string[]): Promise<Uint8Array> {
+  const zip = await JSZip.loadAsync(await buildTestOdt());
+  for (const name of partNames) zip.remove(name);
+  const manifest = await zip.file('META-INF/manifest.xml')?.async('string');
+  if (manifest) {
+    const entries = manifest.replace(/<manifest:file-entry manifest:full-path="([^"]*)"[^>]*\/>/g, (entry, path: string) =>
+      partNames.includes(path) ? '' : entry
+    );
+    zip.file('META-INF/manifest.xml', entries);
+  }
+  return await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
+
+describe('rebuildOdfPackage', () => {
+  it('reports a picture the content links to but the package lost', async () => {
+    const { result } = await repairDocument(testRepairInput('notes.odt', await odtWithout('Pictures/picture1.png')));
+    const picture = result.report!.parts.find(part => part.name === 'Pictures/picture1.png');
+
+    expect(picture).toMatchObject({ inOutput: false, damage: 'missing' });
+    expect(result.status).toBe('partial');
+    expect(result.report!.score).toBeLessThan(100);
+  });
+
+  it('does not report regenerated package parts as whole', async () => {
+    const { result } = await repairDocument(testRepairInput('notes.odt', await odtWithout('mimetype', 'META-INF/manifest.xml')));
+    const damage = new Map(result.report!.parts.map(part => [part.name, part.damage]));
+
+    expect(damage.get('mimetype')).toBe('regenerated');
+    expect(damage.get('META-INF/manifest.xml')).toBe('regenerated');
+    expect(result.status).toBe('partial');
+    expect(result.report!.score).toBeLessThan(100);
+  });
+});
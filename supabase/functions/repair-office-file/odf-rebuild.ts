@@ -0,0 +1,192 @@
+// OpenDocument package rebuilding: ODF files are ZIP packages too, but list
+// their parts in META-INF/manifest.xml instead of relationships and must
+// start with an uncompressed mimetype entry.
+
+import JSZip from "jszip";
+import { ignoreProgress, type ProgressReporter } from "./progress.ts";
+import { escapeXml, getXmlAttribute, unescapeXml } from "./xml-text.ts";
+import { getZipManifest, recoverPartXML, salvagePart } from "./package-parts.ts";
+import { createRepairLog, logIssue, logPartAction, logRegenerated, MEDIA_CONTENT_TYPES, type RebuiltPackage } from "./ooxml-package.ts";
+import { extractTextFromOdfXml } from "./text-extract.ts";
+
+export const ODF_MIME_TYPES: Record<string, string> = {
+  odt: 'application/vnd.oasis.opendocument.text',
+  ods: 'application/vnd.oasis.opendocument.spreadsheet',
+  odp: 'application/vnd.oasis.opendocument.presentation',
+};
+
+export const ODF_CONTENT_PART = 'content.xml';
+
+const ODF_STYLES_PART = 'styles.xml';
+
+const ODF_MANIFEST_PART = 'META-INF/manifest.xml';
+
+const ODF_MIMETYPE_PART = 'mimetype';
+
+interface OdfManifestEntry {
+  path: string;
+  mediaType: string;
+  version: string | null;
+}
+
+function parseOdfManifest(xml: string): OdfManifestEntry[] {
+  return [...xml.matchAll(/<manifest:file-entry\b([^>]*?)\/?>/g)].flatMap(match => {
+    const path = getXmlAttribute(match[1], 'manifest:full-path');
+    return path === null ? [] : [{
+      path: unescapeXml(path),
+      mediaType: unescapeXml(getXmlAttribute(match[1], 'manifest:media-type') || ''),
+      version: getXmlAttribute(match[1], 'manifest:version'),
+    }];
+  });
+}
+
+// List exactly the parts being written, keeping the media types of the
+// original manifest where it survived and the sub-document folders that
+// still have content
+function buildOdfManifest(mimeType: string, version: string, partNames: string[], original: OdfManifestEntry[]): string {
+  const originalTypes = new Map(original.map(entry => [entry.path, entry]));
+  const entries: OdfManifestEntry[] = [{ path: '/', mediaType: mimeType, version }];
+  for (const entry of original) {
+    if (entry.path !== '/' && entry.path.endsWith('/') && partNames.some(name => name.startsWith(entry.path))) {
+      entries.push(entry);
+    }
+  }
+  for (const name of partNames) {
+    const ext = name.split('.').pop()?.toLowerCase() || '';
+    const mediaType = originalTypes.get(name)?.mediaType ?? (ext === 'xml' ? 'text/xml' : MEDIA_CONTENT_TYPES[ext] || '');
+    entries.push({ path: name, mediaType, version: null });
+  }
+
+  const items = entries.map(entry =>
+    `\n <manifest:file-entry manifest:full-path="${escapeXml(entry.path)}"` +
+    (entry.version ? ` manifest:version="${escapeXml(entry.version)}"` : '') +
+    ` manifest:media-type="${escapeXml(entry.mediaType)}"/>`
+  );
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="${escapeXml(version)}">${items.join('')}
+</manifest:manifest>`;
+}
+
+// Zip the parts into a fresh ODF package: the mimetype entry first and
+// stored, then the content, then a manifest listing exactly what was written
+async function writeOdfPackage(
+  mimeType: string,
+  version: string,
+  parts: Map<string, Uint8Array>,
+  originalManifest: OdfManifestEntry[],
+  progress: ProgressReporter = ignoreProgress
+): Promise<Uint8Array> {
+  progress('packaging');
+  const encoder = new TextEncoder();
+  const zip = new JSZip();
+  zip.file(ODF_MIMETYPE_PART, mimeType, { compression: 'STORE' });
+  for (const [name, data] of parts) {
+    zip.file(name, data, { createFolders: false });
+  }
+  const manifest = encoder.encode(buildOdfManifest(mimeType, version, [...parts.keys()], originalManifest));
+  zip.file(ODF_MANIFEST_PART, manifest, { createFolders: false });
+  // Listed with the other parts so the repair report covers them
+  parts.set(ODF_MIMETYPE_PART, encoder.encode(mimeType));
+  parts.set(ODF_MANIFEST_PART, manifest);
+
+  return await zip.generateAsync(
+    { type: 'uint8array', compression: 'DEFLATE' },
+    (metadata: { percent: number }) => progress('packaging', metadata.percent / 100)
+  );
+}
+
+// Rebuild an ODT, ODS or ODP around the recovered content.xml, keeping the
+// styles, metadata and pictures that survived and regenerating the mimetype
+// entry and manifest to match.
+export async function rebuildOdfPackage(
+  data: Uint8Array,
+  fileType: string,
+  progress: ProgressReporter = ignoreProgress
+): Promise<RebuiltPackage | null> {
+  progress('inflating');
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  const log = createRepairLog();
+  const parts = new Map<string, Uint8Array>();
+
+  const manifestPart = salvagePart(data, ODF_MANIFEST_PART);
+  const originalManifest = manifestPart?.complete ? parseOdfManifest(decoder.decode(manifestPart.data)) : [];
+  if (originalManifest.length === 0) {
+    logRegenerated(log, `Regenerated ${manifestPart ? 'damaged' : 'missing'} ${ODF_MANIFEST_PART}`, ODF_MANIFEST_PART);
+  }
+  if (manifestPart && /<manifest:encryption-data\b/.test(decoder.decode(manifestPart.data))) {
+    console.log('ODF package is encrypted; its content cannot be rebuilt');
+    return null;
+  }
+
+  // A template keeps its own mimetype, anything else unreadable gets the default
+  const mimetypePart = salvagePart(data, ODF_MIMETYPE_PART);
+  const originalMimeType = mimetypePart?.complete ? decoder.decode(mimetypePart.data).trim() : '';
+  const mimeType = originalMimeType.startsWith(ODF_MIME_TYPES[fileType]) ? originalMimeType : ODF_MIME_TYPES[fileType];
+  if (mimeType !== originalMimeType) {
+    logRegenerated(log, `Regenerated ${mimetypePart ? 'damaged' : 'missing'} ${ODF_MIMETYPE_PART} entry`, ODF_MIMETYPE_PART);
+  }
+
+  const { xml, truncated } = await recoverPartXML(data, ODF_CONTENT_PART);
+  if (truncated) {
+    logIssue(log, `${ODF_CONTENT_PART} was truncated; content after the damaged point could not be recovered`, ODF_CONTENT_PART);
+  }
+  parts.set(ODF_CONTENT_PART, encoder.encode(xml));
+
+  // Styles are worth closing after damage; the other parts are dropped unless whole
+  const manifest = getZipManifest(data);
+  for (const name of new Set(manifest.entries.map(entry => entry.name))) {
+    if (name.endsWith('/') || parts.has(name) || name === ODF_MANIFEST_PART || name === ODF_MIMETYPE_PART) continue;
+    const part = salvagePart(data, name);
+    if (part?.complete) {
+      parts.set(name, part.data);
+    } else if (name === ODF_STYLES_PART && part) {
+      try {
+        parts.set(name, encoder.encode((await recoverPartXML(data, name)).xml));
+        logIssue(log, `${name} was truncated; styles after the damaged point were lost`, name);
+      } catch (e) {
+        logIssue(log, `Dropped damaged part ${name}: ${e.message}`, name);
+      }
+    } else {
+      logIssue(log, `Dropped ${part ? 'damaged' : 'missing'} part ${name}`, name);
+    }
+  }
+  // Every ODF package has styles; without the manifest nothing else says it was lost
+  if (originalManifest.length === 0 && !parts.has(ODF_STYLES_PART) && !log.partActions.has(ODF_STYLES_PART)) {
+    logIssue(log, `${ODF_STYLES_PART} was lost; the document falls back to default styles`, ODF_STYLES_PART);
+  }
+  // Pictures and embedded objects are linked by path from the content
+  const lostLinks = new Set<string>();
+  for (const match of xml.matchAll(/\bxlink:href="([^"#][^"]*)"/g)) {
+    const path = unescapeXml(match[1]).replace(/^\.\//, '');
+    if (/^[a-z][\w+.-]*:/i.test(path) || parts.has(path) || [...parts.keys()].some(name => name.startsWith(`${path}/`))) continue;
+    lostLinks.add(path);
+  }
+  if (lostLinks.size > 0) {
+    log.issues.push(`${lostLinks.size} embedded file(s) were lost and will show as missing: ${[...lostLinks].join(', ')}`);
+  }
+  // Listed as parts so the report counts them lost
+  for (const path of lostLinks) {
+    if (!log.partActions.has(path)) logPartAction(log, path, 'Linked from the content but missing from the file');
+  }
+
+  const version = xml.match(/<office:document-content\b[^>]*?\boffice:version="([^"]*)"/)?.[1] || '1.2';
+  progress('rebuilding');
+  const packageData = await writeOdfPackage(mimeType, version, parts, originalManifest, progress);
+  console.log(`Rebuilt ${fileType.toUpperCase()} with ${parts.size} parts (${packageData.length} bytes)`);
+
+  const preview: RebuiltPackage['preview'] = { content: extractTextFromOdfXml(xml) };
+  if (fileType === 'ods') {
+    preview.extractedSheets = [...xml.matchAll(/<table:table\b[^>]*?\btable:name="([^"]*)"/g)].map(match => unescapeXml(match[1]));
+  } else if (fileType === 'odp') {
+    preview.extractedSlides = [...xml.matchAll(/<draw:page\b/g)].length;
+  }
+
+  return {
+    data: packageData,
+    parts,
+    ...log,
+    preview,
+    mainPartTruncated: truncated,
+  };
+}
@@ -0,0 +1,23 @@
+// The repairer for workbooks, presentations and OpenDocument files.
+
+import { diagnosePackage, repairOfficeDocument, repairOfficePackage } from "./package-repair.ts";
+import type { Repairer } from "./repairers.ts";
+
+const OFFICE_MAIN_PARTS: Record<string, string> = {
+  xlsx: 'xl/workbook.xml',
+  pptx: 'ppt/presentation.xml',
+  odt: 'content.xml',
+  ods: 'content.xml',
+  odp: 'content.xml',
+};
+
+// Workbooks, presentations and OpenDocument files, the same way
+export const officePackageRepairer: Repairer = {
+  name: 'office-package',
+  detect: fileType => fileType in OFFICE_MAIN_PARTS,
+  diagnose: ({ data, fileType }) => diagnosePackage(data, OFFICE_MAIN_PARTS[fileType]),
+  repair(context) {
+    return repairOfficePackage(context, this);
+  },
+  extractPreview: ({ data, fileType }) => repairOfficeDocument(data, fileType),
+};
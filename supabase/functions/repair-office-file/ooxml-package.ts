@@ -0,0 +1,469 @@
+// OOXML package rebuilding: salvage the surviving parts of a damaged package
+// and write them back out as a new, openable ZIP.
+//
+// Parts are collected by walking the relationship graph from the package
+// root, dropping relationships whose targets were lost along with the markup
+// that refers to them, and regenerating the relationship and content type
+// parts that a package cannot open without.
+// What was done to each part is kept in a repair log for the report.
+
+import JSZip from "jszip";
+import { isMediaPart } from "./media-salvage.ts";
+import { ignoreProgress, type ProgressReporter } from "./progress.ts";
+import { escapeXml, getXmlAttribute } from "./xml-text.ts";
+import { getZipManifest, salvagePart } from "./package-parts.ts";
+import { recoverMediaPart } from "./package-media.ts";
+import type { PartDamage, RepairResult } from "./repair-result.ts";
+
+export const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+export const MAIN_PARTS: Record<string, string> = {
+  docx: 'word/document.xml',
+  xlsx: 'xl/workbook.xml',
+  pptx: 'ppt/presentation.xml',
+};
+
+// Parts a Word document normally links to, used when word/_rels/document.xml.rels is lost
+const WORD_FALLBACK_RELATIONSHIPS = [
+  { target: 'styles.xml', type: `${RELATIONSHIP_NS}/styles` },
+  { target: 'numbering.xml', type: `${RELATIONSHIP_NS}/numbering` },
+  { target: 'settings.xml', type: `${RELATIONSHIP_NS}/settings` },
+  { target: 'webSettings.xml', type: `${RELATIONSHIP_NS}/webSettings` },
+  { target: 'fontTable.xml', type: `${RELATIONSHIP_NS}/fontTable` },
+  { target: 'theme/theme1.xml', type: `${RELATIONSHIP_NS}/theme` },
+];
+
+const KNOWN_CONTENT_TYPES: Array<[RegExp, string]> = [
+  [/^word\/document\.xml$/, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml'],
+  [/^word\/styles\.xml$/, 'application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml'],
+  [/^word\/numbering\.xml$/, 'application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml'],
+  [/^word\/settings\.xml$/, 'application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml'],
+  [/^word\/webSettings\.xml$/, 'application/vnd.openxmlformats-officedocument.wordprocessingml.webSettings+xml'],
+  [/^word\/fontTable\.xml$/, 'application/vnd.openxmlformats-officedocument.wordprocessingml.fontTable+xml'],
+  [/^word\/footnotes\.xml$/, 'application/vnd.openxmlformats-officedocument.wordprocessingml.footnotes+xml'],
+  [/^word\/endnotes\.xml$/, 'application/vnd.openxmlformats-officedocument.wordprocessingml.endnotes+xml'],
+  [/^word\/comments\.xml$/, 'application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml'],
+  [/^word\/header\d+\.xml$/, 'application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml'],
+  [/^word\/footer\d+\.xml$/, 'application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml'],
+  [/^[^/]+\/theme\/theme\d+\.xml$/, 'application/vnd.openxmlformats-officedocument.theme+xml'],
+  [/^xl\/workbook\.xml$/, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml'],
+  [/^xl\/worksheets\/sheet\d+\.xml$/, 'application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml'],
+  [/^xl\/styles\.xml$/, 'application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml'],
+  [/^xl\/sharedStrings\.xml$/, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sharedStrings+xml'],
+  [/^xl\/comments\d+\.xml$/, 'application/vnd.openxmlformats-officedocument.spreadsheetml.comments+xml'],
+  [/^xl\/drawings\/drawing\d+\.xml$/, 'application/vnd.openxmlformats-officedocument.drawing+xml'],
+  [/^ppt\/presentation\.xml$/, 'application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml'],
+  [/^ppt\/slides\/slide\d+\.xml$/, 'application/vnd.openxmlformats-officedocument.presentationml.slide+xml'],
+  [/^ppt\/slideLayouts\/slideLayout\d+\.xml$/, 'application/vnd.openxmlformats-officedocument.presentationml.slideLayout+xml'],
+  [/^ppt\/slideMasters\/slideMaster\d+\.xml$/, 'application/vnd.openxmlformats-officedocument.presentationml.slideMaster+xml'],
+  [/^ppt\/notesSlides\/notesSlide\d+\.xml$/, 'application/vnd.openxmlformats-officedocument.presentationml.notesSlide+xml'],
+  [/^ppt\/notesMasters\/notesMaster\d+\.xml$/, 'application/vnd.openxmlformats-officedocument.presentationml.notesMaster+xml'],
+  [/^ppt\/handoutMasters\/handoutMaster\d+\.xml$/, 'application/vnd.openxmlformats-officedocument.presentationml.handoutMaster+xml'],
+  [/^ppt\/presProps\.xml$/, 'application/vnd.openxmlformats-officedocument.presentationml.presProps+xml'],
+  [/^ppt\/viewProps\.xml$/, 'application/vnd.openxmlformats-officedocument.presentationml.viewProps+xml'],
+  [/^ppt\/tableStyles\.xml$/, 'application/vnd.openxmlformats-officedocument.presentationml.tableStyles+xml'],
+  [/^[^/]+\/charts\/chart\d+\.xml$/, 'application/vnd.openxmlformats-officedocument.drawingml.chart+xml'],
+  [/^docProps\/core\.xml$/, 'application/vnd.openxmlformats-package.core-properties+xml'],
+  [/^docProps\/app\.xml$/, 'application/vnd.openxmlformats-officedocument.extended-properties+xml'],
+  [/^docProps\/custom\.xml$/, 'application/vnd.openxmlformats-officedocument.custom-properties+xml'],
+];
+
+export const MEDIA_CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  emf: 'image/x-emf',
+  wmf: 'image/x-wmf',
+  svg: 'image/svg+xml',
+  bin: 'application/vnd.openxmlformats-officedocument.oleObject',
+  fntdata: 'application/x-fontdata',
+};
+
+export interface PackageRelationship {
+  id: string;
+  type: string;
+  target: string;
+  external: boolean;
+}
+
+// What a rebuild did: the issues shown to the user, plus the actions taken
+// on each part so the repair report can attribute them
+export interface RepairLog {
+  issues: string[];
+  partActions: Map<string, string[]>;
+  // Parts not written themselves but whose content lives on in other parts
+  mergedParts: Set<string>;
+  // Parts written from scratch because the original was lost or unusable
+  regeneratedParts: Set<string>;
+  // Damage the rebuild found inside parts whose ZIP entries were whole
+  contentDamage: Map<string, PartDamage>;
+  // Share of a kept part's content that was lost with other parts, 0-1
+  contentLoss: Map<string, number>;
+}
+
+export interface RebuiltPackage extends RepairLog {
+  data: Uint8Array;
+  // Every part written to the output, by name
+  parts: Map<string, Uint8Array>;
+  preview: NonNullable<RepairResult['preview']>;
+  mainPartTruncated: boolean;
+}
+
+export function createRepairLog(): RepairLog {
+  return { issues: [], partActions: new Map(), mergedParts: new Set(), regeneratedParts: new Set(), contentDamage: new Map(), contentLoss: new Map() };
+}
+
+export function logPartAction(log: RepairLog, partName: string, action: string): void {
+  const actions = log.partActions.get(partName) || [];
+  if (!actions.includes(action)) actions.push(action);
+  log.partActions.set(partName, actions);
+}
+
+// Record an issue, attributing it to the part it concerns when there is one
+export function logIssue(log: RepairLog, message: string, partName?: string | null): void {
+  log.issues.push(message);
+  if (partName) logPartAction(log, partName, message);
+}
+
+// Record that a part was written from scratch in place of a lost original
+export function logRegenerated(log: RepairLog, message: string, partName: string): void {
+  logIssue(log, message, partName);
+  log.regeneratedParts.add(partName);
+}
+
+export function parseRelationships(xml: string): PackageRelationship[] {
+  const relationships: PackageRelationship[] = [];
+  const relRegex = /<Relationship\b([^>]*?)\/?>/g;
+  let match;
+
+  while ((match = relRegex.exec(xml)) !== null) {
+    const id = getXmlAttribute(match[1], 'Id');
+    const type = getXmlAttribute(match[1], 'Type');
+    const target = getXmlAttribute(match[1], 'Target');
+    if (!id || !type || target === null) continue;
+    relationships.push({
+      id,
+      type,
+      target,
+      external: getXmlAttribute(match[1], 'TargetMode') === 'External',
+    });
+  }
+
+  return relationships;
+}
+
+export function buildRelationshipsXml(relationships: PackageRelationship[]): string {
+  const items = relationships.map(rel =>
+    `\n  <Relationship Id="${escapeXml(rel.id)}" Type="${escapeXml(rel.type)}" Target="${escapeXml(rel.target)}"` +
+    (rel.external ? ' TargetMode="External"' : '') + '/>'
+  );
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${items.join('')}
+</Relationships>`;
+}
+
+// Relationship part for a given source part ('' is the package root)
+export function relsPathFor(partName: string): string {
+  if (!partName) return '_rels/.rels';
+  const slash = partName.lastIndexOf('/');
+  return `${partName.slice(0, slash + 1)}_rels/${partName.slice(slash + 1)}.rels`;
+}
+
+// Resolve a relationship target relative to the part that owns it
+export function resolvePartTarget(sourcePart: string, target: string): string {
+  let decoded = target;
+  try {
+    decoded = decodeURIComponent(target);
+  } catch (_) {
+    // Leave malformed escapes untouched
+  }
+  if (decoded.startsWith('/')) return decoded.slice(1);
+
+  const segments = sourcePart.includes('/')
+    ? sourcePart.slice(0, sourcePart.lastIndexOf('/')).split('/')
+    : [];
+  for (const segment of decoded.split('/')) {
+    if (segment === '..') segments.pop();
+    else if (segment && segment !== '.') segments.push(segment);
+  }
+  return segments.join('/');
+}
+
+export function getMinimalRels(fileType: string): string {
+  const mainPart = MAIN_PARTS[fileType];
+  return buildRelationshipsXml(mainPart ? [{
+    id: 'rId1',
+    type: `${RELATIONSHIP_NS}/officeDocument`,
+    target: mainPart,
+    external: false,
+  }] : []);
+}
+
+// Build [Content_Types].xml for exactly the parts being written, preferring
+// the declarations of the original package when they survived.
+function getMinimalContentTypes(partNames: string[], originalXml?: string): string {
+  const originalDefaults: Record<string, string> = {};
+  const originalOverrides: Record<string, string> = {};
+
+  if (originalXml) {
+    for (const match of originalXml.matchAll(/<Default\b([^>]*?)\/?>/g)) {
+      const ext = getXmlAttribute(match[1], 'Extension');
+      const type = getXmlAttribute(match[1], 'ContentType');
+      if (ext && type) originalDefaults[ext.toLowerCase()] = type;
+    }
+    for (const match of originalXml.matchAll(/<Override\b([^>]*?)\/?>/g)) {
+      const partName = getXmlAttribute(match[1], 'PartName');
+      const type = getXmlAttribute(match[1], 'ContentType');
+      if (partName && type) originalOverrides[partName] = type;
+    }
+  }
+
+  const defaults: Record<string, string> = {
+    rels: 'application/vnd.openxmlformats-package.relationships+xml',
+    xml: 'application/xml',
+  };
+  const overrides: string[] = [];
+
+  for (const name of partNames) {
+    const ext = name.split('.').pop()?.toLowerCase() || '';
+    if (ext === 'xml') {
+      const known = KNOWN_CONTENT_TYPES.find(([pattern]) => pattern.test(name));
+      const type = originalOverrides[`/${name}`] || known?.[1];
+      if (type) overrides.push(`\n  <Override PartName="/${escapeXml(name)}" ContentType="${escapeXml(type)}"/>`);
+    } else if (ext && !defaults[ext]) {
+      defaults[ext] = originalDefaults[ext] || MEDIA_CONTENT_TYPES[ext] || 'application/octet-stream';
+    }
+  }
+
+  const defaultItems = Object.entries(defaults).map(([ext, type]) =>
+    `\n  <Default Extension="${escapeXml(ext)}" ContentType="${escapeXml(type)}"/>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">${defaultItems.join('')}${overrides.join('')}
+</Types>`;
+}
+
+// An id for a regenerated relationship that no surviving one already uses
+function unusedRelationshipId(relationships: PackageRelationship[]): string {
+  const ids = new Set(relationships.map(rel => rel.id));
+  let index = 1;
+  while (ids.has(`rIdRepair${index}`)) index++;
+  return `rIdRepair${index}`;
+}
+
+// The main part relationship, when the package relationships lost it
+function packageFallbackRelationships(fileType: string, surviving: PackageRelationship[]): PackageRelationship[] {
+  const type = `${RELATIONSHIP_NS}/officeDocument`;
+  if (!MAIN_PARTS[fileType] || surviving.some(rel => rel.type === type)) return [];
+  return [{ id: unusedRelationshipId(surviving), type, target: MAIN_PARTS[fileType], external: false }];
+}
+
+// The standard parts a Word document links to, for those whose relationship
+// was lost with word/_rels/document.xml.rels; the surviving ones keep their ids
+function wordFallbackRelationships(
+  buffer: Uint8Array,
+  source: string,
+  parts: Map<string, Uint8Array>,
+  surviving: PackageRelationship[]
+): PackageRelationship[] {
+  const linked = new Set(surviving.map(rel => rel.type));
+  const regenerated: PackageRelationship[] = [];
+  for (const rel of WORD_FALLBACK_RELATIONSHIPS) {
+    if (linked.has(rel.type)) continue;
+    const target = resolvePartTarget(source, rel.target);
+    if (!parts.has(target)) {
+      const salvaged = salvagePart(buffer, target);
+      if (!salvaged?.complete) continue;
+      parts.set(target, salvaged.data);
+    }
+    regenerated.push({ id: unusedRelationshipId([...surviving, ...regenerated]), type: rel.type, target: rel.target, external: false });
+  }
+  return regenerated;
+}
+
+// Elements that show or embed a related part, removed whole when it is lost
+const RELATED_CONTENT_ELEMENTS = ['w:drawing', 'w:pict', 'w:object', 'p:pic', 'p:graphicFrame', 'xdr:twoCellAnchor', 'xdr:oneCellAnchor', 'xdr:absoluteAnchor'];
+
+// Remove the markup that refers to relationships not in `ids`: pictures,
+// charts and objects whole, other elements that are empty, and otherwise just
+// the reference, so hyperlinks keep their text
+export function removeDanglingReferences(xml: string, ids: Set<string>): { xml: string; removed: number } {
+  const prefixes = [...xml.matchAll(/xmlns:([\w.-]+)="(?:http:\/\/schemas\.openxmlformats\.org\/officeDocument\/2006|http:\/\/purl\.oclc\.org\/ooxml\/officeDocument)\/relationships"/g)]
+    .map(match => match[1].replace(/\./g, '\\.'));
+  if (prefixes.length === 0) return { xml, removed: 0 };
+  const reference = new RegExp(`\\s(?:${prefixes.join('|')}):[\\w]+="([^"]*)"`, 'g');
+  const dangling = (id: string) => id !== '' && !ids.has(id);
+  const refersToLost = (markup: string) => [...markup.matchAll(reference)].some(match => dangling(match[1]));
+  if (!refersToLost(xml)) return { xml, removed: 0 };
+
+  let removed = 0;
+  let result = xml;
+  for (const name of RELATED_CONTENT_ELEMENTS) {
+    result = result.replace(new RegExp(`<${name}\\b[^>]*>[\\s\\S]*?</${name}>`, 'g'), element => {
+      if (!refersToLost(element)) return element;
+      removed++;
+      return '';
+    });
+  }
+  result = result.replace(/<([\w.-]+(?::[\w.-]+)?)([^<>]*?)(\/?)>/g, (tag, name: string, attributes: string, selfClosing: string) => {
+    if (!refersToLost(tag)) return tag;
+    removed++;
+    if (selfClosing) return '';
+    return `<${name}${attributes.replace(reference, (attribute, id: string) => dangling(id) ? '' : attribute)}>`;
+  });
+  return { xml: result, removed };
+}
+
+// Walk the relationship graph from the package root, keeping every part that
+// survived intact and dropping relationships whose targets were lost.
+// `parts` may be pre-seeded with repaired parts (including repaired .rels).
+export function collectPackageParts(
+  buffer: Uint8Array,
+  fileType: string,
+  parts: Map<string, Uint8Array>,
+  log: RepairLog,
+  progress: ProgressReporter = ignoreProgress
+): void {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const visited = new Set<string>();
+  const queue: string[] = [''];
+  const entryCount = Math.max(1, getZipManifest(buffer).entries.length);
+  const droppedMedia: Array<{ source: string; target: string; issue: string; shown: boolean }> = [];
+
+  while (queue.length > 0) {
+    const source = queue.shift()!;
+    if (visited.has(source)) continue;
+    visited.add(source);
+    progress('rebuilding', visited.size / entryCount);
+
+    const relsPath = relsPathFor(source);
+    let relationships: PackageRelationship[] | null = null;
+    if (parts.has(relsPath)) {
+      relationships = parseRelationships(decoder.decode(parts.get(relsPath)!));
+    } else {
+      const salvaged = salvagePart(buffer, relsPath);
+      if (salvaged) relationships = parseRelationships(decoder.decode(salvaged.data));
+      if (salvaged && !salvaged.complete) {
+        logIssue(log, `Kept the ${relationships!.length} relationship(s) that survived in truncated ${relsPath}`, relsPath);
+      }
+      // The ones a package cannot open without are regenerated beside them
+      if (!salvaged?.complete && source === '') {
+        const regenerated = packageFallbackRelationships(fileType, relationships || []);
+        if (regenerated.length > 0) {
+          relationships = [...(relationships || []), ...regenerated];
+          logRegenerated(log, 'Regenerated missing package relationships (_rels/.rels)', relsPath);
+        }
+      } else if (!salvaged?.complete && source === MAIN_PARTS.docx) {
+        const regenerated = wordFallbackRelationships(buffer, source, parts, relationships || []);
+        if (!salvaged) {
+          logRegenerated(log, `Regenerated missing ${relsPath} with ${regenerated.length} standard parts`, relsPath);
+        } else if (regenerated.length > 0) {
+          logRegenerated(log, `Relinked ${regenerated.length} standard part(s) lost from truncated ${relsPath}`, relsPath);
+        }
+        relationships = [...(relationships || []), ...regenerated];
+      }
+    }
+    if (relationships === null) continue;
+
+    const kept: PackageRelationship[] = [];
+    for (const rel of relationships) {
+      if (rel.external) {
+        kept.push(rel);
+        continue;
+      }
+      const target = resolvePartTarget(source, rel.target);
+      if (!parts.has(target) && isMediaPart(target)) {
+        const media = recoverMediaPart(buffer, target);
+        if (!media || media.damage) {
+          const sourceXml = parts.has(source) ? decoder.decode(parts.get(source)!) : '';
+          droppedMedia.push({
+            source,
+            target,
+            issue: media ? `Dropped damaged media ${target}: ${media.damage}` : `Dropped reference to missing part ${target}`,
+            shown: sourceXml.includes(`"${rel.id}"`),
+          });
+          if (media) log.contentDamage.set(target, media.cutShort ? 'truncated' : 'corrupt');
+          continue;
+        }
+        if (!media.entryComplete) {
+          logPartAction(log, target, `Kept despite the damaged ZIP entry: the ${media.format!.toUpperCase()} structure is complete`);
+        }
+        parts.set(target, media.data);
+      } else if (!parts.has(target)) {
+        const salvaged = salvagePart(buffer, target);
+        if (!salvaged) {
+          logIssue(log, `Dropped reference to missing part ${target}`, target);
+          continue;
+        }
+        if (!salvaged.complete) {
+          logIssue(log, `Dropped truncated part ${target}`, target);
+          continue;
+        }
+        parts.set(target, salvaged.data);
+      }
+      kept.push(rel);
+      queue.push(target);
+    }
+
+    if (kept.length !== relationships.length || !parts.has(relsPath)) {
+      parts.set(relsPath, encoder.encode(buildRelationshipsXml(kept)));
+    }
+    if (kept.length !== relationships.length) {
+      logPartAction(log, relsPath, `Removed ${relationships.length - kept.length} relationship(s) to lost parts`);
+    }
+  }
+
+  // Markup still pointing at the relationships dropped above would leave a
+  // package that does not open
+  for (const [name, data] of parts) {
+    if (!name.endsWith('.xml')) continue;
+    const rels = parts.get(relsPathFor(name));
+    const ids = new Set(rels ? parseRelationships(decoder.decode(rels)).map(rel => rel.id) : []);
+    const { xml, removed } = removeDanglingReferences(decoder.decode(data), ids);
+    if (removed === 0) continue;
+    parts.set(name, encoder.encode(xml));
+    logIssue(log, `Removed ${removed} picture(s), link(s) or other reference(s) to lost parts from ${name}`, name);
+  }
+  // Lost media is reported once no markup shows it any more
+  for (const { source, target, issue, shown } of droppedMedia) {
+    logIssue(log, issue, target);
+    if (shown) logPartAction(log, target, `Removed the picture(s) that showed it from ${source}`);
+  }
+}
+
+// Zip the collected parts into a fresh package, [Content_Types].xml first.
+// `buffer` is null for packages converted from another format, which have no
+// original content types to keep.
+export async function writePackage(
+  buffer: Uint8Array | null,
+  parts: Map<string, Uint8Array>,
+  log: RepairLog,
+  progress: ProgressReporter = ignoreProgress
+): Promise<Uint8Array> {
+  progress('packaging');
+  const originalTypes = buffer ? salvagePart(buffer, '[Content_Types].xml') : null;
+  const originalTypesXml = originalTypes?.complete ? new TextDecoder().decode(originalTypes.data) : undefined;
+  if (buffer && !originalTypesXml) {
+    logRegenerated(log, 'Regenerated missing [Content_Types].xml', '[Content_Types].xml');
+  }
+
+  const zip = new JSZip();
+  const contentTypes = new TextEncoder().encode(getMinimalContentTypes([...parts.keys()], originalTypesXml));
+  zip.file('[Content_Types].xml', contentTypes);
+  for (const [name, data] of parts) {
+    zip.file(name, data, { createFolders: false });
+  }
+  // Listed with the other parts so the repair report covers it
+  parts.set('[Content_Types].xml', contentTypes);
+
+  return await zip.generateAsync(
+    { type: 'uint8array', compression: 'DEFLATE' },
+    (metadata: { percent: number }) => progress('packaging', metadata.percent / 100)
+  );
+}
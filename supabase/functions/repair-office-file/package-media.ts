@@ -0,0 +1,96 @@
+// Media salvaged from OOXML packages.
+//
+// Images and embedded objects are checked against their format before they
+// are reattached to a rebuilt package, and every one that can be trusted is
+// offered for download on its own, whether or not the package kept it.
+
+import { inspectMedia, isMediaPart, type MediaFormat } from "./media-salvage.ts";
+import { findZipEntry, getZipManifest, readEntryBytes } from "./package-parts.ts";
+import type { MediaFile } from "./repair-result.ts";
+
+const MEDIA_PACKAGE_TYPES = new Set(['docx', 'xlsx', 'pptx']);
+
+interface RecoveredMedia {
+  name: string;
+  format: MediaFormat | null;
+  mimeType: string;
+  data: Uint8Array;
+  // The content has the signature of its format
+  verified: boolean;
+  // The ZIP entry decompressed in full with a matching CRC
+  entryComplete: boolean;
+  // Why the content cannot be trusted, or null when it can
+  damage: string | null;
+  // The content is whole as far as it goes but was cut short
+  cutShort: boolean;
+}
+
+// A gallery entry before its content is attached for delivery
+export interface SalvagedMedia {
+  file: MediaFile;
+  data: Uint8Array;
+}
+
+// Read a media part and check its content against its format. A damaged ZIP
+// entry is forgiven when the format's own structure is whole and its own
+// checksums, where it has any, match; content in an unknown format can only
+// be trusted as far as the ZIP entry.
+export function recoverMediaPart(buffer: Uint8Array, name: string): RecoveredMedia | null {
+  const entry = findZipEntry(buffer, name);
+  const recovered = entry ? readEntryBytes(buffer, entry) : null;
+  if (!recovered || recovered.bytes.length === 0) return null;
+
+  const inspection = inspectMedia(name, recovered.bytes);
+  const formatName = inspection.format?.toUpperCase();
+  let damage: string | null = null;
+  if (inspection.signature === 'invalid') {
+    damage = `the content is not a ${formatName} file`;
+  } else if (inspection.signature === 'unknown') {
+    damage = recovered.complete ? null : 'the data is damaged';
+  } else if (inspection.damaged) {
+    damage = `the ${formatName} data is damaged`;
+  } else if (!inspection.complete) {
+    damage = `the ${formatName} data is cut short`;
+  }
+  return {
+    name,
+    format: inspection.format,
+    mimeType: inspection.mimeType,
+    data: recovered.bytes,
+    verified: inspection.signature === 'verified',
+    entryComplete: recovered.complete,
+    damage,
+    cutShort: inspection.signature === 'verified' && !inspection.damaged && !inspection.complete,
+  };
+}
+
+// Every media part whose content matches a known format, whether or not the
+// rebuilt package (if any) still references it. Partial images are included,
+// since even half a photo can be worth having.
+export function buildMediaGallery(
+  buffer: Uint8Array,
+  fileType: string,
+  packageParts: Map<string, Uint8Array> | null
+): SalvagedMedia[] | undefined {
+  if (!MEDIA_PACKAGE_TYPES.has(fileType)) return undefined;
+  const media: SalvagedMedia[] = [];
+  for (const entry of getZipManifest(buffer).entries) {
+    if (!isMediaPart(entry.name) || entry.state === 'missing') continue;
+    const recovered = recoverMediaPart(buffer, entry.name);
+    if (!recovered?.verified) continue;
+    media.push({
+      file: {
+        name: entry.name,
+        mimeType: recovered.mimeType,
+        size: recovered.data.length,
+        // Both the format and the ZIP entry must vouch for the content
+        complete: recovered.damage === null && recovered.entryComplete,
+        inPackage: packageParts?.has(entry.name) ?? false,
+      },
+      data: recovered.data,
+    });
+  }
+  if (media.length === 0) return undefined;
+  console.log(`Salvaged ${media.length} media file(s)`);
+  return media;
+}
@@ -0,0 +1,324 @@
+// Reading parts out of a damaged ZIP package.
+//
+// The ZIP structure of an upload is salvaged once and shared by every
+// rebuilder. Parts are decompressed as far as their data goes, resuming past
+// damaged regions, and XML parts are cut where they stop making sense,
+// stitched together across gaps where their layout allows it and closed so
+// they are well-formed again.
+
+import { crc32, getEntryData, getManifestEntry, salvageZip, type ZipManifest, type ZipManifestEntry } from "./zip-salvage.ts";
+import { inflateRaw, type InflateSegment, UNKNOWN_BYTE } from "./raw-inflate.ts";
+import { closeTruncatedXml, findMalformedOffset, tokenizeXml } from "./xml-repair.ts";
+import { escapeXml, unescapeXml } from "./xml-text.ts";
+
+const zipManifests = new WeakMap<Uint8Array, ZipManifest>();
+
+// Salvage the ZIP structure once per upload and share it between repair paths
+export function getZipManifest(buffer: Uint8Array): ZipManifest {
+  let manifest = zipManifests.get(buffer);
+  if (!manifest) {
+    manifest = salvageZip(buffer);
+    zipManifests.set(buffer, manifest);
+    const counts = manifest.entries.reduce<Record<string, number>>((acc, entry) => {
+      acc[entry.state] = (acc[entry.state] || 0) + 1;
+      return acc;
+    }, {});
+    console.log(`ZIP manifest: ${manifest.entries.length} entries, central directory ${manifest.centralDirectory}`, counts);
+  }
+  return manifest;
+}
+
+// Find the best surviving copy of an entry that has a local header
+export function findZipEntry(buffer: Uint8Array, name: string): ZipManifestEntry | null {
+  const entry = getManifestEntry(getZipManifest(buffer), name);
+  return entry && entry.state !== 'missing' ? entry : null;
+}
+
+export interface RecoveredBytes {
+  // Output up to the first damaged point
+  bytes: Uint8Array;
+  complete: boolean;
+  // Every run of output, including those resumed after a damaged region
+  segments: InflateSegment[];
+}
+
+const entryBytes = new WeakMap<ZipManifestEntry, RecoveredBytes | null>();
+
+// Decompress an entry; `complete` is only true when every byte was present,
+// the stream ended cleanly and the CRC matches. Results are cached per entry
+// since the rebuild and the repair report both read every part.
+export function readEntryBytes(buffer: Uint8Array, entry: ZipManifestEntry): RecoveredBytes | null {
+  if (!entryBytes.has(entry)) entryBytes.set(entry, decodeEntryBytes(buffer, entry));
+  return entryBytes.get(entry)!;
+}
+
+function decodeEntryBytes(buffer: Uint8Array, entry: ZipManifestEntry): RecoveredBytes | null {
+  const raw = getEntryData(buffer, entry);
+  let result: RecoveredBytes | null = null;
+
+  if (entry.compressionMethod === 0) {
+    const bytes = raw.slice();
+    result = {
+      bytes,
+      complete: entry.state === 'intact',
+      segments: [{ bytes, inputBitOffset: 0, unknownBytes: 0, blocks: [] }],
+    };
+  } else if (entry.compressionMethod === 8) {
+    result = tryInflateBytes(raw);
+    if (result) result.complete = result.complete && entry.state === 'intact';
+    // Damage the decoder did not notice can run on past the entry's size
+    if (result && entry.uncompressedSize !== null && result.bytes.length > entry.uncompressedSize) {
+      result.bytes = result.bytes.slice(0, entry.uncompressedSize);
+      result.complete = false;
+    }
+  }
+
+  if (result?.complete && entry.crc32 !== null && crc32(result.bytes) !== entry.crc32) {
+    console.log(`CRC mismatch for ${entry.name}`);
+    result.complete = false;
+  }
+  return result;
+}
+
+// Try to decompress, handling truncated or damaged data. `complete` is false
+// when the stream stopped early or had to be resynchronised past damage.
+function tryInflateBytes(data: Uint8Array): RecoveredBytes | null {
+  const { segments, complete } = inflateRaw(data);
+  if (segments.every(segment => segment.bytes.length === 0)) return null;
+  if (segments.length > 1) {
+    console.log(`Inflate resynchronised ${segments.length - 1} time(s) past damaged data`);
+  }
+  return { bytes: segments[0].bytes, complete, segments };
+}
+
+interface ResyncLayout {
+  // Element whose children are stitched together across a gap
+  container: string;
+  gapMarker: string;
+  // Wraps prose carved from a resumed run whose markup was lost
+  textRecord?: (text: string) => string;
+}
+
+// Parts whose content is a flat run of records that can be stitched back
+// together after a damaged region, keyed by root element
+const RESYNC_CONTAINERS: Record<string, ResyncLayout> = {
+  'w:document': {
+    container: 'w:body',
+    gapMarker: '<w:p><w:r><w:t xml:space="preserve">[Content lost to file damage]</w:t></w:r></w:p>',
+    textRecord: text => `<w:p><w:r><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`,
+  },
+  'worksheet': { container: 'sheetData', gapMarker: '' },
+};
+
+// Markup repeats, so after a gap it is nearly always copied from the lost
+// history, while prose is often stored as literals. Keep runs of known text
+// that read like words, joining them with an ellipsis and starting a new
+// paragraph wherever a long stretch was lost.
+function carveResumedProse(text: string): string[] {
+  const paragraphs: string[] = [];
+  let fragments: string[] = [];
+  const flush = () => {
+    const paragraph = fragments.join(' … ');
+    if (paragraph.replace(/[^\p{L}]/gu, '').length >= 12) paragraphs.push(paragraph);
+    fragments = [];
+  };
+
+  const unknown = String.fromCharCode(UNKNOWN_BYTE);
+  let i = 0;
+  while (i < text.length) {
+    let end = text.indexOf(unknown, i);
+    if (end === -1) end = text.length;
+    for (const piece of text.slice(i, end).split(/[<>]/)) {
+      const candidate = piece.trim();
+      if (candidate.includes(' ') && !/[="]/.test(candidate) && /\p{L}{2}/u.test(candidate)) {
+        fragments.push(unescapeXml(candidate));
+      }
+    }
+    i = end;
+    while (i < text.length && text.charCodeAt(i) === UNKNOWN_BYTE) i++;
+    if (i - end >= 16) flush();
+  }
+  flush();
+  return paragraphs;
+}
+
+// Join the XML decoded on either side of damaged regions. The text before the
+// first gap is cut back to its last complete child of the container; each
+// resumed run contributes the complete children it holds, minus any that
+// copied bytes from the lost history. The tail after the container (e.g. the
+// trailing w:sectPr) is kept from the last run.
+function spliceResumedXml(texts: string[], layout: ResyncLayout): { xml: string; resumedRecords: number } | null {
+  const { container, gapMarker, textRecord } = layout;
+  const unknown = String.fromCharCode(UNKNOWN_BYTE);
+
+  const stack: string[] = [];
+  let prefixEnd = -1;
+  for (const tok of tokenizeXml(texts[0])) {
+    if (tok.type === 'end') stack.pop();
+    else if (tok.type === 'start') stack.push(tok.name);
+    else if (tok.type !== 'empty') continue;
+    if (stack[stack.length - 1] === container) prefixEnd = tok.end;
+  }
+  if (prefixEnd === -1) return null;
+
+  let xml = texts[0].slice(0, prefixEnd);
+  let resumedRecords = 0;
+  texts.slice(1).forEach((text, i) => {
+    const isLast = i === texts.length - 2;
+    const children: string[] = [];
+    const open: string[] = [];
+    let childStart = -1;
+    let tail = '';
+
+    let from = 0;
+    scan: while (from < text.length) {
+      for (const tok of tokenizeXml(text, from)) {
+        if (tok.type === 'invalid' || (tok.type === 'end' && open.length > 0 && open[open.length - 1] !== tok.name)) {
+          // Stray markup built from lost history; start again just after it
+          open.length = 0;
+          childStart = -1;
+          from = tok.start + 1;
+          continue scan;
+        }
+        if (tok.type === 'end' && open.length === 0) {
+          if (tok.name === container) {
+            if (isLast) tail = text.slice(tok.start);
+            break scan;
+          }
+          // Closing an element that was open before the gap: anything
+          // collected so far was nested below the container's children
+          children.length = 0;
+          continue;
+        }
+        if (tok.type !== 'start' && tok.type !== 'end' && tok.type !== 'empty') continue;
+
+        if (open.length === 0 && tok.type !== 'end') childStart = tok.start;
+        if (tok.type === 'end') open.pop();
+        else if (tok.type === 'start') open.push(tok.name);
+        if (open.length === 0 && childStart !== -1) {
+          const child = text.slice(childStart, tok.end);
+          if (!child.includes(unknown)) children.push(child);
+          childStart = -1;
+        }
+      }
+      break;
+    }
+
+    if (children.length === 0 && textRecord) {
+      children.push(...carveResumedProse(text).map(textRecord));
+    }
+    resumedRecords += children.length;
+    xml += gapMarker + children.join('') + (tail.includes(unknown) ? '' : tail);
+  });
+  return { xml, resumedRecords };
+}
+
+// Main recovery function
+export async function recoverTruncatedDocxXML(
+  zipBuffer: Uint8Array,
+  targetXml: string = 'word/document.xml'
+): Promise<string> {
+  const { xml } = await recoverPartXML(zipBuffer, targetXml);
+  return xml;
+}
+
+// Recover an XML part from a corrupted ZIP, reporting whether it had to be
+// truncated and closed to produce well-formed output.
+export async function recoverPartXML(
+  zipBuffer: Uint8Array,
+  targetXml: string
+): Promise<{ xml: string; truncated: boolean; gaps: number; resumedRecords: number }> {
+  console.log(`Attempting to recover ${targetXml} from corrupted ZIP...`);
+  
+  // Find the target entry and extract compressed data
+  const entry = findZipEntry(zipBuffer, targetXml);
+  if (!entry) {
+    throw new Error("Target file not found in zip (even partially)");
+  }
+  
+  console.log(`Found ${targetXml}: compression=${entry.compressionMethod}, dataLength=${entry.dataLength}, state=${entry.state}`);
+  
+  if (entry.compressionMethod !== 0 && entry.compressionMethod !== 8) {
+    throw new Error("Unsupported compression method: " + entry.compressionMethod);
+  }
+  const recovered = readEntryBytes(zipBuffer, entry);
+  if (!recovered) throw new Error("Failed to recover (decompress) XML from partial file.");
+  const complete = recovered.complete;
+  const segments = recovered.segments.map(segment => segment.bytes);
+
+  // Output past a damaged point can still inflate into garbage, so the first
+  // run is cut where the XML stops making sense
+  if (!complete) {
+    // latin1 keeps string offsets equal to byte offsets
+    const damagedAt = findMalformedOffset(new TextDecoder('latin1').decode(segments[0]));
+    if (damagedAt !== -1) {
+      console.log(`${targetXml} is malformed from byte ${damagedAt}`);
+      segments[0] = segments[0].subarray(0, damagedAt);
+      // The decoder never noticed this damage; decode the blocks after it
+      // again without the corrupted history
+      const nextBlock = recovered.segments[0].blocks.find(block => block.outputOffset > damagedAt);
+      if (segments.length === 1 && nextBlock) {
+        const resumed = inflateRaw(getEntryData(zipBuffer, entry), { fromBit: nextBlock.inputBitOffset });
+        segments.push(...resumed.segments.map(segment => segment.bytes));
+      }
+    }
+  }
+  let xmlRaw = new TextDecoder().decode(segments[0]);
+  
+  // Try to auto-detect main root tag (skipping the declaration, keeping the prefix)
+  let rootTag = "document";
+  const m = xmlRaw.match(/<([\w:.-]+)[^>]*>/);
+  if (m) rootTag = m[1];
+
+  // Stitch in content decoded after damaged regions where the part's layout allows it
+  let gaps = 0;
+  let resumedRecords = 0;
+  const resync = RESYNC_CONTAINERS[rootTag];
+  if (resync && segments.length > 1) {
+    const texts = segments.map(segment => new TextDecoder().decode(segment));
+    const spliced = spliceResumedXml(texts, resync);
+    if (spliced !== null) {
+      xmlRaw = spliced.xml;
+      gaps = texts.length - 1;
+      resumedRecords = spliced.resumedRecords;
+    }
+  }
+  
+  const repaired = closeTruncatedXml(xmlRaw);
+  if (repaired.dropped.length > 0) {
+    console.log(`Dropped half-written ${repaired.dropped.join(', ')} from ${targetXml}`);
+  }
+  return {
+    xml: repaired.xml,
+    truncated: !complete || repaired.repaired,
+    gaps,
+    resumedRecords,
+  };
+}
+
+interface SalvagedPart {
+  name: string;
+  data: Uint8Array;
+  complete: boolean;
+}
+
+// Extract a single entry's bytes from the salvaged ZIP manifest
+export function salvagePart(buffer: Uint8Array, name: string): SalvagedPart | null {
+  const entry = findZipEntry(buffer, name);
+  if (!entry) return null;
+
+  const recovered = readEntryBytes(buffer, entry);
+  return recovered ? { name, data: recovered.bytes, complete: recovered.complete } : null;
+}
+
+// List the names of every local file header matching a pattern, in part number order
+export function findLocalHeaderNames(buffer: Uint8Array, pattern: RegExp): string[] {
+  const names = new Set(
+    getZipManifest(buffer).entries
+      .filter(entry => entry.state !== 'missing' && pattern.test(entry.name))
+      .map(entry => entry.name)
+  );
+
+  const partNumber = (name: string) => Number(name.match(/(\d+)\.\w+$/)?.[1] || 0);
+  return [...names].sort((a, b) => partNumber(a) - partNumber(b));
+}
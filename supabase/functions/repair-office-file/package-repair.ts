@@ -0,0 +1,206 @@
+// Repair of ZIP-based packages.
+//
+// The Word, office package and ZIP repairers share this path: the package
+// structure is diagnosed, the package is rebuilt by the rebuilder for its
+// type and reported on part by part, and when nothing can be rebuilt the
+// text of its main part is recovered instead.
+
+import JSZip from "jszip";
+import type { WordTextFormat } from "./word-text.ts";
+import type { ProgressReporter } from "./progress.ts";
+import { getZipManifest, recoverTruncatedDocxXML } from "./package-parts.ts";
+import { buildMediaGallery } from "./package-media.ts";
+import type { RebuiltPackage } from "./ooxml-package.ts";
+import { buildRepairReport } from "./repair-report.ts";
+import { rebuildDocxPackage } from "./docx-rebuild.ts";
+import { rebuildXlsxPackage } from "./xlsx-rebuild.ts";
+import { rebuildPptxPackage } from "./pptx-rebuild.ts";
+import { ODF_CONTENT_PART, ODF_MIME_TYPES, rebuildOdfPackage } from "./odf-rebuild.ts";
+import { rebuildZipArchive } from "./zip-rebuild.ts";
+import { extractTextFromExcelXml, extractTextFromOdfXml, extractTextFromPowerPointXml, extractTextFromWordXml, extractWordContent, readWordTextOptions } from "./text-extract.ts";
+import { outcome, previewText, type RepairOutcome, resultFileType, textOutcome } from "./repair-outcome.ts";
+import type { RepairContext, Repairer } from "./repairers.ts";
+import type { RepairResult } from "./repair-result.ts";
+
+// Damage visible in a ZIP package's structure before any part is inflated
+export function diagnosePackage(data: Uint8Array, mainPart: string | null): string[] {
+  const manifest = getZipManifest(data);
+  const findings: string[] = [];
+  if (manifest.entries.length === 0) return ['No ZIP entries were found in the file'];
+  if (manifest.centralDirectory === 'missing') findings.push('The ZIP central directory is missing');
+  if (manifest.centralDirectory === 'partial') findings.push('The ZIP central directory is incomplete');
+  if (manifest.leadingBytes > 0) findings.push(`${manifest.leadingBytes} unexpected byte(s) come before the first ZIP entry`);
+  if (mainPart && !manifest.entries.some(entry => entry.name === mainPart)) findings.push(`${mainPart} is missing`);
+  for (const entry of manifest.entries) {
+    if (entry.state !== 'intact' && !entry.name.endsWith('/')) findings.push(`${entry.name} is ${entry.state}`);
+  }
+  return findings;
+}
+
+const PACKAGE_REBUILDERS: Record<string, (data: Uint8Array, progress: ProgressReporter) => Promise<RebuiltPackage | null>> = {
+  docx: rebuildDocxPackage,
+  xlsx: rebuildXlsxPackage,
+  pptx: rebuildPptxPackage,
+  odt: (data, progress) => rebuildOdfPackage(data, 'odt', progress),
+  ods: (data, progress) => rebuildOdfPackage(data, 'ods', progress),
+  odp: (data, progress) => rebuildOdfPackage(data, 'odp', progress),
+  zip: rebuildZipArchive,
+};
+
+// Rebuild an OOXML or ODF package around the parts that survived
+export async function rebuildPackageOutcome(context: RepairContext): Promise<RepairOutcome | null> {
+  const { file, fileType, data, progress } = context;
+  console.log(`Attempting ${fileType.toUpperCase()} package rebuild...`);
+  let rebuilt: RebuiltPackage | null = null;
+  try {
+    rebuilt = await PACKAGE_REBUILDERS[fileType](data, progress);
+  } catch (e) {
+    console.log('Package rebuild failed, falling back to text extraction:', e.message);
+  }
+  if (!rebuilt) return null;
+
+  const zipEntries = getZipManifest(data).entries.filter(entry => !entry.name.endsWith('/'));
+  const intactNames = new Set(zipEntries.filter(entry => entry.state === 'intact').map(entry => entry.name));
+  const media = buildMediaGallery(data, fileType, rebuilt.parts);
+  const offeredMedia = media?.filter(item => item.file.complete).map(item => item.file.name);
+  const report = buildRepairReport(data, rebuilt, offeredMedia);
+  // Any part cut short, altered, regenerated or lost leaves the output short of the original
+  const damagedParts = report.parts.filter(part => part.damage !== undefined);
+  const complete = !rebuilt.mainPartTruncated && damagedParts.length === 0;
+  const result: RepairResult = {
+    success: true,
+    fileName: file.name.replace(/\.[^.]+$/, '') + `_recovered.${fileType}`,
+    status: complete ? 'success' : 'partial',
+    issues: [...new Set(rebuilt.issues)],
+    preview: { ...rebuilt.preview, content: previewText(rebuilt.preview.content || '') },
+    fileType: resultFileType(fileType),
+    report,
+    recoveryStats: {
+      totalFiles: zipEntries.length,
+      recoveredFiles: [...rebuilt.parts.keys()].filter(name => intactNames.has(name)).length,
+      corruptedFiles: damagedParts.length,
+      originalSize: file.size,
+      repairedSize: rebuilt.data.length,
+      corruptionLevel: complete ? 'low' : 'medium',
+      recoveredData: report.score
+    }
+  };
+
+  console.log(`Returning rebuilt ${fileType.toUpperCase()} with ${rebuilt.parts.size} parts (recovery score ${report.score})`);
+  return outcome(fileType, result, rebuilt.data, media);
+}
+
+// Rebuild the package, or failing that hand back the text of its main part
+export async function repairOfficePackage(context: RepairContext, repairer: Repairer): Promise<RepairOutcome | null> {
+  const rebuilt = await rebuildPackageOutcome(context);
+  if (rebuilt) return rebuilt;
+
+  console.log('Attempting Office document repair...');
+  context.progress('inflating');
+  const text = await repairer.extractPreview(context);
+  if (text.length <= 100) return null;
+  console.log(`Office repair recovered ${text.length} characters`);
+  return textOutcome(context, text, 'office_repair');
+}
+
+// Function to repair Office documents (DOCX, XLSX, PPTX, ODT, ODS, ODP) using advanced recovery
+export async function repairOfficeDocument(data: Uint8Array, fileType: string, textFormat: WordTextFormat = 'text'): Promise<string> {
+  console.log('Attempting advanced Office document repair...');
+
+  if (ODF_MIME_TYPES[fileType]) {
+    try {
+      const xmlContent = await recoverTruncatedDocxXML(data, ODF_CONTENT_PART);
+      const extractedText = extractTextFromOdfXml(xmlContent);
+      console.log(`Recovered ${extractedText.length} characters from OpenDocument content`);
+      return extractedText;
+    } catch (e) {
+      console.log('OpenDocument content recovery failed:', e.message);
+      return '';
+    }
+  }
+  
+  if (fileType === 'docx') {
+    try {
+      // Try to recover truncated/corrupt DOCX using custom recovery
+      const xmlContent = await recoverTruncatedDocxXML(data, 'word/document.xml');
+      if (xmlContent && xmlContent.length > 100) {
+        const extractedText = extractTextFromWordXml(xmlContent, await readWordTextOptions(data, textFormat));
+        if (extractedText.length > 100) {
+          console.log(`Successfully recovered ${extractedText.length} characters from Word document`);
+          return extractedText;
+        }
+      }
+    } catch (e) {
+      console.log('Advanced recovery failed, trying fallback:', e.message);
+    }
+  }
+  
+  // Fallback to standard JSZip approach
+  try {
+    
+    const zip = await JSZip.loadAsync(data, { 
+      checkCRC32: false, 
+      optimizedBinaryString: false,
+      createFolders: false
+    });
+    
+    const files = Object.keys(zip.files);
+    console.log(`Document contains ${files.length} internal files:`, files.slice(0, 5));
+    
+    let repairedContent = '';
+    
+    // Extract from Word documents
+    if (zip.files['word/document.xml']) {
+      console.log('Found Word document content file');
+      repairedContent = await extractWordContent(zip.files['word/document.xml'], await readWordTextOptions(data, textFormat));
+      if (repairedContent.length > 100) {
+        return repairedContent;
+      }
+    }
+    
+    // Extract cell values from Excel worksheets
+    if (fileType === 'xlsx') {
+      const sheetFiles = files.filter(f => /^xl\/(worksheets\/sheet\d+|sharedStrings)\.xml$/.test(f));
+      for (const filename of sheetFiles) {
+        try {
+          repairedContent += extractTextFromExcelXml(await zip.files[filename].async('text')) + '\n\n';
+        } catch (e) {
+          console.log(`Failed to extract from ${filename}:`, e.message);
+        }
+      }
+      return repairedContent.trim();
+    }
+    
+    // Extract slide text from PowerPoint presentations
+    if (fileType === 'pptx') {
+      const slideFiles = files.filter(f => /^ppt\/slides\/slide\d+\.xml$/.test(f));
+      for (const filename of slideFiles) {
+        try {
+          repairedContent += extractTextFromPowerPointXml(await zip.files[filename].async('text')) + '\n\n';
+        } catch (e) {
+          console.log(`Failed to extract from ${filename}:`, e.message);
+        }
+      }
+      return repairedContent.trim();
+    }
+    
+    // Try other file types
+    const wordFiles = files.filter(f => f.startsWith('word/') && f.endsWith('.xml'));
+    for (const filename of wordFiles) {
+      try {
+        const content = await extractWordContent(zip.files[filename]);
+        if (content.length > 100) {
+          repairedContent += content + '\n\n';
+        }
+      } catch (e) {
+        console.log(`Failed to extract from ${filename}:`, e.message);
+      }
+    }
+    
+    return repairedContent.trim();
+    
+  } catch (error) {
+    console.log('Standard Office document repair also failed:', error.message);
+    return '';
+  }
+}
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { repairPdf } from "./pdf-repair.ts";
+import { repairDocument } from "./repair-core.ts";
+import { buildTestPdf, testRepairInput, truncateBytes } from "./test-packages.ts";
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+async function repairReport(data: Uint8Array) {
+  return (await repairDocument(testRepairInput('report.pdf', data))).result;
+}
+
+function editPdf(data: Uint8Array, edit: (text: string) => string): Uint8Array {
+  return new TextEncoder().encode(edit(new TextDecoder('latin1').decode(data)));
+}
+
+describe('repairPdf', () => {
+  it('rewrites a whole PDF with every page and full marks', async () => {
+    const result = await repairReport(buildTestPdf());
+
+    expect(result).toMatchObject({ success: true, status: 'success', preview: { extractedPages: 12 } });
+    expect(result.recoveryStats!.recoveredData).toBe(100);
+  });
+
+  it('rebuilds the xref table when every offset in it is wrong', async () => {
+    const data = editPdf(buildTestPdf(), text => text.replace('%PDF-1.4\n', '%PDF-1.4\n% a comment that moves every object\n'));
+    const rebuilt = repairPdf(data)!;
+    const xref = new TextDecoder('latin1').decode(rebuilt.data).match(/xref\n0 \d+\n(?:\d{10} \d{5} [nf] \n)+/)![0];
+    const offsets = [...xref.matchAll(/(\d{10}) \d{5} n/g)].map(match => Number(match[1]));
+    const output = new TextDecoder('latin1').decode(rebuilt.data);
+
+    expect(offsets).toHaveLength(rebuilt.objectsWritten);
+    expect(offsets.every((offset, index) => output.startsWith(`${index + 1} 0 obj`, offset))).toBe(true);
+    expect(rebuilt.pageCount).toBe(12);
+  });
+
+  it('scores a PDF lower as more of its pages are cut off', async () => {
+    const data = buildTestPdf();
+    const scores: number[] = [];
+    for (const share of [0.9, 0.6, 0.3]) {
+      const result = await repairReport(truncateBytes(data, share));
+      expect(result.status).toBe('partial');
+      scores.push(result.recoveryStats!.recoveredData!);
+    }
+
+    expect(scores[0]).toBeLessThan(100);
+    expect(scores[1]).toBeLessThan(scores[0]);
+    expect(scores[2]).toBeLessThan(scores[1]);
+  });
+
+  it('reports the pages the page tree lists but the file lost', async () => {
+    const rebuilt = repairPdf(truncateBytes(buildTestPdf(), 0.6))!;
+
+    expect(rebuilt.pageCount).toBe(8);
+    expect(rebuilt.missingObjects).toEqual(['20 0', '22 0', '24 0', '26 0']);
+    expect(rebuilt.truncatedObjects).toEqual(['19 0']);
+  });
+
+  it('reattaches pages that fell out of a damaged page tree', async () => {
+    const data = editPdf(buildTestPdf(), text => text.replace('/Type /Pages /Kids', '/Type /Pagez /Kidz'));
+    const result = await repairReport(data);
+
+    expect(result).toMatchObject({ status: 'partial', preview: { extractedPages: 12 } });
+    expect(result.recoveryStats!.recoveredData).toBeLessThan(100);
+    expect(result.issues).toContain('Rebuilt the page tree with 12 page(s), reattaching 12 that had fallen out of it');
+  });
+});
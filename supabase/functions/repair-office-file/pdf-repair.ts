@@ -0,0 +1,751 @@
+// Cross-reference rebuild for damaged PDFs.
+//
+// Ignores whatever xref tables, xref streams and trailers survive and instead
+// scans the file for every `N G obj ... endobj`, unpacking compressed object
+// streams on the way. The objects are written back out behind a fresh classic
+// xref table and trailer. The catalog and page tree are checked and, when
+// pages have fallen out of the tree, rebuilt as a single flat level. Objects
+// that were truncated, orphaned or referenced but missing are all reported.
+
+import { inflateRaw } from "./raw-inflate.ts";
+
+const WHITESPACE = '\0\t\n\f\r ';
+const DELIMITERS = '()<>[]{}/%';
+const OBJECT_HEADER = /(?<![^\0\t\n\f\r ()<>[\]{}/%])(\d{1,10})[\0\t\n\f\r ]+(\d{1,5})[\0\t\n\f\r ]+obj(?=[\0\t\n\f\r ()<>[\]{}/%]|$)/g;
+const REFERENCE_TAIL = /[\0\t\n\f\r ]+(\d{1,5})[\0\t\n\f\r ]+R(?=[\0\t\n\f\r ()<>[\]{}/%]|$)/y;
+const TRAILER = /trailer[\0\t\n\f\r ]*<</g;
+const MAX_NESTING = 64;
+// The implementation limit readers share; anything above it is a misread
+// header, and honouring it would mean writing an enormous xref table
+const MAX_OBJECT_NUMBER = 8388607;
+// Page attributes a page picks up from its ancestors when it lacks its own
+const INHERITABLE_PAGE_ENTRIES = ['Resources', 'MediaBox', 'CropBox', 'Rotate'];
+const DEFAULT_MEDIA_BOX = '[0 0 612 792]';
+const INFO_ENTRIES = ['Title', 'Author', 'Subject', 'Creator', 'Producer', 'CreationDate', 'ModDate'];
+const MAX_LISTED_OBJECTS = 20;
+
+interface PdfDictEntry {
+  keyStart: number;
+  value: PdfValue;
+}
+
+type PdfValue =
+  | { type: 'dict'; start: number; end: number; entries: Map<string, PdfDictEntry> }
+  | { type: 'array'; start: number; end: number; items: PdfValue[] }
+  | { type: 'ref'; start: number; end: number; num: number; gen: number }
+  | { type: 'name'; start: number; end: number; name: string }
+  | { type: 'number'; start: number; end: number; value: number }
+  | { type: 'string' | 'keyword'; start: number; end: number };
+
+interface PdfObject {
+  num: number;
+  gen: number;
+  // Position the definition was found at; later definitions replace earlier
+  // ones, as they do in an incrementally updated file
+  order: number;
+  // Source of the object's value alone, which `value` is parsed against
+  text: string;
+  value: PdfValue;
+  stream: Uint8Array | null;
+  truncated: boolean;
+}
+
+interface TrailerInfo {
+  root: PdfValue | null;
+  info: PdfValue | null;
+  id: string | null;
+  encrypt: string | null;
+}
+
+export interface PdfRepairResult {
+  data: Uint8Array;
+  issues: string[];
+  pageCount: number;
+  // Object definitions found in the damaged file, before duplicates collapse
+  objectsFound: number;
+  objectsWritten: number;
+  // Kept, but with their stream cut short
+  truncatedObjects: string[];
+  // Too damaged to parse; left out of the rebuilt file
+  droppedObjects: string[];
+  orphanedObjects: string[];
+  missingObjects: string[];
+  // True when the catalog or page tree had to be rebuilt
+  structureRebuilt: boolean;
+}
+
+function decodeLatin1(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+}
+
+function encodeLatin1(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function skipWhitespace(text: string, pos: number, end: number): number {
+  while (pos < end) {
+    if (text[pos] === '%') {
+      while (pos < end && text[pos] !== '\n' && text[pos] !== '\r') pos++;
+    } else if (WHITESPACE.includes(text[pos])) {
+      pos++;
+    } else {
+      break;
+    }
+  }
+  return pos;
+}
+
+function readRegularToken(text: string, pos: number, end: number): number {
+  while (pos < end && !WHITESPACE.includes(text[pos]) && !DELIMITERS.includes(text[pos])) pos++;
+  return pos;
+}
+
+// Parse one PDF value starting at `pos`, never reading at or past `end`.
+// Returns null for anything malformed or cut off.
+function parseValue(text: string, pos: number, end: number, depth = 0): PdfValue | null {
+  pos = skipWhitespace(text, pos, end);
+  if (pos >= end || depth > MAX_NESTING) return null;
+  const start = pos;
+  const ch = text[pos];
+
+  if (ch === '<' && text[pos + 1] === '<') {
+    const entries = new Map<string, PdfDictEntry>();
+    pos += 2;
+    for (;;) {
+      pos = skipWhitespace(text, pos, end);
+      if (pos + 1 >= end) return null;
+      if (text[pos] === '>' && text[pos + 1] === '>') {
+        return { type: 'dict', start, end: pos + 2, entries };
+      }
+      const key = parseValue(text, pos, end, depth + 1);
+      if (!key || key.type !== 'name') return null;
+      const value = parseValue(text, key.end, end, depth + 1);
+      if (!value) return null;
+      entries.set(key.name, { keyStart: key.start, value });
+      pos = value.end;
+    }
+  }
+
+  if (ch === '[') {
+    const items: PdfValue[] = [];
+    pos++;
+    for (;;) {
+      pos = skipWhitespace(text, pos, end);
+      if (pos >= end) return null;
+      if (text[pos] === ']') {
+        return { type: 'array', start, end: pos + 1, items };
+      }
+      const item = parseValue(text, pos, end, depth + 1);
+      if (!item) return null;
+      items.push(item);
+      pos = item.end;
+    }
+  }
+
+  if (ch === '(') {
+    let level = 0;
+    for (; pos < end; pos++) {
+      if (text[pos] === '\\') {
+        pos++;
+      } else if (text[pos] === '(') {
+        level++;
+      } else if (text[pos] === ')' && --level === 0) {
+        return { type: 'string', start, end: pos + 1 };
+      }
+    }
+    return null;
+  }
+
+  if (ch === '<') {
+    const close = text.indexOf('>', pos);
+    return close === -1 || close >= end ? null : { type: 'string', start, end: close + 1 };
+  }
+
+  if (ch === '/') {
+    const tokenEnd = readRegularToken(text, pos + 1, end);
+    const name = text.slice(pos + 1, tokenEnd).replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    return { type: 'name', start, end: tokenEnd, name };
+  }
+
+  const tokenEnd = readRegularToken(text, pos, end);
+  if (tokenEnd === pos) return null;
+  const token = text.slice(pos, tokenEnd);
+  if (/^\d+$/.test(token)) {
+    // An integer may open an indirect reference, `N G R`
+    REFERENCE_TAIL.lastIndex = tokenEnd;
+    const reference = REFERENCE_TAIL.exec(text);
+    if (reference && REFERENCE_TAIL.lastIndex <= end) {
+      return { type: 'ref', start, end: REFERENCE_TAIL.lastIndex, num: Number(token), gen: Number(reference[1]) };
+    }
+  }
+  if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+    return { type: 'number', start, end: tokenEnd, value: Number(token) };
+  }
+  return { type: 'keyword', start, end: tokenEnd };
+}
+
+function parseObjectText(text: string): PdfValue | null {
+  return parseValue(text, 0, text.length);
+}
+
+function dictEntry(object: PdfObject | undefined, key: string): PdfValue | null {
+  return object?.value.type === 'dict' ? object.value.entries.get(key)?.value ?? null : null;
+}
+
+function entryName(object: PdfObject | undefined, key: string): string | null {
+  const value = dictEntry(object, key);
+  return value?.type === 'name' ? value.name : null;
+}
+
+function entryText(object: PdfObject, key: string): string | null {
+  const value = dictEntry(object, key);
+  return value ? object.text.slice(value.start, value.end) : null;
+}
+
+// Set or replace a top-level dictionary entry, reparsing the object after
+function setDictEntry(object: PdfObject, key: string, valueText: string): void {
+  if (object.value.type !== 'dict') return;
+  const existing = object.value.entries.get(key);
+  object.text = existing
+    ? object.text.slice(0, existing.value.start) + ` ${valueText}` + object.text.slice(existing.value.end)
+    : object.text.slice(0, object.value.end - 2) + ` /${key} ${valueText} >>` + object.text.slice(object.value.end);
+  object.value = parseObjectText(object.text) ?? object.value;
+}
+
+function removeDictEntry(object: PdfObject, key: string): void {
+  const existing = object.value.type === 'dict' ? object.value.entries.get(key) : undefined;
+  if (!existing) return;
+  object.text = object.text.slice(0, existing.keyStart) + object.text.slice(existing.value.end);
+  object.value = parseObjectText(object.text) ?? object.value;
+}
+
+function createObject(num: number, source: string): PdfObject {
+  return { num, gen: 0, order: Infinity, text: source, value: parseObjectText(source)!, stream: null, truncated: false };
+}
+
+function collectReferences(value: PdfValue, into: PdfValue[]): void {
+  if (value.type === 'ref') {
+    into.push(value);
+  } else if (value.type === 'array') {
+    value.items.forEach(item => collectReferences(item, into));
+  } else if (value.type === 'dict') {
+    value.entries.forEach(entry => collectReferences(entry.value, into));
+  }
+}
+
+function objectId(num: number, gen: number): string {
+  return `${num} ${gen}`;
+}
+
+function listObjects(ids: string[]): string {
+  const listed = ids.slice(0, MAX_LISTED_OBJECTS).join(', ');
+  return ids.length > MAX_LISTED_OBJECTS ? `${listed} and ${ids.length - MAX_LISTED_OBJECTS} more` : listed;
+}
+
+// Work out where a stream's data ends. A /Length is trusted only when
+// `endstream` really follows it; otherwise the data runs to the first
+// `endstream` before the next object header.
+function findStreamEnd(
+  text: string,
+  dict: PdfValue,
+  dataStart: number,
+  regionEnd: number,
+  integerObjects: Map<number, number>
+): { dataEnd: number; end: number } | null {
+  if (dict.type !== 'dict') return null;
+  const length = dict.entries.get('Length')?.value;
+  const declared = length?.type === 'number' ? length.value
+    : length?.type === 'ref' ? integerObjects.get(length.num) : undefined;
+  if (declared !== undefined && Number.isInteger(declared) && declared >= 0 && dataStart + declared <= text.length) {
+    let tail = dataStart + declared;
+    while (tail < text.length && WHITESPACE.includes(text[tail])) tail++;
+    if (text.startsWith('endstream', tail)) {
+      return { dataEnd: dataStart + declared, end: tail + 9 };
+    }
+  }
+
+  const marker = text.indexOf('endstream', dataStart);
+  if (marker === -1 || marker >= regionEnd) return null;
+  let dataEnd = marker;
+  if (text[dataEnd - 1] === '\n' && dataEnd > dataStart) dataEnd--;
+  if (text[dataEnd - 1] === '\r' && dataEnd > dataStart) dataEnd--;
+  return { dataEnd, end: marker + 9 };
+}
+
+function scanObjects(bytes: Uint8Array, text: string, damaged: Map<string, number>): PdfObject[] {
+  const headers = [...text.matchAll(OBJECT_HEADER)];
+
+  // Indirect stream lengths can point at objects further on in the file
+  const integerObjects = new Map<number, number>();
+  headers.forEach((header, i) => {
+    const bodyStart = header.index! + header[0].length;
+    const value = parseValue(text, bodyStart, headers[i + 1]?.index ?? text.length);
+    if (value?.type === 'number') integerObjects.set(Number(header[1]), value.value);
+  });
+
+  const objects: PdfObject[] = [];
+  let skipUntil = 0;
+  headers.forEach((header, i) => {
+    if (header.index! < skipUntil || Number(header[1]) > MAX_OBJECT_NUMBER) return;
+    const num = Number(header[1]);
+    const gen = Number(header[2]);
+    const bodyStart = header.index! + header[0].length;
+    const regionEnd = headers[i + 1]?.index ?? text.length;
+
+    const value = parseValue(text, bodyStart, regionEnd);
+    if (!value) {
+      damaged.set(objectId(num, gen), header.index!);
+      return;
+    }
+
+    let objectEnd = skipWhitespace(text, value.end, regionEnd);
+    let stream: Uint8Array | null = null;
+    let truncated = false;
+    if (value.type === 'dict' && text.startsWith('stream', objectEnd)) {
+      let dataStart = objectEnd + 6;
+      if (text[dataStart] === '\r') dataStart++;
+      if (text[dataStart] === '\n') dataStart++;
+      const streamEnd = findStreamEnd(text, value, dataStart, regionEnd, integerObjects);
+      if (streamEnd) {
+        stream = bytes.subarray(dataStart, streamEnd.dataEnd);
+        objectEnd = streamEnd.end;
+      } else {
+        // Keep whatever data survives up to the next object
+        stream = bytes.subarray(dataStart, Math.max(dataStart, regionEnd));
+        objectEnd = regionEnd;
+        truncated = true;
+      }
+    }
+
+    const trailing = skipWhitespace(text, objectEnd, text.length);
+    skipUntil = text.startsWith('endobj', trailing) ? trailing + 6 : objectEnd;
+
+    const source = text.slice(value.start, value.end);
+    objects.push({
+      num,
+      gen,
+      order: header.index!,
+      text: source,
+      value: parseObjectText(source)!,
+      stream,
+      truncated,
+    });
+  });
+  return objects;
+}
+
+// Decode a stream whose only filter is FlateDecode with no predictor. A
+// truncated stream still yields whatever decoded before the damage.
+function inflateStream(object: PdfObject): Uint8Array | null {
+  const filter = dictEntry(object, 'Filter');
+  const filterName = filter?.type === 'array' && filter.items.length === 1 && filter.items[0].type === 'name'
+    ? filter.items[0].name
+    : filter?.type === 'name' ? filter.name : null;
+  const predictor = object.text.match(/\/Predictor\s+(\d+)/);
+  const data = object.stream;
+  if (!data || filterName !== 'FlateDecode' || (predictor && Number(predictor[1]) > 1)) return null;
+  // Skip the two-byte zlib header
+  if (data.length < 2 || (data[0] & 0x0f) !== 8) return null;
+  return inflateRaw(data.subarray(2), { resync: false }).segments[0].bytes;
+}
+
+// Expand a compressed object stream (PDF 1.5+) into plain objects so that a
+// classic xref table can point at them.
+function unpackObjectStream(container: PdfObject, damaged: Map<string, number>): PdfObject[] | null {
+  const data = dictEntry(container, 'Filter') ? inflateStream(container) : container.stream;
+  if (!data) return null;
+
+  const count = dictEntry(container, 'N');
+  const first = dictEntry(container, 'First');
+  if (count?.type !== 'number' || first?.type !== 'number') return null;
+  const text = decodeLatin1(data);
+  const offsets = text.slice(0, first.value).match(/\d+/g)?.map(Number) ?? [];
+
+  const objects: PdfObject[] = [];
+  for (let i = 0; i < count.value && 2 * i + 1 < offsets.length; i++) {
+    const num = offsets[2 * i];
+    if (num > MAX_OBJECT_NUMBER) continue;
+    const bodyStart = first.value + offsets[2 * i + 1];
+    const bodyEnd = 2 * i + 3 < offsets.length ? first.value + offsets[2 * i + 3] : text.length;
+    const value = parseValue(text, bodyStart, Math.min(bodyEnd, text.length));
+    if (!value) {
+      damaged.set(objectId(num, 0), container.order);
+      continue;
+    }
+    const source = text.slice(value.start, value.end);
+    objects.push({
+      num,
+      gen: 0,
+      // Between the container and anything defined after it
+      order: container.order + (i + 1) / (count.value + 1),
+      text: source,
+      value: parseObjectText(source)!,
+      stream: null,
+      truncated: false,
+    });
+  }
+  return objects;
+}
+
+// Merge every surviving trailer dictionary, classic or xref stream, later
+// ones taking precedence.
+function readTrailers(text: string, xrefStreams: PdfObject[]): TrailerInfo {
+  const dictionaries: { order: number; object: PdfObject }[] = xrefStreams.map(object => ({ order: object.order, object }));
+  for (const match of text.matchAll(TRAILER)) {
+    const dictStart = match.index! + match[0].length - 2;
+    const value = parseValue(text, dictStart, text.length);
+    if (value?.type !== 'dict') continue;
+    const source = text.slice(value.start, value.end);
+    dictionaries.push({
+      order: match.index!,
+      object: { num: 0, gen: 0, order: match.index!, text: source, value: parseObjectText(source)!, stream: null, truncated: false },
+    });
+  }
+  dictionaries.sort((a, b) => a.order - b.order);
+
+  const trailer: TrailerInfo = { root: null, info: null, id: null, encrypt: null };
+  for (const { object } of dictionaries) {
+    trailer.root = dictEntry(object, 'Root') ?? trailer.root;
+    trailer.info = dictEntry(object, 'Info') ?? trailer.info;
+    trailer.id = entryText(object, 'ID') ?? trailer.id;
+    trailer.encrypt = entryText(object, 'Encrypt') ?? trailer.encrypt;
+  }
+  return trailer;
+}
+
+function isPagesNode(object: PdfObject | undefined): boolean {
+  const type = entryName(object, 'Type');
+  return type === 'Pages' || (type !== 'Page' && dictEntry(object, 'Kids')?.type === 'array');
+}
+
+function isPage(object: PdfObject): boolean {
+  const type = entryName(object, 'Type');
+  return type === 'Page' || (!type && !!(dictEntry(object, 'Contents') || dictEntry(object, 'MediaBox')));
+}
+
+// Walk the page tree from `rootNum`, returning the pages in reading order,
+// whether anything along the way was missing, looped or miscounted, and the
+// kids it lists that are gone from the file.
+function walkPageTree(objects: Map<number, PdfObject>, rootNum: number): { pages: PdfObject[]; intact: boolean; lost: string[] } {
+  const pages: PdfObject[] = [];
+  const seen = new Set<number>();
+  const lost: string[] = [];
+  let intact = true;
+
+  const visit = (num: number, parentNum: number | null, depth: number): number => {
+    const node = objects.get(num);
+    if (!node || seen.has(num) || depth > MAX_NESTING) {
+      intact = false;
+      return 0;
+    }
+    seen.add(num);
+    const parent = dictEntry(node, 'Parent');
+    if (parentNum !== null && (parent?.type !== 'ref' || parent.num !== parentNum)) intact = false;
+
+    if (!isPagesNode(node)) {
+      if (!isPage(node)) {
+        intact = false;
+        return 0;
+      }
+      pages.push(node);
+      return 1;
+    }
+    const kids = dictEntry(node, 'Kids');
+    let leaves = 0;
+    for (const kid of kids?.type === 'array' ? kids.items : []) {
+      if (kid.type === 'ref') {
+        if (!objects.has(kid.num)) lost.push(objectId(kid.num, kid.gen));
+        leaves += visit(kid.num, num, depth + 1);
+      } else {
+        intact = false;
+      }
+    }
+    const count = dictEntry(node, 'Count');
+    if (count?.type !== 'number' || count.value !== leaves) intact = false;
+    return leaves;
+  };
+
+  visit(rootNum, null, 0);
+  return { pages, intact, lost };
+}
+
+function writePdf(version: string, objects: PdfObject[], trailerEntries: string): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const write = (chunk: Uint8Array | string) => {
+    const bytes = typeof chunk === 'string' ? encodeLatin1(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  write(`%PDF-${version}\n%\xE2\xE3\xCF\xD3\n`);
+  const offsets = new Map<number, { offset: number; gen: number }>();
+  for (const object of objects) {
+    offsets.set(object.num, { offset: length, gen: object.gen });
+    write(`${object.num} ${object.gen} obj\n${object.text}\n`);
+    if (object.stream) {
+      write('stream\n');
+      write(object.stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  }
+
+  const size = objects.reduce((max, object) => Math.max(max, object.num), 0) + 1;
+  const xrefOffset = length;
+  let xref = `xref\n0 ${size}\n0000000000 65535 f \n`;
+  for (let num = 1; num < size; num++) {
+    const entry = offsets.get(num);
+    xref += entry
+      ? `${String(entry.offset).padStart(10, '0')} ${String(entry.gen).padStart(5, '0')} n \n`
+      : '0000000000 00000 f \n';
+  }
+  write(xref);
+  write(`trailer\n<< /Size ${size}${trailerEntries} >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const data = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data;
+}
+
+export function repairPdf(bytes: Uint8Array): PdfRepairResult | null {
+  const text = decodeLatin1(bytes);
+  const issues: string[] = [];
+  const damaged = new Map<string, number>();
+
+  const scanned = scanObjects(bytes, text, damaged);
+  if (scanned.length === 0) return null;
+  const objectsFound = scanned.length;
+
+  // Unpack object streams; xref streams and linearization data only describe
+  // the old layout and are dropped
+  const xrefStreams = scanned.filter(object => entryName(object, 'Type') === 'XRef');
+  const trailer = readTrailers(text, xrefStreams);
+  const definitions: PdfObject[] = [];
+  let unpacked = 0;
+  let packedStreams = 0;
+  for (const object of scanned) {
+    if (entryName(object, 'Type') === 'XRef' || dictEntry(object, 'Linearized')) continue;
+    if (entryName(object, 'Type') === 'ObjStm') {
+      const contents = trailer.encrypt ? null : unpackObjectStream(object, damaged);
+      if (contents) {
+        definitions.push(...contents);
+        unpacked += contents.length;
+        packedStreams++;
+        continue;
+      }
+      issues.push(`Compressed object stream ${objectId(object.num, object.gen)} could not be unpacked; the objects inside it are lost`);
+      continue;
+    }
+    definitions.push(object);
+  }
+
+  const objects = new Map<number, PdfObject>();
+  for (const object of definitions.sort((a, b) => a.order - b.order)) {
+    objects.set(object.num, object);
+  }
+  if (unpacked > 0) {
+    issues.push(`Unpacked ${unpacked} compressed object(s) from ${packedStreams} object stream(s)`);
+  }
+
+  // Damage is only worth reporting when no later revision replaced it
+  const truncatedObjects: string[] = [];
+  const droppedObjects: string[] = [];
+  damaged.forEach((order, id) => {
+    const current = objects.get(Number(id.split(' ')[0]));
+    if (!current || current.order < order) {
+      droppedObjects.push(id);
+      issues.push(current
+        ? `Object ${id} was truncated; an earlier revision of it was kept`
+        : `Object ${id} was truncated and dropped; references to it read as null`);
+    }
+  });
+  for (const object of objects.values()) {
+    if (!object.truncated) continue;
+    truncatedObjects.push(objectId(object.num, object.gen));
+    // Half a compressed stream is unreadable, so keep what still decodes as
+    // plain data instead
+    const decoded = inflateStream(object);
+    if (decoded && decoded.length > 0) {
+      object.stream = decoded;
+      removeDictEntry(object, 'Filter');
+      removeDictEntry(object, 'DecodeParms');
+      issues.push(`Object ${objectId(object.num, object.gen)} was truncated; kept the ${decoded.length} bytes of its stream that still decode`);
+    } else {
+      issues.push(`Object ${objectId(object.num, object.gen)} was truncated; kept the first ${object.stream!.length} bytes of its stream`);
+    }
+  }
+
+  let nextNum = 1;
+  objects.forEach((_, num) => nextNum = Math.max(nextNum, num + 1));
+  const reference = (object: PdfObject) => `${object.num} ${object.gen} R`;
+
+  // Catalog: the trailer's /Root when it survived, else the last one found
+  const rootRef = trailer.root?.type === 'ref' ? objects.get(trailer.root.num) : undefined;
+  let catalog = rootRef && (entryName(rootRef, 'Type') === 'Catalog' || dictEntry(rootRef, 'Pages')) ? rootRef : undefined;
+  if (!catalog) {
+    catalog = [...objects.values()].filter(object => entryName(object, 'Type') === 'Catalog').pop();
+  }
+
+  // Page tree root: the catalog's /Pages, else the top-level node holding
+  // the most pages
+  const catalogPages = dictEntry(catalog, 'Pages');
+  let pagesRoot = catalogPages?.type === 'ref' && isPagesNode(objects.get(catalogPages.num))
+    ? objects.get(catalogPages.num)
+    : undefined;
+  if (!pagesRoot) {
+    const candidates = [...objects.values()].filter(object => {
+      const parent = dictEntry(object, 'Parent');
+      return entryName(object, 'Type') === 'Pages' && (parent?.type !== 'ref' || !objects.has(parent.num));
+    });
+    let best = 0;
+    for (const candidate of candidates) {
+      const leaves = walkPageTree(objects, candidate.num).pages.length;
+      if (leaves > best) {
+        best = leaves;
+        pagesRoot = candidate;
+      }
+    }
+  }
+
+  const tree = pagesRoot ? walkPageTree(objects, pagesRoot.num) : { pages: [], intact: false, lost: [] };
+  const inTree = new Set(tree.pages.map(page => page.num));
+  // Pages outside an intact tree were most likely deleted by an incremental
+  // update, so they are only reattached when the tree itself is damaged
+  const orphanedPages = tree.intact ? [] : [...objects.values()].filter(object => entryName(object, 'Type') === 'Page' && !inTree.has(object.num));
+  const pages = [...tree.pages, ...orphanedPages];
+  if (pages.length === 0) return null;
+
+  let structureRebuilt = false;
+  if (!pagesRoot || !tree.intact) {
+    // Flatten the tree: every page hangs directly off the root, taking along
+    // any attributes it inherited from the intermediate nodes being removed
+    if (!pagesRoot) {
+      pagesRoot = createObject(nextNum++, '<< /Type /Pages >>');
+      objects.set(pagesRoot.num, pagesRoot);
+    }
+    const root = pagesRoot;
+    for (const page of pages) {
+      const seen = new Set<number>([page.num]);
+      for (let parent = dictEntry(page, 'Parent'); parent?.type === 'ref' && parent.num !== root.num && !seen.has(parent.num);) {
+        seen.add(parent.num);
+        const ancestor = objects.get(parent.num);
+        if (!ancestor) break;
+        for (const key of INHERITABLE_PAGE_ENTRIES) {
+          const inherited = entryText(ancestor, key);
+          if (inherited && !dictEntry(page, key)) setDictEntry(page, key, inherited);
+        }
+        parent = dictEntry(ancestor, 'Parent');
+      }
+      if (!dictEntry(page, 'MediaBox') && !dictEntry(root, 'MediaBox')) {
+        setDictEntry(page, 'MediaBox', DEFAULT_MEDIA_BOX);
+      }
+      setDictEntry(page, 'Parent', reference(root));
+    }
+    for (const object of [...objects.values()]) {
+      if (object !== root && entryName(object, 'Type') === 'Pages') objects.delete(object.num);
+    }
+    setDictEntry(root, 'Type', '/Pages');
+    setDictEntry(root, 'Kids', `[${pages.map(reference).join(' ')}]`);
+    setDictEntry(root, 'Count', String(pages.length));
+    removeDictEntry(root, 'Parent');
+    structureRebuilt = true;
+    issues.push(orphanedPages.length > 0
+      ? `Rebuilt the page tree with ${pages.length} page(s), reattaching ${orphanedPages.length} that had fallen out of it`
+      : `Rebuilt the damaged page tree with ${pages.length} page(s)`);
+  }
+  if (tree.lost.length > 0) {
+    issues.push(`The page tree lists ${tree.lost.length} page(s) that are missing from the file: ${listObjects(tree.lost)}`);
+  }
+
+  if (!catalog) {
+    catalog = createObject(nextNum++, `<< /Type /Catalog /Pages ${reference(pagesRoot)} >>`);
+    objects.set(catalog.num, catalog);
+    structureRebuilt = true;
+    issues.push('The document catalog was missing; created a new one');
+  } else if (catalogPages?.type !== 'ref' || catalogPages.num !== pagesRoot.num) {
+    setDictEntry(catalog, 'Pages', reference(pagesRoot));
+    structureRebuilt = true;
+    issues.push('Pointed the document catalog back at the page tree');
+  }
+
+  // A stream's /Length must match the data that is actually written
+  for (const object of objects.values()) {
+    if (!object.stream) continue;
+    const length = dictEntry(object, 'Length');
+    const target = length?.type === 'ref' ? objects.get(length.num) : undefined;
+    const declared = length?.type === 'number' ? length.value
+      : target?.value.type === 'number' ? target.value.value : null;
+    if (declared !== object.stream.length) setDictEntry(object, 'Length', String(object.stream.length));
+  }
+
+  // Everything reachable from the trailer is in use; the rest is orphaned
+  // Without a surviving trailer, the document info is the dictionary that
+  // carries its keys
+  const info = trailer.info?.type === 'ref' && objects.has(trailer.info.num)
+    ? objects.get(trailer.info.num)
+    : [...objects.values()].filter(object =>
+      !dictEntry(object, 'Type') && !dictEntry(object, 'Subtype') && INFO_ENTRIES.some(key => dictEntry(object, key))
+    ).sort((a, b) => a.order - b.order).pop();
+  const reached = new Set<number>();
+  const missing = new Set<string>();
+  const pending: PdfValue[] = [parseObjectText(reference(catalog))!];
+  if (info) pending.push(parseObjectText(reference(info))!);
+  if (trailer.encrypt) collectReferences(parseObjectText(trailer.encrypt) ?? { type: 'keyword', start: 0, end: 0 }, pending);
+  while (pending.length > 0) {
+    const ref = pending.pop()!;
+    if (ref.type !== 'ref' || reached.has(ref.num)) continue;
+    const target = objects.get(ref.num);
+    if (!target) {
+      missing.add(objectId(ref.num, ref.gen));
+      continue;
+    }
+    reached.add(ref.num);
+    collectReferences(target.value, pending);
+  }
+  const orphanedObjects = [...objects.values()]
+    .filter(object => !reached.has(object.num))
+    .map(object => objectId(object.num, object.gen));
+  // The rebuilt tree no longer refers to the pages it lost, but they are missing all the same
+  const missingObjects = [...new Set([...tree.lost, ...missing])];
+  if (orphanedObjects.length > 0) {
+    issues.push(`${orphanedObjects.length} object(s) are not referenced from the document and were kept as-is: ${listObjects(orphanedObjects)}`);
+  }
+  if (missing.size > 0) {
+    issues.push(`${missing.size} referenced object(s) are missing and read as null: ${listObjects([...missing])}`);
+  }
+
+  const written = [...objects.values()].sort((a, b) => a.num - b.num);
+  issues.unshift(`Rebuilt the cross-reference table and trailer from ${written.length} object(s) found by scanning`);
+
+  let trailerEntries = ` /Root ${reference(catalog)}`;
+  if (info) trailerEntries += ` /Info ${reference(info)}`;
+  if (trailer.encrypt) trailerEntries += ` /Encrypt ${trailer.encrypt}`;
+  if (trailer.id) trailerEntries += ` /ID ${trailer.id}`;
+
+  const version = text.slice(0, 1024).match(/%PDF-(\d\.\d)/)?.[1] ?? '1.7';
+  return {
+    data: writePdf(version, written, trailerEntries),
+    issues,
+    pageCount: pages.length,
+    objectsFound,
+    objectsWritten: written.length,
+    truncatedObjects,
+    droppedObjects,
+    orphanedObjects,
+    missingObjects,
+    structureRebuilt,
+  };
+}
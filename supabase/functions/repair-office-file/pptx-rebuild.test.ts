@@ -0,0 +1,42 @@
+import JSZip from "jszip";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { repairDocument } from "./repair-core.ts";
+import { buildTestPptx, testRepairInput, truncateBytes, unresolvedRelationshipIds } from "./test-packages.ts";
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+const MASTER_PART = 'ppt/slideMasters/slideMaster1.xml';
+
+async function repairPptx(data: Uint8Array) {
+  const { result, output } = await repairDocument(testRepairInput('deck.pptx', data));
+  return { result, zip: await JSZip.loadAsync(output!), output: output! };
+}
+
+describe('rebuildPptxPackage', () => {
+  it.each([0.8, 0.6, 0.4])('leaves no slide pointing at a lost relationship in a PPTX cut to %s', async share => {
+    const { result, zip, output } = await repairPptx(truncateBytes(await buildTestPptx(), share));
+
+    expect(result.status).toBe('partial');
+    expect(await unresolvedRelationshipIds(output)).toEqual([]);
+    expect(await zip.file('ppt/slides/slide5.xml')!.async('string')).not.toContain('<p:pic>');
+  });
+
+  it('removes a lost layout from its master', async () => {
+    // A second layout listed by the master whose part is gone
+    const zip = await JSZip.loadAsync(await buildTestPptx());
+    const master = await zip.file(MASTER_PART)!.async('string');
+    zip.file(MASTER_PART, master.replace('</p:sldLayoutIdLst>', '<p:sldLayoutId id="2147483650" r:id="rId3"/></p:sldLayoutIdLst>'));
+    const masterRels = await zip.file('ppt/slideMasters/_rels/slideMaster1.xml.rels')!.async('string');
+    zip.file('ppt/slideMasters/_rels/slideMaster1.xml.rels', masterRels.replace('</Relationships>',
+      '<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/slideLayout" Target="../slideLayouts/slideLayout2.xml"/></Relationships>'));
+    const { result, zip: repaired, output } = await repairPptx(await zip.generateAsync({ type: 'uint8array' }));
+    const repairedMaster = await repaired.file(MASTER_PART)!.async('string');
+
+    expect(result.status).toBe('partial');
+    expect(repairedMaster).toContain('<p:sldLayoutId id="2147483649" r:id="rId1"/>');
+    expect(repairedMaster).not.toContain('rId3');
+    expect(await unresolvedRelationshipIds(output)).toEqual([]);
+  });
+});
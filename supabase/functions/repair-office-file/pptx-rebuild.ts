@@ -0,0 +1,364 @@
+// PPTX rebuilding from the slides that survived.
+//
+// Slide masters are kept with the layouts that survived alongside them, a
+// blank master is generated when none did, and presentation.xml and its
+// relationships are regenerated for only the surviving slides.
+
+import { ignoreProgress, type ProgressReporter } from "./progress.ts";
+import { getXmlAttribute } from "./xml-text.ts";
+import { findLocalHeaderNames, findZipEntry, recoverPartXML, salvagePart } from "./package-parts.ts";
+import { buildRelationshipsXml, collectPackageParts, createRepairLog, logIssue, logRegenerated, MAIN_PARTS, type PackageRelationship, parseRelationships, type RebuiltPackage, RELATIONSHIP_NS, relsPathFor, type RepairLog, resolvePartTarget, writePackage } from "./ooxml-package.ts";
+import { extractTextFromPowerPointXml } from "./text-extract.ts";
+
+export const PRESENTATIONML_NS = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+  'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+
+export const EMPTY_SHAPE_TREE = '<p:cSld><p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/></p:spTree></p:cSld>';
+
+// Minimal master, layout and theme used when no slide master survived
+const FALLBACK_SLIDE_MASTER = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<p:sldMaster ${PRESENTATIONML_NS}>${EMPTY_SHAPE_TREE}<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/><p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst></p:sldMaster>`;
+
+const FALLBACK_SLIDE_LAYOUT = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<p:sldLayout ${PRESENTATIONML_NS} type="blank" preserve="1">${EMPTY_SHAPE_TREE.replace('<p:cSld>', '<p:cSld name="Blank">')}<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>`;
+
+const FALLBACK_THEME = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="Recovered"><a:themeElements>` +
+  '<a:clrScheme name="Office"><a:dk1><a:sysClr val="windowText" lastClr="000000"/></a:dk1><a:lt1><a:sysClr val="window" lastClr="FFFFFF"/></a:lt1>' +
+  '<a:dk2><a:srgbClr val="44546A"/></a:dk2><a:lt2><a:srgbClr val="E7E6E6"/></a:lt2><a:accent1><a:srgbClr val="4472C4"/></a:accent1>' +
+  '<a:accent2><a:srgbClr val="ED7D31"/></a:accent2><a:accent3><a:srgbClr val="A5A5A5"/></a:accent3><a:accent4><a:srgbClr val="FFC000"/></a:accent4>' +
+  '<a:accent5><a:srgbClr val="5B9BD5"/></a:accent5><a:accent6><a:srgbClr val="70AD47"/></a:accent6><a:hlink><a:srgbClr val="0563C1"/></a:hlink>' +
+  '<a:folHlink><a:srgbClr val="954F72"/></a:folHlink></a:clrScheme>' +
+  '<a:fontScheme name="Office"><a:majorFont><a:latin typeface="Calibri Light"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont>' +
+  '<a:minorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont></a:fontScheme>' +
+  '<a:fmtScheme name="Office"><a:fillStyleLst>' + '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'.repeat(3) + '</a:fillStyleLst>' +
+  '<a:lnStyleLst>' + '<a:ln w="6350"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>'.repeat(3) + '</a:lnStyleLst>' +
+  '<a:effectStyleLst>' + '<a:effectStyle><a:effectLst/></a:effectStyle>'.repeat(3) + '</a:effectStyleLst>' +
+  '<a:bgFillStyleLst>' + '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'.repeat(3) + '</a:bgFillStyleLst></a:fmtScheme>' +
+  '</a:themeElements></a:theme>';
+
+// Relationships from presentation.xml that are carried over when their target survives
+const PRESENTATION_SUPPORT_RELATIONSHIPS = ['notesMaster', 'handoutMaster', 'presProps', 'viewProps', 'theme', 'tableStyles', 'font'];
+
+interface RecoveredMaster {
+  partName: string;
+  layouts: string[];
+}
+
+// Salvage a part together with its relationships; both must be intact
+function salvagePartWithRels(
+  buffer: Uint8Array,
+  partName: string
+): { data: Uint8Array; rels: PackageRelationship[] | null } | null {
+  const part = salvagePart(buffer, partName);
+  if (!part?.complete) return null;
+  return { data: part.data, rels: readPartRelationships(buffer, partName) };
+}
+
+function readPartRelationships(buffer: Uint8Array, partName: string): PackageRelationship[] | null {
+  const rels = salvagePart(buffer, relsPathFor(partName));
+  return rels?.complete ? parseRelationships(new TextDecoder().decode(rels.data)) : null;
+}
+
+// Close a truncated slide after its last complete shape; null when not even
+// the slide element survived.
+async function recoverTruncatedSlide(
+  buffer: Uint8Array,
+  partName: string
+): Promise<{ data: Uint8Array; rels: PackageRelationship[] | null } | null> {
+  try {
+    const { xml } = await recoverPartXML(buffer, partName);
+    if (!/<\/(?:[\w.-]+:)?sld>$/.test(xml)) return null;
+    return { data: new TextEncoder().encode(xml), rels: readPartRelationships(buffer, partName) };
+  } catch (e) {
+    console.log(`Could not recover ${partName}: ${e.message}`);
+    return null;
+  }
+}
+
+// Keep each surviving slide master together with the layouts that survived
+// alongside it, dropping references to lost layouts from the master itself.
+function recoverSlideMasters(
+  buffer: Uint8Array,
+  masterNames: string[],
+  parts: Map<string, Uint8Array>,
+  log: RepairLog
+): RecoveredMaster[] {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const masters: RecoveredMaster[] = [];
+
+  for (const partName of masterNames) {
+    const master = salvagePartWithRels(buffer, partName);
+    if (!master?.rels) {
+      logIssue(log, `Dropped damaged slide master ${partName}`, partName);
+      continue;
+    }
+
+    const layouts: string[] = [];
+    const keptRels = master.rels.filter(rel => {
+      if (!rel.type.endsWith('/slideLayout')) return true;
+      const layoutName = resolvePartTarget(partName, rel.target);
+      const layout = salvagePartWithRels(buffer, layoutName);
+      if (!layout) {
+        logIssue(log, `Dropped damaged slide layout ${layoutName}`, layoutName);
+        return false;
+      }
+      const layoutRels = (layout.rels || []).filter(layoutRel => !layoutRel.type.endsWith('/slideMaster'));
+      layoutRels.push({
+        id: 'rIdMaster',
+        type: `${RELATIONSHIP_NS}/slideMaster`,
+        target: `../slideMasters/${partName.split('/').pop()}`,
+        external: false,
+      });
+      parts.set(layoutName, layout.data);
+      parts.set(relsPathFor(layoutName), encoder.encode(buildRelationshipsXml(layoutRels)));
+      layouts.push(layoutName);
+      return true;
+    });
+
+    if (layouts.length === 0) {
+      logIssue(log, `Dropped slide master ${partName}: none of its layouts survived`, partName);
+      continue;
+    }
+
+    // The layout ids of the dropped layouts go with the other references to lost parts
+    parts.set(partName, master.data);
+    parts.set(relsPathFor(partName), encoder.encode(buildRelationshipsXml(keptRels)));
+    masters.push({ partName, layouts });
+  }
+
+  return masters;
+}
+
+// Add the generated blank master, layout and theme to the package
+export function addFallbackSlideMaster(parts: Map<string, Uint8Array>): RecoveredMaster {
+  const encoder = new TextEncoder();
+  parts.set('ppt/slideMasters/slideMaster1.xml', encoder.encode(FALLBACK_SLIDE_MASTER));
+  parts.set('ppt/slideMasters/_rels/slideMaster1.xml.rels', encoder.encode(buildRelationshipsXml([
+    { id: 'rId1', type: `${RELATIONSHIP_NS}/slideLayout`, target: '../slideLayouts/slideLayout1.xml', external: false },
+    { id: 'rId2', type: `${RELATIONSHIP_NS}/theme`, target: '../theme/theme1.xml', external: false },
+  ])));
+  parts.set('ppt/slideLayouts/slideLayout1.xml', encoder.encode(FALLBACK_SLIDE_LAYOUT));
+  parts.set('ppt/slideLayouts/_rels/slideLayout1.xml.rels', encoder.encode(buildRelationshipsXml([
+    { id: 'rId1', type: `${RELATIONSHIP_NS}/slideMaster`, target: '../slideMasters/slideMaster1.xml', external: false },
+  ])));
+  parts.set('ppt/theme/theme1.xml', encoder.encode(FALLBACK_THEME));
+  return { partName: 'ppt/slideMasters/slideMaster1.xml', layouts: ['ppt/slideLayouts/slideLayout1.xml'] };
+}
+
+export function buildPresentationXml(
+  original: string | null,
+  masters: Array<{ id: string; rId: string }>,
+  slides: Array<{ id: string; rId: string }>,
+  supportRelIds: Map<string, string>,
+  slidesDropped: boolean
+): string {
+  const masterList = `<p:sldMasterIdLst>${masters.map(m => `<p:sldMasterId id="${m.id}" r:id="${m.rId}"/>`).join('')}</p:sldMasterIdLst>`;
+  const slideList = `<p:sldIdLst>${slides.map(s => `<p:sldId id="${s.id}" r:id="${s.rId}"/>`).join('')}</p:sldIdLst>`;
+
+  if (!original) {
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<p:presentation ${PRESENTATIONML_NS}>${masterList}${slideList}<p:sldSz cx="12192000" cy="6858000"/><p:notesSz cx="6858000" cy="9144000"/></p:presentation>`;
+  }
+
+  // Re-point (or drop) every other list that references presentation relationships
+  const remap = (xml: string, listTag: string, itemTag: string) =>
+    xml.replace(new RegExp(`<p:${listTag}>[\\s\\S]*?</p:${listTag}>`), list => {
+      const items = [...list.matchAll(new RegExp(`<p:${itemTag}\\b([^>]*?)\\/>`, 'g'))]
+        .map(([item, attrs]) => {
+          const newId = supportRelIds.get(getXmlAttribute(attrs, 'r:id') || '');
+          return newId ? item.replace(/r:id="[^"]*"/, `r:id="${newId}"`) : '';
+        })
+        .join('');
+      return items ? `<p:${listTag}>${items}</p:${listTag}>` : '';
+    });
+
+  let xml = original
+    .replace(/<p:sldMasterIdLst>[\s\S]*?<\/p:sldMasterIdLst>/, masterList)
+    .replace(/<p:sldIdLst>[\s\S]*?<\/p:sldIdLst>|<p:sldIdLst\s*\/>/, '');
+  xml = remap(xml, 'notesMasterIdLst', 'notesMasterId');
+  xml = remap(xml, 'handoutMasterIdLst', 'handoutMasterId');
+  xml = xml.replace(/<p:embeddedFontLst>[\s\S]*?<\/p:embeddedFontLst>/, fonts =>
+    [...fonts.matchAll(/r:id="([^"]*)"/g)].every(m => supportRelIds.has(m[1])) ? fonts : ''
+  );
+  if (slidesDropped) {
+    // Custom shows and sections reference slides that no longer exist
+    xml = xml
+      .replace(/<p:custShowLst>[\s\S]*?<\/p:custShowLst>/, '')
+      .replace(/<p:extLst>[\s\S]*?<\/p:extLst>(?=\s*<\/p:presentation>)/, '');
+  }
+
+  const insertAt = xml.search(/<p:sldSz\b/);
+  return insertAt === -1
+    ? xml.replace(/<\/p:presentation>/, `${slideList}<p:sldSz cx="12192000" cy="6858000"/><p:notesSz cx="6858000" cy="9144000"/></p:presentation>`)
+    : xml.slice(0, insertAt) + slideList + xml.slice(insertAt);
+}
+
+// Rebuild a PPTX from the slides that inflate cleanly, regenerating
+// presentation.xml and its relationships for only the surviving slides.
+export async function rebuildPptxPackage(data: Uint8Array, progress: ProgressReporter = ignoreProgress): Promise<RebuiltPackage | null> {
+  progress('inflating');
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const log = createRepairLog();
+  const parts = new Map<string, Uint8Array>();
+  const presentationPart = MAIN_PARTS.pptx;
+
+  let presentationXml: string | null = null;
+  let presentationTruncated = true;
+  try {
+    const presentation = await recoverPartXML(data, presentationPart);
+    presentationXml = presentation.xml;
+    presentationTruncated = presentation.truncated;
+    if (presentationTruncated) logIssue(log, `${presentationPart} was truncated; regenerated it from the surviving slides`, presentationPart);
+  } catch (e) {
+    logRegenerated(log, `Regenerated missing ${presentationPart}: ${e.message}`, presentationPart);
+  }
+
+  const presentationRels = salvagePart(data, relsPathFor(presentationPart));
+  const originalRels = presentationRels?.complete ? parseRelationships(decoder.decode(presentationRels.data)) : [];
+  const relsById = new Map(originalRels.map(rel => [rel.id, rel]));
+
+  // Slides referenced by the presentation, in show order
+  const referenced: Array<{ id: string | null; partName: string }> = [];
+  for (const match of (presentationXml || '').matchAll(/<p:sldId\b([^>]*?)\/?>/g)) {
+    const rel = relsById.get(getXmlAttribute(match[1], 'r:id') || '');
+    const partName = rel
+      ? resolvePartTarget(presentationPart, rel.target)
+      : `ppt/slides/slide${referenced.length + 1}.xml`;
+    referenced.push({ id: getXmlAttribute(match[1], 'id'), partName });
+  }
+  if (presentationTruncated || referenced.length === 0) {
+    // The slide list may be incomplete: walk every slide local header as well
+    for (const partName of findLocalHeaderNames(data, /^ppt\/slides\/slide\d+\.xml$/)) {
+      if (!referenced.some(slide => slide.partName === partName)) referenced.push({ id: null, partName });
+    }
+  }
+
+  // Slide masters and their layouts
+  let masterNames = originalRels
+    .filter(rel => rel.type.endsWith('/slideMaster'))
+    .map(rel => resolvePartTarget(presentationPart, rel.target));
+  if (masterNames.length === 0) {
+    masterNames = findLocalHeaderNames(data, /^ppt\/slideMasters\/slideMaster\d+\.xml$/);
+  }
+  const masters = recoverSlideMasters(data, masterNames, parts, log);
+  if (masters.length === 0) {
+    masters.push(addFallbackSlideMaster(parts));
+    logRegenerated(log, 'No slide master survived; slides use a generated blank layout', 'ppt/slideMasters/slideMaster1.xml');
+  }
+  const survivingLayouts = new Set(masters.flatMap(master => master.layouts));
+  const defaultLayout = masters[0].layouts[0];
+
+  // Surviving slides, closed after their last complete shape if truncated
+  // and re-pointed at a surviving layout if needed
+  const recovered: Array<{ id: string | null; partName: string }> = [];
+  const slideTexts: string[] = [];
+  let truncatedSlides = 0;
+  for (const [position, slide] of referenced.entries()) {
+    progress('inflating', position / referenced.length);
+    let salvaged = salvagePartWithRels(data, slide.partName);
+    if (!salvaged) {
+      const exists = findZipEntry(data, slide.partName) !== null;
+      salvaged = exists ? await recoverTruncatedSlide(data, slide.partName) : null;
+      if (!salvaged) {
+        logIssue(log, `Dropped ${exists ? 'damaged' : 'missing'} slide ${slide.partName}`, slide.partName);
+        continue;
+      }
+      logIssue(log, `Slide ${slide.partName} was truncated; kept the shapes before the damaged point`, slide.partName);
+      truncatedSlides++;
+    }
+    if (!salvaged.rels) logRegenerated(log, `Relationships of ${slide.partName} were lost; images and links on it may be missing`, relsPathFor(slide.partName));
+
+    const rels = salvaged.rels || [];
+    const layoutRel = rels.find(rel => rel.type.endsWith('/slideLayout'));
+    if (!layoutRel || !survivingLayouts.has(resolvePartTarget(slide.partName, layoutRel.target))) {
+      const target = `../slideLayouts/${defaultLayout.split('/').pop()}`;
+      if (layoutRel) layoutRel.target = target;
+      else rels.push({ id: 'rIdLayout', type: `${RELATIONSHIP_NS}/slideLayout`, target, external: false });
+    }
+
+    parts.set(slide.partName, salvaged.data);
+    parts.set(relsPathFor(slide.partName), encoder.encode(buildRelationshipsXml(rels)));
+    recovered.push(slide);
+    slideTexts.push(extractTextFromPowerPointXml(decoder.decode(salvaged.data)));
+  }
+
+  if (recovered.length === 0) {
+    console.log('No slides could be recovered');
+    return null;
+  }
+  log.issues.unshift(`Recovered ${recovered.length} of ${referenced.length} referenced slides`);
+
+  // Presentation relationships for only the surviving parts
+  const newRels: PackageRelationship[] = [];
+  const supportRelIds = new Map<string, string>();
+  for (const rel of originalRels) {
+    if (!PRESENTATION_SUPPORT_RELATIONSHIPS.some(type => rel.type.endsWith(`/${type}`))) continue;
+    const target = resolvePartTarget(presentationPart, rel.target);
+    if (!parts.has(target)) {
+      const part = salvagePart(data, target);
+      if (!part?.complete) {
+        logIssue(log, `Dropped ${part ? 'truncated' : 'missing'} part ${target}`, target);
+        continue;
+      }
+      parts.set(target, part.data);
+    }
+    supportRelIds.set(rel.id, rel.id);
+    newRels.push(rel);
+  }
+
+  const originalMasterIds = new Map<string, string>();
+  for (const match of (presentationXml || '').matchAll(/<p:sldMasterId\b([^>]*?)\/?>/g)) {
+    const rel = relsById.get(getXmlAttribute(match[1], 'r:id') || '');
+    const id = getXmlAttribute(match[1], 'id');
+    if (rel && id) originalMasterIds.set(resolvePartTarget(presentationPart, rel.target), id);
+  }
+  // Master ids share a number space with layout ids, so new ones go above both
+  let nextMasterId = Math.max(
+    2147483647,
+    ...[...parts.entries()]
+      .filter(([name]) => /^ppt\/slideMasters\/[^/]+\.xml$/.test(name))
+      .flatMap(([, xml]) => [...decoder.decode(xml).matchAll(/<p:sldLayoutId\b[^>]*?\bid="(\d+)"/g)].map(m => Number(m[1]))),
+    ...[...originalMasterIds.values()].map(Number)
+  ) + 1;
+  const masterEntries = masters.map((master, index) => {
+    const rId = `rIdMaster${index + 1}`;
+    newRels.push({ id: rId, type: `${RELATIONSHIP_NS}/slideMaster`, target: master.partName.slice('ppt/'.length), external: false });
+    return { id: originalMasterIds.get(master.partName) || String(nextMasterId++), rId };
+  });
+
+  let nextSlideId = Math.max(255, ...recovered.map(slide => Number(slide.id) || 0)) + 1;
+  const slideEntries = recovered.map((slide, index) => {
+    const rId = `rIdSlide${index + 1}`;
+    newRels.push({ id: rId, type: `${RELATIONSHIP_NS}/slide`, target: slide.partName.slice('ppt/'.length), external: false });
+    return { id: slide.id || String(nextSlideId++), rId };
+  });
+
+  parts.set(presentationPart, encoder.encode(buildPresentationXml(
+    presentationTruncated ? null : presentationXml,
+    masterEntries,
+    slideEntries,
+    supportRelIds,
+    recovered.length < referenced.length
+  )));
+  parts.set(relsPathFor(presentationPart), encoder.encode(buildRelationshipsXml(newRels)));
+  collectPackageParts(data, 'pptx', parts, log, progress);
+
+  const packageData = await writePackage(data, parts, log, progress);
+  console.log(`Rebuilt PPTX with ${recovered.length} of ${referenced.length} slides (${packageData.length} bytes)`);
+
+  return {
+    data: packageData,
+    parts,
+    ...log,
+    preview: {
+      content: slideTexts.join('\n'),
+      extractedSlides: recovered.length,
+      referencedSlides: referenced.length,
+    },
+    mainPartTruncated: recovered.length < referenced.length || truncatedSlides > 0,
+  };
+}
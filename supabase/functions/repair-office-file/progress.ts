@@ -0,0 +1,35 @@
+// Stage progress for asynchronous repair jobs.
+//
+// A repair runs through the same stages whatever the format: the file's
+// headers are scanned, its parts are inflated, their XML is rebuilt, and the
+// result is packaged and stored. Each stage owns a slice of the overall
+// percentage, so the pipeline reports how far it is through the current
+// stage and the job row shows a bar that only moves forwards.
+
+export type RepairStage = 'queued' | 'scanning' | 'inflating' | 'rebuilding' | 'packaging' | 'storing' | 'done';
+
+// Report that the repair has reached `stage`, `fraction` of the way through it
+export type ProgressReporter = (stage: RepairStage, fraction?: number) => void;
+
+// Start of each stage's slice of the overall percentage
+const STAGE_START: Record<RepairStage, number> = {
+  queued: 0,
+  scanning: 5,
+  inflating: 15,
+  rebuilding: 60,
+  packaging: 80,
+  storing: 90,
+  done: 100,
+};
+
+const STAGE_ORDER: RepairStage[] = ['queued', 'scanning', 'inflating', 'rebuilding', 'packaging', 'storing', 'done'];
+
+export const ignoreProgress: ProgressReporter = () => {};
+
+// Overall percentage for a point within a stage
+export function stagePercent(stage: RepairStage, fraction = 0): number {
+  const next = STAGE_ORDER[STAGE_ORDER.indexOf(stage) + 1];
+  const end = next ? STAGE_START[next] : 100;
+  const clamped = Math.min(1, Math.max(0, fraction));
+  return Math.round(STAGE_START[stage] + (end - STAGE_START[stage]) * clamped);
+}
@@ -0,0 +1,67 @@
+import { deflateRawSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { inflateRaw, UNKNOWN_BYTE } from "./raw-inflate.ts";
+
+const WORDS = 'the quarterly report covers sales growth across every region with notes on staffing budgets and the outlook for next year'.split(' ');
+
+// Prose of the given length, deflated in many small blocks as zlib does with
+// little memory
+function deflatedProse(words: number): { original: Uint8Array; deflated: Uint8Array } {
+  let state = 5;
+  const text = Array.from({ length: words }, () => {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    return WORDS[state % WORDS.length];
+  }).join(' ');
+  const original = new TextEncoder().encode(text);
+  return { original, deflated: new Uint8Array(deflateRawSync(original, { memLevel: 3 })) };
+}
+
+function startsWith(data: Uint8Array, prefix: Uint8Array): boolean {
+  return prefix.every((byte, i) => data[i] === byte);
+}
+
+describe('inflateRaw', () => {
+  it('inflates a whole stream in one segment', () => {
+    const { original, deflated } = deflatedProse(20000);
+    const { segments, complete } = inflateRaw(deflated);
+
+    expect(complete).toBe(true);
+    expect(segments).toHaveLength(1);
+    expect(segments[0].bytes).toEqual(original);
+    expect(segments[0].blocks.length).toBeGreaterThan(10);
+  });
+
+  it('keeps the output before the point a stream was cut off', () => {
+    const { original, deflated } = deflatedProse(20000);
+    const { segments, complete } = inflateRaw(deflated.slice(0, deflated.length >> 1));
+
+    expect(complete).toBe(false);
+    expect(segments[0].bytes.length).toBeGreaterThan(original.length * 0.4);
+    expect(startsWith(original, segments[0].bytes)).toBe(true);
+  });
+
+  it('resumes at the next block after a damaged one', () => {
+    const { original, deflated } = deflatedProse(20000);
+    const damaged = deflated.slice();
+    // The first block's Huffman tables
+    for (let i = 1; i < 12; i++) damaged[i] ^= 0xff;
+    const { segments, complete } = inflateRaw(damaged);
+    const resumed = segments[segments.length - 1];
+    const tail = original.subarray(original.length - resumed.bytes.length);
+
+    expect(complete).toBe(false);
+    expect(segments).toHaveLength(2);
+    expect(resumed.unknownBytes).toBeGreaterThan(0);
+    // Only the first block is lost, and every byte the resumed run knows is right
+    expect(resumed.bytes.length).toBeGreaterThan(original.length * 0.9);
+    expect(resumed.bytes.every((byte, i) => byte === UNKNOWN_BYTE || byte === tail[i])).toBe(true);
+  });
+
+  it('stops at the damage when asked not to resume', () => {
+    const { deflated } = deflatedProse(20000);
+    const damaged = deflated.slice();
+    for (let i = 1; i < 12; i++) damaged[i] ^= 0xff;
+
+    expect(inflateRaw(damaged, { resync: false }).segments).toHaveLength(1);
+  });
+});
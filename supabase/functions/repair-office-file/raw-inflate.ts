@@ -0,0 +1,381 @@
+// Resumable raw-deflate (RFC 1951) decoder.
+//
+// A one-shot inflate throws on the first bad byte and loses everything it had
+// decoded. This decoder keeps all output produced before a failure, then
+// searches later bit positions for a block header that decodes cleanly and
+// carries on from there. Each run of output is returned as its own segment so
+// callers can see where the gaps are.
+
+// Written in place of bytes that a resumed segment copies from history lost
+// in the preceding gap
+export const UNKNOWN_BYTE = 0x00;
+
+const MAX_BITS = 15;
+const MAX_LITERAL_CODES = 286;
+const MAX_DISTANCE_CODES = 30;
+const FIXED_LITERAL_CODES = 288;
+const END_OF_BLOCK = 256;
+// zlib only emits fixed-Huffman blocks for short runs, so a resynchronised
+// stream is only allowed to start with one near the end of the input
+const FIXED_RESYNC_WINDOW_BITS = 4096 * 8;
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+export interface InflateBlock {
+  inputBitOffset: number;
+  // Offset of the block's first output byte within its segment
+  outputOffset: number;
+}
+
+export interface InflateSegment {
+  bytes: Uint8Array;
+  // Bit position in the compressed input where this run starts
+  inputBitOffset: number;
+  // Bytes copied from history lost in the preceding gap (see UNKNOWN_BYTE)
+  unknownBytes: number;
+  // Every block started in this run, including one that failed part-way
+  blocks: InflateBlock[];
+}
+
+export interface InflateResult {
+  segments: InflateSegment[];
+  // True only when the whole stream decoded to its final block without damage
+  complete: boolean;
+}
+
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+interface DecoderState {
+  data: Uint8Array;
+  bitPos: number;
+  out: Uint8Array;
+  outLength: number;
+  unknownBytes: number;
+  // A resumed segment has no history, so over-long distances are expected
+  allowMissingHistory: boolean;
+  blocks: InflateBlock[];
+}
+
+// Deliberately not an Error subclass: capturing a stack trace for every
+// rejected resync candidate would dominate the cost of the search.
+class InflateError {
+  constructor(readonly message: string, readonly truncated = false) {}
+}
+
+function readBit(state: DecoderState): number {
+  const byteIndex = state.bitPos >>> 3;
+  if (byteIndex >= state.data.length) throw new InflateError('unexpected end of data', true);
+  const bit = (state.data[byteIndex] >>> (state.bitPos & 7)) & 1;
+  state.bitPos++;
+  return bit;
+}
+
+function readBits(state: DecoderState, count: number): number {
+  let value = 0;
+  for (let i = 0; i < count; i++) value |= readBit(state) << i;
+  return value;
+}
+
+// Build a canonical Huffman table. Returns the number of unused codes:
+// 0 for a complete code, > 0 when incomplete, < 0 when over-subscribed.
+function buildHuffman(lengths: ArrayLike<number>, offset: number, count: number): { huffman: Huffman; left: number } {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (let i = 0; i < count; i++) counts[lengths[offset + i]]++;
+
+  let left = 1;
+  for (let len = 1; len <= MAX_BITS; len++) {
+    left = (left << 1) - counts[len];
+    if (left < 0) return { huffman: { counts, symbols: new Uint16Array(0) }, left };
+  }
+
+  const offsets = new Uint16Array(MAX_BITS + 1);
+  for (let len = 1; len < MAX_BITS; len++) offsets[len + 1] = offsets[len] + counts[len];
+  const symbols = new Uint16Array(count);
+  for (let i = 0; i < count; i++) {
+    if (lengths[offset + i] !== 0) symbols[offsets[lengths[offset + i]]++] = i;
+  }
+  return { huffman: { counts, symbols }, left };
+}
+
+function decodeSymbol(state: DecoderState, huffman: Huffman): number {
+  let code = 0;
+  let first = 0;
+  let index = 0;
+  for (let len = 1; len <= MAX_BITS; len++) {
+    code |= readBit(state);
+    const count = huffman.counts[len];
+    if (code - count < first) return huffman.symbols[index + (code - first)];
+    index += count;
+    first = (first + count) << 1;
+    code <<= 1;
+  }
+  throw new InflateError('invalid Huffman code');
+}
+
+let fixedTables: { literals: Huffman; distances: Huffman } | null = null;
+
+function getFixedTables(): { literals: Huffman; distances: Huffman } {
+  if (!fixedTables) {
+    const lengths = new Uint8Array(FIXED_LITERAL_CODES + MAX_DISTANCE_CODES);
+    lengths.fill(8, 0, 144);
+    lengths.fill(9, 144, 256);
+    lengths.fill(7, 256, 280);
+    lengths.fill(8, 280, FIXED_LITERAL_CODES);
+    lengths.fill(5, FIXED_LITERAL_CODES);
+    fixedTables = {
+      literals: buildHuffman(lengths, 0, FIXED_LITERAL_CODES).huffman,
+      distances: buildHuffman(lengths, FIXED_LITERAL_CODES, MAX_DISTANCE_CODES).huffman,
+    };
+  }
+  return fixedTables;
+}
+
+function readDynamicTables(state: DecoderState): { literals: Huffman; distances: Huffman } {
+  const literalCount = readBits(state, 5) + 257;
+  const distanceCount = readBits(state, 5) + 1;
+  const codeLengthCount = readBits(state, 4) + 4;
+  if (literalCount > MAX_LITERAL_CODES || distanceCount > MAX_DISTANCE_CODES) {
+    throw new InflateError('bad dynamic block counts');
+  }
+
+  const codeLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) codeLengths[CODE_LENGTH_ORDER[i]] = readBits(state, 3);
+  const codeLengthTable = buildHuffman(codeLengths, 0, 19);
+  if (codeLengthTable.left !== 0) throw new InflateError('incomplete code length code');
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  let index = 0;
+  while (index < lengths.length) {
+    const symbol = decodeSymbol(state, codeLengthTable.huffman);
+    if (symbol < 16) {
+      lengths[index++] = symbol;
+      continue;
+    }
+    let repeat: number;
+    let value = 0;
+    if (symbol === 16) {
+      if (index === 0) throw new InflateError('repeat with no previous length');
+      value = lengths[index - 1];
+      repeat = 3 + readBits(state, 2);
+    } else if (symbol === 17) {
+      repeat = 3 + readBits(state, 3);
+    } else {
+      repeat = 11 + readBits(state, 7);
+    }
+    if (index + repeat > lengths.length) throw new InflateError('too many code lengths');
+    lengths.fill(value, index, index + repeat);
+    index += repeat;
+  }
+  if (lengths[END_OF_BLOCK] === 0) throw new InflateError('missing end-of-block code');
+
+  // Incomplete codes are only allowed when they hold a single symbol
+  const literals = buildHuffman(lengths, 0, literalCount);
+  if (literals.left < 0 || (literals.left > 0 && literalCount - literals.huffman.counts[0] !== 1)) {
+    throw new InflateError('bad literal/length code');
+  }
+  const distances = buildHuffman(lengths, literalCount, distanceCount);
+  if (distances.left < 0 || (distances.left > 0 && distanceCount - distances.huffman.counts[0] !== 1)) {
+    throw new InflateError('bad distance code');
+  }
+  return { literals: literals.huffman, distances: distances.huffman };
+}
+
+function ensureCapacity(state: DecoderState, extra: number): void {
+  const needed = state.outLength + extra;
+  if (needed <= state.out.length) return;
+  let size = state.out.length * 2;
+  while (size < needed) size *= 2;
+  const grown = new Uint8Array(size);
+  grown.set(state.out.subarray(0, state.outLength));
+  state.out = grown;
+}
+
+function inflateStoredBlock(state: DecoderState): void {
+  state.bitPos = (state.bitPos + 7) & ~7;
+  const start = state.bitPos >>> 3;
+  if (start + 4 > state.data.length) throw new InflateError('unexpected end of data', true);
+  const length = state.data[start] | (state.data[start + 1] << 8);
+  const complement = state.data[start + 2] | (state.data[start + 3] << 8);
+  if (length !== (~complement & 0xffff)) throw new InflateError('stored block length mismatch');
+
+  // Keep whatever part of the block survived before reporting truncation
+  const available = Math.min(length, state.data.length - start - 4);
+  ensureCapacity(state, available);
+  state.out.set(state.data.subarray(start + 4, start + 4 + available), state.outLength);
+  state.outLength += available;
+  state.bitPos = (start + 4 + available) * 8;
+  if (available < length) throw new InflateError('unexpected end of data', true);
+}
+
+function inflateHuffmanBlock(state: DecoderState, literals: Huffman, distances: Huffman): void {
+  for (;;) {
+    let symbol = decodeSymbol(state, literals);
+    if (symbol < 256) {
+      ensureCapacity(state, 1);
+      state.out[state.outLength++] = symbol;
+      continue;
+    }
+    if (symbol === END_OF_BLOCK) return;
+
+    symbol -= 257;
+    if (symbol >= LENGTH_BASE.length) throw new InflateError('invalid length symbol');
+    const length = LENGTH_BASE[symbol] + readBits(state, LENGTH_EXTRA[symbol]);
+    const distanceSymbol = decodeSymbol(state, distances);
+    if (distanceSymbol >= DISTANCE_BASE.length) throw new InflateError('invalid distance symbol');
+    const distance = DISTANCE_BASE[distanceSymbol] + readBits(state, DISTANCE_EXTRA[distanceSymbol]);
+
+    if (distance > state.outLength && !state.allowMissingHistory) {
+      throw new InflateError('invalid distance too far back');
+    }
+    ensureCapacity(state, length);
+    for (let i = 0; i < length; i++) {
+      const from = state.outLength - distance;
+      if (from < 0) {
+        state.out[state.outLength++] = UNKNOWN_BYTE;
+        state.unknownBytes++;
+      } else {
+        state.out[state.outLength++] = state.out[from];
+      }
+    }
+  }
+}
+
+// Decode one block, returning its header fields
+function inflateBlock(state: DecoderState): { final: boolean; type: number } {
+  const final = readBit(state) === 1;
+  const type = readBits(state, 2);
+  if (type === 0) {
+    inflateStoredBlock(state);
+  } else if (type === 1) {
+    const fixed = getFixedTables();
+    inflateHuffmanBlock(state, fixed.literals, fixed.distances);
+  } else if (type === 2) {
+    const dynamic = readDynamicTables(state);
+    inflateHuffmanBlock(state, dynamic.literals, dynamic.distances);
+  } else {
+    throw new InflateError('invalid block type');
+  }
+  return { final, type };
+}
+
+function createState(data: Uint8Array, bitPos: number, allowMissingHistory: boolean, out: Uint8Array): DecoderState {
+  return {
+    data,
+    bitPos,
+    out,
+    outLength: 0,
+    unknownBytes: 0,
+    allowMissingHistory,
+    blocks: [],
+  };
+}
+
+interface RunOutcome {
+  // Bit position of the block that failed, or null when the stream finished
+  failedBlockStart: number | null;
+  truncated: boolean;
+  // Complete stored or dynamic blocks. Fixed-Huffman blocks have no header
+  // that could fail a check, so they are no evidence of a real boundary.
+  verifiedBlocks: number;
+}
+
+function runBlocks(state: DecoderState): RunOutcome {
+  let verifiedBlocks = 0;
+  for (;;) {
+    const blockStart = state.bitPos;
+    state.blocks.push({ inputBitOffset: blockStart, outputOffset: state.outLength });
+    try {
+      const block = inflateBlock(state);
+      if (block.type !== 1) verifiedBlocks++;
+      if (block.final) return { failedBlockStart: null, truncated: false, verifiedBlocks };
+    } catch (error) {
+      if (!(error instanceof InflateError)) throw error;
+      return { failedBlockStart: blockStart, truncated: error.truncated, verifiedBlocks };
+    }
+  }
+}
+
+// A final block has to end where the input ends; the trailing bits up to the
+// byte boundary are padding.
+function endsAtInputEnd(state: DecoderState): boolean {
+  return state.data.length - ((state.bitPos + 7) >>> 3) === 0;
+}
+
+// Look for the next bit position that starts a believable run of blocks.
+// Random bits pass a single block header check often enough that a candidate
+// must also finish the stream, decode a second verified block, or run cleanly
+// into the end of the input.
+function resynchronise(
+  data: Uint8Array,
+  fromBit: number
+): { startBit: number; state: DecoderState; outcome: RunOutcome } | null {
+  const totalBits = data.length * 8;
+  // Most candidates fail within a few symbols, so they share one output buffer
+  let scratch = new Uint8Array(1024);
+  for (let bit = fromBit; bit < totalBits - 3; bit++) {
+    const type = (((data[(bit + 1) >>> 3] >>> ((bit + 1) & 7)) & 1) | (((data[(bit + 2) >>> 3] >>> ((bit + 2) & 7)) & 1) << 1));
+    if (type === 3) continue;
+    if (type === 1 && totalBits - bit > FIXED_RESYNC_WINDOW_BITS) continue;
+    if (type === 0) {
+      const start = ((bit + 3 + 7) & ~7) >>> 3;
+      if (start + 4 > data.length) continue;
+      if ((data[start] ^ data[start + 2]) !== 0xff || (data[start + 1] ^ data[start + 3]) !== 0xff) continue;
+    }
+
+    const state = createState(data, bit, true, scratch);
+    const outcome = runBlocks(state);
+    const finishedCleanly = outcome.failedBlockStart === null && endsAtInputEnd(state);
+    if (
+      finishedCleanly ||
+      (outcome.failedBlockStart !== null && outcome.verifiedBlocks >= 2) ||
+      (outcome.truncated && outcome.verifiedBlocks >= 1)
+    ) {
+      return { startBit: bit, state, outcome };
+    }
+    scratch = state.out;
+  }
+  return null;
+}
+
+function toSegment(state: DecoderState, inputBitOffset: number): InflateSegment {
+  return {
+    bytes: state.out.slice(0, state.outLength),
+    inputBitOffset,
+    unknownBytes: state.unknownBytes,
+    blocks: state.blocks,
+  };
+}
+
+// Inflate a raw deflate stream, salvaging output on both sides of any damage.
+// With `resync` disabled decoding stops at the first error. `fromBit` starts
+// at a known block boundary with no history, e.g. to step past damage the
+// decoder itself could not detect.
+export function inflateRaw(data: Uint8Array, options: { resync?: boolean; fromBit?: number } = {}): InflateResult {
+  const resync = options.resync ?? true;
+  const fromBit = options.fromBit ?? 0;
+  const segments: InflateSegment[] = [];
+
+  let state = createState(data, fromBit, fromBit > 0, new Uint8Array(Math.max(1024, data.length * 4)));
+  let outcome = runBlocks(state);
+  segments.push(toSegment(state, fromBit));
+
+  while (outcome.failedBlockStart !== null && !outcome.truncated && resync) {
+    const resumed = resynchronise(data, outcome.failedBlockStart + 1);
+    if (!resumed) break;
+    state = resumed.state;
+    outcome = resumed.outcome;
+    segments.push(toSegment(state, resumed.startBit));
+  }
+
+  return {
+    segments,
+    complete: segments.length === 1 && outcome.failedBlockStart === null,
+  };
+}
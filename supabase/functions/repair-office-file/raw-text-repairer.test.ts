@@ -0,0 +1,26 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { repairDocument } from "./repair-core.ts";
+import { buildTestNoise, testRepairInput } from "./test-packages.ts";
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('rawTextRepairer', () => {
+  it('does not pass off noise carved from random bytes as recovered text', async () => {
+    const { result, output } = await repairDocument(testRepairInput('report.docx', buildTestNoise(1024 * 1024, 3)));
+
+    expect(result).toMatchObject({ success: false, status: 'failed', errorCode: 'no_recoverable_content' });
+    expect(output).toBeNull();
+  });
+
+  it('recovers text that stands out from the bytes around it', async () => {
+    const text = 'The quarterly report covers sales growth across every region, with notes on staffing. '.repeat(40);
+    const noise = buildTestNoise(128 * 1024, 4);
+    const bytes = new Uint8Array([...noise, 0, ...new TextEncoder().encode(text), 0, ...noise]);
+    const { result } = await repairDocument(testRepairInput('report.docx', bytes));
+
+    expect(result).toMatchObject({ success: true, status: 'success' });
+    expect(result.preview?.content).toContain('The quarterly report covers sales growth');
+  });
+});
@@ -0,0 +1,47 @@
+// The fallback repairer for files no other repairer could handle.
+
+import { buildMediaGallery } from "./package-media.ts";
+import { extractActualTextFromData } from "./text-extract.ts";
+import { MAX_CARVED_BYTES } from "./text-carving.ts";
+import { failedOutcome, textOutcome } from "./repair-outcome.ts";
+import type { Repairer } from "./repairers.ts";
+
+// Random bytes carve to a hundred or so characters of noise per megabyte, so
+// what is carved must stand out from that in proportion to how much was carved
+const MIN_CARVED_CHARS = 50;
+const MIN_CARVED_CHARS_PER_KB = 1;
+
+// Anything else, and whatever the other repairers gave up on: carve readable
+// text out of the raw bytes
+export const rawTextRepairer: Repairer = {
+  name: 'raw-text',
+  fallback: true,
+  detect: () => true,
+  diagnose: ({ fileType }) => fileType === 'unknown' ? ['The content does not match any supported format'] : [],
+  repair: async context => {
+    console.log('Attempting raw content extraction...');
+    context.progress('rebuilding');
+    const text = await extractActualTextFromData(context.data);
+    const carvedKb = Math.min(context.data.length, MAX_CARVED_BYTES) / 1024;
+    if (text.length > Math.max(MIN_CARVED_CHARS, carvedKb * MIN_CARVED_CHARS_PER_KB)) {
+      console.log(`Raw extraction recovered ${text.length} characters`);
+      return textOutcome(context, text, 'raw_extraction');
+    }
+
+    // If we couldn't recover anything, be honest about it
+    console.log('File repair failed - no recoverable content found');
+    if (context.fileType === 'unknown') {
+      return failedOutcome(context, 'unsupported_format', [
+        'The file is not a Word, Excel, PowerPoint, OpenDocument, PDF or ZIP file',
+        'No readable text found in file data',
+      ]);
+    }
+    return failedOutcome(
+      context,
+      'no_recoverable_content',
+      ['File is too corrupted to recover any content', 'No readable text found in file data'],
+      buildMediaGallery(context.data, context.fileType, null)
+    );
+  },
+  extractPreview: async ({ data }) => extractActualTextFromData(data),
+};
@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { repairDocument } from "./repair-core.ts";
+import { registerRepairer } from "./repairers.ts";
+import { buildTestNoise, testRepairInput } from "./test-packages.ts";
+
+registerRepairer({
+  name: 'failing',
+  detect: fileType => fileType === 'unknown',
+  diagnose: () => [],
+  repair: () => Promise.reject(new Error('Broken on purpose')),
+  extractPreview: () => Promise.resolve(''),
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('repairDocument', () => {
+  it('reports a failed repairer through the log it is given rather than the console', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const log = { info: vi.fn(), error: vi.fn() };
+
+    const { result } = await repairDocument({ ...testRepairInput('notes.bin', buildTestNoise(4096, 5)), log });
+
+    expect(result.status).toBe('failed');
+    expect(log.error).toHaveBeenCalledWith('The failing repairer failed:', expect.objectContaining({ message: 'Broken on purpose' }));
+    expect(log.info).toHaveBeenCalledWith('Detected file type: unknown');
+    expect(consoleError).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,82 @@
+// The repair pipeline: file type detection and dispatch to the repairers.
+//
+// It works on bytes in memory and makes no network requests, so the same
+// module runs in the edge function and in a browser Web Worker for repairs
+// that must not leave the machine. Delivering the output, whether inline, to
+// storage or back to the page, is left to the caller.
+
+import { detectFileType } from "./file-type.ts";
+import { ignoreProgress, type ProgressReporter } from "./progress.ts";
+import { RepairError } from "./errors.ts";
+import { consoleLog } from "./repair-log.ts";
+import { getZipManifest } from "./package-parts.ts";
+import { failedOutcome, previewText, type RepairInput, type RepairOutcome } from "./repair-outcome.ts";
+import { wordRepairer } from "./word-repairer.ts";
+import { officePackageRepairer } from "./office-package-repairer.ts";
+import { zipRepairer } from "./zip-repairer.ts";
+import { pdfRepairer } from "./pdf-repairer.ts";
+import { legacyOfficeRepairer } from "./legacy-office-repairer.ts";
+import { rawTextRepairer } from "./raw-text-repairer.ts";
+import { findRepairers, registerRepairer, type RepairContext } from "./repairers.ts";
+
+export type { RepairInput, RepairOutcome } from "./repair-outcome.ts";
+
+registerRepairer(wordRepairer);
+registerRepairer(officePackageRepairer);
+registerRepairer(zipRepairer);
+registerRepairer(pdfRepairer);
+registerRepairer(legacyOfficeRepairer);
+registerRepairer(rawTextRepairer);
+
+// Repair a file, reporting each stage as it is reached. The type is read
+// from the content, then each registered repairer that takes it is tried in
+// turn until one answers. A repairer that throws leaves the file to the
+// next, so the raw text fallback still gets its turn.
+export async function repairDocument(input: RepairInput, progress: ProgressReporter = ignoreProgress): Promise<RepairOutcome> {
+  const { file, data, log = consoleLog } = input;
+
+  log.info(`File received: ${file.name}, size: ${file.size}`);
+  
+  log.info(`File data length: ${data.length}`);
+  log.info(`First 50 bytes: ${Array.from(data.slice(0, 50)).map(b => b.toString(16).padStart(2, '0')).join(' ')}`);
+
+  // Determine file type and extract real content
+  progress('scanning');
+  const fileType = detectFileType(data, file.type, file.name, () =>
+    getZipManifest(data).entries.map(entry => entry.name)
+  );
+  log.info(`Detected file type: ${fileType}`);
+
+  const context: RepairContext = { ...input, fileType, progress };
+  // Repairers that give up may still have found damage worth reporting
+  const diagnosis: string[] = [];
+  let lastError: Error | null = null;
+  for (const repairer of findRepairers(fileType, data)) {
+    try {
+      const findings = repairer.diagnose(context);
+      log.info(`Trying the ${repairer.name} repairer`, findings);
+      diagnosis.push(...findings.filter(finding => !diagnosis.includes(finding)));
+
+      const repaired = await repairer.repair(context);
+      if (!repaired) continue;
+      if (diagnosis.length > 0) repaired.result.diagnosis = diagnosis;
+      if (repaired.result.success && !repaired.result.preview?.content) {
+        const preview = await repairer.extractPreview(context);
+        if (preview) repaired.result.preview = { ...repaired.result.preview, content: previewText(preview) };
+      }
+      return repaired;
+    } catch (error) {
+      log.error(`The ${repairer.name} repairer failed:`, error);
+      lastError = error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  if (lastError) {
+    return failedOutcome(
+      context,
+      lastError instanceof RepairError ? lastError.code : 'internal_error',
+      [`Repair failed: ${lastError.message}`]
+    );
+  }
+  return failedOutcome(context, 'unsupported_format', ['No repairer could handle this file']);
+}
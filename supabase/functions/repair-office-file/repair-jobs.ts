@@ -0,0 +1,112 @@
+// The repair_jobs history table and the daily quota.
+//
+// Every repair opens a job row for the signed-in user before it starts,
+// through a database function that counts it against the user's quota for
+// the day and refuses it once either limit is reached. The row carries the
+// current stage and percentage while the repair runs, then the finished
+// result, which the browser polls for and the history lists later.
+// Updates after the start are best effort: a repair is never failed because
+// its row could not be written.
+
+import { RepairError } from "./errors.ts";
+import { stagePercent, type ProgressReporter, type RepairStage } from "./progress.ts";
+
+export interface RepairJob {
+  original_name: string;
+  original_size: number;
+  detected_type: string;
+  status: 'success' | 'partial' | 'failed';
+  output_name: string | null;
+  output_type: string | null;
+  issues: string[];
+  report: unknown;
+  source_path: string | null;
+  output_path: string | null;
+  // The result as returned to the browser, kept for background repairs
+  result: unknown;
+}
+
+// A repair's job row, with a reporter that writes the current stage to it.
+// Writes are chained so they land in order and the result cannot be
+// overtaken by a late progress update.
+export interface RepairJobTracker {
+  id: string;
+  report: ProgressReporter;
+  complete: (job: RepairJob) => Promise<void>;
+}
+
+// Daily limits per user, overridable through the function's secrets
+const DAILY_REPAIRS = Number(Deno.env.get('REPAIR_DAILY_LIMIT')) || 50;
+const DAILY_BYTES = Number(Deno.env.get('REPAIR_DAILY_BYTES')) || 1024 * 1024 * 1024;
+// Progress writes closer together than this are dropped, except for the
+// first write of each stage
+const MIN_PROGRESS_STEP = 5;
+
+async function restRequest(method: string, path: string, body: unknown): Promise<Response> {
+  const url = Deno.env.get('SUPABASE_URL');
+  const key = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!url || !key) throw new Error('The database is not configured for this function');
+  return await fetch(`${url}/rest/v1/${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${key}`,
+      apikey: key,
+      'Content-Type': 'application/json',
+      Prefer: 'return=minimal',
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+async function updateJob(id: string, changes: Record<string, unknown>): Promise<void> {
+  try {
+    const response = await restRequest('PATCH', `repair_jobs?id=eq.${encodeURIComponent(id)}`, changes);
+    if (!response.ok) console.log(`Updating repair job failed with status ${response.status}: ${await response.text()}`);
+  } catch (e) {
+    console.log('Updating repair job failed:', e.message);
+  }
+}
+
+// Count a repair against the user's quota and open its job row. Without the
+// row the quota cannot be enforced, so a failure to open one refuses the
+// repair.
+export async function startRepairJob(
+  userId: string,
+  originalName: string,
+  originalSize: number,
+  sourcePath: string | null
+): Promise<RepairJobTracker> {
+  const response = await restRequest('POST', 'rpc/start_repair_job', {
+    _user_id: userId,
+    _original_name: originalName,
+    _original_size: originalSize,
+    _source_path: sourcePath,
+    _max_repairs: DAILY_REPAIRS,
+    _max_bytes: DAILY_BYTES,
+  });
+  if (response.status === 429) throw new RepairError('quota_exceeded', (await response.json()).message);
+  if (!response.ok) {
+    console.log(`Starting the repair job failed with status ${response.status}: ${await response.text()}`);
+    throw new RepairError('unavailable', 'The repair service cannot take new repairs right now');
+  }
+  const id: string = await response.json();
+
+  let pending: Promise<unknown> = Promise.resolve();
+  let lastStage: RepairStage | null = null;
+  let lastPercent = -1;
+
+  return {
+    id,
+    report: (stage, fraction) => {
+      const percent = stagePercent(stage, fraction);
+      if (stage === lastStage && percent - lastPercent < MIN_PROGRESS_STEP) return;
+      lastStage = stage;
+      lastPercent = percent;
+      pending = pending.then(() => updateJob(id, { stage, progress: percent }));
+    },
+    complete: async job => {
+      await pending;
+      await updateJob(id, { ...job, stage: 'done', progress: 100 });
+    },
+  };
+}
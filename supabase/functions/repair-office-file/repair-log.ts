@@ -0,0 +1,19 @@
+// Where the repair pipeline reports what it is doing.
+//
+// The edge function and the browser worker log to the console. A caller
+// that keeps the console for its own output, like the command line tool,
+// passes a log that writes elsewhere or drops the messages.
+
+export interface RepairLog {
+  // Each step of the repair
+  info(...args: unknown[]): void;
+  // A repairer that failed, before the next one is tried
+  error(...args: unknown[]): void;
+}
+
+export const consoleLog: RepairLog = {
+  info: (...args) => console.log(...args),
+  error: (...args) => console.error(...args),
+};
+
+export const silentLog: RepairLog = { info: () => {}, error: () => {} };
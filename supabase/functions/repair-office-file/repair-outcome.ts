@@ -0,0 +1,98 @@
+// Repair outcomes.
+//
+// What a repair produced, before its output is delivered, and the outcomes
+// the repairers share: a failure that recovered nothing, and recovered text
+// returned in place of a file no openable copy could be rebuilt of.
+
+import type { DetectedFileType } from "./file-type.ts";
+import type { WordTextFormat } from "./word-text.ts";
+import type { RepairErrorCode } from "./errors.ts";
+import type { RepairLog } from "./repair-log.ts";
+import { buildMediaGallery, type SalvagedMedia } from "./package-media.ts";
+import type { RepairContext } from "./repairers.ts";
+import { REPAIR_RESULT_VERSION, type RepairFileType, type RepairResult } from "./repair-result.ts";
+
+// A file to repair
+export interface RepairInput {
+  file: { name: string; type: string; size: number };
+  data: Uint8Array;
+  // Text recovered from Word documents can be returned as Markdown instead
+  textFormat: WordTextFormat;
+  // Defaults to the console
+  log?: RepairLog;
+}
+
+// What a repair produced, before its output is delivered
+export interface RepairOutcome {
+  detectedType: string;
+  result: RepairResult;
+  output: Uint8Array | null;
+  media: SalvagedMedia[] | undefined;
+}
+
+export function outcome(
+  detectedType: string,
+  result: RepairResult,
+  output: Uint8Array | null,
+  media: SalvagedMedia[] | undefined
+): RepairOutcome {
+  return { detectedType, result: { version: REPAIR_RESULT_VERSION, ...result }, output, media };
+}
+
+// Results name file types in capitals, whether detected or produced
+export function resultFileType(fileType: DetectedFileType | 'txt' | 'md'): RepairFileType {
+  return fileType.toUpperCase() as RepairFileType;
+}
+
+// The start of recovered text, as shown next to the result
+export function previewText(content: string): string {
+  return content.substring(0, 300) + '...';
+}
+
+// A file nothing could be recovered from
+export function failedOutcome(
+  { file, fileType }: RepairContext,
+  errorCode: RepairErrorCode,
+  issues: string[],
+  media?: SalvagedMedia[]
+): RepairOutcome {
+  return outcome(fileType, {
+    success: false,
+    fileName: file.name,
+    status: 'failed',
+    issues,
+    errorCode,
+    fileType: resultFileType(fileType),
+    recoveryStats: {
+      originalSize: file.size,
+      repairedSize: 0,
+      corruptionLevel: 'critical',
+      recoveredData: 0
+    }
+  }, null, media);
+}
+
+// Recovered text as the output, for files no openable copy could be rebuilt of
+export function textOutcome(context: RepairContext, text: string, recoveryMethod: 'office_repair' | 'raw_extraction'): RepairOutcome {
+  const { file, fileType, data, textFormat } = context;
+  console.log(`Successfully recovered content: ${text.length} characters using ${recoveryMethod}`);
+
+  const encodedContent = new TextEncoder().encode(text);
+  // Only the Word extraction honours the Markdown option
+  const outputType = textFormat === 'markdown' && fileType === 'docx' && recoveryMethod === 'office_repair' ? 'md' : 'txt';
+
+  const result: RepairResult = {
+    success: true,
+    fileName: file.name.replace(/\.[^.]+$/, '') + `_recovered.${outputType}`,
+    status: text.length > 1000 ? 'success' : 'partial',
+    preview: { content: previewText(text) },
+    fileType: resultFileType(outputType),
+    recoveryStats: {
+      originalSize: file.size,
+      repairedSize: encodedContent.length,
+      corruptionLevel: recoveryMethod === 'office_repair' ? 'medium' : 'high'
+    }
+  };
+
+  return outcome(fileType, result, encodedContent, buildMediaGallery(data, fileType, null));
+}
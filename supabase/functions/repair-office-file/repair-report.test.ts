@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { repairDocument } from "./repair-core.ts";
+import { findZipEntry } from "./package-parts.ts";
+import { buildTestXlsx, TEST_PACKAGE_BUILDERS, testRepairInput, truncateBytes } from "./test-packages.ts";
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+async function repairedScore(name: string, data: Uint8Array): Promise<number> {
+  const { result } = await repairDocument(testRepairInput(name, data));
+  return result.report?.score ?? 0;
+}
+
+// The package cut off where the named part begins, losing it and every part after it
+async function cutBefore(build: () => Promise<Uint8Array>, partName: string): Promise<Uint8Array> {
+  const data = await build();
+  return data.slice(0, findZipEntry(data, partName)!.localHeaderOffset!);
+}
+
+describe('buildRepairReport', () => {
+  for (const [fileType, build] of Object.entries(TEST_PACKAGE_BUILDERS)) {
+    it(`scores a ${fileType} lower as more of it is cut off`, async () => {
+      const data = await build();
+      const scores: number[] = [];
+      for (const share of [1, 0.9, 0.7, 0.5]) {
+        scores.push(await repairedScore(`sample.${fileType}`, truncateBytes(data, share)));
+      }
+
+      expect(scores[0]).toBe(100);
+      for (let i = 1; i < scores.length; i++) {
+        expect(scores[i]).toBeLessThan(100);
+        // Two cuts inside the same lost part leave the same output
+        expect(scores[i]).toBeLessThanOrEqual(scores[i - 1]);
+      }
+      expect(scores[scores.length - 1]).toBeLessThan(scores[1]);
+    });
+  }
+
+  it('counts parts lost past the cut that only a reference names', async () => {
+    const { result } = await repairDocument(testRepairInput('sample.xlsx', await cutBefore(buildTestXlsx, 'xl/workbook.xml')));
+    const parts = new Map(result.report!.parts.map(part => [part.name, part]));
+
+    expect(parts.get('xl/sharedStrings.xml')).toMatchObject({ inOutput: false, damage: 'missing' });
+    expect(parts.get('xl/workbook.xml')?.damage).toBe('regenerated');
+    expect(result.report!.score).toBeLessThan(50);
+  });
+
+  it('does not count a sheet as whole when its cells lost their strings', async () => {
+    const { result } = await repairDocument(testRepairInput('sample.xlsx', await cutBefore(buildTestXlsx, 'xl/workbook.xml')));
+    const sheet = result.report!.parts.find(part => part.name === 'xl/worksheets/sheet1.xml');
+
+    expect(sheet).toMatchObject({ inOutput: true, crc: 'ok', damage: 'incomplete' });
+    expect(result.status).toBe('partial');
+  });
+});
@@ -0,0 +1,142 @@
+// The per-part repair report of a rebuilt package.
+
+import { getManifestEntry, type ZipManifestEntry } from "./zip-salvage.ts";
+import { getZipManifest, readEntryBytes, type RecoveredBytes } from "./package-parts.ts";
+import { parseRelationships, type RebuiltPackage, resolvePartTarget } from "./ooxml-package.ts";
+import { getXmlAttribute, unescapeXml } from "./xml-text.ts";
+import type { PartDamage, PartReport, RepairReport } from "./repair-result.ts";
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+// Parts that hold no content of their own, only describe the package
+function isPackageStructure(name: string): boolean {
+  return name.endsWith('.rels') || name === '[Content_Types].xml' || name === 'META-INF/manifest.xml' || name === 'mimetype';
+}
+
+// Parts the original package points to from whatever survived of its
+// relationships or ODF manifest. This is all that is known of
+// the parts lost past a truncation point when the central directory went too.
+function referencedParts(name: string, bytes: Uint8Array): string[] {
+  const xml = new TextDecoder().decode(bytes);
+  if (name === 'META-INF/manifest.xml') {
+    return [...xml.matchAll(/<manifest:file-entry\b([^>]*?)\/?>/g)].flatMap(match => {
+      const path = getXmlAttribute(match[1], 'manifest:full-path');
+      return path && !path.endsWith('/') ? [unescapeXml(path)] : [];
+    });
+  }
+  if (name.endsWith('.rels')) {
+    const source = name.replace(/_rels\/([^/]*)\.rels$/, '$1');
+    return parseRelationships(xml).filter(rel => !rel.external).map(rel => resolvePartTarget(source, rel.target));
+  }
+  return [];
+}
+
+// What was wrong with a part of the original package. An entry that
+// decompressed to its recorded size in one run and only failed its CRC was
+// altered rather than cut short.
+function partDamage(entry: ZipManifestEntry, recovered: RecoveredBytes | null, rebuilt: RebuiltPackage): PartDamage | undefined {
+  if (!recovered) return 'missing';
+  if (!recovered.complete) {
+    // All of an intact entry's data is there, so anything short of it is damage
+    if (entry.state !== 'intact') return 'truncated';
+    return recovered.segments.length === 1 && recovered.bytes.length === entry.uncompressedSize ? 'crc_mismatch' : 'corrupt';
+  }
+  if (rebuilt.contentDamage.has(entry.name)) return rebuilt.contentDamage.get(entry.name);
+  if (rebuilt.contentLoss.has(entry.name)) return 'incomplete';
+  return rebuilt.regeneratedParts.has(entry.name) ? 'regenerated' : undefined;
+}
+
+// Account for every part of the original package against the rebuilt output.
+// The score only credits bytes that made it into the output, or into the
+// media offered for download beside it, and never
+// reaches 100 unless every part came through whole. Lost parts whose size is
+// unknown, because only a reference to them survived, count at the average
+// size of the known parts, so losing more of the file always costs score.
+export function buildRepairReport(buffer: Uint8Array, rebuilt: RebuiltPackage, offeredMedia: string[] = []): RepairReport {
+  const manifest = getZipManifest(buffer);
+  const reports: PartReport[] = [];
+  let totalBytes = 0;
+  let keptBytes = 0;
+  let everyPartWhole = true;
+  const references = new Set<string>();
+
+  const names = new Set(manifest.entries.map(entry => entry.name).filter(name => !name.endsWith('/')));
+  for (const name of names) {
+    const entry = getManifestEntry(manifest, name)!;
+    const recovered = entry.state === 'missing' ? null : readEntryBytes(buffer, entry);
+    const recoveredSize = recovered ? recovered.segments.reduce((sum, segment) => sum + segment.bytes.length, 0) : 0;
+    const output = rebuilt.parts.get(name);
+    const kept = output !== undefined || rebuilt.mergedParts.has(name);
+    const loss = rebuilt.contentLoss.get(name) ?? 0;
+    // A part written from scratch keeps nothing of the original
+    const credited = kept && !rebuilt.regeneratedParts.has(name);
+    const whole = credited && !!recovered?.complete && loss === 0;
+    if (recovered) referencedParts(name, recovered.bytes).forEach(part => references.add(part));
+
+    const actions = [...(rebuilt.partActions.get(name) || [])];
+    if (actions.length === 0) {
+      if (entry.state === 'missing') {
+        actions.push('Data is missing from the file');
+      } else if (!recovered) {
+        actions.push('Dropped: no data could be decompressed');
+      } else if (!kept) {
+        if (!recovered.complete) actions.push('Dropped: damaged');
+        else actions.push(offeredMedia.includes(name) ? 'Offered for download on its own' : 'Not referenced by the rebuilt package');
+      } else if (output && !bytesEqual(output, recovered.bytes)) {
+        actions.push('Rewritten during the rebuild');
+      }
+    }
+
+    let crc: PartReport['crc'] = 'unverified';
+    if (recovered && entry.crc32 !== null) crc = recovered.complete ? 'ok' : 'mismatch';
+
+    const size = entry.uncompressedSize ?? recoveredSize;
+    totalBytes += size;
+    if (whole || (!kept && offeredMedia.includes(name))) {
+      keptBytes += size;
+    } else if (credited) {
+      keptBytes += Math.min(size, recoveredSize, output?.length ?? recoveredSize) * (1 - loss);
+    }
+    everyPartWhole = everyPartWhole && whole;
+
+    reports.push({
+      name,
+      originalSize: entry.uncompressedSize,
+      recoveredSize,
+      crc,
+      actions,
+      inOutput: output !== undefined,
+      damage: partDamage(entry, recovered, rebuilt),
+    });
+  }
+
+  // Parts the rebuild generated, and lost parts only known from references
+  const estimatedSize = names.size > 0 ? totalBytes / names.size : 0;
+  const reported = new Set([...rebuilt.parts.keys(), ...rebuilt.partActions.keys()]);
+  for (const name of new Set([...reported, ...references])) {
+    if (names.has(name)) continue;
+    const output = rebuilt.parts.get(name);
+    const damage = output === undefined ? 'missing' : rebuilt.regeneratedParts.has(name) ? 'regenerated' : undefined;
+    reports.push({
+      name,
+      originalSize: null,
+      recoveredSize: 0,
+      crc: 'unverified',
+      actions: rebuilt.partActions.get(name) ||
+        [reported.has(name) ? 'Generated during the rebuild' : 'Referenced by the package but missing from the file'],
+      inOutput: output !== undefined,
+      damage,
+    });
+    if (damage && !isPackageStructure(name)) totalBytes += estimatedSize;
+    everyPartWhole = everyPartWhole && damage === undefined;
+  }
+
+  const score = totalBytes > 0 ? Math.floor((keptBytes / totalBytes) * 100) : 0;
+  return { parts: reports, score: everyPartWhole ? score : Math.min(score, 99) };
+}
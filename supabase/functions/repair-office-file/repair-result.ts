@@ -0,0 +1,119 @@
+// The repair result contract.
+//
+// A result crosses several boundaries: the edge function sends it in the
+// response or leaves it on the job row, the browser reads it from either or
+// from the local repair worker, and the CLI prints it. This schema is the one
+// definition all of them import, and results are checked against it where
+// they arrive. A change that older readers cannot handle, such as removing or
+// retyping a field, bumps REPAIR_RESULT_VERSION; new optional fields do not.
+
+import { z } from "zod";
+import { REPAIR_ERROR_STATUS, RepairError, type RepairErrorCode } from "./errors.ts";
+
+export const REPAIR_RESULT_VERSION = 1;
+
+const REPAIR_ERROR_CODES = Object.keys(REPAIR_ERROR_STATUS) as [RepairErrorCode, ...RepairErrorCode[]];
+
+// The type of the repaired file, or of the input when nothing was produced
+export const repairFileTypeSchema = z.enum([
+  'DOCX', 'XLSX', 'PPTX', 'ODT', 'ODS', 'ODP', 'ZIP', 'PDF', 'DOC', 'XLS', 'PPT', 'RTF', 'TXT', 'MD', 'UNKNOWN',
+]);
+
+// What was wrong with a part of the damaged file
+export const partDamageSchema = z.enum(['missing', 'truncated', 'crc_mismatch', 'corrupt', 'incomplete', 'regenerated']);
+
+export const partReportSchema = z.object({
+  name: z.string(),
+  // Uncompressed size recorded in the ZIP headers, null when unknown or the part was generated
+  originalSize: z.number().nullable(),
+  // Bytes that could be decompressed, including any resumed after damage
+  recoveredSize: z.number(),
+  crc: z.enum(['ok', 'mismatch', 'unverified']),
+  actions: z.array(z.string()),
+  inOutput: z.boolean(),
+  // Absent when the part came through whole
+  damage: partDamageSchema.optional(),
+});
+
+export const repairReportSchema = z.object({
+  parts: z.array(partReportSchema),
+  // Share of the original uncompressed bytes carried into the output, 0-100
+  score: z.number(),
+});
+
+// Media offered for download next to the repaired file, either inline as
+// base64 or as a signed link when the file came from storage
+export const mediaFileSchema = z.object({
+  // Part name in the package, e.g. word/media/image1.png
+  name: z.string(),
+  mimeType: z.string(),
+  size: z.number(),
+  // False when the file was cut short or failed a checksum
+  complete: z.boolean(),
+  // Reattached to the repaired file
+  inPackage: z.boolean(),
+  data: z.string().optional(),
+  url: z.string().optional(),
+});
+
+export const repairResultSchema = z.object({
+  // Absent on results recorded before the contract was versioned
+  version: z.literal(REPAIR_RESULT_VERSION).optional(),
+  success: z.boolean(),
+  fileName: z.string(),
+  status: z.enum(['success', 'partial', 'failed']),
+  issues: z.array(z.string()).optional(),
+  // Why nothing was recovered, on failed results
+  errorCode: z.enum(REPAIR_ERROR_CODES).optional(),
+  // Damage found before the repair, by the repairers that looked at the file
+  diagnosis: z.array(z.string()).optional(),
+  // The repaired file as base64, for posted files
+  repairedFile: z.string().optional(),
+  // Signed link to the repaired file, for files read from storage
+  downloadUrl: z.string().optional(),
+  preview: z.object({
+    content: z.string().optional(),
+    extractedSheets: z.array(z.string()).optional(),
+    extractedSlides: z.number().optional(),
+    referencedSlides: z.number().optional(),
+    extractedPages: z.number().optional(),
+    recoveredFiles: z.array(z.string()).optional(),
+  }).optional(),
+  fileType: repairFileTypeSchema.optional(),
+  report: repairReportSchema.optional(),
+  media: z.array(mediaFileSchema).optional(),
+  recoveryStats: z.object({
+    // File counts, for ZIP archives
+    totalFiles: z.number().optional(),
+    recoveredFiles: z.number().optional(),
+    corruptedFiles: z.number().optional(),
+    originalSize: z.number().optional(),
+    repairedSize: z.number().optional(),
+    corruptionLevel: z.string().optional(),
+    recoveredData: z.number().optional(),
+  }).optional(),
+});
+
+export type RepairFileType = z.infer<typeof repairFileTypeSchema>;
+export type PartDamage = z.infer<typeof partDamageSchema>;
+export type PartReport = z.infer<typeof partReportSchema>;
+export type RepairReport = z.infer<typeof repairReportSchema>;
+export type MediaFile = z.infer<typeof mediaFileSchema>;
+export type RepairResult = z.infer<typeof repairResultSchema>;
+
+// Check a result received from elsewhere against the contract, naming every
+// field that does not match
+export function parseRepairResult(value: unknown): RepairResult {
+  const parsed = repairResultSchema.safeParse(value);
+  if (parsed.success) return parsed.data;
+
+  const version = (value as { version?: unknown } | null)?.version;
+  if (typeof version === 'number' && version !== REPAIR_RESULT_VERSION) {
+    throw new RepairError(
+      'internal_error',
+      `The repair result is in format version ${version}, but version ${REPAIR_RESULT_VERSION} was expected`
+    );
+  }
+  const fields = parsed.error.issues.map(issue => `${issue.path.join('.') || 'result'}: ${issue.message}`);
+  throw new RepairError('internal_error', `The repair result does not match the expected format (${fields.join('; ')})`);
+}
@@ -0,0 +1,50 @@
+// The repairer registry.
+//
+// Each format the pipeline understands is a Repairer plug-in: it says which
+// detected types it takes, describes the damage it finds, rebuilds the file
+// and recovers preview text. The pipeline asks the registry for every
+// repairer that takes a file and tries them in turn, so supporting a new
+// format means registering a repairer rather than editing the pipeline or
+// the request handler.
+
+import type { DetectedFileType } from "./file-type.ts";
+import type { ProgressReporter } from "./progress.ts";
+import type { RepairInput, RepairOutcome } from "./repair-outcome.ts";
+
+// A file on its way through the pipeline, with the type read from its content
+export interface RepairContext extends RepairInput {
+  fileType: DetectedFileType;
+  progress: ProgressReporter;
+}
+
+export interface Repairer {
+  // Short name used in logs
+  name: string;
+  // Tried only after every format-specific repairer has given up
+  fallback?: boolean;
+  // Whether the repairer takes a file of this type
+  detect(fileType: DetectedFileType, data: Uint8Array): boolean;
+  // The damage found in the file before anything is rebuilt, worded for the
+  // person who owns it; empty when nothing looks wrong
+  diagnose(context: RepairContext): string[];
+  // Rebuild the file, or null to let the next repairer try
+  repair(context: RepairContext): Promise<RepairOutcome | null>;
+  // Readable text from the file, empty when there is none
+  extractPreview(context: RepairContext): Promise<string>;
+}
+
+const repairers: Repairer[] = [];
+
+export function registerRepairer(repairer: Repairer): void {
+  if (repairers.some(registered => registered.name === repairer.name)) {
+    throw new Error(`A repairer named ${repairer.name} is already registered`);
+  }
+  repairers.push(repairer);
+}
+
+// The repairers that take a file, format-specific ones first in the order
+// they were registered
+export function findRepairers(fileType: DetectedFileType, data: Uint8Array): Repairer[] {
+  const matching = repairers.filter(repairer => repairer.detect(fileType, data));
+  return [...matching.filter(repairer => !repairer.fallback), ...matching.filter(repairer => repairer.fallback)];
+}
@@ -0,0 +1,88 @@
+// Access to the private file-repairs storage bucket.
+//
+// Files too large to post to the function are uploaded to the bucket by the
+// browser, and the function is called with their object path instead. The
+// upload is read back in ranges into a single buffer, so the file is never
+// held twice the way a parsed multipart body is, and the repaired file is
+// written back to the bucket and handed out as a signed download URL rather
+// than as base64 inside the JSON response.
+
+import { RepairError, tooLargeError } from "./errors.ts";
+
+export const REPAIR_BUCKET = 'file-repairs';
+
+// Size of each ranged read of an uploaded file
+const READ_RANGE_BYTES = 8 * 1024 * 1024;
+// How long the link to a repaired file stays valid
+const SIGNED_URL_SECONDS = 60 * 60;
+
+function storageConfig(): { url: string; headers: Record<string, string> } {
+  const url = Deno.env.get('SUPABASE_URL');
+  const key = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!url || !key) throw new Error('Storage is not configured for this function');
+  return { url: `${url}/storage/v1`, headers: { Authorization: `Bearer ${key}`, apikey: key } };
+}
+
+function objectUrl(base: string, route: string, path: string): string {
+  return `${base}/${route}/${REPAIR_BUCKET}/${path.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+// Read an uploaded object into memory, one range at a time. Objects larger
+// than `maxBytes` are refused before anything is allocated for them.
+export async function readStoredFile(path: string, maxBytes = Infinity): Promise<Uint8Array> {
+  const { url, headers } = storageConfig();
+  const source = objectUrl(url, 'object', path);
+  let data: Uint8Array | null = null;
+  let offset = 0;
+
+  do {
+    const end = offset + READ_RANGE_BYTES - 1;
+    const response = await fetch(source, { headers: { ...headers, Range: `bytes=${offset}-${end}` } });
+    if (response.status === 404 || response.status === 400) {
+      throw new RepairError('no_file', `Uploaded file ${path} was not found`);
+    }
+    if (!response.ok) throw new Error(`Reading ${path} failed with status ${response.status}`);
+    const chunk = new Uint8Array(await response.arrayBuffer());
+
+    if (data === null) {
+      // A server that ignores the range sends the whole object at once
+      const total = response.status === 206
+        ? Number(response.headers.get('Content-Range')?.split('/')[1])
+        : chunk.length;
+      if (!Number.isFinite(total)) throw new Error(`Reading ${path} returned no object size`);
+      if (total > maxBytes) throw tooLargeError(total, maxBytes);
+      data = new Uint8Array(total);
+    }
+    data.set(chunk.subarray(0, data.length - offset), offset);
+    offset += chunk.length;
+    if (chunk.length === 0) break;
+  } while (offset < data.length);
+
+  if (offset < data.length) throw new Error(`Reading ${path} stopped after ${offset} of ${data.length} bytes`);
+  console.log(`Read ${data.length} bytes from ${REPAIR_BUCKET}/${path}`);
+  return data;
+}
+
+// Write a repaired file to the bucket, replacing any object at `path`
+export async function writeStoredFile(path: string, data: Uint8Array, contentType: string): Promise<void> {
+  const { url, headers } = storageConfig();
+  const upload = await fetch(objectUrl(url, 'object', path), {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': contentType, 'x-upsert': 'true' },
+    body: data,
+  });
+  if (!upload.ok) throw new Error(`Storing ${path} failed with status ${upload.status}: ${await upload.text()}`);
+}
+
+// A signed link that downloads a stored object under `fileName`
+export async function signStoredFile(path: string, fileName: string): Promise<string> {
+  const { url, headers } = storageConfig();
+  const sign = await fetch(objectUrl(url, 'object/sign', path), {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ expiresIn: SIGNED_URL_SECONDS }),
+  });
+  if (!sign.ok) throw new Error(`Signing ${path} failed with status ${sign.status}`);
+  const { signedURL } = await sign.json();
+  return `${url}${signedURL}&download=${encodeURIComponent(fileName)}`;
+}
@@ -0,0 +1,21 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { TEST_PACKAGE_BUILDERS, truncateBytes } from "./test-packages.ts";
+
+describe.each(Object.entries(TEST_PACKAGE_BUILDERS))('test %s package', (_type, build) => {
+  it('builds the same bytes on every run', async () => {
+    expect(await build()).toEqual(await build());
+  });
+
+  it('opens as a whole ZIP package', async () => {
+    const zip = await JSZip.loadAsync(await build());
+    expect(Object.keys(zip.files).length).toBeGreaterThan(3);
+  });
+});
+
+describe('truncateBytes', () => {
+  it('keeps the given share of the bytes from the start', () => {
+    const data = Uint8Array.from({ length: 10 }, (_, index) => index);
+    expect(truncateBytes(data, 0.55)).toEqual(new Uint8Array([0, 1, 2, 3, 4]));
+  });
+});
@@ -0,0 +1,595 @@
+// Packages for the tests, built in memory.
+//
+// Each builder writes a small but complete document of its format, with its
+// parts in the order the usual producers write them, so cutting the bytes
+// short loses the same parts a truncated download or copy would. The content
+// comes from a seeded generator and is the same on every run.
+
+import JSZip from "jszip";
+import { crc32 } from "./zip-salvage.ts";
+import type { RepairInput } from "./repair-outcome.ts";
+
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const WORDS = 'the quarterly report covers sales growth across every region with notes on staffing budgets and the outlook for next year'.split(' ');
+// Fixed so the ZIP headers, and so the bytes, match on every run
+const FIXED_DATE = new Date(Date.UTC(2024, 0, 1));
+
+export type TestPackageType = 'docx' | 'xlsx' | 'pptx' | 'odt';
+
+// Mulberry32: small, fast and good enough to vary test content
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sentence(random: () => number, words: number): string {
+  const text = Array.from({ length: words }, () => WORDS[Math.floor(random() * WORDS.length)]).join(' ');
+  return `${text.charAt(0).toUpperCase()}${text.slice(1)}.`;
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+function uint32BE(value: number): Uint8Array {
+  return new Uint8Array([value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+}
+
+// A zlib stream of stored blocks, which needs no compressor
+function zlibStored(data: Uint8Array): Uint8Array {
+  const chunks: Uint8Array[] = [new Uint8Array([0x78, 0x01])];
+  for (let offset = 0; offset === 0 || offset < data.length; offset += 0xffff) {
+    const block = data.subarray(offset, offset + 0xffff);
+    const final = offset + 0xffff >= data.length ? 1 : 0;
+    chunks.push(new Uint8Array([final, block.length & 0xff, block.length >>> 8, ~block.length & 0xff, (~block.length >>> 8) & 0xff]), block);
+  }
+  let a = 1;
+  let b = 0;
+  for (const byte of data) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+  chunks.push(uint32BE(((b << 16) | a) >>> 0));
+  return concatBytes(chunks);
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const typed = concatBytes([new TextEncoder().encode(type), data]);
+  return concatBytes([uint32BE(data.length), typed, uint32BE(crc32(typed))]);
+}
+
+// An RGB picture of random noise, which no compressor can shrink
+export function buildTestPng(width: number, height: number, seed: number): Uint8Array {
+  const random = seededRandom(seed);
+  const pixels = new Uint8Array((width * 3 + 1) * height);
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] = i % (width * 3 + 1) === 0 ? 0 : Math.floor(random() * 256);
+  }
+  const header = concatBytes([uint32BE(width), uint32BE(height), new Uint8Array([8, 2, 0, 0, 0])]);
+  return concatBytes([
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlibStored(pixels)),
+    pngChunk('IEND', new Uint8Array()),
+  ]);
+}
+
+function relationshipsXml(relationships: Array<[string, string, string]>): string {
+  const items = relationships.map(([id, type, target]) => `<Relationship Id="${id}" Type="${type}" Target="${target}"/>`);
+  return `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELS_NS}">${items.join('')}</Relationships>`;
+}
+
+function contentTypesXml(defaults: Record<string, string>, overrides: Record<string, string>): string {
+  const items = [
+    ...Object.entries(defaults).map(([ext, type]) => `<Default Extension="${ext}" ContentType="${type}"/>`),
+    ...Object.entries(overrides).map(([part, type]) => `<Override PartName="/${part}" ContentType="${type}"/>`),
+  ];
+  return `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">${items.join('')}</Types>`;
+}
+
+const OOXML_DEFAULTS = {
+  rels: 'application/vnd.openxmlformats-package.relationships+xml',
+  xml: 'application/xml',
+  png: 'image/png',
+};
+
+async function zipParts(parts: Array<[string, string | Uint8Array, boolean?]>): Promise<Uint8Array> {
+  const zip = new JSZip();
+  for (const [name, data, stored] of parts) {
+    zip.file(name, data, { date: FIXED_DATE, createFolders: false, compression: stored ? 'STORE' : 'DEFLATE' });
+  }
+  return await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
+
+const WORD_NS = `xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="${RELATIONSHIP_NS}" ` +
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" ' +
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"';
+
+function wordDrawing(index: number, relationshipId: string): string {
+  return `<w:p><w:r><w:drawing><wp:inline><wp:extent cx="1828800" cy="1828800"/><wp:docPr id="${index}" name="Picture ${index}"/>` +
+    '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic>' +
+    `<pic:nvPicPr><pic:cNvPr id="${index}" name="image${index}.png"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="${relationshipId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    '<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="1828800" cy="1828800"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>' +
+    '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r></w:p>';
+}
+
+// A report of 40 paragraphs with three pictures, written the way Word orders
+// its parts: the pictures sit between the document and its relationships
+export async function buildTestDocx(): Promise<Uint8Array> {
+  const random = seededRandom(7);
+  const body: string[] = [];
+  for (let i = 0; i < 40; i++) {
+    body.push(`<w:p><w:r><w:t>${sentence(random, 18)}</w:t></w:r></w:p>`);
+    if (i % 10 === 0 && i > 0) body.push(wordDrawing(i / 10, `rId${2 + i / 10}`));
+  }
+  const document = `${XML_HEADER}<w:document ${WORD_NS}><w:body>${body.join('')}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/></w:sectPr></w:body></w:document>`;
+  const styles = `${XML_HEADER}<w:styles ${WORD_NS}><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>` +
+    '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/></w:style></w:styles>';
+  const settings = `${XML_HEADER}<w:settings ${WORD_NS}><w:zoom w:percent="100"/><w:defaultTabStop w:val="720"/></w:settings>`;
+  const core = `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>Quarterly report</dc:title></cp:coreProperties>';
+
+  return await zipParts([
+    ['[Content_Types].xml', contentTypesXml(OOXML_DEFAULTS, {
+      'word/document.xml': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml',
+      'word/styles.xml': 'application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml',
+      'word/settings.xml': 'application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml',
+      'docProps/core.xml': 'application/vnd.openxmlformats-package.core-properties+xml',
+    })],
+    ['_rels/.rels', relationshipsXml([
+      ['rId1', `${RELATIONSHIP_NS}/officeDocument`, 'word/document.xml'],
+      ['rId2', `${PACKAGE_RELS_NS}/metadata/core-properties`, 'docProps/core.xml'],
+    ])],
+    ['word/document.xml', document],
+    ['word/styles.xml', styles],
+    ['word/settings.xml', settings],
+    ...[1, 2, 3].map(n => [`word/media/image${n}.png`, buildTestPng(48, 48, n), true] as [string, Uint8Array, boolean]),
+    ['word/_rels/document.xml.rels', relationshipsXml([
+      ['rId1', `${RELATIONSHIP_NS}/styles`, 'styles.xml'],
+      ['rId2', `${RELATIONSHIP_NS}/settings`, 'settings.xml'],
+      ...[1, 2, 3].map(n => [`rId${2 + n}`, `${RELATIONSHIP_NS}/image`, `media/image${n}.png`] as [string, string, string]),
+    ])],
+    ['docProps/core.xml', core],
+  ]);
+}
+
+// An inventory of 150 rows with most cells in the shared strings, written the
+// way SheetJS orders its parts: workbook and shared strings after the sheets
+export async function buildTestXlsx(): Promise<Uint8Array> {
+  const random = seededRandom(11);
+  const strings: string[] = [];
+  const rows: string[] = [];
+  for (let r = 1; r <= 150; r++) {
+    const cells: string[] = [];
+    for (const column of ['A', 'B', 'C']) {
+      strings.push(sentence(random, 3));
+      cells.push(`<c r="${column}${r}" t="s"><v>${strings.length - 1}</v></c>`);
+    }
+    cells.push(`<c r="D${r}"><v>${Math.floor(random() * 10000)}</v></c>`);
+    rows.push(`<row r="${r}">${cells.join('')}</row>`);
+  }
+  const sheetXml = (sheetRows: string[]) => `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+    `<sheetData>${sheetRows.join('')}</sheetData></worksheet>`;
+  const sharedStrings = `${XML_HEADER}<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" count="${strings.length}" uniqueCount="${strings.length}">` +
+    strings.map(text => `<si><t>${text}</t></si>`).join('') + '</sst>';
+  const workbook = `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="${RELATIONSHIP_NS}">` +
+    '<sheets><sheet name="Inventory" sheetId="1" r:id="rId1"/><sheet name="Summary" sheetId="2" r:id="rId2"/></sheets></workbook>';
+  const styles = `${XML_HEADER}<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+    '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts><fills count="1"><fill><patternFill patternType="none"/></fill></fills>' +
+    '<borders count="1"><border/></borders><cellXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellXfs></styleSheet>';
+
+  return await zipParts([
+    ['xl/_rels/workbook.xml.rels', relationshipsXml([
+      ['rId1', `${RELATIONSHIP_NS}/worksheet`, 'worksheets/sheet1.xml'],
+      ['rId2', `${RELATIONSHIP_NS}/worksheet`, 'worksheets/sheet2.xml'],
+      ['rId3', `${RELATIONSHIP_NS}/styles`, 'styles.xml'],
+      ['rId4', `${RELATIONSHIP_NS}/sharedStrings`, 'sharedStrings.xml'],
+    ])],
+    ['xl/styles.xml', styles],
+    ['xl/worksheets/sheet1.xml', sheetXml(rows)],
+    ['xl/worksheets/sheet2.xml', sheetXml(rows.slice(0, 5))],
+    ['xl/workbook.xml', workbook],
+    ['xl/sharedStrings.xml', sharedStrings],
+    ['_rels/.rels', relationshipsXml([['rId1', `${RELATIONSHIP_NS}/officeDocument`, 'xl/workbook.xml']])],
+    ['[Content_Types].xml', contentTypesXml(OOXML_DEFAULTS, {
+      'xl/workbook.xml': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml',
+      'xl/worksheets/sheet1.xml': 'application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml',
+      'xl/worksheets/sheet2.xml': 'application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml',
+      'xl/styles.xml': 'application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml',
+      'xl/sharedStrings.xml': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sharedStrings+xml',
+    })],
+  ]);
+}
+
+const PRESENTATION_NS = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+  `xmlns:r="${RELATIONSHIP_NS}" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"`;
+const SHAPE_TREE_START = '<p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/>';
+const SLIDE_PICTURE = '<p:pic><p:nvPicPr><p:cNvPr id="3" name="Picture 1"/><p:cNvPicPr/><p:nvPr/></p:nvPicPr>' +
+  '<p:blipFill><a:blip r:embed="rId2"/><a:stretch><a:fillRect/></a:stretch></p:blipFill>' +
+  '<p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="1828800" cy="1828800"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>';
+
+// Five slides of text on one master and layout, the last with a picture,
+// written the way PowerPoint orders its parts: slides first, media after them
+export async function buildTestPptx(): Promise<Uint8Array> {
+  const random = seededRandom(13);
+  const slides = Array.from({ length: 5 }, (_, index) => {
+    const paragraphs = Array.from({ length: 6 }, () => `<a:p><a:r><a:t>${sentence(random, 12)}</a:t></a:r></a:p>`).join('');
+    return `${XML_HEADER}<p:sld ${PRESENTATION_NS}><p:cSld>${SHAPE_TREE_START}` +
+      `<p:sp><p:nvSpPr><p:cNvPr id="2" name="Text ${index + 1}"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr><p:spPr/>` +
+      `<p:txBody><a:bodyPr/><a:lstStyle/>${paragraphs}</p:txBody></p:sp>${index === 4 ? SLIDE_PICTURE : ''}</p:spTree></p:cSld></p:sld>`;
+  });
+  const master = `${XML_HEADER}<p:sldMaster ${PRESENTATION_NS}><p:cSld>${SHAPE_TREE_START}</p:spTree></p:cSld>` +
+    '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>' +
+    '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst></p:sldMaster>';
+  const layout = `${XML_HEADER}<p:sldLayout ${PRESENTATION_NS} type="blank"><p:cSld name="Blank">${SHAPE_TREE_START}</p:spTree></p:cSld>` +
+    '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>';
+  const theme = `${XML_HEADER}<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="Test"><a:themeElements>` +
+    '<a:fontScheme name="Test"><a:majorFont><a:latin typeface="Calibri Light"/></a:majorFont><a:minorFont><a:latin typeface="Calibri"/></a:minorFont></a:fontScheme>' +
+    '</a:themeElements></a:theme>';
+  const slideIds = slides.map((_, index) => `<p:sldId id="${256 + index}" r:id="rId${2 + index}"/>`).join('');
+  const presentation = `${XML_HEADER}<p:presentation ${PRESENTATION_NS}><p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>` +
+    `<p:sldIdLst>${slideIds}</p:sldIdLst><p:sldSz cx="9144000" cy="6858000"/><p:notesSz cx="6858000" cy="9144000"/></p:presentation>`;
+  const slideOverrides = Object.fromEntries(slides.map((_, index) =>
+    [`ppt/slides/slide${index + 1}.xml`, 'application/vnd.openxmlformats-officedocument.presentationml.slide+xml']
+  ));
+
+  return await zipParts([
+    ['[Content_Types].xml', contentTypesXml(OOXML_DEFAULTS, {
+      'ppt/presentation.xml': 'application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml',
+      ...slideOverrides,
+      'ppt/slideMasters/slideMaster1.xml': 'application/vnd.openxmlformats-officedocument.presentationml.slideMaster+xml',
+      'ppt/slideLayouts/slideLayout1.xml': 'application/vnd.openxmlformats-officedocument.presentationml.slideLayout+xml',
+      'ppt/theme/theme1.xml': 'application/vnd.openxmlformats-officedocument.theme+xml',
+    })],
+    ['_rels/.rels', relationshipsXml([['rId1', `${RELATIONSHIP_NS}/officeDocument`, 'ppt/presentation.xml']])],
+    ['ppt/presentation.xml', presentation],
+    ['ppt/_rels/presentation.xml.rels', relationshipsXml([
+      ['rId1', `${RELATIONSHIP_NS}/slideMaster`, 'slideMasters/slideMaster1.xml'],
+      ...slides.map((_, index) => [`rId${2 + index}`, `${RELATIONSHIP_NS}/slide`, `slides/slide${index + 1}.xml`] as [string, string, string]),
+      ['rId7', `${RELATIONSHIP_NS}/theme`, 'theme/theme1.xml'],
+    ])],
+    ...slides.flatMap((slide, index): Array<[string, string]> => [
+      [`ppt/slides/slide${index + 1}.xml`, slide],
+      [`ppt/slides/_rels/slide${index + 1}.xml.rels`, relationshipsXml([
+        ['rId1', `${RELATIONSHIP_NS}/slideLayout`, '../slideLayouts/slideLayout1.xml'],
+        ...(index === 4 ? [['rId2', `${RELATIONSHIP_NS}/image`, '../media/image1.png'] as [string, string, string]] : []),
+      ])],
+    ]),
+    ['ppt/media/image1.png', buildTestPng(64, 64, 9), true],
+    ['ppt/slideLayouts/slideLayout1.xml', layout],
+    ['ppt/slideLayouts/_rels/slideLayout1.xml.rels', relationshipsXml([['rId1', `${RELATIONSHIP_NS}/slideMaster`, '../slideMasters/slideMaster1.xml']])],
+    ['ppt/slideMasters/slideMaster1.xml', master],
+    ['ppt/slideMasters/_rels/slideMaster1.xml.rels', relationshipsXml([
+      ['rId1', `${RELATIONSHIP_NS}/slideLayout`, '../slideLayouts/slideLayout1.xml'],
+      ['rId2', `${RELATIONSHIP_NS}/theme`, '../theme/theme1.xml'],
+    ])],
+    ['ppt/theme/theme1.xml', theme],
+  ]);
+}
+
+// A text document with a picture, written the way LibreOffice orders its
+// parts: the stored mimetype first, styles after the pictures and the
+// manifest last
+export async function buildTestOdt(): Promise<Uint8Array> {
+  const random = seededRandom(17);
+  const paragraphs = Array.from({ length: 300 }, () => `<text:p text:style-name="Standard">${sentence(random, 16)}</text:p>`);
+  paragraphs.splice(150, 0, '<text:p><draw:frame draw:name="Picture 1" svg:width="2cm" svg:height="2cm">' +
+    '<draw:image xlink:href="Pictures/picture1.png" xlink:type="simple"/></draw:frame></text:p>');
+  const namespaces = 'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0" ' +
+    'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0" xmlns:draw="urn:oasis:names:tc:opendocument:xmlns:drawing:1.0" ' +
+    'xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0" xmlns:xlink="http://www.w3.org/1999/xlink"';
+  const content = `<?xml version="1.0" encoding="UTF-8"?>\n<office:document-content ${namespaces} office:version="1.2">` +
+    `<office:body><office:text>${paragraphs.join('')}</office:text></office:body></office:document-content>`;
+  const styles = `<?xml version="1.0" encoding="UTF-8"?>\n<office:document-styles ${namespaces} office:version="1.2"><office:styles>` +
+    Array.from({ length: 20 }, (_, index) =>
+      `<style:style style:name="Style${index}" style:family="paragraph"><style:text-properties fo:font-size="${10 + index}pt" xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"/></style:style>`
+    ).join('') + '</office:styles></office:document-styles>';
+  const meta = '<?xml version="1.0" encoding="UTF-8"?>\n<office:document-meta xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" office:version="1.2"><office:meta><dc:title>Field notes</dc:title></office:meta></office:document-meta>';
+  const manifest = '<?xml version="1.0" encoding="UTF-8"?>\n<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2">' +
+    '<manifest:file-entry manifest:full-path="/" manifest:version="1.2" manifest:media-type="application/vnd.oasis.opendocument.text"/>' +
+    ['content.xml', 'styles.xml', 'meta.xml'].map(path => `<manifest:file-entry manifest:full-path="${path}" manifest:media-type="text/xml"/>`).join('') +
+    '<manifest:file-entry manifest:full-path="Pictures/picture1.png" manifest:media-type="image/png"/></manifest:manifest>';
+
+  return await zipParts([
+    ['mimetype', 'application/vnd.oasis.opendocument.text', true],
+    ['meta.xml', meta],
+    ['content.xml', content],
+    ['Pictures/picture1.png', buildTestPng(24, 24, 5), true],
+    ['styles.xml', styles],
+    ['META-INF/manifest.xml', manifest],
+  ]);
+}
+
+// A plain archive of notes, a spreadsheet export and two pictures, in the
+// order they were added
+export async function buildTestZip(): Promise<Uint8Array> {
+  const random = seededRandom(23);
+  const minutes = Array.from({ length: 120 }, () => sentence(random, 14)).join('\n');
+  const rows = Array.from({ length: 200 }, (_, index) => `Region ${index % 12},${Math.floor(random() * 10000)},${sentence(random, 4)}`);
+  return await zipParts([
+    ['README.txt', 'Quarterly report working files.\n'],
+    ['notes/minutes.txt', minutes],
+    ['data/sales.csv', ['region,amount,note', ...rows].join('\n')],
+    ['photos/photo1.png', buildTestPng(40, 40, 24), true],
+    ['photos/photo2.png', buildTestPng(40, 40, 25), true],
+  ]);
+}
+
+// A PDF of text pages written front to back the way most producers do: the
+// catalog and page tree first, each page before its content, then the
+// document info, the xref table and the trailer
+export function buildTestPdf(pageCount = 12): Uint8Array {
+  const random = seededRandom(29);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${Array.from({ length: pageCount }, (_, index) => `${4 + index * 2} 0 R`).join(' ')}] /Count ${pageCount} /MediaBox [0 0 612 792] >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+  for (let page = 0; page < pageCount; page++) {
+    const lines = Array.from({ length: 30 }, (_, line) => `BT /F1 11 Tf 72 ${740 - line * 22} Td (${sentence(random, 10)}) Tj ET`).join('\n');
+    objects.push(`<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + page * 2} 0 R >>`);
+    objects.push(`<< /Length ${lines.length} >>\nstream\n${lines}\nendstream`);
+  }
+  objects.push('<< /Title (Quarterly report) /Producer (test-packages) >>');
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return new TextEncoder().encode(pdf);
+}
+
+const COMPOUND_SECTOR_SIZE = 512;
+const COMPOUND_MINI_STREAM_CUTOFF = 4096;
+const COMPOUND_FREE_SECTOR = 0xffffffff;
+const COMPOUND_END_OF_CHAIN = 0xfffffffe;
+const COMPOUND_FAT_SECTOR = 0xfffffffd;
+const COMPOUND_NO_STREAM = 0xffffffff;
+
+// A version 3 compound file laid out the way Office writes small documents:
+// the FAT, then the directory, then each stream in turn. Streams must be at
+// least the mini stream cutoff long, so no mini stream is needed
+function buildCompoundFile(streams: Array<[string, Uint8Array]>): Uint8Array {
+  const streamSectors = streams.map(([name, data]) => {
+    if (data.length < COMPOUND_MINI_STREAM_CUTOFF) throw new Error(`${name} is too short for a regular stream`);
+    return Math.ceil(data.length / COMPOUND_SECTOR_SIZE);
+  });
+  const entriesPerSector = COMPOUND_SECTOR_SIZE / 128;
+  const linksPerSector = COMPOUND_SECTOR_SIZE / 4;
+  const directorySectors = Math.ceil((streams.length + 1) / entriesPerSector);
+  const dataSectors = streamSectors.reduce((sum, count) => sum + count, 0);
+  let fatSectors = 1;
+  while (fatSectors * linksPerSector < fatSectors + directorySectors + dataSectors) fatSectors++;
+
+  const file = new Uint8Array((1 + fatSectors + directorySectors + dataSectors) * COMPOUND_SECTOR_SIZE);
+  const view = new DataView(file.buffer);
+  const sectorOffset = (sector: number) => (sector + 1) * COMPOUND_SECTOR_SIZE;
+
+  const fat: number[] = new Array(fatSectors * linksPerSector).fill(COMPOUND_FREE_SECTOR);
+  const chain = (start: number, count: number) => {
+    for (let i = 0; i < count; i++) fat[start + i] = i === count - 1 ? COMPOUND_END_OF_CHAIN : start + i + 1;
+  };
+  fat.fill(COMPOUND_FAT_SECTOR, 0, fatSectors);
+  chain(fatSectors, directorySectors);
+  let nextSector = fatSectors + directorySectors;
+  const startSectors = streamSectors.map(count => {
+    const start = nextSector;
+    chain(start, count);
+    nextSector += count;
+    return start;
+  });
+  fat.forEach((link, index) => view.setUint32(sectorOffset(0) + index * 4, link, true));
+
+  file.set([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1], 0);
+  view.setUint16(0x18, 0x3e, true);
+  view.setUint16(0x1a, 3, true);
+  view.setUint16(0x1c, 0xfffe, true);
+  view.setUint16(0x1e, 9, true);
+  view.setUint16(0x20, 6, true);
+  view.setUint32(0x2c, fatSectors, true);
+  view.setUint32(0x30, fatSectors, true);
+  view.setUint32(0x38, COMPOUND_MINI_STREAM_CUTOFF, true);
+  view.setUint32(0x3c, COMPOUND_END_OF_CHAIN, true);
+  view.setUint32(0x44, COMPOUND_END_OF_CHAIN, true);
+  for (let i = 0; i < 109; i++) {
+    view.setUint32(0x4c + i * 4, i < fatSectors ? i : COMPOUND_FREE_SECTOR, true);
+  }
+
+  // The root's children are chained through their right siblings
+  const writeEntry = (index: number, name: string, type: number, child: number, right: number, start: number, size: number) => {
+    const offset = sectorOffset(fatSectors) + index * 128;
+    for (let i = 0; i < name.length; i++) view.setUint16(offset + i * 2, name.charCodeAt(i), true);
+    view.setUint16(offset + 0x40, (name.length + 1) * 2, true);
+    file[offset + 0x42] = type;
+    file[offset + 0x43] = 1;
+    view.setUint32(offset + 0x44, COMPOUND_NO_STREAM, true);
+    view.setUint32(offset + 0x48, right, true);
+    view.setUint32(offset + 0x4c, child, true);
+    view.setUint32(offset + 0x74, start, true);
+    view.setUint32(offset + 0x78, size, true);
+  };
+  writeEntry(0, 'Root Entry', 5, 1, COMPOUND_NO_STREAM, COMPOUND_END_OF_CHAIN, 0);
+  streams.forEach(([name, data], index) => {
+    const right = index + 1 < streams.length ? index + 2 : COMPOUND_NO_STREAM;
+    writeEntry(index + 1, name, 2, COMPOUND_NO_STREAM, right, startSectors[index], data.length);
+    file.set(data, sectorOffset(startSectors[index]));
+  });
+  return file;
+}
+
+// A Word 97-2003 document: a FIB and the text in the WordDocument stream,
+// and a piece table in the 1Table stream mapping the text as one piece
+export function buildTestDoc(): Uint8Array {
+  const random = seededRandom(31);
+  const paragraphs = ['Quarterly report', ...Array.from({ length: 80 }, () => sentence(random, 12))];
+  const text = new TextEncoder().encode(paragraphs.join('\r') + '\r');
+  const fibLength = 0x400;
+
+  const word = new Uint8Array(fibLength + text.length);
+  const fib = new DataView(word.buffer);
+  fib.setUint16(0x00, 0xa5ec, true);
+  fib.setUint16(0x02, 0xc1, true);
+  // Complex, with its tables in 1Table
+  fib.setUint16(0x0a, 0x0200 | 0x0004, true);
+  fib.setUint32(0x18, fibLength, true);
+  fib.setUint32(0x1c, fibLength + text.length, true);
+  fib.setUint16(0x20, 14, true);
+  const rgLw = 0x22 + 14 * 2 + 2;
+  fib.setUint16(rgLw - 2, 22, true);
+  fib.setUint32(rgLw + 3 * 4, text.length, true);
+  const rgFcLcb = rgLw + 22 * 4 + 2;
+  fib.setUint16(rgFcLcb - 2, 93, true);
+  word.set(text, fibLength);
+
+  // One compressed (8-bit) piece for all of the text
+  const clxOffset = 16;
+  const table = new Uint8Array(COMPOUND_MINI_STREAM_CUTOFF);
+  const clx = new DataView(table.buffer, clxOffset);
+  clx.setUint8(0, 0x02);
+  clx.setUint32(1, 4 * 2 + 8, true);
+  clx.setUint32(5, 0, true);
+  clx.setUint32(9, text.length, true);
+  clx.setUint32(15, ((fibLength * 2) | 0x40000000) >>> 0, true);
+  fib.setUint32(rgFcLcb + 33 * 8, clxOffset, true);
+  fib.setUint32(rgFcLcb + 33 * 8 + 4, 5 + 4 * 2 + 8, true);
+
+  return buildCompoundFile([['WordDocument', word], ['1Table', table]]);
+}
+
+function biffRecord(type: number, data: Uint8Array): Uint8Array {
+  const header = new DataView(new ArrayBuffer(4));
+  header.setUint16(0, type, true);
+  header.setUint16(2, data.length, true);
+  return concatBytes([new Uint8Array(header.buffer), data]);
+}
+
+function biffFields(fields: Array<[number, 1 | 2 | 4 | 8]>): Uint8Array {
+  const bytes = new Uint8Array(fields.reduce((sum, [, size]) => sum + size, 0));
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  for (const [value, size] of fields) {
+    if (size === 1) view.setUint8(offset, value);
+    if (size === 2) view.setUint16(offset, value, true);
+    if (size === 4) view.setUint32(offset, value, true);
+    if (size === 8) view.setFloat64(offset, value, true);
+    offset += size;
+  }
+  return bytes;
+}
+
+// An Excel 97-2003 workbook: one sheet of labels from the shared string
+// table and numbers, in a BIFF8 Workbook stream
+export function buildTestXls(): Uint8Array {
+  const random = seededRandom(37);
+  const labels = Array.from({ length: 150 }, (_, index) => `Region ${index % 12} ${WORDS[Math.floor(random() * WORDS.length)]}`);
+  const encoder = new TextEncoder();
+  const bof = (type: number) => biffRecord(0x0809, biffFields([[0x0600, 2], [type, 2], [0, 2], [0, 2], [0, 4], [0, 4]]));
+  const eof = biffRecord(0x000a, new Uint8Array(0));
+  const sheetName = encoder.encode('Sales');
+  const boundSheet = (position: number) => biffRecord(0x0085, concatBytes([
+    biffFields([[position, 4], [0, 1], [0, 1], [sheetName.length, 1], [0, 1]]),
+    sheetName,
+  ]));
+  const sharedStrings = biffRecord(0x00fc, concatBytes([
+    biffFields([[labels.length, 4], [labels.length, 4]]),
+    ...labels.flatMap(label => [biffFields([[label.length, 2], [0, 1]]), encoder.encode(label)]),
+  ]));
+  const cells = labels.flatMap((_, row) => [
+    biffRecord(0x00fd, biffFields([[row, 2], [0, 2], [0, 2], [row, 4]])),
+    biffRecord(0x0203, biffFields([[row, 2], [1, 2], [0, 2], [Math.floor(random() * 10000), 8]])),
+  ]);
+
+  const globalsLength = bof(0x0005).length + boundSheet(0).length + sharedStrings.length + eof.length;
+  const workbook = concatBytes([
+    bof(0x0005), boundSheet(globalsLength), sharedStrings, eof,
+    bof(0x0010), ...cells, eof,
+  ]);
+  return buildCompoundFile([['Workbook', workbook]]);
+}
+
+function pptRecord(version: number, type: number, data: Uint8Array): Uint8Array {
+  const header = new DataView(new ArrayBuffer(8));
+  header.setUint16(0, version, true);
+  header.setUint16(2, type, true);
+  header.setUint32(4, data.length, true);
+  return concatBytes([new Uint8Array(header.buffer), data]);
+}
+
+// A PowerPoint 97-2003 presentation: the slide titles and bodies in the
+// SlideListWithText of the PowerPoint Document stream
+export function buildTestPpt(): Uint8Array {
+  const random = seededRandom(41);
+  const textType = (type: number) => pptRecord(0, 0x0f9f, biffFields([[type, 4]]));
+  const atoms = Array.from({ length: 30 }, (_, index) => [
+    pptRecord(0, 0x03f3, new Uint8Array(20)),
+    textType(0),
+    pptRecord(0, 0x0fa8, new TextEncoder().encode(`Slide ${index + 1}`)),
+    textType(1),
+    pptRecord(0, 0x0fa8, new TextEncoder().encode(`${sentence(random, 10)}\r${sentence(random, 10)}`)),
+  ]).flat();
+  const slideList = pptRecord(0x0f, 0x0ff0, concatBytes(atoms));
+  const document = pptRecord(0x0f, 0x03e8, concatBytes([pptRecord(0, 0x03e9, new Uint8Array(40)), slideList]));
+  return buildCompoundFile([['PowerPoint Document', document]]);
+}
+
+export const TEST_PACKAGE_BUILDERS: Record<TestPackageType, () => Promise<Uint8Array>> = {
+  docx: buildTestDocx,
+  xlsx: buildTestXlsx,
+  pptx: buildTestPptx,
+  odt: buildTestOdt,
+};
+
+// Bytes with no structure or text at all, as left by a file overwritten with garbage
+export function buildTestNoise(length: number, seed: number): Uint8Array {
+  const random = seededRandom(seed);
+  return Uint8Array.from({ length }, () => Math.floor(random() * 256));
+}
+
+// The first share of the bytes, as left by an interrupted download or copy
+export function truncateBytes(data: Uint8Array, share: number): Uint8Array {
+  return data.slice(0, Math.floor(data.length * share));
+}
+
+// Every r:id, r:embed and other relationship reference in a package's XML
+// parts that its .rels part does not define, as "part#id"
+export async function unresolvedRelationshipIds(data: Uint8Array): Promise<string[]> {
+  const zip = await JSZip.loadAsync(data);
+  const unresolved: string[] = [];
+  for (const name of Object.keys(zip.files).filter(name => name.endsWith('.xml'))) {
+    const xml = await zip.file(name)!.async('string');
+    const prefixes = [...xml.matchAll(/xmlns:([\w.-]+)="http:\/\/schemas\.openxmlformats\.org\/officeDocument\/2006\/relationships"/g)].map(match => match[1]);
+    if (prefixes.length === 0) continue;
+    const slash = name.lastIndexOf('/');
+    const rels = await zip.file(`${name.slice(0, slash + 1)}_rels/${name.slice(slash + 1)}.rels`)?.async('string');
+    const ids = new Set([...(rels || '').matchAll(/\bId="([^"]*)"/g)].map(match => match[1]));
+    for (const match of xml.matchAll(new RegExp(`\\s(?:${prefixes.join('|')}):\\w+="([^"]*)"`, 'g'))) {
+      if (match[1] && !ids.has(match[1])) unresolved.push(`${name}#${match[1]}`);
+    }
+  }
+  return unresolved;
+}
+
+export function testRepairInput(name: string, data: Uint8Array): RepairInput {
+  return { file: { name, type: '', size: data.length }, data, textFormat: 'text' };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { carveTextRuns } from "./text-carving.ts";
+import { buildTestNoise } from "./test-packages.ts";
+
+const PROSE = 'The quarterly report covers sales growth across every region, with notes on staffing. ';
+
+function utf16le(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length * 2);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i * 2] = text.charCodeAt(i) & 0xff;
+    bytes[i * 2 + 1] = text.charCodeAt(i) >> 8;
+  }
+  return bytes;
+}
+
+// The text between bytes of a binary file, glued to a few that happen to be printable
+function embed(text: Uint8Array, before: number[]): Uint8Array {
+  return new Uint8Array([0x00, 0x00, ...before, ...text, 0x00, 0x00]);
+}
+
+async function carvedText(bytes: Uint8Array): Promise<string[]> {
+  return (await carveTextRuns(bytes)).map(run => run.text);
+}
+
+describe('carveTextRuns', () => {
+  it('carves UTF-8 and UTF-16 text out of binary data', async () => {
+    expect(await carvedText(embed(new TextEncoder().encode(PROSE), []))).toEqual([PROSE.trim()]);
+    expect(await carvedText(embed(utf16le(PROSE), []))).toEqual([PROSE.trim()]);
+  });
+
+  it('keeps a first word that ends in punctuation or digits when bytes are glued to it', async () => {
+    const russian = 'Привет, как дела у тебя сегодня? Всё хорошо.';
+    expect(await carvedText(embed(new TextEncoder().encode(russian), [0x41, 0x62]))).toEqual([russian]);
+    // The bytes before read as a Greek letter in UTF-16
+    const english = 'UTF16 text stored in a stream of the document body.';
+    expect(await carvedText(embed(utf16le(english), [0xfe, 0x03]))).toEqual([english]);
+  });
+
+  it('finds next to no text in random bytes', async () => {
+    const text = (await carvedText(buildTestNoise(1024 * 1024, 1))).join('\n');
+    expect(text.length).toBeLessThan(1024);
+  });
+
+  it('carves text running across chunks whole', async () => {
+    const prose = PROSE.repeat(8000);
+    const words = (await carvedText(new TextEncoder().encode(prose))).join(' ').split(/\s+/);
+    expect(words).toEqual(prose.trim().split(/\s+/));
+  });
+
+  it('yields while carving a large file', async () => {
+    let yielded = false;
+    setTimeout(() => { yielded = true; }, 0);
+    await carveTextRuns(buildTestNoise(1024 * 1024, 2));
+    expect(yielded).toBe(true);
+  });
+});
@@ -0,0 +1,423 @@
+// Text carving for files whose structure is beyond repair.
+//
+// Scans raw bytes for runs of text stored as UTF-8 (falling back to
+// Windows-1252 for bytes that are not valid UTF-8), UTF-16LE or UTF-16BE, and
+// scores each run by how much it reads like natural language: letters from one
+// script, word lengths that suit that script, and little symbol noise. Bytes
+// glued to either end of a run are trimmed back to whole words. Where the
+// decodings of a region overlap, the more plausible one wins, so 8-bit text
+// is not also reported as UTF-16 gibberish and vice versa.
+
+export type CarvedEncoding = 'utf-8' | 'utf-16le' | 'utf-16be';
+
+export interface CarvedRun {
+  // Byte range the run was decoded from
+  start: number;
+  end: number;
+  encoding: CarvedEncoding;
+  text: string;
+  // Plausibility (0-1) times the length in characters
+  score: number;
+}
+
+type Script = 'latin' | 'greek' | 'cyrillic' | 'armenian' | 'hebrew' | 'arabic' | 'indic' | 'thai' | 'hangul' | 'cjk';
+type CharClass = Script | 'digit' | 'space' | 'punctuation' | 'cjk-punctuation' | 'other';
+
+// Windows-1252 characters that differ from Latin-1; the gaps are unassigned
+const CP1252_HIGH: Record<number, string> = {
+  0x80: '€', 0x82: '‚', 0x83: 'ƒ', 0x84: '„', 0x85: '…', 0x86: '†', 0x87: '‡',
+  0x88: 'ˆ', 0x89: '‰', 0x8a: 'Š', 0x8b: '‹', 0x8c: 'Œ', 0x8e: 'Ž',
+  0x91: '‘', 0x92: '’', 0x93: '“', 0x94: '”', 0x95: '•', 0x96: '–', 0x97: '—',
+  0x98: '˜', 0x99: '™', 0x9a: 'š', 0x9b: '›', 0x9c: 'œ', 0x9e: 'ž', 0x9f: 'Ÿ',
+};
+
+const SCRIPT_RANGES: Array<[number, number, Script]> = [
+  [0x41, 0x5a, 'latin'], [0x61, 0x7a, 'latin'], [0xc0, 0xd6, 'latin'], [0xd8, 0xf6, 'latin'],
+  [0xf8, 0x24f, 'latin'], [0x1e00, 0x1eff, 'latin'],
+  [0x370, 0x3ff, 'greek'], [0x1f00, 0x1fff, 'greek'],
+  [0x400, 0x52f, 'cyrillic'],
+  [0x531, 0x58f, 'armenian'],
+  [0x591, 0x5ff, 'hebrew'],
+  [0x600, 0x6ff, 'arabic'], [0x750, 0x77f, 'arabic'], [0xfb50, 0xfdff, 'arabic'], [0xfe70, 0xfefc, 'arabic'],
+  [0x900, 0xdff, 'indic'],
+  [0xe00, 0xe7f, 'thai'],
+  [0x1100, 0x11ff, 'hangul'], [0x3130, 0x318f, 'hangul'], [0xac00, 0xd7a3, 'hangul'],
+  [0x3040, 0x30ff, 'cjk'], [0x3400, 0x4dbf, 'cjk'], [0x4e00, 0x9fff, 'cjk'], [0xf900, 0xfaff, 'cjk'],
+  [0x20000, 0x2fa1f, 'cjk'],
+];
+
+const SCRIPTS = new Set<CharClass>(SCRIPT_RANGES.map(([, , script]) => script));
+
+const PUNCTUATION_RANGES: Array<[number, number]> = [
+  [0x21, 0x2f], [0x3a, 0x40], [0x5b, 0x60], [0x7b, 0x7e], [0xa1, 0xbf], [0xd7, 0xd7], [0xf7, 0xf7],
+  [0x55a, 0x55f], [0x5be, 0x5be], [0x60c, 0x60d], [0x61b, 0x61f], [0x2010, 0x2027], [0x2030, 0x205e],
+];
+
+// The CJK and fullwidth punctuation that Chinese and Japanese prose is full
+// of; the rest of the block is rare enough to be noise
+const CJK_PUNCTUATION_RANGES: Array<[number, number]> = [
+  [0x3001, 0x3002], [0x3008, 0x3011], [0x301c, 0x301f], [0xff01, 0xff01], [0xff08, 0xff09], [0xff0c, 0xff0c],
+  [0xff1a, 0xff1b], [0xff1f, 0xff1f],
+];
+
+// Scripts written without spaces between words
+const UNSPACED_SCRIPTS = new Set<Script>(['cjk', 'thai']);
+const LATIN_VOWELS = /[aeiouyàáâãäåæèéêëìíîïòóôõöøùúûüýÿœ]/i;
+
+const MIN_RUN_CHARS = 10;
+// Longer runs are carved in pieces, split at a space where there is one
+const MAX_RUN_CHARS = 16 * 1024;
+const MIN_PLAUSIBILITY = 0.6;
+// Longest average word, in characters, before a spaced script looks like noise
+const MAX_MEAN_WORD_LENGTH = 12;
+const MAX_UTF16_ASCII_SHARE = 0.9;
+const MAX_ACCENTED_SHARE = 0.4;
+const MIN_KANA_SHARE = 0.25;
+// Characters in a row that must fit the script where unspaced text starts and ends
+const UNSPACED_ANCHOR_CHARS = 4;
+// Bytes each scan covers before carving yields
+const CARVE_CHUNK_BYTES = 256 * 1024;
+// Most of a file that is carved, at about half a second per megabyte
+export const MAX_CARVED_BYTES = 32 * 1024 * 1024;
+
+const LEADING_WORD_PUNCTUATION = /^[("'[{«“‘„¿¡]+/;
+const TRAILING_WORD_PUNCTUATION = /[)"'\]}»”’.,;:!?…]+$/;
+const WORD_INNER_PUNCTUATION = "'’-‐.,:/&%";
+const STANDALONE_PUNCTUATION = /^[-–—•·&]$/;
+
+function inRanges(code: number, ranges: Array<[number, number]>): boolean {
+  return ranges.some(([low, high]) => code >= low && code <= high);
+}
+
+const CHAR_CLASSES: Array<CharClass | null> = [
+  null, 'digit', 'space', 'punctuation', 'cjk-punctuation', 'other', ...SCRIPTS,
+];
+// Classes of the Basic Multilingual Plane, as indexes into CHAR_CLASSES,
+// filled in on first use since every byte scanned is classified
+let bmpClasses: Uint8Array | null = null;
+
+// Classify a code point, or return null when it cannot appear in text
+function classify(code: number): CharClass | null {
+  if (code > 0xffff) return classifyCode(code);
+  if (!bmpClasses) {
+    bmpClasses = new Uint8Array(0x10000);
+    for (let i = 0; i < bmpClasses.length; i++) bmpClasses[i] = CHAR_CLASSES.indexOf(classifyCode(i));
+  }
+  return CHAR_CLASSES[bmpClasses[code]];
+}
+
+function classifyCode(code: number): CharClass | null {
+  if (code === 0x09 || code === 0x0a || code === 0x0d || code === 0x20 || code === 0xa0 || code === 0x3000) return 'space';
+  if ((code >= 0x2000 && code <= 0x200a) || code === 0x2028 || code === 0x2029) return 'space';
+  if (code < 0x20 || (code >= 0x7f && code <= 0x9f)) return null;
+  if ((code >= 0xd800 && code <= 0xf8ff) || code === 0xfeff || (code >= 0xfff0 && code <= 0xffff)) return null;
+  if ((code >= 0x30 && code <= 0x39) || (code >= 0x660 && code <= 0x669) || (code >= 0xff10 && code <= 0xff19)) return 'digit';
+  if (inRanges(code, CJK_PUNCTUATION_RANGES)) return 'cjk-punctuation';
+  if (inRanges(code, PUNCTUATION_RANGES)) return 'punctuation';
+  for (const [low, high, script] of SCRIPT_RANGES) {
+    if (code >= low && code <= high) return script;
+  }
+  return 'other';
+}
+
+// Decode one character at `pos`: [code point, bytes used]. The code point is
+// -1 for bytes that do not decode, and the length 0 past the end of the data.
+function decodeAt(bytes: Uint8Array, pos: number, encoding: CarvedEncoding): [number, number] {
+  if (encoding === 'utf-8') {
+    const lead = bytes[pos];
+    if (lead < 0x80) return [lead, 1];
+    const length = lead >= 0xf0 && lead <= 0xf4 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc2 && lead <= 0xdf ? 2 : 0;
+    if (length > 0 && pos + length <= bytes.length) {
+      let code = lead & (0xff >> (length + 1));
+      let valid = true;
+      for (let i = 1; i < length && valid; i++) {
+        valid = (bytes[pos + i] & 0xc0) === 0x80;
+        code = (code << 6) | (bytes[pos + i] & 0x3f);
+      }
+      const minimum = [0, 0, 0x80, 0x800, 0x10000][length];
+      if (valid && code >= minimum && code <= 0x10ffff && !(code >= 0xd800 && code <= 0xdfff)) return [code, length];
+    }
+    // Not UTF-8, so read it as Windows-1252
+    if (lead >= 0xa0) return [lead, 1];
+    const high = CP1252_HIGH[lead];
+    return [high ? high.charCodeAt(0) : -1, 1];
+  }
+
+  if (pos + 1 >= bytes.length) return [-1, 0];
+  const unit = (offset: number) => encoding === 'utf-16le'
+    ? bytes[offset] | (bytes[offset + 1] << 8)
+    : (bytes[offset] << 8) | bytes[offset + 1];
+  const code = unit(pos);
+  if (code >= 0xd800 && code <= 0xdbff && pos + 3 < bytes.length) {
+    const low = unit(pos + 2);
+    if (low >= 0xdc00 && low <= 0xdfff) return [0x10000 + ((code - 0xd800) << 10) + (low - 0xdc00), 4];
+  }
+  return [code, 2];
+}
+
+function isScript(charClass: CharClass): charClass is Script {
+  return SCRIPTS.has(charClass);
+}
+
+// The script most letters in the text belong to
+function dominantScript(text: string): Script | null {
+  const counts = new Map<Script, number>();
+  let dominant: Script | null = null;
+  for (const char of text) {
+    const charClass = classify(char.codePointAt(0)!);
+    if (!charClass || !isScript(charClass)) continue;
+    const n = (counts.get(charClass) || 0) + 1;
+    counts.set(charClass, n);
+    if (!dominant || n > counts.get(dominant)!) dominant = charClass;
+  }
+  return dominant;
+}
+
+// Whether a whitespace-separated token reads as a word (or number) of the
+// dominant script: letters from one script, digits, and only the punctuation
+// words carry, such as "(don't)," or "3.5%". Random bytes rarely manage this.
+function isWordLike(token: string, dominant: Script): boolean {
+  const core = token.replace(LEADING_WORD_PUNCTUATION, '').replace(TRAILING_WORD_PUNCTUATION, '');
+  if (!core) return STANDALONE_PUNCTUATION.test(token);
+  const unspaced = UNSPACED_SCRIPTS.has(dominant);
+  let script: Script | null = null;
+  for (const char of core) {
+    const charClass = classify(char.codePointAt(0)!);
+    if (charClass === 'digit') continue;
+    if (charClass && isScript(charClass)) {
+      if (charClass !== dominant && charClass !== 'latin') return false;
+      // Chinese and Japanese sentences run Latin terms into the text
+      if (script && charClass !== script && !unspaced) return false;
+      script = charClass;
+      continue;
+    }
+    if (unspaced && charClass === 'cjk-punctuation') continue;
+    if (WORD_INNER_PUNCTUATION.includes(char)) continue;
+    return false;
+  }
+  if (/(\p{L})\1{3}/u.test(core)) return false;
+  // Case changes mid-word are noise far more often than names like "McDonald"
+  if (script === 'latin' && /\p{Ll}\p{Lu}/u.test(core)) return false;
+  return script !== null || /\d/.test(core);
+}
+
+// Drop what does not read as words from both ends of a run, since a run of
+// text is usually glued to a few printable bytes of whatever precedes or
+// follows it. Whole tokens are dropped, except that a word of the dominant
+// script (with its digits and punctuation) directly touching the text is kept.
+function trimToWords(text: string, dominant: Script): string {
+  const isDominant = (char: string | undefined) => char !== undefined && classify(char.codePointAt(0)!) === dominant;
+  const isWordChar = (char: string) => isDominant(char) || classify(char.codePointAt(0)!) === 'digit';
+
+  if (UNSPACED_SCRIPTS.has(dominant)) {
+    // No spaces to split on, and random UTF-16 reads as CJK a third of the
+    // time, so the text starts and ends where a few characters in a row fit
+    const chars = [...text];
+    const fits = (i: number) => isDominant(chars[i]) || classify(chars[i].codePointAt(0)!) === 'cjk-punctuation';
+    const anchored = (from: number) => chars.slice(from, from + UNSPACED_ANCHOR_CHARS).length === UNSPACED_ANCHOR_CHARS
+      && chars.slice(from, from + UNSPACED_ANCHOR_CHARS).every((_, i) => fits(from + i));
+    let first = 0;
+    while (first < chars.length && !(isDominant(chars[first]) && anchored(first))) first++;
+    let last = chars.length - 1;
+    while (last > first && !anchored(last - UNSPACED_ANCHOR_CHARS + 1)) last--;
+    return first < chars.length ? chars.slice(first, last + 1).join('') : '';
+  }
+
+  const tokens = [...text.matchAll(/\S+/g)];
+  let first = 0;
+  let last = tokens.length - 1;
+  while (first <= last && !isWordLike(tokens[first][0], dominant)) first++;
+  while (last >= first && !isWordLike(tokens[last][0], dominant)) last--;
+  if (first > last) return '';
+
+  let start = tokens[first].index!;
+  let end = tokens[last].index! + tokens[last][0].length;
+  if (first > 0) {
+    const glued = [...tokens[first - 1][0]];
+    let keep = glued.length;
+    while (keep > 0 && TRAILING_WORD_PUNCTUATION.test(glued[keep - 1])) keep--;
+    while (keep > 0 && isWordChar(glued[keep - 1])) keep--;
+    const word = glued.slice(keep).join('');
+    if (word.length >= 2 && isWordLike(word, dominant)) start = tokens[first - 1].index! + tokens[first - 1][0].length - word.length;
+  }
+  if (last < tokens.length - 1) {
+    const glued = [...tokens[last + 1][0]];
+    let keep = 0;
+    while (keep < glued.length && isWordChar(glued[keep])) keep++;
+    while (keep < glued.length && TRAILING_WORD_PUNCTUATION.test(glued[keep])) keep++;
+    const word = glued.slice(0, keep).join('');
+    if (word.length >= 2 && isWordLike(word, dominant)) end = tokens[last + 1].index! + word.length;
+  }
+  return text.slice(start, end);
+}
+
+// How much a run reads like natural language, from 0 to 1
+function scorePlausibility(text: string, dominant: Script): number {
+  const counts = new Map<CharClass, number>();
+  let total = 0;
+  let vowels = 0;
+  let accented = 0;
+  let kana = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    const charClass = classify(code) ?? 'other';
+    counts.set(charClass, (counts.get(charClass) || 0) + 1);
+    if (charClass === 'latin' && LATIN_VOWELS.test(char)) vowels++;
+    if (charClass === 'latin' && code > 0x7f) accented++;
+    if (code >= 0x3040 && code <= 0x30ff) kana++;
+    total++;
+  }
+
+  const count = (charClass: CharClass) => counts.get(charClass) || 0;
+  let letters = 0;
+  for (const [charClass, n] of counts) {
+    if (isScript(charClass)) letters += n;
+  }
+  if (letters === 0) return 0;
+
+  const spaces = count('space');
+  const punctuation = count('punctuation') + count('cjk-punctuation');
+  // Text is mostly letters, with some digits, spaces and punctuation
+  const composition = (letters + count('digit') + spaces + punctuation * 0.5) / total;
+  const letterShare = Math.min(1, letters / Math.max(1, total - spaces) / 0.6);
+  // Words from another script are common (English terms in Russian text),
+  // but a mix of several is what random bytes look like
+  const secondary = dominant === 'latin' ? 0 : count('latin');
+  const purity = (count(dominant) + secondary) / letters;
+
+  let structure = 1;
+  const words = text.split(/\s+/).filter(Boolean);
+  if (UNSPACED_SCRIPTS.has(dominant)) {
+    // Chinese and Japanese prose is punctuated, and Japanese mixes in kana
+    if (count('cjk-punctuation') === 0 && kana < count('cjk') * MIN_KANA_SHARE) structure = 0;
+  } else {
+    if (spaces === 0) structure = 0;
+    const meanWord = words.reduce((sum, word) => sum + word.length, 0) / Math.max(1, words.length);
+    structure *= Math.min(1, MAX_MEAN_WORD_LENGTH / meanWord);
+    if (dominant === 'latin' && count('latin') >= 8) {
+      const vowelShare = vowels / count('latin');
+      if (vowelShare < 0.2 || vowelShare > 0.7) structure *= 0.5;
+    }
+    // Even Vietnamese writes most letters unaccented; 8-bit noise is mostly accents
+    if (dominant === 'latin' && accented > count('latin') * MAX_ACCENTED_SHARE) structure = 0;
+  }
+  // Share of the text, by length, that is made of word-like tokens
+  const wordLength = words.filter(word => isWordLike(word, dominant)).reduce((sum, word) => sum + word.length, 0);
+  const wordShare = wordLength / Math.max(1, total - spaces);
+
+  return composition * letterShare * purity * purity * structure * wordShare;
+}
+
+// Share of bytes that are printable ASCII. ASCII text read as UTF-16 pairs
+// its characters into code units that look like CJK, so a UTF-16 run made
+// almost entirely of such bytes is really 8-bit text.
+function asciiShare(bytes: Uint8Array, start: number, end: number): number {
+  let ascii = 0;
+  for (let i = start; i < end; i++) {
+    const byte = bytes[i];
+    if ((byte >= 0x20 && byte <= 0x7e) || byte === 0x09 || byte === 0x0a || byte === 0x0d) ascii++;
+  }
+  return ascii / Math.max(1, end - start);
+}
+
+function normalizeLineEndings(text: string): string {
+  return text.replace(/\r\n?/g, '\n');
+}
+
+// Carve the runs from `from` on, stopping at the first gap between runs at
+// or past `until` so the scan can pick up from there: the runs and where to
+// resume
+function scanRuns(bytes: Uint8Array, encoding: CarvedEncoding, from: number, until: number): { runs: CarvedRun[]; next: number } {
+  const runs: CarvedRun[] = [];
+  const step = encoding === 'utf-8' ? 1 : 2;
+  let start = -1;
+  let text = '';
+  let chars = 0;
+
+  const flush = (end: number) => {
+    if (chars >= MIN_RUN_CHARS && (step === 1 || asciiShare(bytes, start, end) < MAX_UTF16_ASCII_SHARE)) {
+      const trimmed = normalizeLineEndings(text).trim();
+      const dominant = dominantScript(trimmed);
+      const words = dominant ? trimToWords(trimmed, dominant) : '';
+      const plausibility = dominant && [...words].length >= MIN_RUN_CHARS ? scorePlausibility(words, dominant) : 0;
+      if (plausibility >= MIN_PLAUSIBILITY) {
+        runs.push({ start, end, encoding, text: words, score: plausibility * [...words].length });
+      }
+    }
+    start = -1;
+    text = '';
+    chars = 0;
+  };
+
+  for (let pos = from; pos < bytes.length;) {
+    const [code, length] = decodeAt(bytes, pos, encoding);
+    if (length === 0) break;
+    const charClass = code >= 0 ? classify(code) : null;
+    if (charClass !== null) {
+      if (start === -1) start = pos;
+      text += String.fromCodePoint(code);
+      chars++;
+      pos += length;
+      if (chars < MAX_RUN_CHARS || (charClass !== 'space' && chars < 2 * MAX_RUN_CHARS)) continue;
+      flush(pos);
+    } else {
+      flush(pos);
+      pos += step;
+    }
+    if (pos >= until) return { runs, next: pos };
+  }
+  flush(bytes.length);
+  return { runs, next: bytes.length };
+}
+
+// Every plausible run of text in the first MAX_CARVED_BYTES of the data, in
+// file order. Each region of bytes is only reported once, in the decoding
+// that reads best. Carving is slow, so the scans share out the data a chunk
+// at a time and yield in between; a timeout racing the carving can then fire.
+export async function carveTextRuns(bytes: Uint8Array): Promise<CarvedRun[]> {
+  const data = bytes.subarray(0, MAX_CARVED_BYTES);
+  const scans: Array<{ encoding: CarvedEncoding; next: number; runs: CarvedRun[] }> = [
+    { encoding: 'utf-8', next: 0, runs: [] },
+    { encoding: 'utf-16le', next: 0, runs: [] },
+    { encoding: 'utf-16le', next: 1, runs: [] },
+    { encoding: 'utf-16be', next: 0, runs: [] },
+    { encoding: 'utf-16be', next: 1, runs: [] },
+  ];
+  for (let until = CARVE_CHUNK_BYTES; scans.some(scan => scan.next < data.length); until += CARVE_CHUNK_BYTES) {
+    for (const scan of scans) {
+      if (scan.next >= until) continue;
+      const { runs, next } = scanRuns(data, scan.encoding, scan.next, until);
+      scan.runs.push(...runs);
+      scan.next = next;
+    }
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  const candidates = scans.flatMap(scan => scan.runs);
+  // Stable, so ties keep the order above and UTF-16LE beats a shifted UTF-16BE read
+  candidates.sort((a, b) => b.score - a.score);
+
+  const accepted: CarvedRun[] = [];
+  for (const run of candidates) {
+    // Binary search the accepted runs, which are kept sorted by start
+    let low = 0;
+    let high = accepted.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (accepted[mid].start < run.start) low = mid + 1;
+      else high = mid;
+    }
+    const overlapsBefore = low > 0 && accepted[low - 1].end > run.start;
+    const overlapsAfter = low < accepted.length && accepted[low].start < run.end;
+    if (!overlapsBefore && !overlapsAfter) accepted.splice(low, 0, run);
+  }
+  return accepted;
+}
+
+// Decode 8-bit text as Windows-1252, as legacy Office stores it
+export function decodeCp1252(bytes: Uint8Array): string {
+  let text = '';
+  for (const byte of bytes) {
+    text += CP1252_HIGH[byte] || String.fromCharCode(byte);
+  }
+  return text;
+}
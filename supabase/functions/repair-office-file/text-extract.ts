@@ -0,0 +1,200 @@
+// Text extraction for previews and for files that could not be rebuilt.
+//
+// Reads the text of Word, Excel, PowerPoint and OpenDocument XML, and carves
+// readable text out of raw bytes when no structure is left.
+
+import type JSZip from "jszip";
+import { carveTextRuns, MAX_CARVED_BYTES } from "./text-carving.ts";
+import { extractWordText, type WordTextFormat, type WordTextOptions } from "./word-text.ts";
+import { unescapeXml } from "./xml-text.ts";
+import { recoverTruncatedDocxXML } from "./package-parts.ts";
+
+// Helper function to extract content from Word XML files
+export async function extractWordContent(file: JSZip.JSZipObject, options: WordTextOptions = {}): Promise<string> {
+  let xmlContent: string;
+  try {
+    xmlContent = await file.async('text');
+  } catch (e) {
+    // Try binary mode if text mode fails
+    const data = await file.async('uint8array');
+    xmlContent = new TextDecoder('utf-8', { fatal: false }).decode(data);
+  }
+
+  console.log(`Processing Word XML, length: ${xmlContent.length}`);
+  return extractTextFromWordXml(xmlContent, options);
+}
+
+// Function to extract actual text from raw data, in whatever script and
+// encoding it was stored in
+export async function extractActualTextFromData(data: Uint8Array): Promise<string> {
+  console.log('Extracting actual text from raw data...');
+
+  try {
+    if (data.length > MAX_CARVED_BYTES) console.log(`Carving only the first ${MAX_CARVED_BYTES} of ${data.length} bytes`);
+    const runs = await carveTextRuns(data);
+    const counts = new Map<string, number>();
+    for (const run of runs) counts.set(run.encoding, (counts.get(run.encoding) || 0) + 1);
+    console.log(`Carved ${runs.length} text runs`, Object.fromEntries(counts));
+    return runs.map(run => run.text).join('\n');
+  } catch (error) {
+    console.error('Error in actual text extraction:', error);
+    return '';
+  }
+}
+
+// Function to extract text from XML content
+function extractTextFromXml(xmlContent: string): string {
+  try {
+    console.log('Extracting text from XML, content length:', xmlContent.length);
+    
+    // For Word documents, extract text from <w:t> tags specifically
+    const wordTextRegex = /<w:t[^>]*>(.*?)<\/w:t>/gs;
+    let wordMatches = [];
+    let match;
+    while ((match = wordTextRegex.exec(xmlContent)) !== null) {
+      const textContent = match[1];
+      if (textContent && textContent.trim() && textContent.length > 2) {
+        wordMatches.push(textContent.trim());
+      }
+    }
+    
+    if (wordMatches.length > 5) {
+      const extractedText = wordMatches.join(' ');
+      console.log(`Extracted ${wordMatches.length} text segments from Word XML`);
+      return extractedText;
+    }
+    
+    // For other XML types, try paragraph tags
+    const paragraphRegex = /<(?:p|para)[^>]*>(.*?)<\/(?:p|para)>/gs;
+    let paragraphMatches = [];
+    while ((match = paragraphRegex.exec(xmlContent)) !== null) {
+      const content = match[1].replace(/<[^>]*>/g, ' ').trim();
+      if (content && content.length > 10) {
+        paragraphMatches.push(content);
+      }
+    }
+    
+    if (paragraphMatches.length > 0) {
+      return paragraphMatches.join(' ');
+    }
+    
+    // Generic text extraction as fallback
+    let text = xmlContent
+      .replace(/<[^>]*>/g, ' ') // Remove all XML tags
+      .replace(/&amp;/g, '&')   // Decode entities
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/\s+/g, ' ')     // Normalize whitespace
+      .trim();
+    
+    // Only return meaningful text (not just metadata)
+    const words = text.split(/\s+/).filter(word => 
+      word.length > 3 && 
+      /^[a-zA-Z]/.test(word) && 
+      !word.match(/^(xml|PK|Content|Types|rels|word|document|theme|settings|styles|core|numbering|fontTable|docProps)$/i)
+    );
+    
+    if (words.length > 20) {
+      return words.join(' ');
+    }
+    
+    return '';
+    
+  } catch (error) {
+    console.error('XML text extraction error:', error);
+    return '';
+  }
+}
+
+// Specific function to extract text from Word XML, keeping paragraphs, line
+// breaks and tables
+export function extractTextFromWordXml(xmlContent: string, options: WordTextOptions = {}): string {
+  console.log('Extracting from Word XML...');
+
+  const text = extractWordText(xmlContent, options);
+  if (text) {
+    console.log(`Extracted ${text.length} characters of ${options.format || 'text'} from Word XML`);
+    return text;
+  }
+
+  // Fallback to extract any text content
+  return extractTextFromXml(xmlContent);
+}
+
+// Markdown output needs the style and numbering definitions to find headings
+// and lists; either can be missing from a damaged package
+export async function readWordTextOptions(data: Uint8Array, format: WordTextFormat): Promise<WordTextOptions> {
+  if (format !== 'markdown') return { format };
+  const readPart = async (name: string) => {
+    try {
+      return await recoverTruncatedDocxXML(data, name);
+    } catch (e) {
+      console.log(`Could not read ${name} for Markdown output:`, e.message);
+      return undefined;
+    }
+  };
+  return { format, stylesXml: await readPart('word/styles.xml'), numberingXml: await readPart('word/numbering.xml') };
+}
+
+// Specific function to extract text from Excel XML
+export function extractTextFromExcelXml(xmlContent: string): string {
+  console.log('Extracting from Excel XML...');
+  
+  // Look for Excel cell values, shared strings and inline strings
+  const cellRegex = /<(?:v|t)(?:\s[^>]*)?>([^<]+)<\/(?:v|t)>/g;
+  const values: string[] = [];
+  let match;
+  
+  while ((match = cellRegex.exec(xmlContent)) !== null) {
+    const value = match[1].trim();
+    if (value && isNaN(Number(value))) { // Skip pure numbers
+      values.push(value);
+    }
+  }
+  
+  if (values.length > 0) {
+    return values.join(' ');
+  }
+  
+  return extractTextFromXml(xmlContent);
+}
+
+// Specific function to extract text from OpenDocument content.xml, one line
+// per paragraph or heading
+export function extractTextFromOdfXml(xmlContent: string): string {
+  const texts: string[] = [];
+  for (const match of xmlContent.matchAll(/<text:(p|h)\b[^>]*?(?:\/>|>([\s\S]*?)<\/text:\1>)/g)) {
+    const text = (match[2] || '')
+      .replace(/<text:tab\/>/g, '\t')
+      .replace(/<text:line-break\/>/g, '\n')
+      .replace(/<text:s(?:\s+text:c="(\d+)")?\s*\/>/g, (_, count) => ' '.repeat(Number(count) || 1))
+      .replace(/<[^>]+>/g, '');
+    texts.push(unescapeXml(text));
+  }
+  return texts.join('\n').trim();
+}
+
+// Specific function to extract text from PowerPoint XML
+export function extractTextFromPowerPointXml(xmlContent: string): string {
+  console.log('Extracting from PowerPoint XML...');
+  
+  // Look for PowerPoint text content
+  const textRegex = /<a:t>([^<]*)<\/a:t>/g;
+  const texts: string[] = [];
+  let match;
+  
+  while ((match = textRegex.exec(xmlContent)) !== null) {
+    const text = match[1].trim();
+    if (text && text.length > 1) {
+      texts.push(text);
+    }
+  }
+  
+  if (texts.length > 0) {
+    return texts.join(' ');
+  }
+  
+  return extractTextFromXml(xmlContent);
+}
@@ -0,0 +1,16 @@
+// The repairer for Word documents.
+
+import { diagnosePackage, repairOfficeDocument, repairOfficePackage } from "./package-repair.ts";
+import type { Repairer } from "./repairers.ts";
+
+// Word documents: rebuild the package, or recover the document's text with
+// its paragraph and table structure, as Markdown when asked
+export const wordRepairer: Repairer = {
+  name: 'word',
+  detect: fileType => fileType === 'docx',
+  diagnose: ({ data }) => diagnosePackage(data, 'word/document.xml'),
+  repair(context) {
+    return repairOfficePackage(context, this);
+  },
+  extractPreview: ({ data, textFormat }) => repairOfficeDocument(data, 'docx', textFormat),
+};
@@ -0,0 +1,311 @@
+// Structure-aware text extraction from WordprocessingML.
+//
+// Walks document.xml token by token, so a part closed after truncation reads
+// the same as an intact one, and keeps the shape of the document: one line
+// per paragraph, tabs and line breaks inside runs, and tables as rows of
+// tab-separated cells. The Markdown output also turns heading styles into
+// `#` headings, list paragraphs into numbered or bulleted items and tables
+// into pipe tables. Styles and numbering definitions are optional; without
+// them headings are recognised by the built-in style IDs and every list is
+// treated as bulleted.
+
+import { tokenizeXml } from "./xml-repair.ts";
+
+export type WordTextFormat = 'text' | 'markdown';
+
+export interface WordTextOptions {
+  format?: WordTextFormat;
+  // word/styles.xml, to resolve custom and localised heading styles
+  stylesXml?: string;
+  // word/numbering.xml, to tell numbered lists from bulleted ones
+  numberingXml?: string;
+}
+
+interface Paragraph {
+  text: string;
+  styleId: string | null;
+  outlineLevel: number | null;
+  list: { numId: string; level: number } | null;
+}
+
+interface ParagraphStyle {
+  headingLevel: number | null;
+  list: Paragraph['list'];
+}
+
+interface Table {
+  rows: string[][];
+  // Paragraphs of the cell being read
+  cell: string[] | null;
+}
+
+const MAX_HEADING_LEVEL = 6;
+// Spaces per list level, enough to nest under both "- " and "10. " items
+const LIST_INDENT = '    ';
+const XML_ENTITY = /&(?:#x([0-9a-f]+)|#(\d+)|(amp|lt|gt|quot|apos));/gi;
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+const ATTRIBUTE = /(?:^|\s)([\w:.-]+)\s*=\s*(["'])(.*?)\2/g;
+
+// Elements whose text is not part of the visible document: field
+// instructions, deleted revisions, superseded paragraph properties and the
+// fallback copy of alternate content
+const HIDDEN_ELEMENTS = new Set(['w:instrText', 'w:delInstrText', 'w:delText', 'w:pPrChange', 'mc:Fallback']);
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(XML_ENTITY, (entity, hex, decimal, name) => {
+    if (name) return NAMED_ENTITIES[name.toLowerCase()];
+    const code = hex ? parseInt(hex, 16) : Number(decimal);
+    return code <= 0x10ffff ? String.fromCodePoint(code) : '�';
+  });
+}
+
+function readAttributes(attributes: string): Map<string, string> {
+  const values = new Map<string, string>();
+  for (const match of attributes.matchAll(ATTRIBUTE)) {
+    values.set(match[1], decodeXmlEntities(match[3]));
+  }
+  return values;
+}
+
+// Heading level and list numbering of each paragraph style that has them
+function readParagraphStyles(stylesXml: string): Map<string, ParagraphStyle> {
+  const styles = new Map<string, ParagraphStyle>();
+  for (const style of stylesXml.matchAll(/<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g)) {
+    const styleId = readAttributes(style[1]).get('w:styleId');
+    if (!styleId) continue;
+    const outline = style[2].match(/<w:outlineLvl\b[^>]*\bw:val="(\d+)"/);
+    const name = style[2].match(/<w:name\b[^>]*\bw:val="([^"]*)"/);
+    const numId = style[2].match(/<w:numId\b[^>]*\bw:val="([^"]*)"/);
+    const listLevel = style[2].match(/<w:ilvl\b[^>]*\bw:val="(\d+)"/);
+    let headingLevel = outline ? Number(outline[1]) + 1 : name ? headingLevelFromName(name[1]) : null;
+    if (headingLevel !== null && headingLevel > MAX_HEADING_LEVEL) headingLevel = null;
+    const list = numId && numId[1] !== '0' ? { numId: numId[1], level: listLevel ? Number(listLevel[1]) : 0 } : null;
+    if (headingLevel !== null || list) styles.set(styleId, { headingLevel, list });
+  }
+  return styles;
+}
+
+// Built-in style names are English in styles.xml whatever the UI language
+function headingLevelFromName(name: string): number | null {
+  if (/^title$/i.test(name)) return 1;
+  const heading = name.match(/^heading\s*(\d)$/i);
+  return heading ? Number(heading[1]) : null;
+}
+
+// Whether each list level of each numbering instance is numbered or bulleted
+function readListFormats(numberingXml: string): Map<string, string> {
+  const abstractFormats = new Map<string, Map<number, string>>();
+  for (const abstract of numberingXml.matchAll(/<w:abstractNum\b([^>]*)>([\s\S]*?)<\/w:abstractNum>/g)) {
+    const abstractId = readAttributes(abstract[1]).get('w:abstractNumId');
+    if (abstractId === undefined) continue;
+    const levels = new Map<number, string>();
+    for (const level of abstract[2].matchAll(/<w:lvl\b([^>]*)>([\s\S]*?)<\/w:lvl>/g)) {
+      const format = level[2].match(/<w:numFmt\b[^>]*\bw:val="([^"]*)"/);
+      levels.set(Number(readAttributes(level[1]).get('w:ilvl')), format ? format[1] : 'decimal');
+    }
+    abstractFormats.set(abstractId, levels);
+  }
+
+  const formats = new Map<string, string>();
+  for (const num of numberingXml.matchAll(/<w:num\b([^>]*)>([\s\S]*?)<\/w:num>/g)) {
+    const numId = readAttributes(num[1]).get('w:numId');
+    const abstractId = num[2].match(/<w:abstractNumId\b[^>]*\bw:val="([^"]*)"/);
+    const levels = abstractId && abstractFormats.get(abstractId[1]);
+    if (numId === undefined || !levels) continue;
+    for (const [level, format] of levels) formats.set(`${numId}:${level}`, format);
+  }
+  return formats;
+}
+
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*_[\]<>|]/g, '\\$&')
+    .replace(/^(\s*)([#+-]|\d+\.)(?=\s|$)/gm, (_, space, marker) => `${space}\\${marker}`);
+}
+
+// Cells arrive already rendered, and escaped for Markdown
+function renderTable(rows: string[][], format: WordTextFormat): string {
+  const flatten = (cell: string) => cell.replace(/\s*\n/g, ' ');
+  if (format === 'text') return rows.map(row => row.map(flatten).join('\t')).join('\n');
+  const width = Math.max(...rows.map(row => row.length));
+  const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => flatten(cells[i] || '')).join(' | ')} |`;
+  return [line(rows[0]), `|${' --- |'.repeat(width)}`, ...rows.slice(1).map(line)].join('\n');
+}
+
+// Extract the text of a WordprocessingML part, one line per paragraph and
+// table row, or as Markdown
+export function extractWordText(xml: string, options: WordTextOptions = {}): string {
+  const format = options.format || 'text';
+  const paragraphStyles = options.stylesXml ? readParagraphStyles(options.stylesXml) : new Map<string, ParagraphStyle>();
+  const listFormats = options.numberingXml ? readListFormats(options.numberingXml) : new Map<string, string>();
+
+  const blocks: Array<{ text: string; listItem: boolean }> = [];
+  const paragraphs: Paragraph[] = [];
+  const tables: Table[] = [];
+  // Item counters per list instance and level
+  const listCounters = new Map<string, number[]>();
+  let hidden: string | null = null;
+  let hiddenDepth = 0;
+  let inRun = 0;
+  let inText = false;
+  let paragraphProperties = false;
+
+  // Numbering set on the paragraph wins over numbering from its style, and
+  // numId 0 removes it
+  const listOf = (paragraph: Paragraph): Paragraph['list'] => {
+    const inherited = paragraph.styleId ? paragraphStyles.get(paragraph.styleId)?.list ?? null : null;
+    const list = paragraph.list
+      ? { numId: paragraph.list.numId || inherited?.numId || '', level: paragraph.list.level }
+      : inherited;
+    return list && list.numId !== '0' ? list : null;
+  };
+
+  const headingLevel = (paragraph: Paragraph): number | null => {
+    if (paragraph.outlineLevel !== null && paragraph.outlineLevel < MAX_HEADING_LEVEL) return paragraph.outlineLevel + 1;
+    if (!paragraph.styleId) return null;
+    const style = paragraphStyles.get(paragraph.styleId);
+    return style ? style.headingLevel : headingLevelFromName(paragraph.styleId);
+  };
+
+  // Markdown table cells only hold inline text, so headings and lists are
+  // only rendered in the body
+  const renderParagraph = (paragraph: Paragraph): string => {
+    if (format === 'text') return paragraph.text;
+    const text = escapeMarkdown(paragraph.text.trim()).replace(/\n/g, '  \n');
+    if (!text || tables.length > 0) return text;
+    const list = listOf(paragraph);
+    const level = headingLevel(paragraph);
+    if (level !== null && !list) return `${'#'.repeat(level)} ${text}`;
+    if (!list) return text;
+
+    const { numId, level: listLevel } = list;
+    const counters = listCounters.get(numId) || [];
+    counters[listLevel] = (counters[listLevel] || 0) + 1;
+    counters.length = listLevel + 1;
+    listCounters.set(numId, counters);
+    const listFormat = listFormats.get(`${numId}:${listLevel}`) || 'bullet';
+    const marker = listFormat === 'bullet' || listFormat === 'none' ? '-' : `${counters[listLevel]}.`;
+    return `${LIST_INDENT.repeat(listLevel)}${marker} ${text.replace(/\n/g, `\n${LIST_INDENT.repeat(listLevel + 1)}`)}`;
+  };
+
+  // Paragraphs and tables land in the innermost open table cell, or the body
+  const emit = (lines: string[], listItem = false) => {
+    const table = tables[tables.length - 1];
+    if (table?.cell) table.cell.push(...lines);
+    else if (table) table.rows.push(lines);
+    else blocks.push(...lines.map(text => ({ text, listItem })));
+  };
+
+  const emitParagraph = (paragraph: Paragraph) => {
+    emit([renderParagraph(paragraph)], listOf(paragraph) !== null);
+  };
+
+  const append = (text: string) => {
+    const paragraph = paragraphs[paragraphs.length - 1];
+    if (paragraph) paragraph.text += text;
+  };
+
+  for (const token of tokenizeXml(xml)) {
+    if (hidden) {
+      if (token.type === 'start' && token.name === hidden) hiddenDepth++;
+      if (token.type === 'end' && token.name === hidden && --hiddenDepth === 0) hidden = null;
+      continue;
+    }
+
+    if (token.type === 'text' || token.type === 'cdata') {
+      if (!inText) continue;
+      const raw = xml.slice(token.start, token.end);
+      append(token.type === 'cdata' ? raw.slice(9, -3) : decodeXmlEntities(raw));
+      continue;
+    }
+
+    const opening = token.type === 'start' || token.type === 'empty';
+    if (token.type === 'start' && HIDDEN_ELEMENTS.has(token.name)) {
+      hidden = token.name;
+      hiddenDepth = 1;
+      continue;
+    }
+
+    switch (token.name) {
+      case 'w:p':
+        if (opening) paragraphs.push({ text: '', styleId: null, outlineLevel: null, list: null });
+        if (token.type !== 'start') {
+          const paragraph = paragraphs.pop();
+          if (paragraph) emitParagraph(paragraph);
+        }
+        break;
+      case 'w:pPr':
+        paragraphProperties = token.type === 'start';
+        break;
+      case 'w:pStyle':
+      case 'w:outlineLvl':
+      case 'w:ilvl':
+      case 'w:numId': {
+        const paragraph = paragraphs[paragraphs.length - 1];
+        const value = readAttributes(token.attributes).get('w:val');
+        if (!paragraph || !paragraphProperties || !opening || value === undefined) break;
+        if (token.name === 'w:pStyle') paragraph.styleId = value;
+        else if (token.name === 'w:outlineLvl') paragraph.outlineLevel = Number(value);
+        else if (token.name === 'w:ilvl') paragraph.list = { numId: paragraph.list?.numId ?? '', level: Number(value) || 0 };
+        else paragraph.list = { numId: value, level: paragraph.list?.level ?? 0 };
+        break;
+      }
+      case 'w:r':
+        if (token.type === 'start') inRun++;
+        if (token.type === 'end') inRun = Math.max(0, inRun - 1);
+        break;
+      case 'w:t':
+        inText = token.type === 'start';
+        break;
+      case 'w:tab':
+      case 'w:ptab':
+        // In paragraph properties this is a tab stop definition
+        if (opening && inRun > 0 && !paragraphProperties) append('\t');
+        break;
+      case 'w:br':
+      case 'w:cr':
+        if (opening) append('\n');
+        break;
+      case 'w:noBreakHyphen':
+        if (opening) append('-');
+        break;
+      case 'w:tbl':
+        if (token.type === 'start') tables.push({ rows: [], cell: null });
+        if (token.type === 'end') {
+          const table = tables.pop();
+          if (table && table.rows.length > 0) emit([renderTable(table.rows, tables.length > 0 ? 'text' : format)]);
+        }
+        break;
+      case 'w:tr': {
+        const table = tables[tables.length - 1];
+        if (table && token.type === 'start') table.rows.push([]);
+        break;
+      }
+      case 'w:tc': {
+        const table = tables[tables.length - 1];
+        if (!table) break;
+        if (token.type === 'start') table.cell = [];
+        if (token.type === 'end' && table.cell) {
+          if (table.rows.length === 0) table.rows.push([]);
+          table.rows[table.rows.length - 1].push(table.cell.filter(Boolean).join(format === 'text' ? ' ' : '<br>'));
+          table.cell = null;
+        }
+        break;
+      }
+    }
+  }
+
+  // A part cut short can leave a paragraph open
+  while (paragraphs.length > 0) emitParagraph(paragraphs.pop()!);
+
+  if (format === 'text') return blocks.map(block => block.text).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+  // Items of one list are kept together so it stays a tight list
+  let markdown = '';
+  let previous: (typeof blocks)[number] | null = null;
+  for (const block of blocks.filter(block => block.text.trim())) {
+    if (previous) markdown += previous.listItem && block.listItem ? '\n' : '\n\n';
+    markdown += block.text;
+    previous = block;
+  }
+  return markdown;
+}
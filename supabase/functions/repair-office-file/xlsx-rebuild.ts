@@ -0,0 +1,229 @@
+// XLSX rebuilding from the worksheets that survived.
+//
+// Shared strings are resolved into the cells so each sheet stands on its
+// own, and the workbook is regenerated to list only the recovered sheets.
+
+import { ignoreProgress, type ProgressReporter } from "./progress.ts";
+import { getXmlAttribute, unescapeXml } from "./xml-text.ts";
+import { findLocalHeaderNames, recoverPartXML, salvagePart } from "./package-parts.ts";
+import { buildRelationshipsXml, collectPackageParts, createRepairLog, logIssue, logPartAction, logRegenerated, MAIN_PARTS, type PackageRelationship, parseRelationships, type RebuiltPackage, RELATIONSHIP_NS, relsPathFor, type RepairLog, resolvePartTarget, writePackage } from "./ooxml-package.ts";
+import { extractTextFromExcelXml } from "./text-extract.ts";
+
+export interface WorkbookSheet {
+  name: string;
+  state: string | null;
+  partName: string | null;
+}
+
+// Read sheet names and their parts from whatever survived of the workbook
+function readWorkbookSheets(buffer: Uint8Array, workbookXml: string | null, log: RepairLog): WorkbookSheet[] {
+  const sheets: WorkbookSheet[] = [];
+
+  if (workbookXml) {
+    const rels = salvagePart(buffer, relsPathFor(MAIN_PARTS.xlsx));
+    const targets = new Map<string, PackageRelationship>();
+    if (rels?.complete) {
+      for (const rel of parseRelationships(new TextDecoder().decode(rels.data))) {
+        targets.set(rel.id, rel);
+      }
+    } else {
+      logIssue(log, 'Workbook relationships were lost; matching sheets by position', relsPathFor(MAIN_PARTS.xlsx));
+    }
+
+    for (const match of workbookXml.matchAll(/<sheet\b([^>]*?)\/?>/g)) {
+      const name = getXmlAttribute(match[1], 'name');
+      if (!name) continue;
+      const rel = targets.get(getXmlAttribute(match[1], 'r:id') || '');
+      let partName: string | null = null;
+      if (rel) {
+        partName = rel.type.endsWith('/worksheet') ? resolvePartTarget(MAIN_PARTS.xlsx, rel.target) : null;
+      } else if (!rels?.complete) {
+        partName = `xl/worksheets/sheet${sheets.length + 1}.xml`;
+      }
+      sheets.push({ name, state: getXmlAttribute(match[1], 'state'), partName });
+    }
+  }
+
+  if (sheets.length === 0) {
+    // No usable workbook: take every worksheet that has a local header
+    for (const partName of findLocalHeaderNames(buffer, /^xl\/worksheets\/sheet\d+\.xml$/)) {
+      sheets.push({ name: `Sheet${sheets.length + 1}`, state: null, partName });
+    }
+  }
+
+  return sheets;
+}
+
+// Collect the text of every <si> item; rich-text runs are concatenated and
+// phonetic hints dropped. Values stay XML-escaped for re-embedding.
+function parseSharedStrings(xml: string): string[] {
+  const strings: string[] = [];
+  for (const item of xml.matchAll(/<si>([\s\S]*?)<\/si>/g)) {
+    const content = item[1].replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+    let text = '';
+    for (const run of content.matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g)) {
+      text += run[1];
+    }
+    strings.push(text);
+  }
+  return strings;
+}
+
+// Replace shared-string references with inline strings so every sheet is
+// self-contained; cells pointing at lost strings are emptied.
+function inlineSharedStrings(
+  sheetXml: string,
+  sharedStrings: string[],
+  keepStyles: boolean
+): { xml: string; cells: number; unresolved: number } {
+  let cells = 0;
+  let unresolved = 0;
+
+  const xml = sheetXml.replace(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g, (cell, attributes: string, inner?: string) => {
+    cells++;
+    let attrs = keepStyles ? attributes : attributes.replace(/\ss="\d+"/, '');
+    if (getXmlAttribute(attributes, 't') !== 's') {
+      return keepStyles ? cell : cell.replace(attributes, attrs);
+    }
+
+    const index = Number(inner?.match(/<v>\s*(\d+)\s*<\/v>/)?.[1]);
+    const text = Number.isInteger(index) ? sharedStrings[index] : undefined;
+    if (text === undefined) {
+      unresolved++;
+      return `<c${attrs.replace(/\st="s"/, '')}/>`;
+    }
+    attrs = attrs.replace(/\st="s"/, ' t="inlineStr"');
+    return `<c${attrs}><is><t xml:space="preserve">${text}</t></is></c>`;
+  });
+
+  return {
+    xml: keepStyles ? xml : xml.replace(/(<row\b[^>]*?)\ss="\d+"/g, '$1').replace(/\scustomFormat="(?:1|true)"/g, ''),
+    cells,
+    unresolved,
+  };
+}
+
+export function buildWorkbookXml(sheets: WorkbookSheet[], workbookPr: string | null): string {
+  const items = sheets.map((sheet, index) =>
+    `<sheet name="${sheet.name}" sheetId="${index + 1}"` +
+    (sheet.state ? ` state="${sheet.state}"` : '') +
+    ` r:id="rIdSheet${index + 1}"/>`
+  );
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">${workbookPr || ''}<sheets>${items.join('')}</sheets></workbook>`;
+}
+
+// Rebuild an XLSX from the recoverable worksheets, resolving shared strings
+// into the cells and regenerating the workbook around the survivors.
+export async function rebuildXlsxPackage(data: Uint8Array, progress: ProgressReporter = ignoreProgress): Promise<RebuiltPackage | null> {
+  progress('inflating');
+  const encoder = new TextEncoder();
+  const log = createRepairLog();
+  const parts = new Map<string, Uint8Array>();
+
+  let workbookXml: string | null = null;
+  try {
+    const workbook = await recoverPartXML(data, MAIN_PARTS.xlsx);
+    workbookXml = workbook.xml;
+    if (workbook.truncated) logIssue(log, `${MAIN_PARTS.xlsx} was truncated; using the sheets listed before the damage`, MAIN_PARTS.xlsx);
+  } catch (e) {
+    logRegenerated(log, `Regenerated missing ${MAIN_PARTS.xlsx}: ${e.message}`, MAIN_PARTS.xlsx);
+  }
+
+  let sharedStrings: string[] = [];
+  let sharedStringsFound = false;
+  try {
+    const shared = await recoverPartXML(data, 'xl/sharedStrings.xml');
+    sharedStrings = parseSharedStrings(shared.xml);
+    if (shared.truncated) logIssue(log, `xl/sharedStrings.xml was truncated; recovered ${sharedStrings.length} strings`, 'xl/sharedStrings.xml');
+    logPartAction(log, 'xl/sharedStrings.xml', 'Inlined into the worksheet cells');
+    log.mergedParts.add('xl/sharedStrings.xml');
+    sharedStringsFound = true;
+  } catch (_) {
+    // Workbooks without text cells have no shared strings part
+  }
+
+  const workbookRels: PackageRelationship[] = [];
+  for (const [target, type] of [['styles.xml', 'styles'], ['theme/theme1.xml', 'theme']]) {
+    const part = salvagePart(data, resolvePartTarget(MAIN_PARTS.xlsx, target));
+    if (part?.complete) {
+      parts.set(part.name, part.data);
+      workbookRels.push({ id: `rId${type}`, type: `${RELATIONSHIP_NS}/${type}`, target, external: false });
+    } else if (part) {
+      logIssue(log, `Dropped truncated part ${part.name}`, part.name);
+    }
+  }
+  const keepStyles = parts.has('xl/styles.xml');
+  if (!keepStyles) logIssue(log, 'Cell styles were lost; cells are written with default formatting', 'xl/styles.xml');
+
+  const recoveredSheets: WorkbookSheet[] = [];
+  const sheetTexts: string[] = [];
+  let contentLost = false;
+  let stringsLost = false;
+  const sheets = readWorkbookSheets(data, workbookXml, log);
+
+  for (const [position, sheet] of sheets.entries()) {
+    progress('inflating', position / sheets.length);
+    if (!sheet.partName) {
+      logIssue(log, `Dropped sheet '${sheet.name}': only worksheets can be recovered`);
+      continue;
+    }
+    let sheetXml: string;
+    try {
+      const recovered = await recoverPartXML(data, sheet.partName);
+      sheetXml = recovered.xml;
+      contentLost = contentLost || recovered.truncated;
+      if (recovered.gaps > 0) {
+        logIssue(log, `Worksheet '${sheet.name}' had ${recovered.gaps} damaged region(s); recovered ${recovered.resumedRecords} row(s) after the damage`, sheet.partName);
+      } else if (recovered.truncated) {
+        logIssue(log, `Worksheet '${sheet.name}' was truncated; kept rows up to the damaged point`, sheet.partName);
+      }
+    } catch (e) {
+      logIssue(log, `Dropped worksheet '${sheet.name}' (${sheet.partName}): ${e.message}`, sheet.partName);
+      continue;
+    }
+
+    const { xml, cells, unresolved } = inlineSharedStrings(sheetXml, sharedStrings, keepStyles);
+    contentLost = contentLost || unresolved > 0;
+    if (unresolved > 0) {
+      logIssue(log, `Worksheet '${sheet.name}': ${unresolved} cells referenced lost shared strings`, sheet.partName);
+      log.contentLoss.set(sheet.partName, unresolved / cells);
+      stringsLost = true;
+    }
+
+    const index = recoveredSheets.length + 1;
+    const target = sheet.partName.startsWith('xl/') ? sheet.partName.slice('xl/'.length) : `/${sheet.partName}`;
+    parts.set(sheet.partName, encoder.encode(xml));
+    workbookRels.push({ id: `rIdSheet${index}`, type: `${RELATIONSHIP_NS}/worksheet`, target, external: false });
+    recoveredSheets.push(sheet);
+    sheetTexts.push(extractTextFromExcelXml(xml));
+  }
+
+  if (stringsLost && !sharedStringsFound) {
+    logIssue(log, 'The shared strings part was lost; text cells were left empty', 'xl/sharedStrings.xml');
+  }
+
+  if (recoveredSheets.length === 0) {
+    console.log('No worksheets could be recovered');
+    return null;
+  }
+
+  const workbookPr = workbookXml?.match(/<workbookPr\b[^>]*\/>/)?.[0] || null;
+  parts.set(MAIN_PARTS.xlsx, encoder.encode(buildWorkbookXml(recoveredSheets, workbookPr)));
+  parts.set(relsPathFor(MAIN_PARTS.xlsx), encoder.encode(buildRelationshipsXml(workbookRels)));
+  collectPackageParts(data, 'xlsx', parts, log, progress);
+
+  const packageData = await writePackage(data, parts, log, progress);
+  console.log(`Rebuilt XLSX with ${recoveredSheets.length} of ${sheets.length} sheets (${packageData.length} bytes)`);
+
+  return {
+    data: packageData,
+    parts,
+    ...log,
+    preview: {
+      content: sheetTexts.join('\n'),
+      extractedSheets: recoveredSheets.map(sheet => unescapeXml(sheet.name)),
+    },
+    mainPartTruncated: contentLost || recoveredSheets.length < sheets.length,
+  };
+}
@@ -0,0 +1,328 @@
+// Tolerant XML tokenizer and schema-aware closing of truncated OOXML parts.
+//
+// A part cut off mid-stream is walked token by token while the open-element
+// stack is tracked. The half-written trailing construct is dropped, elements
+// that cannot be closed meaningfully (a table row, a drawing, a cell) are
+// removed, and every remaining ancestor is closed in order, adding whatever
+// trailing structure WordprocessingML, SpreadsheetML or PresentationML
+// requires before the closing tag.
+
+const WORDPROCESSINGML = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const SPREADSHEETML = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const PRESENTATIONML = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const MARKUP_COMPATIBILITY = 'http://schemas.openxmlformats.org/markup-compatibility/2006';
+
+export type XmlTokenType =
+  | 'start'
+  | 'end'
+  | 'empty'
+  | 'text'
+  | 'comment'
+  | 'cdata'
+  | 'declaration'
+  // A construct cut off by the end of the input
+  | 'incomplete'
+  // Markup that cannot be part of a well-formed document
+  | 'invalid';
+
+export interface XmlToken {
+  type: XmlTokenType;
+  start: number;
+  end: number;
+  // Qualified name of start, end and empty-element tags
+  name: string;
+  // Raw attribute text of start and empty-element tags
+  attributes: string;
+}
+
+export interface XmlRepairResult {
+  xml: string;
+  // True when anything had to be cut, dropped or closed
+  repaired: boolean;
+  // Half-written elements that were removed rather than closed
+  dropped: string[];
+}
+
+interface ElementRule {
+  // Rewind to the start tag instead of closing a half-written element
+  dropIfOpen?: boolean;
+  // Drop the element unless a complete child of this name survived
+  dropWithout?: string;
+  // Appended before the closing tag unless the last complete child has this name
+  finalChild?: { name: string; markup: (prefix: string) => string };
+  // Appended before the closing tag when no complete child has this name
+  requiredChild?: { name: string; markup: (prefix: string) => string };
+}
+
+interface OpenElement {
+  name: string;
+  prefix: string;
+  key: string;
+  start: number;
+  namespaces: Record<string, string>;
+  // Keys of the complete children, in document order
+  children: string[];
+}
+
+const NAME_PATTERN = /[\p{L}_][\p{L}\p{N}_:.-]*/uy;
+const DELIMITED_CONSTRUCTS: Array<[string, string, XmlTokenType]> = [
+  ['<!--', '-->', 'comment'],
+  ['<![CDATA[', ']]>', 'cdata'],
+  ['<?', '?>', 'declaration'],
+  ['<!', '>', 'declaration'],
+];
+const NAMESPACE_DECLARATION = /\bxmlns(?::([\w.-]+))?\s*=\s*(["'])(.*?)\2/g;
+
+function qualify(namespace: string, localName: string): string {
+  return `{${namespace}}${localName}`;
+}
+
+const wordParagraph = { name: qualify(WORDPROCESSINGML, 'p'), markup: (p: string) => `<${p}p/>` };
+
+const emptyShapeTree = (p: string) =>
+  `<${p}spTree><${p}nvGrpSpPr><${p}cNvPr id="1" name=""/><${p}cNvGrpSpPr/><${p}nvPr/></${p}nvGrpSpPr><${p}grpSpPr/></${p}spTree>`;
+
+const ELEMENT_RULES: Record<string, ElementRule> = {
+  // WordprocessingML: Word rejects a body without its trailing section
+  // properties, cells and story parts that do not end in a paragraph, and
+  // tables or rows that lost their cells.
+  [qualify(WORDPROCESSINGML, 'body')]: {
+    finalChild: {
+      name: qualify(WORDPROCESSINGML, 'sectPr'),
+      markup: p =>
+        `<${p}sectPr><${p}pgSz ${p}w="12240" ${p}h="15840"/>` +
+        `<${p}pgMar ${p}top="1440" ${p}right="1440" ${p}bottom="1440" ${p}left="1440" ${p}header="720" ${p}footer="720" ${p}gutter="0"/></${p}sectPr>`,
+    },
+  },
+  [qualify(WORDPROCESSINGML, 'sectPr')]: { dropIfOpen: true },
+  [qualify(WORDPROCESSINGML, 'tbl')]: { dropWithout: qualify(WORDPROCESSINGML, 'tr') },
+  [qualify(WORDPROCESSINGML, 'tr')]: { dropIfOpen: true },
+  [qualify(WORDPROCESSINGML, 'tc')]: { finalChild: wordParagraph },
+  [qualify(WORDPROCESSINGML, 'txbxContent')]: { finalChild: wordParagraph },
+  [qualify(WORDPROCESSINGML, 'hdr')]: { finalChild: wordParagraph },
+  [qualify(WORDPROCESSINGML, 'ftr')]: { finalChild: wordParagraph },
+  [qualify(WORDPROCESSINGML, 'footnote')]: { finalChild: wordParagraph },
+  [qualify(WORDPROCESSINGML, 'endnote')]: { finalChild: wordParagraph },
+  [qualify(WORDPROCESSINGML, 'comment')]: { finalChild: wordParagraph },
+  [qualify(WORDPROCESSINGML, 'drawing')]: { dropIfOpen: true },
+  [qualify(WORDPROCESSINGML, 'pict')]: { dropIfOpen: true },
+  [qualify(WORDPROCESSINGML, 'object')]: { dropIfOpen: true },
+
+  // SpreadsheetML: a worksheet needs sheetData, and a cell cut inside its
+  // value or formula would carry a wrong number.
+  [qualify(SPREADSHEETML, 'worksheet')]: {
+    requiredChild: { name: qualify(SPREADSHEETML, 'sheetData'), markup: p => `<${p}sheetData/>` },
+  },
+  [qualify(SPREADSHEETML, 'c')]: { dropIfOpen: true },
+
+  // PresentationML: slides need a shape tree, and a shape missing its
+  // properties or text body stops the slide from loading.
+  [qualify(PRESENTATIONML, 'sld')]: {
+    requiredChild: { name: qualify(PRESENTATIONML, 'cSld'), markup: p => `<${p}cSld>${emptyShapeTree(p)}</${p}cSld>` },
+  },
+  [qualify(PRESENTATIONML, 'sldLayout')]: {
+    requiredChild: { name: qualify(PRESENTATIONML, 'cSld'), markup: p => `<${p}cSld>${emptyShapeTree(p)}</${p}cSld>` },
+  },
+  [qualify(PRESENTATIONML, 'cSld')]: {
+    requiredChild: { name: qualify(PRESENTATIONML, 'spTree'), markup: emptyShapeTree },
+  },
+  [qualify(PRESENTATIONML, 'sp')]: { dropIfOpen: true },
+  [qualify(PRESENTATIONML, 'pic')]: { dropIfOpen: true },
+  [qualify(PRESENTATIONML, 'graphicFrame')]: { dropIfOpen: true },
+  [qualify(PRESENTATIONML, 'grpSp')]: { dropIfOpen: true },
+  [qualify(PRESENTATIONML, 'cxnSp')]: { dropIfOpen: true },
+  [qualify(PRESENTATIONML, 'contentPart')]: { dropIfOpen: true },
+
+  // Choice and Fallback branches have to stay consistent with each other
+  [qualify(MARKUP_COMPATIBILITY, 'AlternateContent')]: { dropIfOpen: true },
+};
+
+function token(type: XmlTokenType, start: number, end: number, name = '', attributes = ''): XmlToken {
+  return { type, start, end, name, attributes };
+}
+
+// Split XML into tokens without ever throwing. Tokenizing stops after an
+// `incomplete` or `invalid` token.
+export function* tokenizeXml(text: string, from = 0): Generator<XmlToken> {
+  let pos = from;
+  while (pos < text.length) {
+    const open = text.indexOf('<', pos);
+    if (open !== pos) {
+      const end = open === -1 ? text.length : open;
+      yield token('text', pos, end);
+      if (open === -1) return;
+      pos = open;
+    }
+
+    const construct = DELIMITED_CONSTRUCTS.find(([opener]) => text.startsWith(opener, pos));
+    if (construct) {
+      const close = text.indexOf(construct[1], pos + construct[0].length);
+      if (close === -1) {
+        yield token('incomplete', pos, text.length);
+        return;
+      }
+      yield token(construct[2], pos, close + construct[1].length);
+      pos = close + construct[1].length;
+      continue;
+    }
+
+    const closing = text[pos + 1] === '/';
+    const nameStart = pos + (closing ? 2 : 1);
+    NAME_PATTERN.lastIndex = nameStart;
+    const nameMatch = NAME_PATTERN.exec(text);
+    if (!nameMatch) {
+      yield token(nameStart >= text.length ? 'incomplete' : 'invalid', pos, text.length);
+      return;
+    }
+
+    // Attribute values may contain '>', so quotes are tracked
+    let quote = '';
+    let i = nameStart + nameMatch[0].length;
+    for (; i < text.length; i++) {
+      const ch = text[i];
+      if (quote) {
+        if (ch === quote) quote = '';
+      } else if (ch === '"' || ch === "'") {
+        quote = ch;
+      } else if (ch === '>') {
+        break;
+      } else if (ch === '<') {
+        yield token('invalid', pos, text.length);
+        return;
+      }
+    }
+    if (i >= text.length) {
+      yield token('incomplete', pos, text.length);
+      return;
+    }
+
+    const selfClosing = !closing && text[i - 1] === '/';
+    const attributes = text.slice(nameStart + nameMatch[0].length, selfClosing ? i - 1 : i);
+    if (closing && attributes.trim()) {
+      yield token('invalid', pos, text.length);
+      return;
+    }
+    yield token(closing ? 'end' : selfClosing ? 'empty' : 'start', pos, i + 1, nameMatch[0], attributes);
+    pos = i + 1;
+  }
+}
+
+// Offset of the first control character, stray markup or mismatched end tag,
+// which is where damage shows up in otherwise readable XML. Returns -1 when
+// the text is sound, allowing for it simply being cut short.
+export function findMalformedOffset(text: string): number {
+  let end = text.length;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d) {
+      end = i;
+      break;
+    }
+  }
+
+  const stack: string[] = [];
+  for (const tok of tokenizeXml(text.slice(0, end))) {
+    if (tok.type === 'invalid') return tok.start;
+    if (tok.type === 'start') stack.push(tok.name);
+    if (tok.type === 'end' && stack.pop() !== tok.name) return tok.start;
+  }
+  return end < text.length ? end : -1;
+}
+
+function resolveElement(
+  name: string,
+  attributes: string,
+  inherited: Record<string, string>
+): { prefix: string; key: string; namespaces: Record<string, string> } {
+  let namespaces = inherited;
+  for (const declaration of attributes.matchAll(NAMESPACE_DECLARATION)) {
+    if (namespaces === inherited) namespaces = { ...inherited };
+    namespaces[declaration[1] ?? ''] = declaration[3];
+  }
+  const colon = name.indexOf(':');
+  const prefix = colon === -1 ? '' : name.slice(0, colon);
+  const localName = colon === -1 ? name : name.slice(colon + 1);
+  return { prefix: colon === -1 ? '' : `${prefix}:`, key: qualify(namespaces[prefix] ?? '', localName), namespaces };
+}
+
+// Cut an XML part back to its last sound point and close every element that
+// is still open, following the OOXML closing rules above.
+export function closeTruncatedXml(text: string): XmlRepairResult {
+  const stack: OpenElement[] = [];
+  let cut = text.length;
+  let rootEnd = -1;
+  let lastToken: XmlToken | null = null;
+
+  for (const tok of tokenizeXml(text)) {
+    if (tok.type === 'incomplete' || tok.type === 'invalid') {
+      cut = tok.start;
+      break;
+    }
+    const parent = stack[stack.length - 1];
+    if (tok.type === 'end') {
+      if (!parent || parent.name !== tok.name) {
+        cut = tok.start;
+        break;
+      }
+      stack.pop();
+      stack[stack.length - 1]?.children.push(parent.key);
+      if (stack.length === 0) {
+        rootEnd = tok.end;
+        break;
+      }
+    } else if (tok.type === 'start' || tok.type === 'empty') {
+      const element = resolveElement(tok.name, tok.attributes, parent?.namespaces ?? {});
+      if (tok.type === 'empty') {
+        parent?.children.push(element.key);
+        if (!parent) {
+          rootEnd = tok.end;
+          break;
+        }
+      } else {
+        stack.push({ name: tok.name, start: tok.start, children: [], ...element });
+      }
+    }
+    lastToken = tok;
+  }
+
+  if (rootEnd !== -1) {
+    return { xml: text.slice(0, rootEnd), repaired: false, dropped: [] };
+  }
+  if (stack.length === 0) {
+    // The root element never started, so there is nothing to close
+    return { xml: text.slice(0, cut), repaired: cut < text.length, dropped: [] };
+  }
+
+  let xml = text.slice(0, cut);
+  // Trailing text may end in half an entity or half a UTF-8 sequence
+  if (lastToken?.type === 'text' && lastToken.end === cut) {
+    xml = xml.replace(/&[^;<>]*$/, '').replace(/\uFFFD+$/, '');
+  }
+
+  // Remove the outermost element that cannot be closed as it stands
+  const dropped: string[] = [];
+  const dropAt = stack.findIndex(element => {
+    const rule = ELEMENT_RULES[element.key];
+    return rule?.dropIfOpen || (rule?.dropWithout && !element.children.includes(rule.dropWithout));
+  });
+  if (dropAt > 0) {
+    xml = xml.slice(0, stack[dropAt].start);
+    dropped.push(...stack.slice(dropAt).map(element => element.name));
+    stack.length = dropAt;
+  }
+
+  for (let i = stack.length - 1; i >= 0; i--) {
+    const element = stack[i];
+    const rule = ELEMENT_RULES[element.key];
+    if (rule?.finalChild && element.children[element.children.length - 1] !== rule.finalChild.name) {
+      xml += rule.finalChild.markup(element.prefix);
+    }
+    if (rule?.requiredChild && !element.children.includes(rule.requiredChild.name)) {
+      xml += rule.requiredChild.markup(element.prefix);
+    }
+    xml += `</${element.name}>`;
+    stack[i - 1]?.children.push(element.key);
+  }
+
+  return { xml, repaired: true, dropped };
+}
@@ -0,0 +1,89 @@
+import JSZip from "jszip";
+import { readFileSync } from "node:fs";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { findZipEntry } from "./package-parts.ts";
+import { repairDocument } from "./repair-core.ts";
+import { buildTestZip, testRepairInput, truncateBytes } from "./test-packages.ts";
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+async function repairZip(data: Uint8Array) {
+  const { result, output } = await repairDocument(testRepairInput('files.zip', data));
+  const zip = output ? await JSZip.loadAsync(output) : null;
+  const report = await zip?.file('RECOVERY_REPORT.txt')?.async('string');
+  return { result, zip, report };
+}
+
+describe('rebuildZipArchive', () => {
+  it('returns a whole archive as it was, with no report', async () => {
+    const data = await buildTestZip();
+    const { result, zip, report } = await repairZip(data);
+
+    expect(result).toMatchObject({ success: true, status: 'success', fileName: 'files_recovered.zip' });
+    expect(result.report!.score).toBe(100);
+    expect(Object.keys(zip!.files)).toEqual(['README.txt', 'notes/minutes.txt', 'data/sales.csv', 'photos/photo1.png', 'photos/photo2.png']);
+    expect(report).toBeUndefined();
+  });
+
+  it('keeps the entries before the cut whole and the cut one as a partial file', async () => {
+    const original = await JSZip.loadAsync(await buildTestZip());
+    const { result, zip, report } = await repairZip(truncateBytes(await buildTestZip(), 0.7));
+    const parts = new Map(result.report!.parts.map(part => [part.name, part]));
+
+    expect(result.status).toBe('partial');
+    expect(result.report!.score).toBeLessThan(100);
+    expect(await zip!.file('data/sales.csv')!.async('string')).toBe(await original.file('data/sales.csv')!.async('string'));
+    expect(parts.get('photos/photo2.png')).toMatchObject({ inOutput: true, damage: 'truncated' });
+    expect(report).toContain('Central directory: missing');
+    expect(report).toMatch(/photos\/photo2\.png - \d+ of 4908 bytes \(truncated\)/);
+  });
+
+  it('never scores an archive cut short as whole', async () => {
+    const data = await buildTestZip();
+    for (const share of [0.9, 0.6, 0.3]) {
+      const { result, report } = await repairZip(truncateBytes(data, share));
+
+      expect(result.status).toBe('partial');
+      expect(result.report!.score).toBeLessThan(100);
+      // Nothing is left to say what followed the cut
+      expect(report).toContain('cannot be listed');
+    }
+  });
+
+  it('reports an entry damaged in the middle as damaged, not cut short', async () => {
+    const data = await buildTestZip();
+    data[findZipEntry(data, 'notes/minutes.txt')!.dataStart + 100] ^= 0xff;
+    const { result, report } = await repairZip(data);
+    const minutes = result.report!.parts.find(part => part.name === 'notes/minutes.txt');
+
+    expect(result.status).toBe('partial');
+    expect(minutes).toMatchObject({ inOutput: true, crc: 'mismatch', damage: 'corrupt' });
+    expect(report).toContain('Central directory: intact');
+    expect(report).toContain('notes/minutes.txt');
+    expect(report).toContain('damaged, kept the data before the damaged point');
+  });
+
+  it('lists entries whose data is gone as lost', async () => {
+    const data = await buildTestZip();
+    data.fill(0, 0, findZipEntry(data, 'data/sales.csv')!.localHeaderOffset!);
+    const { result, zip, report } = await repairZip(data);
+
+    expect(result.status).toBe('partial');
+    expect(zip!.file('README.txt')).toBeNull();
+    expect(result.report!.parts.find(part => part.name === 'README.txt')).toMatchObject({ inOutput: false, damage: 'missing' });
+    expect(report).toContain('Lost: 2');
+  });
+
+  it('repairs the cut and damaged sample archive', async () => {
+    const data = new Uint8Array(readFileSync(new URL('../../../public/test-files/damaged-archive.zip', import.meta.url)));
+    const { result, zip, report } = await repairZip(data);
+
+    expect(result.status).toBe('partial');
+    expect(result.report!.score).toBeGreaterThan(50);
+    expect(result.report!.score).toBeLessThan(100);
+    expect(zip!.file('notes/minutes.txt')).not.toBeNull();
+    expect(report).toContain('Recovered partially: 2');
+  });
+});
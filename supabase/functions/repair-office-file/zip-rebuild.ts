@@ -0,0 +1,147 @@
+// Generic ZIP archive rebuilding.
+//
+// Every entry that still has data is kept, damaged and truncated ones as
+// partial files, and what could not be recovered is listed in a report added
+// to the archive.
+
+import JSZip from "jszip";
+import { getManifestEntry, type ZipManifest } from "./zip-salvage.ts";
+import { ignoreProgress, type ProgressReporter } from "./progress.ts";
+import { getZipManifest, readEntryBytes } from "./package-parts.ts";
+import { createRepairLog, logPartAction, type RebuiltPackage } from "./ooxml-package.ts";
+
+const ZIP_REPORT_NAME = 'RECOVERY_REPORT.txt';
+
+const FLAG_ENCRYPTED = 0x0001;
+
+interface SalvagedEntry {
+  name: string;
+  state: 'intact' | 'partial' | 'lost';
+  detail: string;
+}
+
+function buildZipRecoveryReport(manifest: ZipManifest, entries: SalvagedEntry[]): string {
+  const partial = entries.filter(entry => entry.state === 'partial');
+  const lost = entries.filter(entry => entry.state === 'lost');
+  const lines = [
+    'ZIP recovery report',
+    '',
+    `Entries found: ${entries.length}`,
+    `Recovered intact: ${entries.length - partial.length - lost.length}`,
+    `Recovered partially: ${partial.length}`,
+    `Lost: ${lost.length}`,
+    `Central directory: ${manifest.centralDirectory}`,
+  ];
+  if (manifest.centralDirectory === 'missing') {
+    lines.push('Entries stored after the point the file was cut off, if there were any, cannot be listed.');
+  }
+  if (partial.length > 0) {
+    lines.push('', 'Partially recovered (included as partial files):');
+    lines.push(...partial.map(entry => `  ${entry.name} - ${entry.detail}`));
+  }
+  if (lost.length > 0) {
+    lines.push('', 'Lost (not included):');
+    lines.push(...lost.map(entry => `  ${entry.name} - ${entry.detail}`));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+// Rebuild a generic ZIP archive from every entry that still has data, keeping
+// truncated entries as partial files and listing losses in a report.
+export async function rebuildZipArchive(data: Uint8Array, progress: ProgressReporter = ignoreProgress): Promise<RebuiltPackage | null> {
+  const manifest = getZipManifest(data);
+  if (manifest.entries.length === 0) return null;
+  progress('inflating');
+
+  const log = createRepairLog();
+  const parts = new Map<string, Uint8Array>();
+  const salvaged: SalvagedEntry[] = [];
+  const folders: string[] = [];
+
+  for (const name of new Set(manifest.entries.map(entry => entry.name))) {
+    const entry = getManifestEntry(manifest, name)!;
+    if (name.endsWith('/')) {
+      folders.push(name);
+      continue;
+    }
+    if (entry.state === 'missing') {
+      salvaged.push({ name, state: 'lost', detail: 'listed in the central directory but its data is gone' });
+      continue;
+    }
+    if (entry.flags & FLAG_ENCRYPTED) {
+      salvaged.push({ name, state: 'lost', detail: 'encrypted entries cannot be recovered' });
+      continue;
+    }
+
+    progress('inflating', (salvaged.length + folders.length) / manifest.entries.length);
+    const recovered = readEntryBytes(data, entry);
+    if (!recovered) {
+      const reason = entry.compressionMethod === 0 || entry.compressionMethod === 8
+        ? 'no data could be decompressed'
+        : `unsupported compression method ${entry.compressionMethod}`;
+      salvaged.push({ name, state: 'lost', detail: reason });
+      continue;
+    }
+
+    parts.set(name, recovered.bytes);
+    if (recovered.complete) {
+      salvaged.push({ name, state: 'intact', detail: '' });
+    } else {
+      const expected = entry.uncompressedSize !== null ? ` of ${entry.uncompressedSize}` : '';
+      // An intact entry has all its data, so falling short of it means damage
+      let cause = 'truncated';
+      if (entry.state === 'intact' && recovered.segments.length > 1) {
+        cause = 'damaged, kept the data either side of the damaged point';
+      } else if (entry.state === 'intact' && recovered.bytes.length === entry.uncompressedSize) {
+        cause = 'checksum mismatch, contents may be damaged';
+      } else if (entry.state === 'intact') {
+        cause = 'damaged, kept the data before the damaged point';
+      }
+      salvaged.push({ name, state: 'partial', detail: `${recovered.bytes.length}${expected} bytes (${cause})` });
+    }
+  }
+
+  for (const entry of salvaged) {
+    if (entry.state === 'partial') logPartAction(log, entry.name, `Included as a partial file: ${entry.detail}`);
+    if (entry.state === 'lost') logPartAction(log, entry.name, `Dropped: ${entry.detail}`);
+  }
+  const partial = salvaged.filter(entry => entry.state === 'partial');
+  const lost = salvaged.filter(entry => entry.state === 'lost');
+  if (manifest.centralDirectory !== 'intact') {
+    log.issues.push(`Rebuilt the ${manifest.centralDirectory === 'missing' ? 'missing' : 'damaged'} central directory from local file headers`);
+  }
+  if (partial.length > 0) {
+    log.issues.push(`Included ${partial.length} damaged or truncated entr${partial.length === 1 ? 'y' : 'ies'} as partial files: ${partial.map(entry => entry.name).join(', ')}`);
+  }
+  if (lost.length > 0) {
+    log.issues.push(`Dropped ${lost.length} entr${lost.length === 1 ? 'y' : 'ies'} that could not be recovered: ${lost.map(entry => entry.name).join(', ')}`);
+  }
+
+  progress('packaging');
+  const zip = new JSZip();
+  for (const folder of folders) {
+    zip.folder(folder);
+  }
+  for (const [name, bytes] of parts) {
+    zip.file(name, bytes, { createFolders: false });
+  }
+  if (partial.length > 0 || lost.length > 0) {
+    let reportName = ZIP_REPORT_NAME;
+    for (let n = 2; parts.has(reportName); n++) {
+      reportName = ZIP_REPORT_NAME.replace('.txt', ` (${n}).txt`);
+    }
+    zip.file(reportName, buildZipRecoveryReport(manifest, salvaged));
+    log.issues.push(`Listed what was lost in ${reportName}`);
+  }
+
+  return {
+    data: await zip.generateAsync(
+      { type: 'uint8array', compression: 'DEFLATE' },
+      (metadata: { percent: number }) => progress('packaging', metadata.percent / 100)
+    ),
+    parts,
+    ...log,
+    preview: { recoveredFiles: [...parts.keys()] },
+    mainPartTruncated: partial.length > 0,
+  };
+}
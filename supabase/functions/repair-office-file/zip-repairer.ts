@@ -0,0 +1,20 @@
+// The repairer for plain ZIP archives.
+
+import { failedOutcome } from "./repair-outcome.ts";
+import { diagnosePackage, rebuildPackageOutcome } from "./package-repair.ts";
+import type { Repairer } from "./repairers.ts";
+
+// Plain ZIP archives. Carving text out of compressed archive data only
+// produces noise, so there is nothing to fall back to.
+export const zipRepairer: Repairer = {
+  name: 'zip',
+  detect: fileType => fileType === 'zip',
+  diagnose: ({ data }) => diagnosePackage(data, null),
+  repair: async context => {
+    const rebuilt = await rebuildPackageOutcome(context);
+    if (rebuilt) return rebuilt;
+    console.log('ZIP repair failed - no entries found');
+    return failedOutcome(context, 'no_recoverable_content', ['No ZIP entries could be found; the file does not appear to contain a ZIP archive']);
+  },
+  extractPreview: async () => '',
+};
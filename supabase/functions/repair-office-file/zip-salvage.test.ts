@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { salvageZip } from "./zip-salvage.ts";
+import { findZipEntry, readEntryBytes } from "./package-parts.ts";
+import { buildTestZip, truncateBytes } from "./test-packages.ts";
+
+function entryStates(data: Uint8Array): Record<string, string> {
+  return Object.fromEntries(salvageZip(data).entries.map(entry => [entry.name, entry.state]));
+}
+
+describe('salvageZip', () => {
+  it('reads every entry of a whole archive from its central directory', async () => {
+    const manifest = salvageZip(await buildTestZip());
+
+    expect(manifest.centralDirectory).toBe('intact');
+    expect(manifest.entries.map(entry => entry.state)).toEqual(['intact', 'intact', 'intact', 'intact', 'intact']);
+  });
+
+  it('finds the entries of an archive cut short by their local headers', async () => {
+    const data = truncateBytes(await buildTestZip(), 0.7);
+
+    expect(salvageZip(data).centralDirectory).toBe('missing');
+    expect(entryStates(data)).toEqual({
+      'README.txt': 'intact',
+      'notes/minutes.txt': 'intact',
+      'data/sales.csv': 'intact',
+      'photos/photo1.png': 'intact',
+      'photos/photo2.png': 'truncated',
+    });
+  });
+
+  it('skips bytes in front of the first entry, as a self-extractor has', async () => {
+    const archive = await buildTestZip();
+    const data = new Uint8Array([...new Uint8Array(1000).fill(0x90), ...archive]);
+    const manifest = salvageZip(data);
+
+    expect(manifest.leadingBytes).toBe(1000);
+    expect(manifest.entries.every(entry => entry.state === 'intact')).toBe(true);
+  });
+
+  it('lists entries whose data is gone when only the central directory survived', async () => {
+    const archive = await buildTestZip();
+    // The first entries overwritten, as by a partial copy over the start of the file
+    const data = archive.slice();
+    data.fill(0, 0, 2400);
+    const states = entryStates(data);
+
+    expect(states['README.txt']).toBe('missing');
+    expect(states['notes/minutes.txt']).toBe('missing');
+    expect(states['photos/photo2.png']).toBe('intact');
+  });
+});
+
+describe('readEntryBytes', () => {
+  it('stops at the recorded size when the data inflates past it', async () => {
+    const archive = await buildTestZip();
+    const entry = findZipEntry(archive, 'notes/minutes.txt')!;
+    const recovered = readEntryBytes(archive, { ...entry, uncompressedSize: 1000 })!;
+
+    expect(recovered.complete).toBe(false);
+    expect(recovered.bytes.length).toBe(1000);
+  });
+});
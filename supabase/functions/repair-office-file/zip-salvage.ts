@@ -0,0 +1,423 @@
+// Central-directory-independent ZIP salvage.
+//
+// Enumerates every local file header in a damaged archive, cross-checks the
+// entries against whatever central directory survives (including ZIP64
+// records) and resolves sizes hidden behind data descriptors. The resulting
+// manifest lists every entry that was found, with its intact/truncated/missing
+// state, so format-specific repair paths never have to scan the raw bytes.
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR = 0x07064b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+const UINT16_MAX = 0xffff;
+const UINT32_MAX = 0xffffffff;
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const MAX_FILENAME_LENGTH = 1024;
+
+export type ZipEntryState = 'intact' | 'truncated' | 'missing';
+
+export interface ZipManifestEntry {
+  name: string;
+  state: ZipEntryState;
+  compressionMethod: number;
+  flags: number;
+  crc32: number | null;
+  compressedSize: number | null;
+  uncompressedSize: number | null;
+  // null when the entry is only known from the central directory
+  localHeaderOffset: number | null;
+  dataStart: number;
+  dataLength: number;
+  hasDataDescriptor: boolean;
+  zip64: boolean;
+  inCentralDirectory: boolean;
+}
+
+export interface ZipManifest {
+  entries: ZipManifestEntry[];
+  centralDirectory: 'intact' | 'partial' | 'missing';
+  // Bytes before the first local header, e.g. a self-extractor stub
+  leadingBytes: number;
+}
+
+interface CentralDirectoryRecord {
+  name: string;
+  compressionMethod: number;
+  flags: number;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  zip64: boolean;
+}
+
+interface EndOfCentralDirectory {
+  totalEntries: number;
+  centralDirectoryOffset: number;
+}
+
+function getUint16LE(buffer: Uint8Array, offset: number): number {
+  return buffer[offset] | (buffer[offset + 1] << 8);
+}
+
+function getUint32LE(buffer: Uint8Array, offset: number): number {
+  return (buffer[offset] | (buffer[offset + 1] << 8) | (buffer[offset + 2] << 16) | (buffer[offset + 3] << 24)) >>> 0;
+}
+
+function getUint64LE(buffer: Uint8Array, offset: number): number {
+  return getUint32LE(buffer, offset) + getUint32LE(buffer, offset + 4) * 0x100000000;
+}
+
+function readSignature(buffer: Uint8Array, offset: number): number | null {
+  return offset >= 0 && offset + 4 <= buffer.length ? getUint32LE(buffer, offset) : null;
+}
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = UINT32_MAX;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ UINT32_MAX) >>> 0;
+}
+
+// Names with control characters or invalid UTF-8 are random bytes, not headers
+function decodeFilename(bytes: Uint8Array): string | null {
+  if (bytes.some(byte => byte < 0x20)) return null;
+  const name = new TextDecoder().decode(bytes);
+  return name.includes('\ufffd') ? null : name;
+}
+
+// Walk the extra field blocks and return the body of the ZIP64 block, if any
+function findZip64Extra(buffer: Uint8Array, start: number, length: number): number | null {
+  const end = Math.min(start + length, buffer.length);
+  for (let p = start; p + 4 <= end;) {
+    const id = getUint16LE(buffer, p);
+    const size = getUint16LE(buffer, p + 2);
+    if (id === ZIP64_EXTRA_FIELD && p + 4 + size <= end) return p + 4;
+    p += 4 + size;
+  }
+  return null;
+}
+
+// Locate the data descriptor that follows an entry written in streaming mode.
+// Candidates are only accepted when the sizes they record match their position.
+function findDataDescriptor(
+  buffer: Uint8Array,
+  dataStart: number
+): { crc32: number; compressedSize: number; uncompressedSize: number; length: number; zip64: boolean } | null {
+  for (let p = dataStart; p + 4 <= buffer.length; p++) {
+    const signature = getUint32LE(buffer, p);
+
+    if (signature === DATA_DESCRIPTOR) {
+      const size = p - dataStart;
+      if (p + 16 <= buffer.length && getUint32LE(buffer, p + 8) === size) {
+        return { crc32: getUint32LE(buffer, p + 4), compressedSize: size, uncompressedSize: getUint32LE(buffer, p + 12), length: 16, zip64: false };
+      }
+      if (p + 24 <= buffer.length && getUint64LE(buffer, p + 8) === size) {
+        return { crc32: getUint32LE(buffer, p + 4), compressedSize: size, uncompressedSize: getUint64LE(buffer, p + 16), length: 24, zip64: true };
+      }
+    } else if (signature === LOCAL_FILE_HEADER || signature === CENTRAL_DIRECTORY_HEADER) {
+      // Descriptor written without its optional signature
+      if (p - 12 >= dataStart && getUint32LE(buffer, p - 8) === p - 12 - dataStart) {
+        return { crc32: getUint32LE(buffer, p - 12), compressedSize: p - 12 - dataStart, uncompressedSize: getUint32LE(buffer, p - 4), length: 12, zip64: false };
+      }
+    }
+  }
+  return null;
+}
+
+function readLocalHeader(buffer: Uint8Array, offset: number): (ZipManifestEntry & { descriptorLength: number }) | null {
+  if (offset + 30 > buffer.length) return null;
+
+  const versionNeeded = getUint16LE(buffer, offset + 4) & 0xff;
+  const flags = getUint16LE(buffer, offset + 6);
+  const compressionMethod = getUint16LE(buffer, offset + 8);
+  const filenameLength = getUint16LE(buffer, offset + 26);
+  const extraLength = getUint16LE(buffer, offset + 28);
+  if (versionNeeded > 63 || compressionMethod > 99 || filenameLength === 0 || filenameLength > MAX_FILENAME_LENGTH) return null;
+  if (offset + 30 + filenameLength > buffer.length) return null;
+
+  const name = decodeFilename(buffer.subarray(offset + 30, offset + 30 + filenameLength));
+  if (!name) return null;
+
+  let crc: number | null = getUint32LE(buffer, offset + 14);
+  let compressedSize: number | null = getUint32LE(buffer, offset + 18);
+  let uncompressedSize: number | null = getUint32LE(buffer, offset + 22);
+  const dataStart = offset + 30 + filenameLength + extraLength;
+
+  let zip64 = false;
+  if (compressedSize === UINT32_MAX || uncompressedSize === UINT32_MAX) {
+    const extra = findZip64Extra(buffer, offset + 30 + filenameLength, extraLength);
+    if (extra !== null && extra + 16 <= buffer.length) {
+      uncompressedSize = getUint64LE(buffer, extra);
+      compressedSize = getUint64LE(buffer, extra + 8);
+      zip64 = true;
+    } else {
+      compressedSize = null;
+      uncompressedSize = null;
+    }
+  }
+
+  const hasDataDescriptor = (flags & FLAG_DATA_DESCRIPTOR) !== 0;
+  let descriptorLength = 0;
+  if (hasDataDescriptor && !compressedSize) {
+    const descriptor = findDataDescriptor(buffer, dataStart);
+    if (descriptor) {
+      crc = descriptor.crc32;
+      compressedSize = descriptor.compressedSize;
+      uncompressedSize = descriptor.uncompressedSize;
+      descriptorLength = descriptor.length;
+      zip64 = zip64 || descriptor.zip64;
+    } else {
+      crc = null;
+      compressedSize = null;
+      uncompressedSize = null;
+    }
+  }
+
+  return {
+    name,
+    state: 'truncated',
+    compressionMethod,
+    flags,
+    crc32: crc,
+    compressedSize,
+    uncompressedSize,
+    localHeaderOffset: offset,
+    dataStart,
+    dataLength: 0,
+    hasDataDescriptor,
+    zip64,
+    inCentralDirectory: false,
+    descriptorLength,
+  };
+}
+
+function readCentralDirectoryRecord(buffer: Uint8Array, offset: number): { record: CentralDirectoryRecord; length: number } | null {
+  if (offset + 46 > buffer.length) return null;
+
+  const filenameLength = getUint16LE(buffer, offset + 28);
+  const extraLength = getUint16LE(buffer, offset + 30);
+  const commentLength = getUint16LE(buffer, offset + 32);
+  if (filenameLength === 0 || filenameLength > MAX_FILENAME_LENGTH || offset + 46 + filenameLength > buffer.length) return null;
+
+  const name = decodeFilename(buffer.subarray(offset + 46, offset + 46 + filenameLength));
+  if (!name) return null;
+
+  const record: CentralDirectoryRecord = {
+    name,
+    flags: getUint16LE(buffer, offset + 8),
+    compressionMethod: getUint16LE(buffer, offset + 10),
+    crc32: getUint32LE(buffer, offset + 16),
+    compressedSize: getUint32LE(buffer, offset + 20),
+    uncompressedSize: getUint32LE(buffer, offset + 24),
+    localHeaderOffset: getUint32LE(buffer, offset + 42),
+    zip64: false,
+  };
+
+  // ZIP64 extra fields only carry the values that overflowed, in this order
+  const extra = findZip64Extra(buffer, offset + 46 + filenameLength, extraLength);
+  if (extra !== null) {
+    let p = extra;
+    if (record.uncompressedSize === UINT32_MAX && p + 8 <= buffer.length) {
+      record.uncompressedSize = getUint64LE(buffer, p);
+      p += 8;
+    }
+    if (record.compressedSize === UINT32_MAX && p + 8 <= buffer.length) {
+      record.compressedSize = getUint64LE(buffer, p);
+      p += 8;
+    }
+    if (record.localHeaderOffset === UINT32_MAX && p + 8 <= buffer.length) {
+      record.localHeaderOffset = getUint64LE(buffer, p);
+    }
+    record.zip64 = true;
+  }
+
+  return { record, length: 46 + filenameLength + extraLength + commentLength };
+}
+
+function readEndOfCentralDirectory(buffer: Uint8Array): EndOfCentralDirectory | null {
+  // The record is at most 22 bytes plus a 64 KiB comment from the end
+  const lowest = Math.max(0, buffer.length - 22 - UINT16_MAX);
+  for (let p = buffer.length - 22; p >= lowest; p--) {
+    if (getUint32LE(buffer, p) !== END_OF_CENTRAL_DIRECTORY) continue;
+
+    let totalEntries = getUint16LE(buffer, p + 10);
+    let centralDirectoryOffset = getUint32LE(buffer, p + 16);
+
+    if (totalEntries === UINT16_MAX || centralDirectoryOffset === UINT32_MAX) {
+      const locator = p - 20;
+      if (readSignature(buffer, locator) === ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR) {
+        const record = getUint64LE(buffer, locator + 8);
+        if (readSignature(buffer, record) === ZIP64_END_OF_CENTRAL_DIRECTORY && record + 56 <= buffer.length) {
+          totalEntries = getUint64LE(buffer, record + 32);
+          centralDirectoryOffset = getUint64LE(buffer, record + 48);
+        }
+      }
+    }
+
+    return { totalEntries, centralDirectoryOffset };
+  }
+  return null;
+}
+
+function isEntryBoundary(buffer: Uint8Array, offset: number): boolean {
+  if (offset === buffer.length) return true;
+  const signature = readSignature(buffer, offset);
+  return signature === LOCAL_FILE_HEADER ||
+    signature === CENTRAL_DIRECTORY_HEADER ||
+    signature === END_OF_CENTRAL_DIRECTORY ||
+    signature === ZIP64_END_OF_CENTRAL_DIRECTORY;
+}
+
+// Work out how many data bytes are available and whether they are all there
+function settleEntryData(entry: ZipManifestEntry, buffer: Uint8Array, nextHeader: number): void {
+  if (entry.localHeaderOffset === null) return;
+
+  if (entry.compressedSize !== null) {
+    const available = Math.max(0, buffer.length - entry.dataStart);
+    entry.dataLength = Math.min(entry.compressedSize, available);
+    entry.state = entry.dataStart + entry.compressedSize <= buffer.length ? 'intact' : 'truncated';
+  } else {
+    entry.dataLength = Math.max(0, nextHeader - entry.dataStart);
+    entry.state = 'truncated';
+  }
+}
+
+export function salvageZip(buffer: Uint8Array): ZipManifest {
+  // Every plausible local header, skipping over entry data when its size
+  // is trustworthy so nested archives are not mistaken for entries
+  const localEntries: ZipManifestEntry[] = [];
+  for (let i = 0; i + 30 <= buffer.length;) {
+    if (getUint32LE(buffer, i) !== LOCAL_FILE_HEADER) {
+      i++;
+      continue;
+    }
+    const entry = readLocalHeader(buffer, i);
+    if (!entry) {
+      i++;
+      continue;
+    }
+
+    const { descriptorLength, ...manifestEntry } = entry;
+    localEntries.push(manifestEntry);
+    const end = entry.compressedSize !== null ? entry.dataStart + entry.compressedSize + descriptorLength : -1;
+    i = end > i && isEntryBoundary(buffer, end) ? end : i + 4;
+  }
+
+  // Every central directory record that survived, wherever it is
+  const centralRecords: CentralDirectoryRecord[] = [];
+  let firstRecordOffset = -1;
+  for (let i = 0; i + 46 <= buffer.length;) {
+    if (getUint32LE(buffer, i) !== CENTRAL_DIRECTORY_HEADER) {
+      i++;
+      continue;
+    }
+    const parsed = readCentralDirectoryRecord(buffer, i);
+    if (!parsed) {
+      i++;
+      continue;
+    }
+    if (firstRecordOffset === -1) firstRecordOffset = i;
+    centralRecords.push(parsed.record);
+    i += parsed.length;
+  }
+
+  // Offsets in the central directory are relative to the archive start, which
+  // moves when data was prepended (self-extractors, partial downloads)
+  const end = readEndOfCentralDirectory(buffer);
+  let offsetShift = 0;
+  if (end && firstRecordOffset !== -1 && firstRecordOffset >= end.centralDirectoryOffset) {
+    offsetShift = firstRecordOffset - end.centralDirectoryOffset;
+  } else if (centralRecords.length > 0) {
+    const anchor = localEntries.find(entry => entry.name === centralRecords[0].name);
+    if (anchor?.localHeaderOffset != null) offsetShift = anchor.localHeaderOffset - centralRecords[0].localHeaderOffset;
+  }
+
+  const byOffset = new Map(localEntries.map(entry => [entry.localHeaderOffset, entry]));
+  const matched = new Set<ZipManifestEntry>();
+  const entries: ZipManifestEntry[] = [];
+
+  for (const record of centralRecords) {
+    let entry = byOffset.get(record.localHeaderOffset + offsetShift);
+    if (!entry || entry.name !== record.name || matched.has(entry)) {
+      entry = localEntries.find(candidate => !matched.has(candidate) && candidate.name === record.name);
+    }
+
+    if (entry) {
+      matched.add(entry);
+      entry.inCentralDirectory = true;
+      entry.zip64 = entry.zip64 || record.zip64;
+      if (entry.crc32 === null || (entry.hasDataDescriptor && !entry.crc32)) entry.crc32 = record.crc32;
+      if (entry.compressedSize === null) entry.compressedSize = record.compressedSize;
+      if (entry.uncompressedSize === null) entry.uncompressedSize = record.uncompressedSize;
+      entries.push(entry);
+    } else {
+      entries.push({
+        name: record.name,
+        state: 'missing',
+        compressionMethod: record.compressionMethod,
+        flags: record.flags,
+        crc32: record.crc32,
+        compressedSize: record.compressedSize,
+        uncompressedSize: record.uncompressedSize,
+        localHeaderOffset: null,
+        dataStart: 0,
+        dataLength: 0,
+        hasDataDescriptor: (record.flags & FLAG_DATA_DESCRIPTOR) !== 0,
+        zip64: record.zip64,
+        inCentralDirectory: true,
+      });
+    }
+  }
+  entries.push(...localEntries.filter(entry => !matched.has(entry)));
+
+  // Archive order, with entries known only from the central directory last
+  entries.sort((a, b) => (a.localHeaderOffset ?? Infinity) - (b.localHeaderOffset ?? Infinity));
+  const headerOffsets = localEntries.map(entry => entry.localHeaderOffset!);
+  for (const entry of entries) {
+    const next = headerOffsets.find(offset => offset > entry.localHeaderOffset!) ?? buffer.length;
+    settleEntryData(entry, buffer, next);
+  }
+
+  let centralDirectory: ZipManifest['centralDirectory'] = 'missing';
+  if (centralRecords.length > 0) {
+    centralDirectory = end && end.totalEntries === centralRecords.length ? 'intact' : 'partial';
+  }
+
+  return {
+    entries,
+    centralDirectory,
+    leadingBytes: localEntries.length > 0 ? localEntries[0].localHeaderOffset! : 0,
+  };
+}
+
+// Best copy of a named entry: intact beats truncated beats missing
+export function getManifestEntry(manifest: ZipManifest, name: string): ZipManifestEntry | undefined {
+  const rank: Record<ZipEntryState, number> = { intact: 0, truncated: 1, missing: 2 };
+  return manifest.entries
+    .filter(entry => entry.name === name)
+    .sort((a, b) => rank[a.state] - rank[b.state])[0];
+}
+
+// The compressed bytes of an entry that are actually present in the buffer
+export function getEntryData(buffer: Uint8Array, entry: ZipManifestEntry): Uint8Array {
+  return buffer.subarray(entry.dataStart, entry.dataStart + entry.dataLength);
+}
@@ -0,0 +1,50 @@
+-- Record every repair so past results can be listed and downloaded again
+CREATE TABLE public.repair_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Random id kept by the browser that asked for the repair
+  client_id TEXT NOT NULL,
+  -- Signed-in user who asked for the repair; anonymous repairs have none and
+  -- cannot be read back through the API
+  user_id UUID REFERENCES auth.users (id) ON DELETE CASCADE,
+  original_name TEXT NOT NULL,
+  original_size BIGINT,
+  detected_type TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('success', 'partial', 'failed')),
+  output_name TEXT,
+  output_type TEXT,
+  issues TEXT[] NOT NULL DEFAULT '{}',
+  report JSONB,
+  -- Objects in the file-repairs bucket; null when the file was never stored
+  source_path TEXT,
+  output_path TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX repair_jobs_client_created_idx ON public.repair_jobs (client_id, created_at DESC);
+
+ALTER TABLE public.repair_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are written by the edge function with the service role. A client id
+-- is only a hint the browser filters by, so reads and deletions are limited
+-- to the user the job belongs to.
+CREATE POLICY "Users read their own repair jobs" ON public.repair_jobs
+FOR SELECT TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users delete their own repair jobs" ON public.repair_jobs
+FOR DELETE TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_repair_jobs_updated_at
+BEFORE UPDATE ON public.repair_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,9 @@
+-- Track background repairs on their job row: the stage they have reached,
+-- how far through they are, and the result the browser is waiting for
+ALTER TABLE public.repair_jobs
+  DROP CONSTRAINT repair_jobs_status_check,
+  ADD CONSTRAINT repair_jobs_status_check CHECK (status IN ('processing', 'success', 'partial', 'failed')),
+  ADD COLUMN stage TEXT NOT NULL DEFAULT 'done'
+    CHECK (stage IN ('queued', 'scanning', 'inflating', 'rebuilding', 'packaging', 'storing', 'done')),
+  ADD COLUMN progress INTEGER NOT NULL DEFAULT 100 CHECK (progress BETWEEN 0 AND 100),
+  ADD COLUMN result JSONB;
@@ -0,0 +1,145 @@
+-- Results are private to the signed-in user who asked for them. Files live
+-- under a folder named after the user's id, and repair jobs belong to a user
+-- rather than to a browser.
+
+-- Storage: replace the open policies with ones scoped to the user's folder
+DROP POLICY "Allow file uploads" ON storage.objects;
+DROP POLICY "Allow file downloads" ON storage.objects;
+DROP POLICY "Allow file updates" ON storage.objects;
+DROP POLICY "Allow file deletions" ON storage.objects;
+
+CREATE POLICY "Users upload to their own repair folder" ON storage.objects
+FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'file-repairs' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users read their own repair files" ON storage.objects
+FOR SELECT TO authenticated
+USING (bucket_id = 'file-repairs' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users update their own repair files" ON storage.objects
+FOR UPDATE TO authenticated
+USING (bucket_id = 'file-repairs' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users delete their own repair files" ON storage.objects
+FOR DELETE TO authenticated
+USING (bucket_id = 'file-repairs' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Jobs recorded before sign-in carry only the id of the browser that asked
+-- for them. They are kept, with their stored files, until a user signs in on
+-- that browser and claims them.
+ALTER TABLE public.repair_jobs ALTER COLUMN client_id DROP NOT NULL;
+
+CREATE INDEX repair_jobs_user_created_idx ON public.repair_jobs (user_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.claim_repair_jobs(_client_id TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  claimed INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to claim repair jobs';
+  END IF;
+
+  UPDATE public.repair_jobs
+  SET user_id = auth.uid()
+  WHERE user_id IS NULL AND client_id = _client_id;
+  GET DIAGNOSTICS claimed = ROW_COUNT;
+  RETURN claimed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_repair_jobs(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_repair_jobs(TEXT) TO authenticated;
+
+-- Files stored before sign-in sit outside any user's folder. A user can
+-- still read and delete the ones their claimed jobs name, and the media
+-- kept in the same folder as a repaired file.
+CREATE POLICY "Users read files of their claimed repair jobs" ON storage.objects
+FOR SELECT TO authenticated
+USING (
+  bucket_id = 'file-repairs' AND EXISTS (
+    SELECT 1 FROM public.repair_jobs j
+    WHERE j.user_id = auth.uid() AND j.client_id IS NOT NULL AND (
+      name = j.source_path OR
+      storage.foldername(name) = storage.foldername(j.output_path)
+    )
+  )
+);
+
+CREATE POLICY "Users delete files of their claimed repair jobs" ON storage.objects
+FOR DELETE TO authenticated
+USING (
+  bucket_id = 'file-repairs' AND EXISTS (
+    SELECT 1 FROM public.repair_jobs j
+    WHERE j.user_id = auth.uid() AND j.client_id IS NOT NULL AND (
+      name = j.source_path OR
+      storage.foldername(name) = storage.foldername(j.output_path)
+    )
+  )
+);
+
+-- Daily usage, kept apart from the jobs so deleting history does not give
+-- back quota
+CREATE TABLE public.repair_usage (
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  day DATE NOT NULL DEFAULT current_date,
+  repairs INTEGER NOT NULL DEFAULT 0,
+  bytes BIGINT NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, day)
+);
+
+ALTER TABLE public.repair_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their own repair usage" ON public.repair_usage
+FOR SELECT TO authenticated
+USING (auth.uid() = user_id);
+
+-- Count a repair against the user's quota for today and open its job row.
+-- The usage row is locked, so concurrent requests cannot both take the last
+-- slot. Raises PT429, which PostgREST returns as HTTP 429, when the repair
+-- would go over either limit.
+CREATE OR REPLACE FUNCTION public.start_repair_job(
+  _user_id UUID,
+  _original_name TEXT,
+  _original_size BIGINT,
+  _source_path TEXT,
+  _max_repairs INTEGER,
+  _max_bytes BIGINT
+)
+RETURNS UUID AS $$
+DECLARE
+  used_repairs INTEGER;
+  used_bytes BIGINT;
+  job_id UUID;
+BEGIN
+  INSERT INTO public.repair_usage (user_id, day) VALUES (_user_id, current_date)
+  ON CONFLICT (user_id, day) DO NOTHING;
+
+  SELECT repairs, bytes INTO used_repairs, used_bytes
+  FROM public.repair_usage
+  WHERE user_id = _user_id AND day = current_date
+  FOR UPDATE;
+
+  IF used_repairs >= _max_repairs THEN
+    RAISE EXCEPTION 'You have used all % repairs for today', _max_repairs USING ERRCODE = 'PT429';
+  END IF;
+  IF used_bytes + _original_size > _max_bytes THEN
+    RAISE EXCEPTION 'This file would take you over today''s limit of % MB of repairs', _max_bytes / (1024 * 1024)
+      USING ERRCODE = 'PT429';
+  END IF;
+
+  UPDATE public.repair_usage
+  SET repairs = repairs + 1, bytes = bytes + _original_size
+  WHERE user_id = _user_id AND day = current_date;
+
+  INSERT INTO public.repair_jobs (user_id, original_name, original_size, detected_type, status, stage, progress, source_path)
+  VALUES (_user_id, _original_name, _original_size, 'unknown', 'processing', 'queued', 0, _source_path)
+  RETURNING id INTO job_id;
+
+  RETURN job_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the edge function, which passes the limits, may start jobs
+REVOKE EXECUTE ON FUNCTION public.start_repair_job(UUID, TEXT, BIGINT, TEXT, INTEGER, BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.start_repair_job(UUID, TEXT, BIGINT, TEXT, INTEGER, BIGINT) TO service_role;
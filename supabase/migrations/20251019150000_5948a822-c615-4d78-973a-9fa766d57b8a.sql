@@ -0,0 +1,28 @@
+-- A background repair whose worker died leaves its row processing for good.
+-- The browser following it gives up after a while of silence and closes the
+-- row as timed out, with a failed result it and the history can show.
+CREATE OR REPLACE FUNCTION public.fail_stalled_repair_job(_job_id UUID, _stalled_after INTERVAL)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.repair_jobs
+  SET status = 'failed',
+      stage = 'done',
+      progress = 100,
+      issues = ARRAY['The repair stopped responding'],
+      result = jsonb_build_object(
+        'version', 1,
+        'success', false,
+        'fileName', original_name,
+        'status', 'failed',
+        'issues', jsonb_build_array('The repair stopped responding'),
+        'errorCode', 'timeout'
+      )
+  WHERE id = _job_id
+    AND user_id = auth.uid()
+    AND status = 'processing'
+    AND updated_at < now() - _stalled_after;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.fail_stalled_repair_job(UUID, INTERVAL) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.fail_stalled_repair_job(UUID, INTERVAL) TO authenticated;
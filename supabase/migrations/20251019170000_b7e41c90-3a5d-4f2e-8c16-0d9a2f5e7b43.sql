@@ -0,0 +1,16 @@
+-- Repair history needs a signed-in user from the start, so jobs no longer
+-- carry the id of the browser that asked for them and there is nothing left
+-- to claim after sign-in.
+DROP POLICY "Users read files of their claimed repair jobs" ON storage.objects;
+DROP POLICY "Users delete files of their claimed repair jobs" ON storage.objects;
+
+DROP FUNCTION public.claim_repair_jobs(TEXT);
+
+-- Jobs without a user could never be read back through the API
+DELETE FROM public.repair_jobs WHERE user_id IS NULL;
+
+DROP INDEX public.repair_jobs_client_created_idx;
+
+ALTER TABLE public.repair_jobs
+  DROP COLUMN client_id,
+  ALTER COLUMN user_id SET NOT NULL;